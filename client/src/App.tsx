@@ -5,9 +5,17 @@ import { Toaster } from "@/components/ui/toaster";
 import Dashboard from "./pages/Dashboard";
 import Portfolio from "./pages/Portfolio";
 import StockPage from "./pages/StockPage";
+import Backtests from "./pages/Backtests";
+import Alerts from "./pages/Alerts";
+import Screener from "./pages/Screener";
+import Leagues from "./pages/Leagues";
+import League from "./pages/League";
+import AuthPage from "./pages/AuthPage";
 import NotFound from "@/pages/not-found";
 import MarketHeader from "./components/MarketHeader";
 import Footer from "./components/Footer";
+import { AuthProvider } from "./hooks/use-auth";
+import { ProtectedRoute } from "./lib/protected-route";
 
 function Router() {
   return (
@@ -15,8 +23,14 @@ function Router() {
       <MarketHeader />
       <div className="flex-grow">
         <Switch>
-          <Route path="/" component={Dashboard} />
-          <Route path="/portfolio" component={Portfolio} />
+          <ProtectedRoute path="/" component={Dashboard} />
+          <ProtectedRoute path="/portfolio" component={Portfolio} />
+          <ProtectedRoute path="/backtests" component={Backtests} />
+          <ProtectedRoute path="/alerts" component={Alerts} />
+          <ProtectedRoute path="/screener" component={Screener} />
+          <ProtectedRoute path="/leagues" component={Leagues} />
+          <ProtectedRoute path="/leagues/:id" component={League} />
+          <Route path="/auth" component={AuthPage} />
           <Route path="/stock/:symbol" component={StockPage} />
           <Route component={NotFound} />
         </Switch>
@@ -29,8 +43,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
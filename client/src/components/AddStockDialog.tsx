@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { 
   Dialog, 
   DialogContent, 
@@ -23,7 +23,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { useStockSearch } from "@/hooks/use-stock-search";
 
 // Form schema
 const formSchema = z.object({
@@ -42,7 +43,6 @@ export default function AddStockDialog({ open, onOpenChange }: AddStockDialogPro
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedStock, setSelectedStock] = useState<{ symbol: string; name: string } | null>(null);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
 
   // Initialize form
   const form = useForm<z.infer<typeof formSchema>>({
@@ -56,21 +56,13 @@ export default function AddStockDialog({ open, onOpenChange }: AddStockDialogPro
   });
 
   // Search for stock
-  const { data: searchResults, isLoading } = useQuery({
-    queryKey: ['/api/stocks/search', searchQuery],
-    queryFn: async () => {
-      if (!searchQuery || searchQuery.length < 2) return { bestMatches: [] };
-      return fetch(`/api/stocks/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
-    },
-    enabled: searchQuery.length >= 2,
-  });
+  const { data: searchResults, isLoading } = useStockSearch(searchQuery);
 
   // Add stock mutation
   const mutation = useMutation({
     mutationFn: async (values: z.infer<typeof formSchema>) => {
       return apiRequest('POST', '/api/portfolio', {
         ...values,
-        userId: 1, // Using demo user id
         purchaseDate: new Date(),
       });
     },
@@ -79,14 +71,14 @@ export default function AddStockDialog({ open, onOpenChange }: AddStockDialogPro
         title: "Stock added",
         description: "The stock has been added to your portfolio",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+      invalidateLedgerQueries();
       onOpenChange(false);
       resetForm();
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to add stock to portfolio",
+        description: error.message || "Failed to add stock to portfolio",
         variant: "destructive",
       });
     },
@@ -137,22 +129,22 @@ export default function AddStockDialog({ open, onOpenChange }: AddStockDialogPro
                   </div>
                 )}
                 
-                {!isLoading && searchResults?.bestMatches?.length > 0 && (
+                {!isLoading && (searchResults?.results.length ?? 0) > 0 && (
                   <div className="max-h-[200px] overflow-y-auto border rounded-md">
-                    {searchResults.bestMatches.map((result: any) => (
+                    {searchResults!.results.map((result) => (
                       <div
-                        key={result["1. symbol"]}
+                        key={result.symbol}
                         className="p-2 hover:bg-neutral-100 cursor-pointer"
-                        onClick={() => handleSelectStock(result["1. symbol"], result["2. name"])}
+                        onClick={() => handleSelectStock(result.symbol, result.name)}
                       >
-                        <div className="font-medium">{result["1. symbol"]}</div>
-                        <div className="text-sm text-neutral-600">{result["2. name"]}</div>
+                        <div className="font-medium">{result.symbol}</div>
+                        <div className="text-sm text-neutral-600">{result.name}</div>
                       </div>
                     ))}
                   </div>
                 )}
                 
-                {!isLoading && searchQuery && (!searchResults?.bestMatches || searchResults.bestMatches.length === 0) && (
+                {!isLoading && searchQuery && (!searchResults || searchResults.results.length === 0) && (
                   <div className="p-2 text-sm text-neutral-600 border rounded-md">
                     No results found. Try another search term.
                   </div>
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { 
   Dialog, 
   DialogContent, 
@@ -24,6 +24,7 @@ import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useStockSearch } from "@/hooks/use-stock-search";
 
 // Form schema
 const formSchema = z.object({
@@ -51,22 +52,12 @@ export default function AddWatchlistDialog({ open, onOpenChange }: AddWatchlistD
   });
 
   // Search for stock
-  const { data: searchResults, isLoading } = useQuery({
-    queryKey: ['/api/stocks/search', searchQuery],
-    queryFn: async () => {
-      if (!searchQuery || searchQuery.length < 2) return { bestMatches: [] };
-      return fetch(`/api/stocks/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
-    },
-    enabled: searchQuery.length >= 2,
-  });
+  const { data: searchResults, isLoading } = useStockSearch(searchQuery);
 
   // Add to watchlist mutation
   const mutation = useMutation({
     mutationFn: async (values: z.infer<typeof formSchema>) => {
-      return apiRequest('POST', '/api/watchlist', {
-        ...values,
-        userId: 1, // Using demo user id
-      });
+      return apiRequest('POST', '/api/watchlist', values);
     },
     onSuccess: () => {
       toast({
@@ -134,22 +125,22 @@ export default function AddWatchlistDialog({ open, onOpenChange }: AddWatchlistD
               </div>
             )}
             
-            {!isLoading && searchResults?.bestMatches?.length > 0 && (
+            {!isLoading && (searchResults?.results.length ?? 0) > 0 && (
               <div className="max-h-[200px] overflow-y-auto border rounded-md">
-                {searchResults.bestMatches.map((result: any) => (
+                {searchResults!.results.map((result) => (
                   <div
-                    key={result["1. symbol"]}
+                    key={result.symbol}
                     className="p-2 hover:bg-neutral-100 cursor-pointer"
-                    onClick={() => handleSelectStock(result["1. symbol"], result["2. name"])}
+                    onClick={() => handleSelectStock(result.symbol, result.name)}
                   >
-                    <div className="font-medium">{result["1. symbol"]}</div>
-                    <div className="text-sm text-neutral-600">{result["2. name"]}</div>
+                    <div className="font-medium">{result.symbol}</div>
+                    <div className="text-sm text-neutral-600">{result.name}</div>
                   </div>
                 ))}
               </div>
             )}
             
-            {!isLoading && searchQuery && (!searchResults?.bestMatches || searchResults.bestMatches.length === 0) && (
+            {!isLoading && searchQuery && (!searchResults || searchResults.results.length === 0) && (
               <div className="p-2 text-sm text-neutral-600 border rounded-md">
                 No results found. Try another search term.
               </div>
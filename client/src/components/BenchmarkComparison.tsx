@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import TimeframeButtons, { type TimeframeType } from "./TimeframeButtons";
+import { timeframeRanges } from "./PortfolioPerformance";
+import { formatPercent } from "../utils/formatters";
+import { benchmarks, type BenchmarkComparisonResponse } from "@shared/performance";
+
+// Benchmark statistics need a few weeks of daily returns, so the shortest timeframes are left out
+const benchmarkTimeframes: TimeframeType[] = ["1M", "3M", "1Y", "5Y"];
+
+function Statistic({ label, value, hint }: { label: string; value: string; hint: string }) {
+  return (
+    <div title={hint}>
+      <p className="text-sm text-neutral-600 mb-1">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+    </div>
+  );
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function formatOptionalPercent(value: number | null): string {
+  return value === null ? "—" : formatPercent(value);
+}
+
+// Portfolio's time-weighted return overlaid on a market index, with alpha, beta,
+// tracking error and information ratio computed on the server
+export default function BenchmarkComparison() {
+  const [symbol, setSymbol] = useState(benchmarks[0].symbol);
+  const [timeframe, setTimeframe] = useState<TimeframeType>("1Y");
+  const range = timeframeRanges[timeframe as keyof typeof timeframeRanges];
+
+  const { data, isLoading, error } = useQuery<BenchmarkComparisonResponse>({
+    queryKey: [`/api/portfolio/benchmark?symbol=${encodeURIComponent(symbol)}&range=${range}`],
+  });
+
+  const series = data?.series || [];
+  const benchmarkName = benchmarks.find(benchmark => benchmark.symbol === symbol)?.name || symbol;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Benchmark Comparison</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={symbol} onValueChange={setSymbol}>
+            <SelectTrigger className="w-40" aria-label="Benchmark">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {benchmarks.map((benchmark) => (
+                <SelectItem key={benchmark.symbol} value={benchmark.symbol}>{benchmark.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <TimeframeButtons value={timeframe} onChange={setTimeframe} options={benchmarkTimeframes} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : error || series.length < 2 ? (
+          <div className="flex items-center justify-center h-[200px]">
+            <p className="text-neutral-600">
+              {error ? "Error loading benchmark comparison" : "Not enough history yet for the selected timeframe"}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+              <Statistic label="Portfolio" value={formatOptionalPercent(data!.portfolioReturn)} hint="Time-weighted return over the timeframe" />
+              <Statistic label={benchmarkName} value={formatOptionalPercent(data!.benchmarkReturn)} hint="Index return over the timeframe" />
+              <Statistic label="Alpha" value={formatOptionalPercent(data!.alpha)} hint="Annualized return not explained by the benchmark" />
+              <Statistic label="Beta" value={formatRatio(data!.beta)} hint="Sensitivity of daily returns to the benchmark's" />
+              <Statistic
+                label="Tracking Error"
+                value={data!.trackingError === null ? "—" : `${data!.trackingError.toFixed(2)}%`}
+                hint="Annualized volatility of the return difference"
+              />
+              <Statistic label="Information Ratio" value={formatRatio(data!.informationRatio)} hint="Annualized excess return per unit of tracking error" />
+            </div>
+
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={series} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date: string) => new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                    tick={{ fontSize: 12 }}
+                    minTickGap={30}
+                  />
+                  <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} tick={{ fontSize: 12 }} width={50} />
+                  <Tooltip
+                    formatter={(value: number) => formatPercent(value)}
+                    labelFormatter={(date: string) => new Date(date).toLocaleDateString("en-US", { timeZone: "UTC" })}
+                  />
+                  <Legend />
+                  <ReferenceLine y={0} stroke="#ADB5BD" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="portfolio" name="Portfolio" stroke="#0F4C81" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="benchmark" name={benchmarkName} stroke="#D97706" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency, formatNumber } from "../utils/formatters";
+import type { FinancialPeriod, FinancialsResponse } from "@shared/marketData";
+
+type FinancialField = Exclude<keyof FinancialPeriod, "periodEnd">;
+
+interface FinancialLine {
+  field: FinancialField;
+  label: string;
+}
+
+const incomeStatement: FinancialLine[] = [
+  { field: "revenue", label: "Revenue" },
+  { field: "grossProfit", label: "Gross Profit" },
+  { field: "operatingIncome", label: "Operating Income" },
+  { field: "netIncome", label: "Net Income" },
+  { field: "eps", label: "Diluted EPS" },
+];
+
+const balanceSheet: FinancialLine[] = [
+  { field: "totalAssets", label: "Total Assets" },
+  { field: "totalLiabilities", label: "Total Liabilities" },
+  { field: "shareholdersEquity", label: "Shareholders' Equity" },
+  { field: "cash", label: "Cash & Equivalents" },
+  { field: "totalDebt", label: "Total Debt" },
+];
+
+// Quarters shown, newest first
+const QUARTERS_SHOWN = 4;
+
+function formatFigure(field: FinancialField, value: number | undefined): string {
+  if (value === undefined) return "—";
+  // EPS is per share; everything else is a company-wide total
+  return field === "eps" ? formatCurrency(value) : `$${formatNumber(value)}`;
+}
+
+function quarterLabel(periodEnd: string): string {
+  return new Date(periodEnd).toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+function StatementTable({ title, lines, quarters }: { title: string; lines: FinancialLine[]; quarters: FinancialPeriod[] }) {
+  // Statements a provider doesn't report for this company are left out
+  const reported = lines.filter(line => quarters.some(quarter => quarter[line.field] !== undefined));
+  if (reported.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-amber-200 mb-2">{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-amber-700/30">
+            <TableHead className="text-amber-300/70">Quarter ended</TableHead>
+            {quarters.map(quarter => (
+              <TableHead key={quarter.periodEnd} className="text-right text-amber-300/70">{quarterLabel(quarter.periodEnd)}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {reported.map(line => (
+            <TableRow key={line.field} className="border-amber-700/30">
+              <TableCell className="text-amber-300/70">{line.label}</TableCell>
+              {quarters.map(quarter => (
+                <TableCell key={quarter.periodEnd} className="text-right font-medium text-amber-200">
+                  {formatFigure(line.field, quarter[line.field])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Quarterly income statement and balance sheet figures for the fundamentals tab
+export default function CompanyFundamentals({ symbol }: { symbol: string }) {
+  const { data, isLoading, isError } = useQuery<FinancialsResponse>({
+    queryKey: [`/api/stocks/financials/${encodeURIComponent(symbol)}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(6)].map((_, i) => (
+          <Skeleton key={i} className="h-8 w-full bg-amber-800/30" />
+        ))}
+      </div>
+    );
+  }
+
+  const quarters = (data?.quarters || []).slice(-QUARTERS_SHOWN).reverse();
+
+  if (isError || quarters.length === 0) {
+    return (
+      <p className="text-sm text-amber-300/70 py-6 text-center">
+        No quarterly financials are available for {symbol}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <StatementTable title="Income Statement" lines={incomeStatement} quarters={quarters} />
+      <StatementTable title="Balance Sheet" lines={balanceSheet} quarters={quarters} />
+    </div>
+  );
+}
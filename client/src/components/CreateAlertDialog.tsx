@@ -0,0 +1,275 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "../utils/formatters";
+import { alertConditions, type Alert, type AlertCondition } from "@shared/schema";
+import { isPrivateHostname } from "@shared/webhooks";
+
+export const alertConditionLabels: Record<AlertCondition, string> = {
+  price_above: "Price rises above",
+  price_below: "Price falls below",
+  percent_change: "Moves by % in a day",
+  cross_above_sma: "Crosses above moving average",
+  cross_below_sma: "Crosses below moving average",
+  volume_spike: "Volume spike",
+};
+
+// One-line summary of what an alert is waiting for
+export function describeAlert(alert: Pick<Alert, "condition" | "threshold" | "period">): string {
+  const threshold = Number(alert.threshold);
+  switch (alert.condition) {
+    case "price_above":
+      return `Price above ${formatCurrency(threshold)}`;
+    case "price_below":
+      return `Price below ${formatCurrency(threshold)}`;
+    case "percent_change":
+      return `Moves ${threshold}% or more in a day`;
+    case "cross_above_sma":
+      return `Crosses above ${alert.period}-day average`;
+    case "cross_below_sma":
+      return `Crosses below ${alert.period}-day average`;
+    case "volume_spike":
+      return `Volume ${threshold}x its ${alert.period}-day average`;
+  }
+}
+
+const usesThreshold = (condition: AlertCondition) =>
+  condition !== "cross_above_sma" && condition !== "cross_below_sma";
+
+const usesPeriod = (condition: AlertCondition) =>
+  condition === "cross_above_sma" || condition === "cross_below_sma" || condition === "volume_spike";
+
+const thresholdLabels: Record<AlertCondition, string> = {
+  price_above: "Price",
+  price_below: "Price",
+  percent_change: "Percent move",
+  cross_above_sma: "",
+  cross_below_sma: "",
+  volume_spike: "Multiple of average volume",
+};
+
+// Form schema
+const formSchema = z.object({
+  symbol: z.string().trim().min(1, "Symbol is required"),
+  condition: z.enum(alertConditions),
+  threshold: z.coerce.number().optional(),
+  period: z.coerce.number().optional(),
+  webhookUrl: z.string().trim().url("Enter a valid URL")
+    .refine(url => !URL.canParse(url) || !isPrivateHostname(new URL(url).hostname), "Must point to a public host")
+    .or(z.literal("")),
+}).superRefine((values, ctx) => {
+  if (usesThreshold(values.condition) && !(values.threshold && values.threshold > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Must be a positive number" });
+  }
+  if (usesPeriod(values.condition)) {
+    const period = values.period;
+    if (!period || !Number.isInteger(period) || period < 2 || period > 200) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["period"], message: "Must be a whole number of days from 2 to 200" });
+    }
+  }
+});
+
+type AlertForm = z.infer<typeof formSchema>;
+
+interface CreateAlertDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills and locks the symbol, e.g. when opened from a stock page
+  symbol?: string;
+}
+
+export default function CreateAlertDialog({ open, onOpenChange, symbol }: CreateAlertDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<AlertForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      symbol: symbol || "",
+      condition: "price_above",
+      period: 50,
+      webhookUrl: "",
+    },
+  });
+
+  // Follow the page's symbol when the dialog is reused across stocks
+  useEffect(() => {
+    if (symbol) form.setValue("symbol", symbol);
+  }, [symbol, form]);
+
+  const condition = form.watch("condition");
+
+  const mutation = useMutation({
+    mutationFn: async (values: AlertForm) => {
+      return apiRequest("POST", "/api/alerts", {
+        symbol: values.symbol.toUpperCase(),
+        condition: values.condition,
+        threshold: usesThreshold(values.condition) ? values.threshold : undefined,
+        period: usesPeriod(values.condition) ? values.period : undefined,
+        webhookUrl: values.webhookUrl || undefined,
+      });
+    },
+    onSuccess: (_response, values) => {
+      toast({
+        title: "Alert created",
+        description: `You'll be notified when ${values.symbol.toUpperCase()} meets the condition`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      onOpenChange(false);
+      form.reset({ symbol: symbol || "", condition: values.condition, period: 50, webhookUrl: "" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Create Price Alert</DialogTitle>
+          <DialogDescription>
+            Get a notification when a stock meets a condition. Alerts switch off once they fire.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="symbol"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Symbol</FormLabel>
+                  <FormControl>
+                    <Input placeholder="AAPL" className="uppercase" disabled={!!symbol} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="condition"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Condition</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {alertConditions.map((alertCondition) => (
+                        <SelectItem key={alertCondition} value={alertCondition}>
+                          {alertConditionLabels[alertCondition]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {(usesThreshold(condition) || usesPeriod(condition)) && (
+              <div className="grid grid-cols-2 gap-4">
+                {usesThreshold(condition) && (
+                  <FormField
+                    control={form.control}
+                    name="threshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{thresholdLabels[condition]}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="any" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        {condition === "percent_change" && <FormDescription>Up or down from the previous close</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {usesPeriod(condition) && (
+                  <FormField
+                    control={form.control}
+                    name="period"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Days</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="2" max="200" step="1" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="webhookUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Webhook URL (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="url" placeholder="https://example.com/hooks/alerts" {...field} />
+                  </FormControl>
+                  <FormDescription>Triggered alerts are also POSTed here as JSON</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : "Create Alert"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,220 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatHash } from "../utils/formatters";
+import type { FantasyTokenSummary } from "@shared/fantasyTokens";
+
+// Form schema
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  symbol: z.string().trim().regex(/^[A-Za-z0-9]{2,10}$/, "Use 2-10 letters or digits"),
+  baseStock: z.string().trim(),
+  issuePrice: z.coerce.number().positive("Must be a positive number"),
+  totalSupply: z.coerce.number().positive("Must be a positive number"),
+  poolShare: z.coerce.number().min(1, "At least 1%").max(100, "At most 100%"),
+  // Blank for a token that floats with trading
+  pegMultiplier: z.union([z.literal(""), z.coerce.number().positive("Must be a positive number").max(100)]),
+}).refine(values => values.pegMultiplier === "" || values.baseStock, {
+  message: "Pegged tokens need a base stock",
+  path: ["baseStock"],
+});
+
+type TokenForm = z.infer<typeof formSchema>;
+
+const defaultValues: TokenForm = { name: "", symbol: "", baseStock: "", issuePrice: 100, totalSupply: 10000, poolShare: 50, pegMultiplier: "" };
+
+interface CreateFantasyTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CreateFantasyTokenDialog({ open, onOpenChange }: CreateFantasyTokenDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<TokenForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues,
+  });
+
+  const isPegged = form.watch("pegMultiplier") !== "";
+
+  const mutation = useMutation({
+    mutationFn: async (values: TokenForm) => {
+      const response = await apiRequest("POST", "/api/fantasy-tokens", {
+        ...values,
+        symbol: values.symbol.toUpperCase(),
+        baseStock: values.baseStock.toUpperCase() || null,
+        pegMultiplier: values.pegMultiplier === "" ? null : values.pegMultiplier,
+      });
+      return response.json() as Promise<FantasyTokenSummary>;
+    },
+    onSuccess: (token) => {
+      toast({
+        title: "Token created",
+        description: `${token.totalSupply.toLocaleString()} ${token.symbol} minted, ${token.poolReserve?.toLocaleString()} of them into its pool${token.contractAddress ? `; contract deployed at ${formatHash(token.contractAddress)}` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/fantasy-tokens"] });
+      onOpenChange(false);
+      form.reset(defaultValues);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create token",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Create Fantasy Token</DialogTitle>
+          <DialogDescription>
+            Issue a new token. Part of the supply seeds a pool others can trade with at the issue price; you keep the rest and earn a fee on every trade.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Wizard Apple" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Symbol</FormLabel>
+                    <FormControl>
+                      <Input placeholder="WZAPL" className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="baseStock"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Based on (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="AAPL" className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="issuePrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Issue price</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" disabled={isPegged} {...field} />
+                    </FormControl>
+                    {isPegged && <FormDescription>Set by the peg</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="totalSupply"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Initial supply</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="pegMultiplier"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Peg multiplier (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="any" placeholder="Not pegged" {...field} />
+                  </FormControl>
+                  <FormDescription>Keeps the price at the base stock's price times this, rebalanced every few minutes</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="poolShare"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pool share (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="1" max="100" step="any" {...field} />
+                  </FormControl>
+                  <FormDescription>Share of the supply placed in the trading pool</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Creating..." : "Create Token"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { LeagueSummary } from "@shared/fantasyLeagues";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Season days are UTC dates, YYYY-MM-DD
+function utcDay(offsetDays: number): string {
+  return new Date(Date.now() + offsetDays * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Form schema
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  salaryCap: z.coerce.number().positive("Must be a positive number"),
+  rosterSize: z.coerce.number().int("Must be a whole number").min(1, "At least 1").max(15, "At most 15"),
+  seasonStart: z.string().min(1, "Start date is required"),
+  seasonEnd: z.string().min(1, "End date is required"),
+}).refine(values => values.seasonStart > utcDay(0), {
+  message: "Must be after today, leaving time to draft",
+  path: ["seasonStart"],
+}).refine(values => values.seasonEnd > values.seasonStart, {
+  message: "Must be after the start",
+  path: ["seasonEnd"],
+});
+
+type LeagueForm = z.infer<typeof formSchema>;
+
+function defaultValues(): LeagueForm {
+  return { name: "", salaryCap: 1000, rosterSize: 5, seasonStart: utcDay(3), seasonEnd: utcDay(31) };
+}
+
+interface CreateLeagueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CreateLeagueDialog({ open, onOpenChange }: CreateLeagueDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const form = useForm<LeagueForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: defaultValues(),
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (values: LeagueForm) => {
+      const response = await apiRequest("POST", "/api/leagues", values);
+      return response.json() as Promise<LeagueSummary>;
+    },
+    onSuccess: (league) => {
+      toast({
+        title: "League created",
+        description: `Join ${league.name} and draft a roster before ${league.seasonStart}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/leagues"] });
+      onOpenChange(false);
+      form.reset(defaultValues());
+      setLocation(`/leagues/${league.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create league",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Create League</DialogTitle>
+          <DialogDescription>
+            Teams draft stocks and fantasy tokens under the salary cap before the season starts, then are ranked on their rosters' returns until it ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Gringotts Invitational" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="salaryCap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Salary cap ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rosterSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Roster size</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" max="15" step="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="seasonStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Season start</FormLabel>
+                    <FormControl>
+                      <Input type="date" min={utcDay(1)} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="seasonEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Season end</FormLabel>
+                    <FormControl>
+                      <Input type="date" min={utcDay(2)} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-sm text-neutral-500">Rosters lock when the season starts; picks are scored from their last close before it.</p>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Creating..." : "Create League"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
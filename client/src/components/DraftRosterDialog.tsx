@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "../utils/formatters";
+import type { RosterAssetType } from "@shared/schema";
+import type { LeagueDetail, LeagueTeam, RosterPick } from "@shared/fantasyLeagues";
+import type { FantasyTokenSummary } from "@shared/fantasyTokens";
+
+interface PickRow {
+  assetType: RosterAssetType;
+  symbol: string;
+}
+
+const emptyRow: PickRow = { assetType: "stock", symbol: "" };
+
+interface DraftRosterDialogProps {
+  league: LeagueDetail;
+  picks: RosterPick[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Replaces the session user's roster; salaries are set by the server at current prices
+export default function DraftRosterDialog({ league, picks, open, onOpenChange }: DraftRosterDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<PickRow[]>([emptyRow]);
+
+  const { data: tokens = [] } = useQuery<FantasyTokenSummary[]>({
+    queryKey: ["/api/fantasy-tokens"],
+    enabled: open,
+  });
+
+  // Start from the current roster each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setRows(picks.length > 0 ? picks.map(({ assetType, symbol }) => ({ assetType, symbol })) : [emptyRow]);
+    }
+  }, [open]);
+
+  const updateRow = (index: number, update: Partial<PickRow>) => {
+    setRows(current => current.map((row, i) => i === index ? { ...row, ...update } : row));
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (draft: PickRow[]) => {
+      const response = await apiRequest("PUT", `/api/leagues/${league.id}/roster`, { picks: draft });
+      return response.json() as Promise<LeagueTeam>;
+    },
+    onSuccess: (team) => {
+      toast({
+        title: "Roster drafted",
+        description: `${team.picks?.length} picks for ${formatCurrency(team.salary ?? 0)} of your ${formatCurrency(league.salaryCap)} cap`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${league.id}`] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to draft roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const draft = rows.filter(row => row.symbol.trim() !== "");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Draft Roster</DialogTitle>
+          <DialogDescription>
+            Pick up to {league.rosterSize} stocks or fantasy tokens. Each costs its current price against the {formatCurrency(league.salaryCap)} salary cap, and you can redraft until the season starts on {league.seasonStart}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={row.assetType}
+                onValueChange={(value) => updateRow(index, { assetType: value as RosterAssetType, symbol: "" })}
+              >
+                <SelectTrigger className="w-28" aria-label="Asset type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stock">Stock</SelectItem>
+                  <SelectItem value="token">Token</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {row.assetType === "stock" ? (
+                <Input
+                  placeholder="AAPL"
+                  className="uppercase flex-1"
+                  value={row.symbol}
+                  onChange={(e) => updateRow(index, { symbol: e.target.value.toUpperCase() })}
+                  aria-label="Stock symbol"
+                />
+              ) : (
+                <Select value={row.symbol} onValueChange={(value) => updateRow(index, { symbol: value })}>
+                  <SelectTrigger className="flex-1" aria-label="Fantasy token">
+                    <SelectValue placeholder="Choose a token" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tokens.map((token) => (
+                      <SelectItem key={token.id} value={token.symbol}>
+                        {token.symbol} · {formatCurrency(token.price)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setRows(current => current.length > 1 ? current.filter((_, i) => i !== index) : [emptyRow])}
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4 text-neutral-500" />
+                <span className="sr-only">Remove</span>
+              </Button>
+            </div>
+          ))}
+
+          {rows.length < league.rosterSize && (
+            <Button variant="outline" size="sm" onClick={() => setRows(current => [...current, emptyRow])}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Pick
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => mutation.mutate(draft)} disabled={mutation.isPending || draft.length === 0}>
+            {mutation.isPending ? "Drafting..." : "Draft Roster"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatShares } from "../utils/formatters";
+import { transactionTypeLabels } from "./TransactionDialog";
+import type { Transaction } from "@shared/schema";
+import type { RealizedLot } from "@shared/ledger";
+
+// Most recent entries shown in the transactions tab
+const MAX_TRANSACTIONS = 50;
+
+interface LedgerHistoryProps {
+  realized: RealizedLot[];
+}
+
+function describeTransaction(transaction: Transaction): string {
+  const quantity = Number(transaction.quantity);
+  const price = Number(transaction.price);
+
+  switch (transaction.type) {
+    case "buy":
+    case "sell":
+      return `${formatShares(quantity)} ${transaction.symbol} @ ${formatCurrency(price)}`;
+    case "split":
+      return `${transaction.symbol} ${formatShares(quantity)}-for-1`;
+    default:
+      return transaction.symbol || "";
+  }
+}
+
+// Signed cash movement, matching how the server applies it to the account
+function cashAmount(transaction: Transaction): number {
+  const quantity = Number(transaction.quantity);
+  const price = Number(transaction.price);
+  const amount = Number(transaction.amount);
+
+  switch (transaction.type) {
+    case "buy": return -quantity * price;
+    case "sell": return quantity * price;
+    case "dividend":
+    case "deposit":
+    case "token_sell":
+    case "token_fee": return amount;
+    case "fee":
+    case "withdrawal":
+    case "token_buy": return -amount;
+    case "split": return 0;
+  }
+}
+
+export default function LedgerHistory({ realized }: LedgerHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: transactions = [], isLoading } = useQuery<Transaction[]>({
+    queryKey: ["/api/transactions"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/transactions/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Transaction deleted",
+        description: "The transaction has been removed from your ledger",
+      });
+      invalidateLedgerQueries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const realizedTotal = realized.reduce((total, sale) => total + sale.gain, 0);
+  // Newest sales first, like the transaction list
+  const sales = [...realized].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ledger</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="transactions">
+          <TabsList className="mb-4">
+            <TabsTrigger value="transactions">Transactions</TabsTrigger>
+            <TabsTrigger value="realized">Realized Gains ({formatCurrency(realizedTotal)})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="transactions">
+            {isLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : transactions.length === 0 ? (
+              <p className="text-center p-6 text-neutral-600">No transactions yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Cash</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.slice(0, MAX_TRANSACTIONS).map((transaction) => {
+                    const cash = cashAmount(transaction);
+
+                    return (
+                      <TableRow key={transaction.id}>
+                        <TableCell>{formatDate(transaction.executedAt)}</TableCell>
+                        <TableCell>
+                          {transactionTypeLabels[transaction.type]}
+                          {transaction.orderId !== null && (
+                            <span className="ml-1 text-xs text-neutral-500">(order #{transaction.orderId})</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{describeTransaction(transaction)}</TableCell>
+                        <TableCell className={`text-right ${cash > 0 ? 'text-green-600' : cash < 0 ? 'text-red-600' : ''}`}>
+                          {cash === 0 ? "—" : formatCurrency(cash)}
+                        </TableCell>
+                        <TableCell>
+                          {transaction.orderId === null && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteMutation.mutate(transaction.id)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-neutral-500" />
+                              <span className="sr-only">Delete</span>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="realized">
+            {sales.length === 0 ? (
+              <p className="text-center p-6 text-neutral-600">No closed lots yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Bought</TableHead>
+                    <TableHead className="text-right">Sold</TableHead>
+                    <TableHead className="text-right">Cost Basis</TableHead>
+                    <TableHead className="text-right">Proceeds</TableHead>
+                    <TableHead className="text-right">Gain/Loss</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sales.map((sale) => (
+                    <TableRow key={`${sale.saleId}-${sale.lotId}`}>
+                      <TableCell className="font-medium">{sale.symbol}</TableCell>
+                      <TableCell>#{sale.lotId}</TableCell>
+                      <TableCell className="text-right">{formatShares(sale.shares)}</TableCell>
+                      <TableCell className="text-right">{formatDate(sale.purchaseDate)}</TableCell>
+                      <TableCell className="text-right">{formatDate(sale.saleDate)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(sale.costBasis)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(sale.proceeds)}</TableCell>
+                      <TableCell className={`text-right ${sale.gain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(sale.gain)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
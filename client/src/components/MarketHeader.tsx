@@ -1,6 +1,5 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { 
@@ -9,39 +8,33 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
-import { Bell, Search, Plus, User } from "lucide-react";
+import { Search, Plus, User } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import NotificationCenter from "./NotificationCenter";
+import { useStreamStatus } from "../hooks/use-quote-stream";
+import type { StreamStatus } from "@/lib/quoteStream";
+import { useAuth } from "@/hooks/use-auth";
+import { useStockSearch } from "@/hooks/use-stock-search";
 
-type SearchResult = {
-  symbol: string;
-  name: string;
-  type: string;
-  region: string;
-  marketOpen: string;
-  marketClose: string;
-  timezone: string;
-  currency: string;
-  matchScore: string;
+const streamStatusStyles: Record<StreamStatus, { label: string; dot: string; title: string }> = {
+  open: { label: "Live", dot: "bg-green-500", title: "Prices are streaming live" },
+  connecting: { label: "Connecting", dot: "bg-amber-400 animate-pulse", title: "Connecting to the price stream" },
+  closed: { label: "Offline", dot: "bg-red-500", title: "Price stream disconnected; retrying" },
 };
 
 export default function MarketHeader() {
   const [location, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
   const [showResults, setShowResults] = useState(false);
+  const { user, logoutMutation } = useAuth();
+  const streamStatus = useStreamStatus();
 
-  const { data: searchResults, isLoading, error } = useQuery({
-    queryKey: ['/api/stocks/search', searchQuery],
-    queryFn: async () => {
-      if (!searchQuery || searchQuery.length < 2) return { bestMatches: [] };
-      return fetch(`/api/stocks/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
-    },
-    enabled: searchQuery.length >= 2
-  });
+  const { data: searchResults, isLoading, error } = useStockSearch(searchQuery);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchResults?.bestMatches?.[0]) {
-      setLocation(`/stock/${searchResults.bestMatches[0].symbol}`);
+    if (searchResults?.results[0]) {
+      setLocation(`/stock/${searchResults.results[0].symbol}`);
       setSearchQuery("");
       setShowResults(false);
     }
@@ -87,12 +80,12 @@ export default function MarketHeader() {
                   {!isLoading && error && (
                     <div className="p-2 text-sm text-red-400">Error searching stocks</div>
                   )}
-                  {!isLoading && !error && searchResults?.bestMatches?.length === 0 && (
+                  {!isLoading && !error && searchResults?.results.length === 0 && (
                     <div className="p-2 text-sm text-amber-300/70">No magical results found</div>
                   )}
-                  {!isLoading && !error && searchResults?.bestMatches?.length > 0 && (
+                  {!isLoading && !error && (searchResults?.results.length ?? 0) > 0 && (
                     <ul>
-                      {searchResults.bestMatches.slice(0, 5).map((result: SearchResult) => (
+                      {searchResults!.results.slice(0, 5).map((result) => (
                         <li key={result.symbol}>
                           <Link href={`/stock/${result.symbol}`}>
                             <a className="block p-2 hover:bg-amber-900/30 text-sm">
@@ -110,6 +103,14 @@ export default function MarketHeader() {
           </div>
 
           <div className="flex items-center space-x-3">
+            <div
+              className="hidden sm:flex items-center text-xs text-amber-300/70"
+              title={streamStatusStyles[streamStatus].title}
+            >
+              <span className={`mr-1.5 h-2 w-2 rounded-full ${streamStatusStyles[streamStatus].dot}`} />
+              {streamStatusStyles[streamStatus].label}
+            </div>
+
             <Link href="/portfolio">
               <Button variant="default" size="sm" className="hidden md:flex bg-amber-700 hover:bg-amber-800 text-amber-100">
                 <Plus className="mr-1 h-4 w-4" />
@@ -117,10 +118,7 @@ export default function MarketHeader() {
               </Button>
             </Link>
 
-            <Button variant="ghost" size="icon" className="rounded-full text-amber-400 hover:text-amber-300 hover:bg-amber-900/30">
-              <Bell className="h-5 w-5" />
-              <span className="sr-only">Notifications</span>
-            </Button>
+            <NotificationCenter />
 
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -131,13 +129,49 @@ export default function MarketHeader() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="bg-[#1a0505] border-amber-900/50 text-amber-100">
-                <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
-                  <Link href="/portfolio">
-                    <a className="w-full">My Vault</a>
-                  </Link>
-                </DropdownMenuItem>
-                <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">Settings</DropdownMenuItem>
-                <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">Logout</DropdownMenuItem>
+                {user ? (
+                  <>
+                    <div className="px-2 py-1.5 text-xs text-amber-300/70">Signed in as {user.username}</div>
+                    <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
+                      <Link href="/portfolio">
+                        <a className="w-full">My Vault</a>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
+                      <Link href="/screener">
+                        <a className="w-full">Screener</a>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
+                      <Link href="/backtests">
+                        <a className="w-full">Backtests</a>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
+                      <Link href="/alerts">
+                        <a className="w-full">Price Alerts</a>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
+                      <Link href="/leagues">
+                        <a className="w-full">Fantasy Leagues</a>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">Settings</DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="hover:bg-amber-900/30 focus:bg-amber-900/30"
+                      onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => setLocation("/auth") })}
+                    >
+                      Logout
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <DropdownMenuItem className="hover:bg-amber-900/30 focus:bg-amber-900/30">
+                    <Link href="/auth">
+                      <a className="w-full">Login</a>
+                    </Link>
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -2,35 +2,18 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
-
-type NewsItem = {
-  title: string;
-  summary: string;
-  url: string;
-  banner_image?: string;
-  source: string;
-  source_domain: string;
-  time_published: string;
-  topics: {
-    topic: string;
-    relevance_score: string;
-  }[];
-};
+import type { NewsResponse } from "@shared/marketData";
 
 export default function MarketNews() {
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['/api/market/news'],
-    queryFn: async () => {
-      const response = await fetch('/api/market/news');
-      return response.json();
-    },
+  const { data, isLoading, error } = useQuery<NewsResponse>({
+    queryKey: ['/api/v2/news'],
   });
 
   if (isLoading) {
     return <MarketNewsLoading />;
   }
 
-  if (error || !data || !data.feed || data.Information) {
+  if (error || !data) {
     return (
       <Card className="card">
         <CardHeader>
@@ -38,39 +21,14 @@ export default function MarketNews() {
         </CardHeader>
         <CardContent>
           <div className="text-center p-4">
-            {data && data.Information ? (
-              <div>
-                {data.Information.includes("demo") ? (
-                  <>
-                    <h3 className="text-amber-200 text-lg mb-2">Demo API Key in Use</h3>
-                    <p className="text-amber-300/60 text-sm italic mb-3">{data.Information}</p>
-                    <p className="text-amber-300/70 mt-4">Get a free API key from <a href="https://www.alphavantage.co/support/#api-key" target="_blank" rel="noopener" className="underline text-amber-400 hover:text-amber-300">Alpha Vantage</a></p>
-                  </>
-                ) : data.Information.includes("detected") ? (
-                  <>
-                    <h3 className="text-amber-200 text-lg mb-2">API Rate Limit Reached</h3>
-                    <p className="text-amber-300/60 text-sm italic mb-3">{data.Information}</p>
-                    <p className="text-amber-300/70 mb-1">Alpha Vantage limits API requests to 5 calls per minute and 500 calls per day</p>
-                    <p className="text-amber-300/70 mt-2">Try refreshing the page in a minute or two</p>
-                  </>
-                ) : (
-                  <>
-                    <h3 className="text-amber-200 text-lg mb-2">API Error</h3>
-                    <p className="text-amber-300/60 text-sm italic mb-3">{data.Information}</p>
-                    <p className="text-amber-300/70 mb-1">Unable to load market news</p>
-                  </>
-                )}
-              </div>
-            ) : (
-              <p className="text-amber-300/70">Could not load market news</p>
-            )}
+            <p className="text-amber-300/70">Could not load market news</p>
           </div>
         </CardContent>
       </Card>
     );
   }
 
-  const newsItems = data.feed.slice(0, 3);
+  const newsItems = data.items.slice(0, 3);
 
   const formatTimeAgo = (timestamp: string) => {
     try {
@@ -101,7 +59,10 @@ export default function MarketNews() {
         <CardTitle className="text-amber-300">Wizarding Market News</CardTitle>
       </CardHeader>
       <CardContent>
-        {newsItems.map((news: NewsItem, index: number) => (
+        {newsItems.length === 0 && (
+          <p className="text-center p-4 text-amber-300/70">No market news right now</p>
+        )}
+        {newsItems.map((news, index) => (
           <div 
             key={index} 
             className={`pb-4 mb-4 ${index < newsItems.length - 1 ? 'border-b border-amber-900/30' : ''}`}
@@ -119,9 +80,9 @@ export default function MarketNews() {
                   </a>
                 </h3>
                 <div className="flex text-xs text-amber-400/60 mb-2">
-                  <span>{news.source}</span>
+                  <span>{news.publisher}</span>
                   <span className="mx-1">•</span>
-                  <span>{formatTimeAgo(news.time_published)}</span>
+                  <span>{formatTimeAgo(news.publishedAt)}</span>
                 </div>
                 <p className="text-sm text-amber-300/70">
                   {news.summary.length > 150 
@@ -129,10 +90,10 @@ export default function MarketNews() {
                     : news.summary}
                 </p>
               </div>
-              {news.banner_image && (
+              {news.thumbnail && (
                 <div className="ml-4 flex-shrink-0 h-16 w-16 rounded-md overflow-hidden bg-amber-900/20 border border-amber-800/30">
                   <img 
-                    src={news.banner_image} 
+                    src={news.thumbnail} 
                     alt={news.title} 
                     className="h-full w-full object-cover"
                     onError={(e) => {
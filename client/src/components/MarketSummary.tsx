@@ -1,19 +1,30 @@
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { CardContent, Card } from "@/components/ui/card";
-import { MarketIndex } from "@shared/schema";
+import { ResponsiveContainer, LineChart, Line, YAxis } from "recharts";
+import type { MarketIndex, IndexSparklines } from "@shared/schema";
 import { formatValue, formatPercent } from "../utils/formatters";
+import { useQuoteStream } from "../hooks/use-quote-stream";
+import { marketIndexSymbols } from "@shared/marketData";
+
+const indexSymbols = Object.values(marketIndexSymbols);
 
 export default function MarketSummary() {
-  const { data: indices, isLoading, error } = useQuery({
+  const { data: indices, isLoading, error } = useQuery<MarketIndex[]>({
     queryKey: ['/api/market/indices'],
   });
+  // Sparklines are a nice-to-have; the cards still render without them
+  const { data: sparklines } = useQuery<IndexSparklines>({
+    queryKey: ['/api/market/indices/intraday'],
+    refetchInterval: 60 * 1000,
+  });
+  useQuoteStream(indexSymbols);
 
   if (isLoading) {
     return <MarketSummaryLoading />;
   }
 
-  if (error) {
+  if (error || !indices) {
     return (
       <div className="mb-6">
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
@@ -23,7 +34,12 @@ export default function MarketSummary() {
     );
   }
 
-  const lastUpdated = new Date().toLocaleString('en-US', {
+  // The most recent index update, as reported by the market data provider
+  const latestUpdate = indices.reduce(
+    (latest, index) => Math.max(latest, new Date(index.lastUpdated).getTime()),
+    0
+  );
+  const lastUpdated = new Date(latestUpdate).toLocaleString('en-US', {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
@@ -43,26 +59,46 @@ export default function MarketSummary() {
       
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
         {indices.map((index: MarketIndex) => (
-          <IndexCard key={index.id} index={index} />
+          <IndexCard key={index.id} index={index} sparkline={sparklines?.[index.name]} />
         ))}
       </div>
     </div>
   );
 }
 
-function IndexCard({ index }: { index: MarketIndex }) {
-  const isPositive = index.change >= 0;
-  
+function IndexCard({ index, sparkline }: { index: MarketIndex; sparkline?: IndexSparklines[string] }) {
+  // Levels arrive as numeric strings from the database
+  const value = Number(index.value);
+  const isPositive = Number(index.change) >= 0;
+  const lineColor = isPositive ? "#16A34A" : "#DC2626";
+
   return (
     <Card className="border border-neutral-200">
       <CardContent className="p-4">
         <h3 className="text-sm font-medium text-neutral-600 mb-1">{index.name}</h3>
         <div className="flex items-baseline">
-          <span className="text-lg font-semibold">{formatValue(index.value)}</span>
+          <span className="text-lg font-semibold">{formatValue(value)}</span>
           <span className={`ml-2 text-sm ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-            {formatPercent(index.changePercent)}
+            {formatPercent(Number(index.changePercent))}
           </span>
         </div>
+        {sparkline && sparkline.length > 1 && (
+          <div className="h-10 mt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={sparkline}>
+                <YAxis hide domain={["dataMin", "dataMax"]} />
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  stroke={lineColor}
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
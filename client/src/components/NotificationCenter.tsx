@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { NotificationFeed } from "@shared/schema";
+
+// Alerts are checked every 15 seconds on the server; poll a little less often than that
+const NOTIFICATIONS_REFRESH_MS = 30 * 1000;
+
+// Bell in the header that lists triggered alerts, with an unread badge
+export default function NotificationCenter() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+    refetchInterval: NOTIFICATIONS_REFRESH_MS,
+  });
+
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest("POST", "/api/notifications/read", { ids });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      // A fired alert has switched itself off
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative rounded-full text-amber-400 hover:text-amber-300 hover:bg-amber-900/30">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-[10px] leading-[1.1rem] font-semibold text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-[#1a0505] border-amber-900/50 text-amber-100">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-amber-900/50">
+          <span className="text-sm font-semibold text-amber-300">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              className="text-xs text-amber-400 hover:text-amber-300 disabled:opacity-50"
+              disabled={markReadMutation.isPending}
+              onClick={() => markReadMutation.mutate(undefined)}
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+
+        {!user ? (
+          <div className="p-4 text-sm text-amber-300/70">
+            <Link href="/auth">
+              <a className="text-amber-400 hover:underline">Sign in</a>
+            </Link>{" "}
+            to get price alerts.
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="p-4 text-sm text-amber-300/70">No notifications yet. Triggered alerts show up here.</div>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-amber-900/30">
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={`px-3 py-2 ${notification.read ? "" : "bg-amber-900/20 cursor-pointer hover:bg-amber-900/30"}`}
+                onClick={() => !notification.read && markReadMutation.mutate([notification.id])}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`text-sm ${notification.read ? "text-amber-200/70" : "font-medium text-amber-200"}`}>
+                    {notification.title}
+                  </span>
+                  {!notification.read && <span className="h-2 w-2 rounded-full bg-amber-400" />}
+                </div>
+                <p className="text-xs text-amber-300/70 mt-0.5">{notification.message}</p>
+                <p className="text-[11px] text-amber-300/50 mt-0.5">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {user && (
+          <div className="px-3 py-2 border-t border-amber-900/50 text-right">
+            <Link href="/alerts">
+              <a className="text-xs text-amber-400 hover:text-amber-300">Manage alerts</a>
+            </Link>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
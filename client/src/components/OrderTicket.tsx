@@ -0,0 +1,263 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { formatCurrency } from "../utils/formatters";
+import { orderTypes, timesInForce, type Order } from "@shared/schema";
+
+const orderTypeLabels: Record<typeof orderTypes[number], string> = {
+  market: "Market",
+  limit: "Limit",
+  stop: "Stop",
+  stop_limit: "Stop Limit",
+};
+
+const timeInForceLabels: Record<typeof timesInForce[number], string> = {
+  day: "Day",
+  gtc: "Good 'til Cancelled",
+};
+
+// Form schema
+const formSchema = z.object({
+  symbol: z.string().trim().min(1, "Symbol is required"),
+  side: z.enum(["buy", "sell"]),
+  type: z.enum(orderTypes),
+  quantity: z.coerce.number().positive("Quantity must be a positive number"),
+  limitPrice: z.coerce.number().optional(),
+  stopPrice: z.coerce.number().optional(),
+  timeInForce: z.enum(timesInForce),
+}).superRefine((values, ctx) => {
+  if ((values.type === "limit" || values.type === "stop_limit") && !(values.limitPrice && values.limitPrice > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: "Limit price is required" });
+  }
+  if ((values.type === "stop" || values.type === "stop_limit") && !(values.stopPrice && values.stopPrice > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stopPrice"], message: "Stop price is required" });
+  }
+});
+
+type OrderForm = z.infer<typeof formSchema>;
+
+export default function OrderTicket() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<OrderForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      symbol: "",
+      side: "buy",
+      type: "market",
+      quantity: 1,
+      timeInForce: "day",
+    },
+  });
+
+  const side = form.watch("side");
+  const type = form.watch("type");
+  const needsLimit = type === "limit" || type === "stop_limit";
+  const needsStop = type === "stop" || type === "stop_limit";
+
+  const mutation = useMutation({
+    mutationFn: async (values: OrderForm) => {
+      const res = await apiRequest("POST", "/api/orders", {
+        ...values,
+        symbol: values.symbol.toUpperCase(),
+        limitPrice: needsLimit ? values.limitPrice : undefined,
+        stopPrice: needsStop ? values.stopPrice : undefined,
+      });
+      return (await res.json()) as Order;
+    },
+    onSuccess: (order) => {
+      if (order.status === "rejected") {
+        toast({
+          title: "Order rejected",
+          description: order.statusReason || "The order could not be filled",
+          variant: "destructive",
+        });
+      } else if (order.status === "filled") {
+        toast({
+          title: "Order filled",
+          description: `${order.side === "buy" ? "Bought" : "Sold"} ${Number(order.quantity)} ${order.symbol} at ${formatCurrency(Number(order.filledPrice))}`,
+        });
+      } else {
+        toast({
+          title: "Order placed",
+          description: `${orderTypeLabels[order.type]} order to ${order.side} ${Number(order.quantity)} ${order.symbol} is working`,
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      invalidateLedgerQueries();
+      form.reset({ ...form.getValues(), quantity: 1, limitPrice: undefined, stopPrice: undefined });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to place order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Order Ticket</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(["buy", "sell"] as const).map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  variant={side === option ? "default" : "outline"}
+                  className={side === option ? (option === "buy" ? "bg-green-700 hover:bg-green-800" : "bg-red-700 hover:bg-red-800") : ""}
+                  onClick={() => form.setValue("side", option)}
+                >
+                  {option === "buy" ? "Buy" : "Sell"}
+                </Button>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="symbol"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Symbol</FormLabel>
+                  <FormControl>
+                    <Input placeholder="AAPL" className="uppercase" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Order Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {orderTypes.map((orderType) => (
+                          <SelectItem key={orderType} value={orderType}>{orderTypeLabels[orderType]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0.01" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {(needsLimit || needsStop) && (
+              <div className="grid grid-cols-2 gap-4">
+                {needsStop && (
+                  <FormField
+                    control={form.control}
+                    name="stopPrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Stop Price</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0.01" step="0.01" placeholder="0.00" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {needsLimit && (
+                  <FormField
+                    control={form.control}
+                    name="limitPrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Limit Price</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0.01" step="0.01" placeholder="0.00" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="timeInForce"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time in Force</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {timesInForce.map((tif) => (
+                        <SelectItem key={tif} value={tif}>{timeInForceLabels[tif]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending ? "Submitting..." : `Place ${side === "buy" ? "Buy" : "Sell"} Order`}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "../utils/formatters";
+import type { Order, OrderStatus } from "@shared/schema";
+
+// How often to poll while orders are working, so fills from the server-side engine show up
+const OPEN_ORDERS_REFRESH_MS = 15 * 1000;
+
+const statusStyles: Record<OrderStatus, string> = {
+  open: "bg-amber-50 text-amber-800 border-amber-200",
+  filled: "bg-green-50 text-green-800 border-green-200",
+  cancelled: "bg-neutral-50 text-neutral-600 border-neutral-200",
+  expired: "bg-neutral-50 text-neutral-600 border-neutral-200",
+  rejected: "bg-red-50 text-red-800 border-red-200",
+};
+
+function describePrice(order: Order): string {
+  switch (order.type) {
+    case "market":
+      return "Market";
+    case "limit":
+      return `Limit ${formatCurrency(Number(order.limitPrice))}`;
+    case "stop":
+      return `Stop ${formatCurrency(Number(order.stopPrice))}`;
+    case "stop_limit":
+      return `Stop ${formatCurrency(Number(order.stopPrice))} / Limit ${formatCurrency(Number(order.limitPrice))}`;
+  }
+}
+
+export default function OrdersBlotter() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: orders = [], isLoading } = useQuery<Order[]>({
+    queryKey: ["/api/orders"],
+    refetchInterval: (query) =>
+      query.state.data?.some(order => order.status === "open") ? OPEN_ORDERS_REFRESH_MS : false,
+  });
+
+  const openOrders = orders.filter(order => order.status === "open");
+  const closedOrders = orders.filter(order => order.status !== "open");
+
+  // Open orders that leave the list may have filled in the background, which moves cash and positions
+  const previousOpenCount = useRef(openOrders.length);
+  useEffect(() => {
+    if (openOrders.length < previousOpenCount.current) {
+      invalidateLedgerQueries();
+    }
+    previousOpenCount.current = openOrders.length;
+  }, [openOrders.length]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/orders/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Order cancelled",
+        description: "The order has been cancelled",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel order",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+  });
+
+  const renderTable = (rows: Order[], showCancel: boolean) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Symbol</TableHead>
+          <TableHead>Side</TableHead>
+          <TableHead className="text-right">Qty</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>TIF</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Fill Price</TableHead>
+          <TableHead className="text-right">Placed</TableHead>
+          {showCancel && <TableHead></TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((order) => (
+          <TableRow key={order.id}>
+            <TableCell className="font-medium">{order.symbol}</TableCell>
+            <TableCell className={order.side === "buy" ? "text-green-600" : "text-red-600"}>
+              {order.side === "buy" ? "Buy" : "Sell"}
+            </TableCell>
+            <TableCell className="text-right">{Number(order.quantity)}</TableCell>
+            <TableCell>
+              {describePrice(order)}
+              {order.stopTriggered && order.status === "open" && (
+                <span className="ml-1 text-xs text-amber-700">(triggered)</span>
+              )}
+            </TableCell>
+            <TableCell className="uppercase">{order.timeInForce}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className={statusStyles[order.status]} title={order.statusReason || undefined}>
+                {order.status}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right">
+              {order.filledPrice ? formatCurrency(Number(order.filledPrice)) : "—"}
+            </TableCell>
+            <TableCell className="text-right">{formatDate(order.createdAt)}</TableCell>
+            {showCancel && (
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => cancelMutation.mutate(order.id)}
+                  disabled={cancelMutation.isPending}
+                >
+                  <X className="h-4 w-4 text-neutral-500" />
+                  <span className="sr-only">Cancel</span>
+                </Button>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Orders</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <Tabs defaultValue="open">
+            <TabsList className="mb-4">
+              <TabsTrigger value="open">Open ({openOrders.length})</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="open">
+              {openOrders.length === 0 ? (
+                <p className="text-center p-6 text-neutral-600">No working orders</p>
+              ) : renderTable(openOrders, true)}
+            </TabsContent>
+            <TabsContent value="history">
+              {closedOrders.length === 0 ? (
+                <p className="text-center p-6 text-neutral-600">No completed orders yet</p>
+              ) : renderTable(closedOrders.slice(0, 25), false)}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import TimeframeButtons, { timeframes, type TimeframeType } from "./TimeframeButtons";
+import { formatCurrency, formatDate, formatNumber, formatPercent } from "../utils/formatters";
+import type { PortfolioHistoryResponse, PortfolioRange } from "@shared/performance";
+
+// Snapshots are daily, so there is no intraday view
+const portfolioTimeframes = timeframes.filter(tf => tf !== "1D");
+
+// History range requested for each timeframe
+export const timeframeRanges: Record<Exclude<TimeframeType, "1D">, PortfolioRange> = {
+  "1W": "5d",
+  "1M": "1mo",
+  "3M": "3mo",
+  "1Y": "1y",
+  "5Y": "5y",
+  "Max": "max",
+};
+
+function ReturnStat({ label, value, annualized }: { label: string; value: number | null; annualized: number | null }) {
+  return (
+    <div>
+      <p className="text-sm text-neutral-600 mb-1">{label}</p>
+      <p className={`text-xl font-bold ${value === null ? "" : value >= 0 ? "text-green-600" : "text-red-600"}`}>
+        {value === null ? "—" : formatPercent(value)}
+      </p>
+      {annualized !== null && (
+        <p className="text-xs text-neutral-600">{formatPercent(annualized)} annualized</p>
+      )}
+    </div>
+  );
+}
+
+// Account value over time with time- and money-weighted returns for the selected range
+export default function PortfolioPerformance() {
+  const [timeframe, setTimeframe] = useState<TimeframeType>("1Y");
+  const range = timeframeRanges[timeframe as keyof typeof timeframeRanges];
+
+  const { data, isLoading, error } = useQuery<PortfolioHistoryResponse>({
+    queryKey: [`/api/portfolio/history?range=${range}`],
+  });
+
+  const snapshots = data?.snapshots || [];
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  // Deposits and withdrawals aren't gains, so they come off the change in value
+  const netFlows = snapshots.slice(1).reduce((total, snapshot) => total + snapshot.netFlow, 0);
+  const gain = first && last ? last.value - first.value - netFlows : 0;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Performance</CardTitle>
+        <TimeframeButtons value={timeframe} onChange={setTimeframe} options={portfolioTimeframes} />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : error || snapshots.length < 2 ? (
+          <div className="flex items-center justify-center h-[200px]">
+            <p className="text-neutral-600">
+              {error ? "Error loading portfolio history" : "Not enough history yet for the selected timeframe"}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-neutral-600 mb-1">Gain/Loss</p>
+                <p className={`text-xl font-bold ${gain >= 0 ? "text-green-600" : "text-red-600"}`}>{formatCurrency(gain)}</p>
+                <p className="text-xs text-neutral-600">since {formatDate(first.date)}</p>
+              </div>
+              <ReturnStat label="Time-Weighted Return" value={data!.returns.timeWeighted} annualized={data!.returns.annualizedTimeWeighted} />
+              <ReturnStat label="Money-Weighted Return (IRR)" value={data!.returns.moneyWeighted} annualized={data!.returns.annualizedMoneyWeighted} />
+            </div>
+
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={snapshots} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                  <defs>
+                    <linearGradient id="portfolioValue" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#0F4C81" stopOpacity={0.8} />
+                      <stop offset="95%" stopColor="#0F4C81" stopOpacity={0.1} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date: string) => new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                    tick={{ fontSize: 12 }}
+                    minTickGap={30}
+                  />
+                  <YAxis
+                    domain={["auto", "auto"]}
+                    tickFormatter={(value: number) => `$${formatNumber(value)}`}
+                    tick={{ fontSize: 12 }}
+                    width={70}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), "Value"]}
+                    labelFormatter={(date: string) => new Date(date).toLocaleDateString("en-US", { timeZone: "UTC" })}
+                  />
+                  <Area type="monotone" dataKey="value" stroke="#0F4C81" strokeWidth={2} fill="url(#portfolioValue)" />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
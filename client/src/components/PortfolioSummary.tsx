@@ -1,51 +1,31 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { PortfolioStock } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import type { Lot } from "@shared/ledger";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
 import { formatCurrency, formatPercent } from "../utils/formatters";
 import AddStockDialog from "./AddStockDialog";
+import { useQuotes } from "../hooks/use-quotes";
 
 export default function PortfolioSummary() {
   const [isAddStockOpen, setIsAddStockOpen] = useState(false);
-  const queryClient = useQueryClient();
 
-  const { data: portfolio, isLoading } = useQuery({
+  const { data: portfolio = [], isLoading } = useQuery<Lot[]>({
     queryKey: ['/api/portfolio'],
   });
 
-  const { data: quoteData } = useQuery({
-    queryKey: ['/api/stocks/quotes', portfolio],
-    queryFn: async () => {
-      if (!portfolio || portfolio.length === 0) return {};
-      
-      const quotes: Record<string, any> = {};
-      
-      // Due to API rate limits, we need to fetch quotes one by one
-      for (const stock of portfolio) {
-        try {
-          const response = await fetch(`/api/stocks/quote/${stock.symbol}`);
-          const data = await response.json();
-          quotes[stock.symbol] = data["Global Quote"] || null;
-        } catch (error) {
-          console.error(`Failed to fetch quote for ${stock.symbol}:`, error);
-        }
-      }
-      
-      return quotes;
-    },
-    enabled: !!portfolio && portfolio.length > 0,
-  });
+  const { data: quoteResponse } = useQuotes(portfolio.map(stock => stock.symbol));
+  const quoteData = quoteResponse?.quotes;
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest('DELETE', `/api/portfolio/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+      invalidateLedgerQueries();
     },
   });
 
@@ -58,10 +38,10 @@ export default function PortfolioSummary() {
   let totalCost = 0;
   let todayChange = 0;
 
-  portfolio.forEach((stock: PortfolioStock) => {
+  portfolio.forEach((stock: Lot) => {
     const quote = quoteData?.[stock.symbol];
-    const currentPrice = quote ? parseFloat(quote["05. price"]) : 0;
-    const priceChange = quote ? parseFloat(quote["09. change"]) : 0;
+    const currentPrice = quote ? quote.price : 0;
+    const priceChange = quote ? quote.change : 0;
     
     const stockValue = currentPrice * Number(stock.shares);
     const stockCost = Number(stock.purchasePrice) * Number(stock.shares);
@@ -110,10 +90,10 @@ export default function PortfolioSummary() {
         
         <h3 className="text-sm font-medium mb-3">Holdings</h3>
         
-        {portfolio.map((stock: PortfolioStock) => {
+        {portfolio.map((stock: Lot) => {
           const quote = quoteData?.[stock.symbol];
-          const currentPrice = quote ? parseFloat(quote["05. price"]) : 0;
-          const priceChangePercent = quote ? parseFloat(quote["10. change percent"].replace('%', '')) : 0;
+          const currentPrice = quote ? quote.price : 0;
+          const priceChangePercent = quote ? quote.changePercent : 0;
           const stockValue = currentPrice * Number(stock.shares);
           
           return (
@@ -0,0 +1,156 @@
+import { Fragment, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import { formatCurrency, formatDate, formatPercent, formatShares } from "../utils/formatters";
+import type { Position, Lot } from "@shared/ledger";
+import type { Quote } from "@shared/marketData";
+
+// Lots held longer than this are taxed as long-term gains
+const LONG_TERM_DAYS = 365;
+
+interface PositionsTableProps {
+  positions: Position[];
+  quotes?: Record<string, Quote>;
+  onDeleteLot: (lot: Lot) => void;
+  isDeleting: boolean;
+}
+
+function gainClass(value: number): string {
+  return value >= 0 ? 'text-green-600' : 'text-red-600';
+}
+
+function isLongTerm(lot: Lot): boolean {
+  const heldDays = (Date.now() - new Date(lot.purchaseDate).getTime()) / (24 * 60 * 60 * 1000);
+  return heldDays > LONG_TERM_DAYS;
+}
+
+export default function PositionsTable({ positions, quotes, onDeleteLot, isDeleting }: PositionsTableProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (symbol: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(symbol)) {
+        next.delete(symbol);
+      } else {
+        next.add(symbol);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-8"></TableHead>
+          <TableHead>Symbol</TableHead>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Shares</TableHead>
+          <TableHead className="text-right">Avg Cost</TableHead>
+          <TableHead className="text-right">Current Price</TableHead>
+          <TableHead className="text-right">Market Value</TableHead>
+          <TableHead className="text-right">Unrealized</TableHead>
+          <TableHead className="text-right">Realized</TableHead>
+          <TableHead className="text-right">Today's Change</TableHead>
+          <TableHead></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {positions.map((position) => {
+          const quote = quotes?.[position.symbol];
+          const currentPrice = quote ? quote.price : 0;
+          const priceChange = quote ? quote.change : 0;
+          const priceChangePercent = quote ? quote.changePercent : 0;
+
+          const marketValue = currentPrice * position.shares;
+          const unrealized = marketValue - position.costBasis;
+          const unrealizedPercent = position.costBasis > 0 ? (unrealized / position.costBasis) * 100 : 0;
+          const dayChange = priceChange * position.shares;
+          const isExpanded = expanded.has(position.symbol);
+
+          return (
+            <Fragment key={position.symbol}>
+              <TableRow className="cursor-pointer" onClick={() => toggle(position.symbol)}>
+                <TableCell>
+                  {isExpanded
+                    ? <ChevronDown className="h-4 w-4 text-neutral-500" />
+                    : <ChevronRight className="h-4 w-4 text-neutral-500" />}
+                </TableCell>
+                <TableCell className="font-medium">{position.symbol}</TableCell>
+                <TableCell>{position.name}</TableCell>
+                <TableCell className="text-right">{formatShares(position.shares)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(position.averageCost)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(currentPrice)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(marketValue)}</TableCell>
+                <TableCell className={`text-right ${gainClass(unrealized)}`}>
+                  {formatCurrency(unrealized)} ({formatPercent(unrealizedPercent)})
+                </TableCell>
+                <TableCell className={`text-right ${gainClass(position.realizedGain)}`}>
+                  {formatCurrency(position.realizedGain)}
+                </TableCell>
+                <TableCell className={`text-right ${gainClass(dayChange)}`}>
+                  {formatCurrency(dayChange)} ({formatPercent(priceChangePercent)})
+                </TableCell>
+                <TableCell className="text-right text-xs text-neutral-500">
+                  {position.lots.length} {position.lots.length === 1 ? "lot" : "lots"}
+                </TableCell>
+              </TableRow>
+
+              {isExpanded && position.lots.map((lot) => {
+                const lotCost = lot.purchasePrice * lot.shares;
+                const lotValue = currentPrice * lot.shares;
+                const lotGain = lotValue - lotCost;
+                const lotGainPercent = lotCost > 0 ? (lotGain / lotCost) * 100 : 0;
+
+                return (
+                  <TableRow key={lot.id} className="bg-neutral-50 text-sm">
+                    <TableCell></TableCell>
+                    <TableCell className="text-neutral-600">Lot #{lot.id}</TableCell>
+                    <TableCell className="text-neutral-600">
+                      Bought {formatDate(lot.purchaseDate)}
+                      <Badge variant="outline" className="ml-2">
+                        {isLongTerm(lot) ? "Long-term" : "Short-term"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatShares(lot.shares)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(lot.purchasePrice)}</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="text-right">{formatCurrency(lotValue)}</TableCell>
+                    <TableCell className={`text-right ${gainClass(lotGain)}`}>
+                      {formatCurrency(lotGain)} ({formatPercent(lotGainPercent)})
+                    </TableCell>
+                    <TableCell></TableCell>
+                    <TableCell></TableCell>
+                    <TableCell>
+                      {lot.orderId === null && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onDeleteLot(lot)}
+                          disabled={isDeleting}
+                        >
+                          <Trash2 className="h-4 w-4 text-neutral-500" />
+                          <span className="sr-only">Delete lot</span>
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </Fragment>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import TimeframeButtons, { type TimeframeType } from "./TimeframeButtons";
+import { timeframeRanges } from "./PortfolioPerformance";
+import { formatCurrency, formatDate } from "../utils/formatters";
+import { riskConfidenceLevels, type LossEstimate, type RiskResponse } from "@shared/risk";
+
+// Volatility and VaR need a few months of daily returns to mean much
+const riskTimeframes: TimeframeType[] = ["3M", "1Y", "5Y"];
+
+function formatLoss(loss: LossEstimate | null): { value: string; detail?: string } {
+  if (!loss) return { value: "—" };
+  return { value: formatCurrency(loss.amount), detail: `${loss.percent.toFixed(2)}% of holdings` };
+}
+
+function RiskStat({ label, value, detail, hint }: { label: string; value: string; detail?: string; hint: string }) {
+  return (
+    <div title={hint}>
+      <p className="text-sm text-neutral-600 mb-1">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+      {detail && <p className="text-xs text-neutral-600">{detail}</p>}
+    </div>
+  );
+}
+
+// Red for positive correlation, blue for negative, stronger the closer it is to ±1
+function correlationColor(value: number | null): string {
+  if (value === null) return "transparent";
+  const alpha = Math.min(Math.abs(value), 1) * 0.8;
+  return value >= 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(37, 99, 235, ${alpha})`;
+}
+
+function CorrelationHeatmap({ symbols, correlations }: { symbols: string[]; correlations: (number | null)[][] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th></th>
+            {symbols.map(symbol => (
+              <th key={symbol} className="font-medium text-neutral-600 px-1">{symbol}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {symbols.map((symbol, i) => (
+            <tr key={symbol}>
+              <th className="font-medium text-neutral-600 text-right pr-2">{symbol}</th>
+              {correlations[i].map((value, j) => (
+                <td
+                  key={symbols[j]}
+                  className="w-14 h-10 text-center rounded"
+                  style={{ backgroundColor: correlationColor(value) }}
+                  title={`${symbol} / ${symbols[j]}`}
+                >
+                  {value === null ? "—" : value.toFixed(2)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Volatility, one-day value at risk, drawdown and correlations of the current holdings
+export default function RiskPanel() {
+  const [timeframe, setTimeframe] = useState<TimeframeType>("1Y");
+  const [confidence, setConfidence] = useState<number>(0.95);
+  const range = timeframeRanges[timeframe as keyof typeof timeframeRanges];
+
+  const { data, isLoading, error } = useQuery<RiskResponse>({
+    queryKey: [`/api/portfolio/risk?range=${range}&confidence=${confidence}`],
+  });
+
+  const confidenceLabel = `${Math.round(confidence * 100)}%`;
+  const hasFigures = data && data.volatility !== null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Risk</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(confidence)} onValueChange={(value) => setConfidence(Number(value))}>
+            <SelectTrigger className="w-36" aria-label="VaR confidence">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {riskConfidenceLevels.map((level) => (
+                <SelectItem key={level} value={String(level)}>{Math.round(level * 100)}% confidence</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <TimeframeButtons value={timeframe} onChange={setTimeframe} options={riskTimeframes} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : error || !data || data.holdings.length === 0 ? (
+          <div className="flex items-center justify-center h-[120px]">
+            <p className="text-neutral-600">
+              {error ? "Error loading risk analytics" : "Add holdings to see their risk"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {!hasFigures && (
+              <p className="text-sm text-neutral-600">
+                Only {data.observations} days of returns are available for this timeframe, too few to estimate risk.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <RiskStat
+                label="Volatility"
+                value={data.volatility === null ? "—" : `${data.volatility.toFixed(2)}%`}
+                detail="annualized"
+                hint="Annualized standard deviation of the holdings' daily returns"
+              />
+              <RiskStat label={`Historical VaR (${confidenceLabel})`} {...formatLoss(data.historicalVaR)} hint={`One-day loss exceeded on ${100 - Math.round(confidence * 100)}% of past days`} />
+              <RiskStat label={`Historical CVaR (${confidenceLabel})`} {...formatLoss(data.historicalCVaR)} hint="Average one-day loss on the days beyond the historical VaR" />
+              <RiskStat label={`Parametric VaR (${confidenceLabel})`} {...formatLoss(data.parametricVaR)} hint="One-day VaR assuming normally distributed returns" />
+              <RiskStat label={`Parametric CVaR (${confidenceLabel})`} {...formatLoss(data.parametricCVaR)} hint="Expected one-day loss beyond the parametric VaR" />
+              <RiskStat
+                label="Max Drawdown"
+                value={data.maxDrawdown ? `-${data.maxDrawdown.percent.toFixed(2)}%` : "—"}
+                detail={data.maxDrawdown ? `${formatDate(data.maxDrawdown.peakDate)} – ${formatDate(data.maxDrawdown.troughDate)}` : undefined}
+                hint="Largest peak-to-trough fall of the current holdings"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Holding</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                    <TableHead className="text-right">Volatility</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.holdings.map((holding) => (
+                    <TableRow key={holding.symbol}>
+                      <TableCell className="font-medium">{holding.symbol}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(holding.value)}</TableCell>
+                      <TableCell className="text-right">{holding.weight.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{holding.volatility === null ? "—" : `${holding.volatility.toFixed(2)}%`}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {hasFigures && data.holdings.length > 1 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Correlation of daily returns</p>
+                  <CorrelationHeatmap symbols={data.holdings.map(holding => holding.symbol)} correlations={data.correlations} />
+                </div>
+              )}
+            </div>
+
+            {data.unavailable.length > 0 && (
+              <p className="text-xs text-neutral-600">
+                No price history for {data.unavailable.join(", ")}; left out of these figures.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,126 +2,325 @@ import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import {
   ResponsiveContainer,
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
+  Bar,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
+  ReferenceLine,
+  Cell,
+  type TooltipProps,
 } from "recharts";
 import { Skeleton } from "@/components/ui/skeleton";
-
-type TimeframeType = "1D" | "1W" | "1M" | "3M" | "1Y" | "5Y" | "Max";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Activity, BarChart3 } from "lucide-react";
+import { usePreferences } from "@/hooks/use-preferences";
+import { formatNumber } from "../utils/formatters";
+import { chartTypes, chartScales, type ChartType, type ChartScale } from "@shared/schema";
+import { indicatorDefinitions, type IndicatorName } from "@shared/indicators";
+import type { BarInterval, BarRange, BarsResponse, IndicatorResult, IndicatorsResponse } from "@shared/marketData";
+import type { TimeframeType } from "./TimeframeButtons";
 
 interface StockChartProps {
   symbol: string;
   timeframe: TimeframeType;
 }
 
+// Bar interval and lookback requested for each timeframe
+const timeframeBars: Record<TimeframeType, { interval: BarInterval; range: BarRange }> = {
+  "1D": { interval: "5m", range: "5d" },
+  "1W": { interval: "60m", range: "1mo" },
+  "1M": { interval: "1d", range: "1mo" },
+  "3M": { interval: "1d", range: "3mo" },
+  "1Y": { interval: "1wk", range: "1y" },
+  "5Y": { interval: "1wk", range: "5y" },
+  "Max": { interval: "1mo", range: "max" },
+};
+
+// Indicators offered in the chart's picker, as /api/v2/indicators specs
+const indicatorPresets = [
+  { id: "sma:20", label: "SMA 20" },
+  { id: "sma:50", label: "SMA 50" },
+  { id: "ema:20", label: "EMA 20" },
+  { id: "bbands:20:2", label: "Bollinger Bands (20, 2)" },
+  { id: "vwap", label: "VWAP" },
+  { id: "rsi:14", label: "RSI 14" },
+  { id: "macd:12:26:9", label: "MACD (12, 26, 9)" },
+  { id: "atr:14", label: "ATR 14" },
+  { id: "stoch:14:3", label: "Stochastic (14, 3)" },
+];
+
+const placementOf = (id: string) => indicatorDefinitions[id.split(":")[0] as IndicatorName].placement;
+const overlayPresets = indicatorPresets.filter(preset => placementOf(preset.id) === "overlay");
+const panePresets = indicatorPresets.filter(preset => placementOf(preset.id) === "pane");
+
+const chartTypeLabels: Record<ChartType, string> = {
+  area: "Area",
+  line: "Line",
+  candlestick: "Candles",
+  ohlc: "OHLC",
+};
+
+const chartScaleLabels: Record<ChartScale, string> = {
+  linear: "Linear",
+  log: "Log",
+  percent: "% Change",
+};
+
+const upColor = "#16A34A";
+const downColor = "#DC2626";
+
+const lineColors = ["#D97706", "#7C3AED", "#059669", "#DB2777", "#0891B2", "#65A30D"];
+
+// Guide levels drawn on bounded oscillators
+const paneGuides: Record<string, number[]> = {
+  rsi: [30, 70],
+  stoch: [20, 80],
+};
+
+// One bar as plotted, with the close as `value` and indicator values by indicator id, then line
+interface ChartPoint {
+  date: string;
+  value: number;
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+  indicators: Record<string, Record<string, number | null>>;
+}
+
+type ChartTooltipProps = TooltipProps<number, string>;
+type ChartTooltipItem = NonNullable<ChartTooltipProps["payload"]>[number];
+
+// Tooltip entries with a value; indicator lines have none during their warm-up
+const hasValue = (item: ChartTooltipItem): item is ChartTooltipItem & { value: number } =>
+  item.value !== null && item.value !== undefined;
+
+// Value of one indicator line at a chart point, optionally mapped onto the price scale
+const indicatorValue = (id: string, line: string, toScale?: (price: number) => number) => (point: ChartPoint): number | null => {
+  const value = point.indicators?.[id]?.[line] ?? null;
+  return value !== null && toScale ? toScale(value) : value;
+};
+
+// Vertical position of `value` between a bar's high (0) and low (1), on a linear or log axis
+function barFraction(value: number, high: number, low: number, log: boolean): number {
+  const [v, h, l] = log ? [Math.log(value), Math.log(high), Math.log(low)] : [value, high, low];
+  return h === l ? 0 : (h - v) / (h - l);
+}
+
+// Layout recharts passes to a custom bar shape, alongside the props given here
+interface PriceBarShapeProps {
+  chartType: ChartType;
+  log: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartPoint;
+}
+
+// Candlestick or OHLC bar drawn inside the high-low range bar recharts lays out
+function PriceBarShape({ x, y, width = 0, height = 0, payload, chartType, log }: PriceBarShapeProps) {
+  if (x === undefined || y === undefined || !payload) return null;
+
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const yOf = (value: number) => top + barFraction(value, payload.high, payload.low, log) * span;
+  const center = x + width / 2;
+  const color = payload.value >= payload.open ? upColor : downColor;
+  const yOpen = yOf(payload.open);
+  const yClose = yOf(payload.value);
+
+  if (chartType === "ohlc") {
+    const tick = Math.max(width / 2, 2);
+    return (
+      <g stroke={color} strokeWidth={1.5}>
+        <line x1={center} x2={center} y1={top} y2={top + span} />
+        <line x1={center - tick} x2={center} y1={yOpen} y2={yOpen} />
+        <line x1={center} x2={center + tick} y1={yClose} y2={yClose} />
+      </g>
+    );
+  }
+
+  const bodyWidth = Math.max(width * 0.7, 1);
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={top} y2={top + span} />
+      <rect
+        x={center - bodyWidth / 2}
+        y={Math.min(yOpen, yClose)}
+        width={bodyWidth}
+        height={Math.max(Math.abs(yClose - yOpen), 1)}
+      />
+    </g>
+  );
+}
+
 export default function StockChart({ symbol, timeframe }: StockChartProps) {
-  // Map timeframe to API endpoint and interval
-  const getEndpointAndInterval = (tf: TimeframeType) => {
-    switch (tf) {
-      case "1D":
-        return { endpoint: "intraday", interval: "5min" };
-      case "1W":
-        return { endpoint: "intraday", interval: "60min" };
-      case "1M":
-        return { endpoint: "daily", interval: "" };
-      case "3M":
-        return { endpoint: "daily", interval: "" };
-      case "1Y":
-        return { endpoint: "weekly", interval: "" };
-      case "5Y":
-        return { endpoint: "weekly", interval: "" };
-      case "Max":
-        return { endpoint: "monthly", interval: "" };
-      default:
-        return { endpoint: "intraday", interval: "5min" };
-    }
-  };
+  const { interval, range } = timeframeBars[timeframe];
+  const { preferences, updatePreferences } = usePreferences();
+  const { chartType, chartScale, showVolume } = preferences;
+
+  const { data, isLoading, error } = useQuery<BarsResponse>({
+    queryKey: [`/api/v2/bars/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`],
+  });
 
-  const { endpoint, interval } = getEndpointAndInterval(timeframe);
+  const [selectedIndicators, setSelectedIndicators] = useState<string[]>([]);
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: [`/api/stocks/${endpoint}/${symbol}`, interval],
-    queryFn: async () => {
-      const url = `/api/stocks/${endpoint}/${symbol}${interval ? `?interval=${interval}` : ''}`;
-      const response = await fetch(url);
-      return response.json();
-    },
+  const { data: indicatorData } = useQuery<IndicatorsResponse>({
+    queryKey: [`/api/v2/indicators/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}&indicators=${selectedIndicators.join(",")}`],
+    enabled: selectedIndicators.length > 0,
   });
 
-  const [chartData, setChartData] = useState<any[]>([]);
+  const [chartData, setChartData] = useState<ChartPoint[]>([]);
 
   useEffect(() => {
     if (data) {
-      let timeSeriesKey: string = "";
-      
-      // Find the time series key in the response
-      if (endpoint === "intraday") {
-        timeSeriesKey = `Time Series (5min)`; // Fixed to always use 5min key for intraday
-      } else if (endpoint === "daily") {
-        timeSeriesKey = "Time Series (Daily)";
-      } else if (endpoint === "weekly") {
-        timeSeriesKey = "Weekly Time Series";
-      } else if (endpoint === "monthly") {
-        timeSeriesKey = "Monthly Time Series";
+      let chartPoints = data.bars.map((bar): ChartPoint => ({
+        date: bar.time,
+        value: bar.close,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        volume: bar.volume,
+        indicators: {},
+      }));
+
+      // Attach indicator values to the bars they were computed for
+      if (indicatorData && selectedIndicators.length > 0) {
+        const positions = new Map(indicatorData.times.map((time, i) => [time, i]));
+        for (const point of chartPoints) {
+          const i = positions.get(point.date);
+          if (i === undefined) continue;
+          for (const indicator of indicatorData.indicators) {
+            point.indicators[indicator.id] = Object.fromEntries(
+              Object.entries(indicator.series).map(([line, values]) => [line, values[i]])
+            );
+          }
+        }
       }
       
-      const timeSeries = data[timeSeriesKey];
-      
-      if (timeSeries && Object.keys(timeSeries).length > 0) {
-        // Convert the time series object to an array for Recharts
-        let chartPoints = Object.entries(timeSeries).map(([date, values]: [string, any]) => ({
-          date,
-          value: parseFloat(values["4. close"]),
-          open: parseFloat(values["1. open"]),
-          high: parseFloat(values["2. high"]),
-          low: parseFloat(values["3. low"]),
-          volume: parseFloat(values["5. volume"]),
-        }));
-        
-        // Filter based on timeframe
-        if (timeframe === "1D") {
-          const today = new Date().toISOString().split('T')[0];
-          chartPoints = chartPoints.filter(point => point.date.startsWith(today));
-        } else if (timeframe === "1W") {
-          const oneWeekAgo = new Date();
-          oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-          chartPoints = chartPoints.filter(point => new Date(point.date) >= oneWeekAgo);
-        } else if (timeframe === "1M") {
-          const oneMonthAgo = new Date();
-          oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-          chartPoints = chartPoints.filter(point => new Date(point.date) >= oneMonthAgo);
-        } else if (timeframe === "3M") {
-          const threeMonthsAgo = new Date();
-          threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
-          chartPoints = chartPoints.filter(point => new Date(point.date) >= threeMonthsAgo);
-        } else if (timeframe === "1Y") {
-          const oneYearAgo = new Date();
-          oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-          chartPoints = chartPoints.filter(point => new Date(point.date) >= oneYearAgo);
-        } else if (timeframe === "5Y") {
-          const fiveYearsAgo = new Date();
-          fiveYearsAgo.setFullYear(fiveYearsAgo.getFullYear() - 5);
-          chartPoints = chartPoints.filter(point => new Date(point.date) >= fiveYearsAgo);
-        }
-        
-        // Make sure we have data points
-        if (chartPoints.length > 0) {
-          // Sort by date (ascending)
-          chartPoints.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-          setChartData(chartPoints);
-        } else {
-          setChartData([]); // Empty array if no data points match filter
-        }
-      } else {
-        // No data available for this timeframe
-        setChartData([]);
+      // Filter based on timeframe
+      if (timeframe === "1D") {
+        // Show the latest session, which is not today on weekends and holidays
+        const latestSession = chartPoints.reduce((latest, point) => point.date > latest ? point.date : latest, "").split('T')[0];
+        chartPoints = chartPoints.filter(point => point.date.startsWith(latestSession));
+      } else if (timeframe === "1W") {
+        const oneWeekAgo = new Date();
+        oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+        chartPoints = chartPoints.filter(point => new Date(point.date) >= oneWeekAgo);
       }
+      
+      // Sort by date (ascending)
+      chartPoints.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      setChartData(chartPoints);
     }
-  }, [data, endpoint, interval, timeframe]);
+  }, [data, timeframe, indicatorData, selectedIndicators]);
+
+  const toggleIndicator = (id: string, checked: boolean) => {
+    setSelectedIndicators(current => checked ? [...current, id] : current.filter(selected => selected !== id));
+  };
+
+  // Only indicators still selected; the response for a previous selection may still be showing
+  const activeIndicators = (indicatorData?.indicators || []).filter(indicator => selectedIndicators.includes(indicator.id));
+  const overlays = activeIndicators.filter(indicator => indicator.placement === "overlay");
+  const panes = activeIndicators.filter(indicator => indicator.placement === "pane");
+
+  const toolbarControl = "h-8 bg-amber-900/20 hover:bg-amber-900/30 text-amber-300 border-amber-700/30";
+
+  const chartControls = (
+    <div className="flex items-center gap-2">
+      <Select value={chartType} onValueChange={(value) => updatePreferences({ chartType: value as ChartType })}>
+        <SelectTrigger className={`w-[110px] ${toolbarControl}`} aria-label="Chart type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {chartTypes.map(type => (
+            <SelectItem key={type} value={type}>{chartTypeLabels[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={chartScale} onValueChange={(value) => updatePreferences({ chartScale: value as ChartScale })}>
+        <SelectTrigger className={`w-[110px] ${toolbarControl}`} aria-label="Price scale">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {chartScales.map(scale => (
+            <SelectItem key={scale} value={scale}>{chartScaleLabels[scale]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        className={showVolume ? "bg-amber-700 hover:bg-amber-800 text-amber-100 border-amber-600" : toolbarControl}
+        onClick={() => updatePreferences({ showVolume: !showVolume })}
+        aria-pressed={showVolume}
+      >
+        <BarChart3 className="mr-1 h-4 w-4" />
+        Volume
+      </Button>
+    </div>
+  );
+
+  const indicatorPicker = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-amber-900/20 hover:bg-amber-900/30 text-amber-300 border-amber-700/30"
+        >
+          <Activity className="mr-1 h-4 w-4" />
+          Indicators{selectedIndicators.length > 0 ? ` (${selectedIndicators.length})` : ""}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Overlays</DropdownMenuLabel>
+        {overlayPresets.map(preset => (
+          <DropdownMenuCheckboxItem
+            key={preset.id}
+            checked={selectedIndicators.includes(preset.id)}
+            onCheckedChange={(checked) => toggleIndicator(preset.id, checked)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {preset.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Lower panes</DropdownMenuLabel>
+        {panePresets.map(preset => (
+          <DropdownMenuCheckboxItem
+            key={preset.id}
+            checked={selectedIndicators.includes(preset.id)}
+            onCheckedChange={(checked) => toggleIndicator(preset.id, checked)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {preset.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
 
   if (isLoading) {
     return <Skeleton className="h-[300px] w-full" />;
@@ -141,7 +340,8 @@ export default function StockChart({ symbol, timeframe }: StockChartProps) {
   const formatXAxis = (date: string) => {
     if (timeframe === "1D") {
       // For intraday, show time only
-      return date.split(" ")[1]?.substring(0, 5) || date;
+      const d = new Date(date);
+      return `${d.getHours()}:${d.getMinutes().toString().padStart(2, "0")}`;
     } else if (timeframe === "1W" || timeframe === "1M") {
       // For weekly and monthly, show day and month
       const d = new Date(date);
@@ -154,18 +354,26 @@ export default function StockChart({ symbol, timeframe }: StockChartProps) {
   };
 
   // Custom tooltip component
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload, label }: ChartTooltipProps) => {
     if (active && payload && payload.length) {
+      // Every series plots the same points; recharts hands back the hovered one untyped
+      const point: ChartPoint = payload[0].payload;
       return (
         <div className="bg-white p-2 border border-neutral-200 rounded shadow-sm text-xs">
-          <p className="font-medium">{label}</p>
-          <p className="text-primary">Price: ${payload[0].value.toFixed(2)}</p>
-          {payload[0].payload.open && (
+          <p className="font-medium">{new Date(label).toLocaleString()}</p>
+          <p className="text-primary">
+            Price: ${point.value.toFixed(2)}
+            {chartScale === "percent" && ` (${toScale(point.value).toFixed(2)}%)`}
+          </p>
+          {payload.slice(1).filter(hasValue).map(item => (
+            <p key={item.name} style={{ color: item.color }}>{item.name}: {formatPriceAxis(item.value)}</p>
+          ))}
+          {point.open && (
             <>
-              <p>Open: ${payload[0].payload.open.toFixed(2)}</p>
-              <p>High: ${payload[0].payload.high.toFixed(2)}</p>
-              <p>Low: ${payload[0].payload.low.toFixed(2)}</p>
-              <p>Volume: {Number(payload[0].payload.volume).toLocaleString()}</p>
+              <p>Open: ${point.open.toFixed(2)}</p>
+              <p>High: ${point.high.toFixed(2)}</p>
+              <p>Low: ${point.low.toFixed(2)}</p>
+              <p>Volume: {Number(point.volume).toLocaleString()}</p>
             </>
           )}
         </div>
@@ -174,52 +382,200 @@ export default function StockChart({ symbol, timeframe }: StockChartProps) {
     return null;
   };
 
-  // Calculate value domain for Y-axis with padding
-  const minValue = Math.min(...chartData.map(item => item.value));
-  const maxValue = Math.max(...chartData.map(item => item.value));
+  // Percent scale plots the change from the first close in view
+  const baseClose = chartData[0].value;
+  const toScale = (price: number) => chartScale === "percent" ? (price / baseClose - 1) * 100 : price;
+  const formatPriceAxis = (value: number) => chartScale === "percent" ? `${value.toFixed(2)}%` : `$${value.toFixed(2)}`;
+  const showBars = chartType === "candlestick" || chartType === "ohlc";
+
+  // Calculate value domain for Y-axis with padding, including overlays such as Bollinger Bands
+  const priceValues = chartData.flatMap(item => [
+    ...(showBars ? [item.high, item.low] : [item.value]),
+    ...overlays.flatMap(overlay => Object.values(item.indicators[overlay.id] || {})),
+  ]).filter((value): value is number => typeof value === "number").map(toScale);
+  const minValue = Math.min(...priceValues);
+  const maxValue = Math.max(...priceValues);
   const padding = (maxValue - minValue) * 0.1;
-  const yDomain = [minValue - padding, maxValue + padding];
+  // A log axis can't reach zero, so pad it proportionally instead
+  const yDomain = chartScale === "log"
+    ? [minValue * 0.95, maxValue * 1.05]
+    : [minValue - padding, maxValue + padding];
+
+  // Lines drawn for an indicator, each with its own color
+  const indicatorLines = (indicator: IndicatorResult, colorOffset: number, toAxis?: (value: number) => number) =>
+    Object.keys(indicator.series)
+      .filter(line => line !== "histogram")
+      .map((line, i) => (
+        <Line
+          key={`${indicator.id}-${line}`}
+          type="monotone"
+          dataKey={indicatorValue(indicator.id, line, toAxis)}
+          name={Object.keys(indicator.series).length > 1 ? `${indicator.label} ${line}` : indicator.label}
+          stroke={lineColors[(colorOffset + i) % lineColors.length]}
+          strokeWidth={1.5}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+      ));
+
+  const PaneTooltip = ({ active, payload }: ChartTooltipProps) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white p-2 border border-neutral-200 rounded shadow-sm text-xs">
+          {payload.filter(hasValue).map(item => (
+            <p key={item.name} style={{ color: item.color }}>{item.name}: {item.value.toFixed(2)}</p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
 
   return (
-    <div className="h-[300px] w-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={chartData}
-          margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
-        >
-          <defs>
-            <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#0F4C81" stopOpacity={0.8} />
-              <stop offset="95%" stopColor="#0F4C81" stopOpacity={0.1} />
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
-          <XAxis
-            dataKey="date"
-            tickFormatter={formatXAxis}
-            tick={{ fontSize: 10 }}
-            minTickGap={20}
-            axisLine={{ stroke: "#DEE2E6" }}
-            tickLine={{ stroke: "#DEE2E6" }}
-          />
-          <YAxis
-            domain={yDomain}
-            tick={{ fontSize: 10 }}
-            tickFormatter={(value) => `$${value.toFixed(2)}`}
-            axisLine={{ stroke: "#DEE2E6" }}
-            tickLine={{ stroke: "#DEE2E6" }}
-          />
-          <Tooltip content={<CustomTooltip />} />
-          <Area
-            type="monotone"
-            dataKey="value"
-            stroke="#0F4C81"
-            fillOpacity={1}
-            fill="url(#colorValue)"
-            strokeWidth={2}
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+    <div className="w-full">
+      <div className="flex flex-wrap justify-between gap-2 mb-2">
+        {chartControls}
+        {indicatorPicker}
+      </div>
+      <div className="h-[300px] w-full relative">
+        {data?.source === "fixture" && (
+          <Badge
+            variant="outline"
+            className="absolute top-1 right-2 z-10 bg-amber-50 text-amber-800 border-amber-300"
+            title="These prices were recorded earlier and replayed, not fetched live"
+          >
+            Recorded data
+          </Badge>
+        )}
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            syncId={`stock-chart-${symbol}`}
+            margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+          >
+            <defs>
+              <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#0F4C81" stopOpacity={0.8} />
+                <stop offset="95%" stopColor="#0F4C81" stopOpacity={0.1} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatXAxis}
+              tick={{ fontSize: 10 }}
+              minTickGap={20}
+              axisLine={{ stroke: "#DEE2E6" }}
+              tickLine={{ stroke: "#DEE2E6" }}
+            />
+            <YAxis
+              domain={yDomain}
+              scale={chartScale === "log" ? "log" : "auto"}
+              allowDataOverflow={chartScale === "log"}
+              tick={{ fontSize: 10 }}
+              tickFormatter={formatPriceAxis}
+              axisLine={{ stroke: "#DEE2E6" }}
+              tickLine={{ stroke: "#DEE2E6" }}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            {chartType === "area" && (
+              <Area
+                type="monotone"
+                dataKey={(point: ChartPoint) => toScale(point.value)}
+                name="Price"
+                stroke="#0F4C81"
+                fillOpacity={1}
+                fill="url(#colorValue)"
+                strokeWidth={2}
+              />
+            )}
+            {chartType === "line" && (
+              <Line
+                type="monotone"
+                dataKey={(point: ChartPoint) => toScale(point.value)}
+                name="Price"
+                stroke="#0F4C81"
+                strokeWidth={2}
+                dot={false}
+              />
+            )}
+            {showBars && (
+              <Bar
+                dataKey={(point: ChartPoint) => [toScale(point.low), toScale(point.high)]}
+                name="Price"
+                shape={<PriceBarShape chartType={chartType} log={chartScale === "log"} />}
+                isAnimationActive={false}
+              />
+            )}
+            {overlays.flatMap((overlay, i) => indicatorLines(overlay, i * 2, toScale))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {showVolume && (
+        <div className="h-[80px] w-full mt-2 relative">
+          <span className="absolute top-0 left-16 z-10 text-xs text-neutral-600">Volume</span>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={chartData}
+              syncId={`stock-chart-${symbol}`}
+              margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+            >
+              <XAxis dataKey="date" hide />
+              <YAxis
+                tick={{ fontSize: 10 }}
+                tickFormatter={formatNumber}
+                axisLine={{ stroke: "#DEE2E6" }}
+                tickLine={{ stroke: "#DEE2E6" }}
+              />
+              <Tooltip
+                labelFormatter={(label) => new Date(label).toLocaleString()}
+                formatter={(value: number) => [Number(value).toLocaleString(), "Volume"]}
+              />
+              <Bar dataKey="volume" isAnimationActive={false}>
+                {chartData.map(point => (
+                  <Cell key={point.date} fill={point.value >= point.open ? upColor : downColor} fillOpacity={0.6} />
+                ))}
+              </Bar>
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {panes.map((pane, i) => (
+        <div key={pane.id} className="h-[120px] w-full mt-2 relative">
+          <span className="absolute top-0 left-16 z-10 text-xs text-neutral-600">{pane.label}</span>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={chartData}
+              syncId={`stock-chart-${symbol}`}
+              margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
+              <XAxis dataKey="date" hide />
+              <YAxis
+                domain={paneGuides[pane.name] ? [0, 100] : ["auto", "auto"]}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value) => value.toFixed(pane.name === "macd" ? 2 : 0)}
+                axisLine={{ stroke: "#DEE2E6" }}
+                tickLine={{ stroke: "#DEE2E6" }}
+              />
+              <Tooltip content={<PaneTooltip />} />
+              {(paneGuides[pane.name] || []).map(level => (
+                <ReferenceLine key={level} y={level} stroke="#ADB5BD" strokeDasharray="4 4" />
+              ))}
+              {pane.series.histogram && (
+                <Bar
+                  dataKey={indicatorValue(pane.id, "histogram")}
+                  name={`${pane.label} histogram`}
+                  fill="#ADB5BD"
+                  isAnimationActive={false}
+                />
+              )}
+              {indicatorLines(pane, i * 2)}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
     </div>
   );
 }
@@ -1,80 +1,76 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BellPlus, ExternalLink } from "lucide-react";
 import StockChart from "./StockChart";
+import TimeframeButtons, { type TimeframeType } from "./TimeframeButtons";
+import CreateAlertDialog from "./CreateAlertDialog";
+import CompanyFundamentals from "./CompanyFundamentals";
+import { useAuth } from "@/hooks/use-auth";
 import { formatCurrency, formatPercent, formatNumber } from "../utils/formatters";
+import { useQuote } from "../hooks/use-quotes";
+import type { ProfileResponse } from "@shared/marketData";
 
-type TimeframeType = "1D" | "1W" | "1M" | "3M" | "1Y" | "5Y" | "Max";
+// Profile statistics the provider doesn't report show as N/A
+function formatStat(value: number | undefined, format: (value: number) => string): string {
+  return value === undefined ? "N/A" : format(value);
+}
+
+const tabTriggerClass = "text-amber-300 data-[state=active]:bg-amber-700 data-[state=active]:text-amber-100";
 
 export default function StockDetail({ symbol }: { symbol: string }) {
   const [timeframe, setTimeframe] = useState<TimeframeType>("1D");
+  const [isAlertOpen, setIsAlertOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
 
-  const { data: quoteData, isLoading: isLoadingQuote } = useQuery({
-    queryKey: [`/api/stocks/quote/${symbol}`],
+  const { data: quoteData, isLoading: isLoadingQuote } = useQuote(symbol);
+  // The quote still renders when the profile is missing, e.g. for indices
+  const { data: profileData } = useQuery<ProfileResponse>({
+    queryKey: [`/api/stocks/profile/${encodeURIComponent(symbol)}`],
+    retry: false,
   });
 
   if (isLoadingQuote) {
     return <StockDetailLoading />;
   }
 
-  const quote = quoteData?.["Global Quote"];
+  const quote = quoteData?.quote;
   
-  if (!quote || quoteData?.Information) {
+  if (!quote) {
     return (
       <Card className="card mb-6">
         <CardContent className="p-5">
           <div className="text-center p-4">
-            {quoteData && quoteData.Information ? (
-              <div>
-                {quoteData.Information.includes("demo") ? (
-                  <>
-                    <h3 className="text-amber-200 text-lg mb-2">Demo API Key in Use</h3>
-                    <p className="text-amber-300/60 text-sm italic mb-3">{quoteData.Information}</p>
-                    <p className="text-amber-300/70 mb-1">Unable to load stock data for <span className="font-semibold">{symbol}</span></p>
-                    <p className="text-amber-300/70 mt-4">Get a free API key from <a href="https://www.alphavantage.co/support/#api-key" target="_blank" rel="noopener" className="underline text-amber-400 hover:text-amber-300">Alpha Vantage</a></p>
-                  </>
-                ) : quoteData.Information.includes("detected") ? (
-                  <>
-                    <h3 className="text-amber-200 text-lg mb-2">API Rate Limit Reached</h3>
-                    <p className="text-amber-300/60 text-sm italic mb-3">{quoteData.Information}</p>
-                    <p className="text-amber-300/70 mb-1">Alpha Vantage limits API requests to 5 calls per minute and 500 calls per day</p>
-                    <p className="text-amber-300/70 mt-2">Try refreshing the page in a minute or two</p>
-                  </>
-                ) : (
-                  <>
-                    <h3 className="text-amber-200 text-lg mb-2">API Error</h3>
-                    <p className="text-amber-300/60 text-sm italic mb-3">{quoteData.Information}</p>
-                    <p className="text-amber-300/70 mb-1">Unable to load stock data for <span className="font-semibold">{symbol}</span></p>
-                  </>
-                )}
-              </div>
-            ) : (
-              <p className="text-amber-300/70">Could not load stock data for {symbol}</p>
-            )}
+            <p className="text-amber-300/70">Could not load stock data for {symbol}</p>
           </div>
         </CardContent>
       </Card>
     );
   }
 
-  const price = parseFloat(quote["05. price"]);
-  const change = parseFloat(quote["09. change"]);
-  const changePercent = parseFloat(quote["10. change percent"].replace('%', ''));
+  const { price, change, changePercent, open, high, low, volume } = quote;
   const isPositive = change >= 0;
-  
-  const open = parseFloat(quote["02. open"]);
-  const high = parseFloat(quote["03. high"]);
-  const low = parseFloat(quote["04. low"]);
-  const volume = parseInt(quote["06. volume"]);
-
-  // These fields are not provided by Alpha Vantage's Global Quote API
-  // In a real app, you would fetch additional details from a company profile API
-  const marketCap = "N/A";
-  const peRatio = "N/A";
-  const yearHigh = high;
-  const yearLow = low;
+  const profile = profileData?.profile;
+
+  const stats = [
+    { label: "Open", value: formatCurrency(open) },
+    { label: "High", value: formatCurrency(high) },
+    { label: "Low", value: formatCurrency(low) },
+    { label: "Volume", value: formatNumber(volume) },
+    { label: "52-Week High", value: formatStat(profile?.fiftyTwoWeekHigh, formatCurrency) },
+    { label: "52-Week Low", value: formatStat(profile?.fiftyTwoWeekLow, formatCurrency) },
+    { label: "Market Cap", value: formatStat(profile?.marketCap, value => `$${formatNumber(value)}`) },
+    { label: "P/E Ratio", value: formatStat(profile?.peRatio, value => value.toFixed(2)) },
+    { label: "EPS (TTM)", value: formatStat(profile?.eps, formatCurrency) },
+    { label: "Dividend Yield", value: formatStat(profile?.dividendYield, value => `${value.toFixed(2)}%`) },
+    { label: "Beta", value: formatStat(profile?.beta, value => value.toFixed(2)) },
+    { label: "Shares Outstanding", value: formatStat(profile?.sharesOutstanding, formatNumber) },
+  ];
 
   return (
     <Card className="card mb-6">
@@ -83,78 +79,84 @@ export default function StockDetail({ symbol }: { symbol: string }) {
           <div className="flex items-center mb-2 sm:mb-0">
             <div className="mr-3">
               <div className="text-xl font-semibold text-amber-200">{symbol}</div>
-              <div className="text-sm text-amber-300/70">
-                {/* Alpha Vantage doesn't provide company name in quote data */}
-                {/* In a real app, you'd fetch this from a company profile API */}
-                {symbol} Wizarding Shares
-              </div>
+              <div className="text-sm text-amber-300/70">{profile?.name || quote.name}</div>
+              {profile?.sector && (
+                <div className="text-xs text-amber-300/50">
+                  {profile.sector}{profile.industry && ` · ${profile.industry}`}
+                </div>
+              )}
             </div>
             <div className="bg-amber-900/30 text-amber-200 text-xs py-1 px-2 rounded border border-amber-700/30">GRIN</div>
           </div>
           
-          <div className="flex items-baseline">
-            <span className="text-xl font-semibold mr-2 text-amber-100">{formatCurrency(price)}</span>
-            <span className={isPositive ? "text-green-400 text-sm" : "text-red-400 text-sm"}>
-              {formatCurrency(change)} ({formatPercent(changePercent)})
-            </span>
-          </div>
-        </div>
-        
-        <div className="mb-4">
-          <div className="flex overflow-x-auto scrollbar-hide space-x-2 pb-2">
-            {(["1D", "1W", "1M", "3M", "1Y", "5Y", "Max"] as TimeframeType[]).map((tf) => (
-              <Button
-                key={tf}
-                variant={timeframe === tf ? "default" : "outline"}
-                size="sm"
-                onClick={() => setTimeframe(tf)}
-                className={timeframe === tf 
-                  ? "bg-amber-700 hover:bg-amber-800 text-amber-100 border-amber-600" 
-                  : "bg-amber-900/20 hover:bg-amber-900/30 text-amber-300 border-amber-700/30"}
-              >
-                {tf}
-              </Button>
-            ))}
+          <div className="flex items-center">
+            <div className="flex items-baseline">
+              <span className="text-xl font-semibold mr-2 text-amber-100">{formatCurrency(price)}</span>
+              <span className={isPositive ? "text-green-400 text-sm" : "text-red-400 text-sm"}>
+                {formatCurrency(change)} ({formatPercent(changePercent)})
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-4 bg-amber-900/20 hover:bg-amber-900/30 text-amber-300 border-amber-700/30"
+              onClick={() => user ? setIsAlertOpen(true) : setLocation("/auth")}
+            >
+              <BellPlus className="mr-1 h-4 w-4" />
+              Set Alert
+            </Button>
           </div>
         </div>
         
-        <StockChart symbol={symbol} timeframe={timeframe} />
-        
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">Open</div>
-            <div className="text-sm font-medium text-amber-200">{formatCurrency(open)}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">High</div>
-            <div className="text-sm font-medium text-amber-200">{formatCurrency(high)}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">Low</div>
-            <div className="text-sm font-medium text-amber-200">{formatCurrency(low)}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">Volume</div>
-            <div className="text-sm font-medium text-amber-200">{formatNumber(volume)}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">52-Week High</div>
-            <div className="text-sm font-medium text-amber-200">{yearHigh === high ? "N/A" : formatCurrency(yearHigh)}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">52-Week Low</div>
-            <div className="text-sm font-medium text-amber-200">{yearLow === low ? "N/A" : formatCurrency(yearLow)}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">Market Cap</div>
-            <div className="text-sm font-medium text-amber-200">{marketCap}</div>
-          </div>
-          <div>
-            <div className="text-xs text-amber-300/70 mb-1">P/E Ratio</div>
-            <div className="text-sm font-medium text-amber-200">{peRatio}</div>
-          </div>
-        </div>
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-4 bg-amber-900/20 border border-amber-700/30">
+            <TabsTrigger value="overview" className={tabTriggerClass}>Overview</TabsTrigger>
+            <TabsTrigger value="fundamentals" className={tabTriggerClass}>Fundamentals</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="mb-4">
+              <TimeframeButtons value={timeframe} onChange={setTimeframe} />
+            </div>
+
+            <StockChart symbol={symbol} timeframe={timeframe} />
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+              {stats.map(stat => (
+                <div key={stat.label}>
+                  <div className="text-xs text-amber-300/70 mb-1">{stat.label}</div>
+                  <div className="text-sm font-medium text-amber-200">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {profile?.description && (
+              <div className="mt-6">
+                <div className="text-sm font-semibold text-amber-200 mb-1">About {profile.name}</div>
+                <p className="text-sm text-amber-300/80 leading-relaxed">{profile.description}</p>
+                {profile.website && (
+                  <a
+                    href={profile.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center mt-2 text-xs text-amber-400 hover:underline"
+                  >
+                    {profile.website.replace(/^https?:\/\//, "")}
+                    <ExternalLink className="ml-1 h-3 w-3" />
+                  </a>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          {/* Only mounted while open, so financials are fetched on first view */}
+          <TabsContent value="fundamentals">
+            <CompanyFundamentals symbol={symbol.toUpperCase()} />
+          </TabsContent>
+        </Tabs>
       </CardContent>
+
+      <CreateAlertDialog open={isAlertOpen} onOpenChange={setIsAlertOpen} symbol={symbol.toUpperCase()} />
     </Card>
   );
 }
@@ -189,7 +191,7 @@ function StockDetailLoading() {
         <Skeleton className="h-[300px] w-full mb-4 bg-amber-800/30" />
         
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {[...Array(8)].map((_, i) => (
+          {[...Array(12)].map((_, i) => (
             <div key={i}>
               <Skeleton className="h-3 w-16 mb-1 bg-amber-800/30" />
               <Skeleton className="h-5 w-20 bg-amber-800/30" />
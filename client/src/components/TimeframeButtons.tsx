@@ -0,0 +1,32 @@
+import { Button } from "@/components/ui/button";
+
+export type TimeframeType = "1D" | "1W" | "1M" | "3M" | "1Y" | "5Y" | "Max";
+
+export const timeframes: TimeframeType[] = ["1D", "1W", "1M", "3M", "1Y", "5Y", "Max"];
+
+interface TimeframeButtonsProps {
+  value: TimeframeType;
+  onChange: (timeframe: TimeframeType) => void;
+  // Charts of daily data leave out the intraday timeframe
+  options?: TimeframeType[];
+}
+
+export default function TimeframeButtons({ value, onChange, options = timeframes }: TimeframeButtonsProps) {
+  return (
+    <div className="flex overflow-x-auto scrollbar-hide space-x-2 pb-2">
+      {options.map((tf) => (
+        <Button
+          key={tf}
+          variant={value === tf ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(tf)}
+          className={value === tf
+            ? "bg-amber-700 hover:bg-amber-800 text-amber-100 border-amber-600"
+            : "bg-amber-900/20 hover:bg-amber-900/30 text-amber-300 border-amber-700/30"}
+        >
+          {tf}
+        </Button>
+      ))}
+    </div>
+  );
+}
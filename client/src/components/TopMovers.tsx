@@ -1,16 +1,10 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency, formatPercent } from "../utils/formatters";
 import { Link } from "wouter";
-
-// Popular stock symbols for demonstration
-const popularSymbols = [
-  "AAPL", "MSFT", "AMZN", "GOOGL", "META", 
-  "TSLA", "NVDA", "AMD", "NFLX", "JPM", 
-  "BAC", "DIS", "PLTR", "SNAP", "UBER"
-];
+import { useQuotes } from "../hooks/use-quotes";
+import { popularSymbols } from "@shared/screener";
 
 type StockMover = {
   symbol: string;
@@ -24,41 +18,22 @@ export default function TopMovers() {
   const [topMovers, setTopMovers] = useState<StockMover[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Fetch quotes for the popular symbols
-  const { data, isLoading: isQueryLoading, error } = useQuery({
-    queryKey: ['/api/stocks/quotes/popular'],
-    queryFn: async () => {
-      const quotes: Record<string, any> = {};
-      
-      // Due to API rate limits, we need to fetch quotes one by one
-      // and we'll only get a subset of stocks for demo purposes
-      for (const symbol of popularSymbols.slice(0, 8)) {
-        try {
-          const response = await fetch(`/api/stocks/quote/${symbol}`);
-          const data = await response.json();
-          quotes[symbol] = data["Global Quote"] || null;
-        } catch (error) {
-          console.error(`Failed to fetch quote for ${symbol}:`, error);
-        }
-      }
-      
-      return quotes;
-    },
-  });
+  // Fetch quotes for all popular symbols in one batch request
+  const { data, isLoading: isQueryLoading, error } = useQuotes(popularSymbols);
 
   // Process the quotes into a top movers list
   useEffect(() => {
     if (data) {
       const movers: StockMover[] = [];
       
-      for (const [symbol, quote] of Object.entries(data)) {
+      for (const [symbol, quote] of Object.entries(data.quotes)) {
         if (quote) {
           movers.push({
             symbol,
-            name: getCompanyName(symbol), // Alpha Vantage doesn't provide company names in quotes
-            price: parseFloat(quote["05. price"]),
-            change: parseFloat(quote["09. change"]),
-            changePercent: parseFloat(quote["10. change percent"].replace('%', '')),
+            name: quote.name,
+            price: quote.price,
+            change: quote.change,
+            changePercent: quote.changePercent,
           });
         }
       }
@@ -151,27 +126,3 @@ function TopMoversLoading() {
     </Card>
   );
 }
-
-// Helper function to get company names
-// In a real app, this would come from an API
-function getCompanyName(symbol: string): string {
-  const companyNames: Record<string, string> = {
-    AAPL: "Apple Inc.",
-    MSFT: "Microsoft Corp.",
-    AMZN: "Amazon.com Inc.",
-    GOOGL: "Alphabet Inc.",
-    META: "Meta Platforms Inc.",
-    TSLA: "Tesla Inc.",
-    NVDA: "NVIDIA Corp.",
-    AMD: "Advanced Micro Devices",
-    NFLX: "Netflix Inc.",
-    JPM: "JPMorgan Chase",
-    BAC: "Bank of America",
-    DIS: "Walt Disney Co.",
-    PLTR: "Palantir Technologies",
-    SNAP: "Snap Inc.",
-    UBER: "Uber Technologies"
-  };
-  
-  return companyNames[symbol] || symbol;
-}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { formatCurrency, formatHash } from "../utils/formatters";
+import {
+  TOKEN_TRADE_FEE_RATE,
+  type FantasyTokenSummary,
+  type TokenPosition,
+  type TokenTrade,
+  type TokenTradeQuote,
+} from "@shared/fantasyTokens";
+
+// Slippage limits offered, in percent
+const slippageOptions = [0.5, 1, 2, 5];
+
+function QuoteRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-neutral-600">{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  );
+}
+
+interface TradeTokenDialogProps {
+  token: FantasyTokenSummary | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Buys or sells a fantasy token against its pool. The quote refreshes as the amount
+// changes, and the trade is refused if the price moves past the slippage limit first.
+export default function TradeTokenDialog({ token, onOpenChange }: TradeTokenDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [amount, setAmount] = useState("");
+  const [slippage, setSlippage] = useState(1);
+
+  const quantity = Number(amount);
+  const hasQuantity = amount !== "" && quantity > 0;
+
+  const { data: position } = useQuery<TokenPosition>({
+    queryKey: [`/api/fantasy-tokens/${token?.id}/position`],
+    enabled: !!token,
+  });
+
+  const { data: quote, error: quoteError, isFetching: isQuoting } = useQuery<TokenTradeQuote>({
+    queryKey: [`/api/fantasy-tokens/${token?.id}/quote?side=${side}&amount=${quantity}`],
+    enabled: !!token && hasQuantity,
+    retry: false,
+  });
+
+  const close = () => {
+    onOpenChange(false);
+    setAmount("");
+  };
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/fantasy-tokens/${token!.id}/trade`, {
+        side,
+        amount: quantity,
+        expectedCash: quote!.cash,
+        slippage,
+      });
+      return response.json() as Promise<TokenTrade>;
+    },
+    onSuccess: (trade) => {
+      toast({
+        title: trade.side === "buy" ? "Tokens bought" : "Tokens sold",
+        description: `${trade.amount} ${token!.symbol} for ${formatCurrency(trade.cash)}${trade.txHash ? ` in tx ${formatHash(trade.txHash)}` : ""}`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/fantasy-tokens"),
+      });
+      invalidateLedgerQueries();
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Trade failed",
+        description: error.message || "Failed to trade tokens",
+        variant: "destructive",
+      });
+      // The pool may have moved; price the trade again
+      queryClient.invalidateQueries({ queryKey: [`/api/fantasy-tokens/${token!.id}/quote?side=${side}&amount=${quantity}`] });
+    },
+  });
+
+  const limit = quote && (side === "buy"
+    ? quote.cash * (1 + slippage / 100)
+    : quote.cash * (1 - slippage / 100));
+
+  return (
+    <Dialog open={!!token} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Trade {token?.symbol}</DialogTitle>
+          <DialogDescription>
+            Trades settle in your paper trading cash at the pool's price. {TOKEN_TRADE_FEE_RATE * 100}% of each trade goes to the token's creator.
+          </DialogDescription>
+        </DialogHeader>
+
+        {token && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <p className="text-neutral-600">Price</p>
+                <p className="font-medium">{formatCurrency(token.price)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-600">You hold</p>
+                <p className="font-medium">{position ? position.balance.toLocaleString() : "—"}</p>
+              </div>
+              <div>
+                <p className="text-neutral-600">Cash</p>
+                <p className="font-medium">{position ? formatCurrency(position.cash) : "—"}</p>
+              </div>
+            </div>
+
+            <Tabs value={side} onValueChange={(value) => setSide(value as "buy" | "sell")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="buy">Buy</TabsTrigger>
+                <TabsTrigger value="sell">Sell</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="token-amount">Tokens</Label>
+                <Input
+                  id="token-amount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={amount}
+                  onChange={(event) => setAmount(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Slippage limit</Label>
+                <Select value={String(slippage)} onValueChange={(value) => setSlippage(Number(value))}>
+                  <SelectTrigger aria-label="Slippage limit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {slippageOptions.map((option) => (
+                      <SelectItem key={option} value={String(option)}>{option}%</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {hasQuantity && (
+              <div className="rounded-md border p-3 space-y-1">
+                {quoteError ? (
+                  <p className="text-sm text-red-600">{(quoteError as Error).message}</p>
+                ) : quote ? (
+                  <>
+                    <QuoteRow label={side === "buy" ? "You pay" : "You receive"} value={formatCurrency(quote.cash)} />
+                    <QuoteRow label="Average price" value={formatCurrency(quote.averagePrice)} />
+                    <QuoteRow label="Creator fee" value={formatCurrency(quote.fee)} />
+                    <QuoteRow label="Price impact" value={`${quote.priceImpact >= 0 ? "+" : ""}${quote.priceImpact.toFixed(2)}%`} />
+                    <QuoteRow label={side === "buy" ? "Pay at most" : "Receive at least"} value={formatCurrency(limit!)} />
+                  </>
+                ) : (
+                  <p className="text-sm text-neutral-600">Getting a quote...</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={!quote || !hasQuantity || !!quoteError || isQuoting || mutation.isPending}
+          >
+            {mutation.isPending ? "Trading..." : side === "buy" ? "Buy" : "Sell"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
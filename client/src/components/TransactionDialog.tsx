@@ -0,0 +1,314 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatShares } from "../utils/formatters";
+import { manualTransactionTypes, type TransactionType } from "@shared/schema";
+import type { Position } from "@shared/ledger";
+
+export const transactionTypeLabels: Record<TransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  dividend: "Dividend",
+  split: "Stock Split",
+  fee: "Fee",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  token_buy: "Token Purchase",
+  token_sell: "Token Sale",
+  token_fee: "Token Fee",
+};
+
+// Sentinel for "let the account's cost basis method pick the lots"
+const ACCOUNT_METHOD = "account";
+
+// Form schema
+const formSchema = z.object({
+  type: z.enum(manualTransactionTypes),
+  symbol: z.string().trim().optional(),
+  quantity: z.coerce.number().optional(),
+  price: z.coerce.number().optional(),
+  amount: z.coerce.number().optional(),
+  lotId: z.string(),
+  date: z.string().min(1, "Date is required"),
+}).superRefine((values, ctx) => {
+  const require = (field: "symbol" | "quantity" | "price" | "amount", message: string) => {
+    const value = values[field];
+    if (typeof value === "string" ? !value : !(value && value > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    }
+  };
+
+  if (values.type !== "deposit" && values.type !== "withdrawal" && values.type !== "fee") {
+    require("symbol", "Symbol is required");
+  }
+  if (values.type === "buy" || values.type === "sell") {
+    require("quantity", "Shares must be a positive number");
+    require("price", "Price must be a positive number");
+  }
+  if (values.type === "split") {
+    require("quantity", "Ratio must be a positive number");
+  }
+  if (values.type === "dividend" || values.type === "fee" || values.type === "deposit" || values.type === "withdrawal") {
+    require("amount", "Amount must be a positive number");
+  }
+});
+
+type TransactionForm = z.infer<typeof formSchema>;
+
+interface TransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  positions: Position[];
+}
+
+function today(): string {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+export default function TransactionDialog({ open, onOpenChange, positions }: TransactionDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<TransactionForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: "buy",
+      symbol: "",
+      lotId: ACCOUNT_METHOD,
+      date: today(),
+    },
+  });
+
+  const type = form.watch("type");
+  const symbol = (form.watch("symbol") || "").toUpperCase();
+  const usesSymbol = type !== "deposit" && type !== "withdrawal";
+  const usesShares = type === "buy" || type === "sell" || type === "split";
+  const usesPrice = type === "buy" || type === "sell";
+  const usesAmount = !usesShares;
+  const openLots = positions.find(position => position.symbol === symbol)?.lots || [];
+
+  const mutation = useMutation({
+    mutationFn: async (values: TransactionForm) => {
+      // Entries for today keep the time they were recorded so they sort after earlier trades
+      const executedAt = values.date === today() ? new Date() : new Date(`${values.date}T16:00:00`);
+
+      return apiRequest('POST', '/api/transactions', {
+        type: values.type,
+        symbol: usesSymbol && values.symbol ? values.symbol.toUpperCase() : undefined,
+        quantity: usesShares ? values.quantity : undefined,
+        price: usesPrice ? values.price : undefined,
+        amount: usesAmount ? values.amount : undefined,
+        lotId: type === "sell" && values.lotId !== ACCOUNT_METHOD ? Number(values.lotId) : undefined,
+        executedAt,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Transaction recorded",
+        description: `${transactionTypeLabels[type]} has been added to your ledger`,
+      });
+      invalidateLedgerQueries();
+      onOpenChange(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Record Transaction</DialogTitle>
+          <DialogDescription>
+            Add a trade, dividend, split or cash movement to your ledger.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {manualTransactionTypes.map((transactionType) => (
+                          <SelectItem key={transactionType} value={transactionType}>
+                            {transactionTypeLabels[transactionType]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" max={today()} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {usesSymbol && (
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Symbol{type === "fee" ? " (optional)" : ""}</FormLabel>
+                    <FormControl>
+                      <Input placeholder="AAPL" className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {(usesShares || usesPrice) && (
+              <div className="grid grid-cols-2 gap-4">
+                {usesShares && (
+                  <FormField
+                    control={form.control}
+                    name="quantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{type === "split" ? "Ratio" : "Shares"}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="any" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        {type === "split" && <FormDescription>New shares per old share</FormDescription>}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {usesPrice && (
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Price</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0.01" step="0.01" placeholder="0.00" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
+            {usesAmount && (
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0.01" step="0.01" placeholder="0.00" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {type === "sell" && openLots.length > 0 && (
+              <FormField
+                control={form.control}
+                name="lotId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lot</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ACCOUNT_METHOD}>Use account cost basis method</SelectItem>
+                        {openLots.map((lot) => (
+                          <SelectItem key={lot.id} value={String(lot.id)}>
+                            #{lot.id}: {formatShares(lot.shares)} @ {formatCurrency(lot.purchasePrice)} ({formatDate(lot.purchaseDate)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>A chosen lot is sold first when the account uses specific-lot matching</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? "Saving..." : "Record"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
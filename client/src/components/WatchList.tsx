@@ -9,37 +9,18 @@ import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, formatPercent } from "../utils/formatters";
 import AddWatchlistDialog from "./AddWatchlistDialog";
 import { Link } from "wouter";
+import { useQuotes } from "../hooks/use-quotes";
 
 export default function WatchList() {
   const [isAddStockOpen, setIsAddStockOpen] = useState(false);
   const queryClient = useQueryClient();
 
-  const { data: watchlist, isLoading } = useQuery({
+  const { data: watchlist = [], isLoading } = useQuery<WatchlistStock[]>({
     queryKey: ['/api/watchlist'],
   });
 
-  const { data: quoteData } = useQuery({
-    queryKey: ['/api/stocks/quotes/watchlist', watchlist],
-    queryFn: async () => {
-      if (!watchlist || watchlist.length === 0) return {};
-      
-      const quotes: Record<string, any> = {};
-      
-      // Due to API rate limits, we need to fetch quotes one by one
-      for (const stock of watchlist) {
-        try {
-          const response = await fetch(`/api/stocks/quote/${stock.symbol}`);
-          const data = await response.json();
-          quotes[stock.symbol] = data["Global Quote"] || null;
-        } catch (error) {
-          console.error(`Failed to fetch quote for ${stock.symbol}:`, error);
-        }
-      }
-      
-      return quotes;
-    },
-    enabled: !!watchlist && watchlist.length > 0,
-  });
+  const { data: quoteResponse } = useQuotes(watchlist.map(stock => stock.symbol));
+  const quoteData = quoteResponse?.quotes;
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -65,8 +46,8 @@ export default function WatchList() {
       <CardContent>
         {watchlist.map((stock: WatchlistStock) => {
           const quote = quoteData?.[stock.symbol];
-          const currentPrice = quote ? parseFloat(quote["05. price"]) : 0;
-          const priceChangePercent = quote ? parseFloat(quote["10. change percent"].replace('%', '')) : 0;
+          const currentPrice = quote ? quote.price : 0;
+          const priceChangePercent = quote ? quote.changePercent : 0;
           
           return (
             <div key={stock.id} className="flex justify-between items-center mb-4 last:mb-0">
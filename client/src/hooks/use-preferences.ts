@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+import {
+  defaultUserPreferences,
+  type UserPreferences,
+  type UpdateUserPreferences,
+} from "@shared/schema";
+
+type Preferences = Omit<UserPreferences, "userId">;
+
+// Display preferences for the signed-in user, saved to their profile on change.
+// Signed-out visitors get the defaults, kept for the current page only.
+export function usePreferences() {
+  const { user } = useAuth();
+  const [localPreferences, setLocalPreferences] = useState<Preferences>(defaultUserPreferences);
+
+  const { data } = useQuery<UserPreferences>({
+    queryKey: ["/api/preferences"],
+    enabled: !!user,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (update: UpdateUserPreferences) => {
+      const res = await apiRequest("PATCH", "/api/preferences", update);
+      return (await res.json()) as UserPreferences;
+    },
+    // Apply the change right away rather than waiting for the round trip
+    onMutate: (update) => {
+      const previous = queryClient.getQueryData<UserPreferences>(["/api/preferences"]);
+      if (previous) {
+        queryClient.setQueryData(["/api/preferences"], { ...previous, ...update });
+      }
+      return { previous };
+    },
+    onError: (_error, _update, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(["/api/preferences"], context.previous);
+      }
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["/api/preferences"], preferences);
+    },
+  });
+
+  const preferences: Preferences = user ? data || defaultUserPreferences : localPreferences;
+
+  const updatePreferences = (update: UpdateUserPreferences) => {
+    if (user) {
+      mutation.mutate(update);
+    } else {
+      setLocalPreferences(current => ({ ...current, ...update }));
+    }
+  };
+
+  return { preferences, updatePreferences };
+}
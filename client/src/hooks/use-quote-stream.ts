@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { quoteStream, type StreamStatus } from "@/lib/quoteStream";
+
+// Stream live quotes for `symbols` into the query cache while the component is mounted
+export function useQuoteStream(symbols: string[]) {
+  const key = Array.from(new Set(symbols)).sort().join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    return quoteStream.subscribe(key.split(","));
+  }, [key]);
+}
+
+// Connection state of the shared quote stream
+export function useStreamStatus(): StreamStatus {
+  return useSyncExternalStore(
+    listener => quoteStream.onStatusChange(listener),
+    () => quoteStream.status,
+  );
+}
@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import type { QuoteResponse, QuotesResponse } from "@shared/marketData";
+import { useQuoteStream } from "./use-quote-stream";
+
+// Fetch a single quote from the normalized v2 API, kept live by the quote stream
+export function useQuote(symbol: string) {
+  useQuoteStream(symbol ? [symbol.toUpperCase()] : []);
+
+  return useQuery<QuoteResponse>({
+    queryKey: [`/api/v2/quotes/${encodeURIComponent(symbol)}`],
+    enabled: symbol.length > 0,
+  });
+}
+
+// Fetch quotes for many symbols with a single request to the batch endpoint, kept live by the quote stream
+export function useQuotes(symbols: string[]) {
+  const uniqueSymbols = Array.from(new Set(symbols)).sort();
+  useQuoteStream(uniqueSymbols);
+  const query = uniqueSymbols.map(encodeURIComponent).join(",");
+
+  return useQuery<QuotesResponse>({
+    queryKey: [`/api/v2/quotes?symbols=${query}`],
+    enabled: uniqueSymbols.length > 0,
+  });
+}
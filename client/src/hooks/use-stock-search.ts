@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SearchResponse } from "@shared/marketData";
+
+// Symbol search against the v2 API; waits for at least two characters
+export function useStockSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery<SearchResponse>({
+    queryKey: [`/api/v2/search?q=${encodeURIComponent(trimmed)}`],
+    enabled: trimmed.length >= 2,
+  });
+}
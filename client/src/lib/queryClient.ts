@@ -55,3 +55,16 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Queries derived from the transaction ledger, refreshed after fills and ledger edits
+const LEDGER_QUERY_KEYS = ["/api/portfolio", "/api/portfolio/ledger", "/api/transactions", "/api/account"];
+
+export function invalidateLedgerQueries() {
+  for (const key of LEDGER_QUERY_KEYS) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+  // Portfolio analytics are keyed by their query strings
+  queryClient.invalidateQueries({
+    predicate: (query) => /^\/api\/portfolio\/(history|benchmark|risk)\?/.test(String(query.queryKey[0])),
+  });
+}
@@ -0,0 +1,159 @@
+import { queryClient } from "./queryClient";
+import {
+  marketIndexSymbols,
+  type Quote,
+  type QuoteResponse,
+  type QuotesResponse,
+  type StreamClientMessage,
+  type StreamServerMessage,
+} from "@shared/marketData";
+import type { MarketIndex } from "@shared/schema";
+
+export type StreamStatus = "connecting" | "open" | "closed";
+
+// Reconnect delays grow from the first to the last entry and then stay there
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+const indexNamesBySymbol = new Map(Object.entries(marketIndexSymbols).map(([name, symbol]) => [symbol, name]));
+
+// Write a streamed quote into every cached query that shows it
+function patchQueryCache(symbol: string, changes: Partial<Quote>) {
+  // Symbols in single-quote URLs keep whatever case the page was opened with
+  const quoteKey = `/api/v2/quotes/${encodeURIComponent(symbol)}`;
+  const quoteQueries = queryClient.getQueryCache().findAll({
+    predicate: query => String(query.queryKey[0]).toUpperCase() === quoteKey,
+  });
+  for (const query of quoteQueries) {
+    queryClient.setQueryData<QuoteResponse>(query.queryKey, current =>
+      current && { ...current, quote: { ...current.quote, ...changes } }
+    );
+  }
+
+  const batchQueries = queryClient.getQueryCache().findAll({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/v2/quotes?symbols="),
+  });
+  for (const query of batchQueries) {
+    queryClient.setQueryData<QuotesResponse>(query.queryKey, current => {
+      if (!current?.quotes[symbol]) return current;
+      return { ...current, quotes: { ...current.quotes, [symbol]: { ...current.quotes[symbol], ...changes } } };
+    });
+  }
+
+  const indexName = indexNamesBySymbol.get(symbol);
+  if (indexName && changes.price !== undefined) {
+    queryClient.setQueryData<MarketIndex[]>(["/api/market/indices"], current => current?.map(index => {
+      if (index.name !== indexName) return index;
+      return {
+        ...index,
+        value: String(changes.price),
+        change: changes.change !== undefined ? String(changes.change) : index.change,
+        changePercent: changes.changePercent !== undefined ? String(changes.changePercent) : index.changePercent,
+        lastUpdated: changes.marketTime ? new Date(changes.marketTime) : index.lastUpdated,
+      };
+    }));
+  }
+}
+
+// Single shared WebSocket to /ws. Components subscribe with reference counts so
+// a symbol stays streamed while anything on the page shows it, and every
+// subscription is replayed after a reconnect.
+class QuoteStreamClient {
+  private socket?: WebSocket;
+  private subscriptions = new Map<string, number>();
+  private statusListeners = new Set<() => void>();
+  private reconnectAttempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  status: StreamStatus = "closed";
+
+  subscribe(symbols: string[]): () => void {
+    const added: string[] = [];
+    for (const symbol of symbols) {
+      const count = this.subscriptions.get(symbol) || 0;
+      this.subscriptions.set(symbol, count + 1);
+      if (count === 0) added.push(symbol);
+    }
+
+    if (!this.socket) {
+      if (!this.reconnectTimer) this.connect();
+    } else if (added.length > 0) {
+      this.send({ type: "subscribe", symbols: added });
+    }
+
+    return () => this.unsubscribe(symbols);
+  }
+
+  // Watching the status opens the connection, so an indicator shows whether streaming works before anything subscribes
+  onStatusChange(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    if (!this.socket && !this.reconnectTimer) {
+      this.connect();
+    }
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private unsubscribe(symbols: string[]) {
+    const removed: string[] = [];
+    for (const symbol of symbols) {
+      const count = (this.subscriptions.get(symbol) || 0) - 1;
+      if (count > 0) {
+        this.subscriptions.set(symbol, count);
+      } else {
+        this.subscriptions.delete(symbol);
+        removed.push(symbol);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.send({ type: "unsubscribe", symbols: removed });
+    }
+  }
+
+  private connect() {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(`${protocol}://${window.location.host}/ws`);
+    this.socket = socket;
+    this.setStatus("connecting");
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.setStatus("open");
+      if (this.subscriptions.size > 0) {
+        this.send({ type: "subscribe", symbols: Array.from(this.subscriptions.keys()) });
+      }
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as StreamServerMessage;
+      if (message.type === "snapshot") {
+        patchQueryCache(message.quote.symbol, message.quote);
+      } else if (message.type === "quote") {
+        patchQueryCache(message.symbol, message.changes);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      this.setStatus("closed");
+
+      const delay = RECONNECT_DELAYS_MS[Math.min(this.reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
+      this.reconnectAttempt++;
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  private send(message: StreamClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setStatus(status: StreamStatus) {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener());
+  }
+}
+
+export const quoteStream = new QuoteStreamClient();
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pause, Play, Plus, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "../utils/formatters";
+import CreateAlertDialog, { describeAlert } from "../components/CreateAlertDialog";
+import type { Alert, UpdateAlert } from "@shared/schema";
+
+// Fired alerts switch themselves off on the server; poll so the status catches up
+const ALERTS_REFRESH_MS = 30 * 1000;
+
+function alertStatus(alert: Alert): { label: string; className: string } {
+  if (alert.active) return { label: "Watching", className: "bg-green-50 text-green-800 border-green-200" };
+  if (alert.triggeredAt) return { label: "Triggered", className: "bg-amber-50 text-amber-800 border-amber-200" };
+  return { label: "Paused", className: "bg-neutral-50 text-neutral-600 border-neutral-200" };
+}
+
+export default function Alerts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: alerts = [], isLoading } = useQuery<Alert[]>({
+    queryKey: ["/api/alerts"],
+    refetchInterval: (query) =>
+      query.state.data?.some(alert => alert.active) ? ALERTS_REFRESH_MS : false,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: number; update: UpdateAlert }) => {
+      await apiRequest("PATCH", `/api/alerts/${id}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/alerts/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Alert deleted",
+        description: "The alert has been removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Price Alerts</h1>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          New Alert
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : alerts.length === 0 ? (
+            <p className="text-sm text-neutral-500 py-6 text-center">
+              No alerts yet. Create one to be notified when a stock hits your price, makes a big move or trades unusual volume.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Created</TableHead>
+                  <TableHead className="text-right">Last Triggered</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => {
+                  const status = alertStatus(alert);
+                  return (
+                    <TableRow key={alert.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/stock/${alert.symbol}`}>
+                          <a className="hover:underline">{alert.symbol}</a>
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {describeAlert(alert)}
+                        {alert.webhookUrl && (
+                          <Webhook className="inline ml-2 h-3.5 w-3.5 text-neutral-400" aria-label={`Also sent to ${alert.webhookUrl}`} />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatDate(alert.createdAt)}</TableCell>
+                      <TableCell className="text-right">{alert.triggeredAt ? formatDate(alert.triggeredAt) : "—"}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateMutation.mutate({ id: alert.id, update: { active: !alert.active } })}
+                          disabled={updateMutation.isPending}
+                          title={alert.active ? "Pause" : alert.triggeredAt ? "Re-arm" : "Resume"}
+                        >
+                          {alert.active
+                            ? <Pause className="h-4 w-4 text-neutral-500" />
+                            : alert.triggeredAt
+                              ? <RotateCcw className="h-4 w-4 text-neutral-500" />
+                              : <Play className="h-4 w-4 text-neutral-500" />}
+                          <span className="sr-only">{alert.active ? "Pause" : "Re-arm"}</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(alert.id)}
+                          disabled={deleteMutation.isPending}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-neutral-500" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateAlertDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const registerSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+type CredentialsForm = z.infer<typeof loginSchema>;
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<CredentialsForm>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const registerForm = useForm<CredentialsForm>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-12 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Enter the Vault</CardTitle>
+          <CardDescription>
+            Sign in to manage your portfolio and watchlist.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Login</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <Form {...loginForm}>
+                <form
+                  onSubmit={loginForm.handleSubmit((values) => loginMutation.mutate(values))}
+                  className="space-y-4"
+                >
+                  <CredentialsFields form={loginForm} autoComplete="current-password" />
+                  <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                    {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <Form {...registerForm}>
+                <form
+                  onSubmit={registerForm.handleSubmit((values) => registerMutation.mutate(values))}
+                  className="space-y-4"
+                >
+                  <CredentialsFields form={registerForm} autoComplete="new-password" />
+                  <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                    {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CredentialsFields({
+  form,
+  autoComplete,
+}: {
+  form: ReturnType<typeof useForm<CredentialsForm>>;
+  autoComplete: string;
+}) {
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="username"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Username</FormLabel>
+            <FormControl>
+              <Input autoComplete="username" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="password"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete={autoComplete} {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
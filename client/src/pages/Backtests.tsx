@@ -0,0 +1,510 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatPercent, formatShares } from "../utils/formatters";
+import {
+  backtestDataSources,
+  backtestIntervals,
+  type BacktestResult,
+  type StrategyConfig,
+  type StrategyName,
+} from "@shared/backtest";
+
+const strategyLabels: Record<StrategyName, string> = {
+  buy_and_hold: "Buy and Hold",
+  sma_crossover: "SMA Crossover",
+  breakout: "Channel Breakout",
+};
+
+const dataSourceLabels: Record<typeof backtestDataSources[number], string> = {
+  provider: "Market data provider",
+  fixture: "Recorded fixtures",
+};
+
+const intervalLabels: Record<typeof backtestIntervals[number], string> = {
+  "1d": "Daily",
+  "1wk": "Weekly",
+};
+
+// Form schema; strategy parameters are flattened and only sent for the chosen strategy
+const formSchema = z.object({
+  symbol: z.string().trim().min(1, "Symbol is required"),
+  strategy: z.enum(["buy_and_hold", "sma_crossover", "breakout"]),
+  fast: z.coerce.number().int().positive(),
+  slow: z.coerce.number().int().positive(),
+  entryLookback: z.coerce.number().int().positive(),
+  exitLookback: z.coerce.number().int().positive(),
+  interval: z.enum(backtestIntervals),
+  from: z.string(),
+  to: z.string(),
+  initialCash: z.coerce.number().positive("Starting cash must be a positive number"),
+  commissionPerTrade: z.coerce.number().min(0),
+  slippageBps: z.coerce.number().min(0),
+  dataSource: z.enum(backtestDataSources),
+});
+
+type BacktestForm = z.infer<typeof formSchema>;
+
+function toStrategyConfig(values: BacktestForm): StrategyConfig {
+  switch (values.strategy) {
+    case "buy_and_hold":
+      return { name: "buy_and_hold" };
+    case "sma_crossover":
+      return { name: "sma_crossover", fast: values.fast, slow: values.slow };
+    case "breakout":
+      return { name: "breakout", entryLookback: values.entryLookback, exitLookback: values.exitLookback };
+  }
+}
+
+function Metric({ label, value, tone }: { label: string; value: string; tone?: number }) {
+  const color = tone === undefined ? "" : tone >= 0 ? "text-green-600" : "text-red-600";
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-neutral-600 mb-1">{label}</p>
+        <p className={`text-2xl font-bold ${color}`}>{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Backtests() {
+  const { toast } = useToast();
+
+  const form = useForm<BacktestForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      symbol: "AAPL",
+      strategy: "sma_crossover",
+      fast: 20,
+      slow: 50,
+      entryLookback: 20,
+      exitLookback: 10,
+      interval: "1d",
+      from: "",
+      to: "",
+      initialCash: 100000,
+      commissionPerTrade: 1,
+      slippageBps: 5,
+      dataSource: "provider",
+    },
+  });
+
+  const strategy = form.watch("strategy");
+
+  const mutation = useMutation({
+    mutationFn: async (values: BacktestForm) => {
+      const res = await apiRequest("POST", "/api/backtests", {
+        symbol: values.symbol.toUpperCase(),
+        strategy: toStrategyConfig(values),
+        interval: values.interval,
+        from: values.from || undefined,
+        to: values.to || undefined,
+        initialCash: values.initialCash,
+        commission: { perTrade: values.commissionPerTrade },
+        slippageBps: values.slippageBps,
+        dataSource: values.dataSource,
+      });
+      return (await res.json()) as BacktestResult;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Backtest failed",
+        description: error.message || "Failed to run backtest",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = mutation.data;
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <h1 className="text-2xl font-bold mb-6">Strategy Backtests</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Setup</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="symbol"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Symbol</FormLabel>
+                        <FormControl>
+                          <Input className="uppercase" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="interval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bars</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {backtestIntervals.map((interval) => (
+                              <SelectItem key={interval} value={interval}>{intervalLabels[interval]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="strategy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Strategy</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(strategyLabels) as StrategyName[]).map((name) => (
+                            <SelectItem key={name} value={name}>{strategyLabels[name]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                {strategy === "sma_crossover" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="fast"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fast SMA</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="slow"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Slow SMA</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="2" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                {strategy === "breakout" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="entryLookback"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Entry Lookback</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="exitLookback"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Exit Lookback</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="from"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="to"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>To</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="initialCash"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starting Cash</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="commissionPerTrade"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Commission / Trade</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="slippageBps"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Slippage (bps)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="dataSource"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price History</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {backtestDataSources.map((source) => (
+                            <SelectItem key={source} value={source}>{dataSourceLabels[source]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                  {mutation.isPending ? "Running..." : "Run Backtest"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {!result ? (
+            <Card>
+              <CardContent className="p-12 text-center text-neutral-600">
+                Choose a symbol and strategy, then run a backtest to see its equity curve and trades.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Metric label="Total Return" value={formatPercent(result.metrics.totalReturn)} tone={result.metrics.totalReturn} />
+                <Metric label="CAGR" value={formatPercent(result.metrics.cagr)} tone={result.metrics.cagr} />
+                <Metric label="Max Drawdown" value={formatPercent(result.metrics.maxDrawdown)} tone={result.metrics.maxDrawdown} />
+                <Metric label="Sharpe Ratio" value={result.metrics.sharpe.toFixed(2)} />
+                <Metric label="Final Equity" value={formatCurrency(result.finalEquity)} />
+                <Metric label="Trades" value={String(result.metrics.tradeCount)} />
+                <Metric label="Win Rate" value={`${result.metrics.winRate.toFixed(1)}%`} />
+                <Metric label="Commission Paid" value={formatCurrency(result.metrics.totalCommission)} />
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    Equity Curve
+                    <span className="ml-2 text-sm font-normal text-neutral-600">
+                      {result.symbol} · {strategyLabels[result.strategy.name]} · {formatDate(result.from)} – {formatDate(result.to)}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-[300px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={result.equityCurve} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                        <defs>
+                          <linearGradient id="colorEquity" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="#0F4C81" stopOpacity={0.8} />
+                            <stop offset="95%" stopColor="#0F4C81" stopOpacity={0.1} />
+                          </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
+                        <XAxis
+                          dataKey="time"
+                          tickFormatter={(time) => formatDate(time)}
+                          tick={{ fontSize: 10 }}
+                          minTickGap={30}
+                        />
+                        <YAxis
+                          domain={["auto", "auto"]}
+                          tick={{ fontSize: 10 }}
+                          tickFormatter={(value) => formatCurrency(value)}
+                          width={90}
+                        />
+                        <Tooltip
+                          labelFormatter={(time) => formatDate(time as string)}
+                          formatter={(value: number) => [formatCurrency(value), "Equity"]}
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="equity"
+                          stroke="#0F4C81"
+                          fillOpacity={1}
+                          fill="url(#colorEquity)"
+                          strokeWidth={2}
+                        />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Trades</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {result.trades.length === 0 ? (
+                    <p className="text-center p-6 text-neutral-600">No completed round trips in this period</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Entry</TableHead>
+                          <TableHead>Exit</TableHead>
+                          <TableHead className="text-right">Shares</TableHead>
+                          <TableHead className="text-right">Entry Price</TableHead>
+                          <TableHead className="text-right">Exit Price</TableHead>
+                          <TableHead className="text-right">P&amp;L</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.trades.map((trade) => (
+                          <TableRow key={trade.entryTime}>
+                            <TableCell>{formatDate(trade.entryTime)}</TableCell>
+                            <TableCell>{formatDate(trade.exitTime)}</TableCell>
+                            <TableCell className="text-right">{formatShares(trade.quantity)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(trade.entryPrice)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(trade.exitPrice)}</TableCell>
+                            <TableCell className={`text-right ${trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatCurrency(trade.pnl)} ({formatPercent(trade.returnPercent)})
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  {result.fills.length > 0 && result.equityCurve[result.equityCurve.length - 1].positionValue > 0 && (
+                    <p className="text-xs text-neutral-600 mt-4">
+                      A position is still open at the end of the period and is valued at the last close.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowDown, ArrowUp, ChevronLeft } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatPercent } from "../utils/formatters";
+import DraftRosterDialog from "../components/DraftRosterDialog";
+import { formatSeasonDay, leagueStatusStyles } from "./Leagues";
+import type { LeagueDetail, LeagueLeaderboard, LeagueStanding } from "@shared/fantasyLeagues";
+
+// Teams drawn on the season chart, from the top of the standings
+const CHART_TEAMS = 8;
+
+const lineColors = ["#0F4C81", "#D97706", "#16A34A", "#DC2626", "#7C3AED", "#0891B2", "#DB2777", "#65A30D"];
+
+function RankChange({ standing }: { standing: LeagueStanding }) {
+  if (standing.rank === null || standing.previousRank === null || standing.rank === standing.previousRank) return null;
+
+  const moves = standing.previousRank - standing.rank;
+  return moves > 0 ? (
+    <span className="inline-flex items-center text-xs text-green-700" title={`Up ${moves} since the previous close`}>
+      <ArrowUp className="h-3 w-3" />{moves}
+    </span>
+  ) : (
+    <span className="inline-flex items-center text-xs text-red-700" title={`Down ${-moves} since the previous close`}>
+      <ArrowDown className="h-3 w-3" />{-moves}
+    </span>
+  );
+}
+
+// A league's leaderboard, its teams' rosters and, before the season, joining and drafting
+export default function League() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [teamName, setTeamName] = useState("");
+  const [isDraftOpen, setIsDraftOpen] = useState(false);
+
+  const { data: league, isLoading, error } = useQuery<LeagueDetail>({
+    queryKey: [`/api/leagues/${id}`],
+  });
+  const { data: leaderboard } = useQuery<LeagueLeaderboard>({
+    queryKey: [`/api/leagues/${id}/standings`],
+    enabled: !!league && league.status !== "upcoming",
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", `/api/leagues/${id}/join`, { name });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Joined league",
+        description: "Draft your roster before the season starts",
+      });
+      setTeamName("");
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leagues"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to join league",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-6 space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-[300px] w-full" />
+      </div>
+    );
+  }
+
+  if (error || !league) {
+    return (
+      <div className="container mx-auto px-4 py-6">
+        <p className="text-neutral-600">League not found</p>
+      </div>
+    );
+  }
+
+  const status = leagueStatusStyles[league.status];
+  const myTeam = league.teams.find(team => team.id === league.teamId);
+  const standings = leaderboard?.standings || [];
+  const chartTeams = standings.filter(standing => standing.rank !== null).slice(0, CHART_TEAMS);
+  const series = (leaderboard?.history || []).map(({ day, returns }) => ({ day, ...returns }));
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <Link href="/leagues">
+        <a className="inline-flex items-center text-sm text-neutral-600 hover:underline mb-2">
+          <ChevronLeft className="h-4 w-4" />
+          All leagues
+        </a>
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold">{league.name}</h1>
+            <Badge variant="outline" className={status.className}>{status.label}</Badge>
+          </div>
+          <p className="text-sm text-neutral-600">
+            {formatSeasonDay(league.seasonStart)} – {formatSeasonDay(league.seasonEnd)} · {league.rosterSize} picks under a {formatCurrency(league.salaryCap)} salary cap · created by {league.owner}
+          </p>
+        </div>
+
+        {league.status === "upcoming" && (myTeam ? (
+          <Button onClick={() => setIsDraftOpen(true)}>
+            {myTeam.picks?.length ? "Redraft Roster" : "Draft Roster"}
+          </Button>
+        ) : (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              joinMutation.mutate(teamName);
+            }}
+          >
+            <Input
+              placeholder="Team name"
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              className="w-48"
+              aria-label="Team name"
+            />
+            <Button type="submit" disabled={joinMutation.isPending || teamName.trim() === ""}>
+              {joinMutation.isPending ? "Joining..." : "Join League"}
+            </Button>
+          </form>
+        ))}
+      </div>
+
+      {league.status !== "upcoming" && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Leaderboard</CardTitle>
+            {leaderboard?.asOf && (
+              <p className="text-sm text-neutral-600">Returns since the season started, as of the {formatSeasonDay(leaderboard.asOf)} close</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!leaderboard ? (
+              <Skeleton className="h-[200px] w-full" />
+            ) : !leaderboard.asOf ? (
+              <p className="text-sm text-neutral-500 py-6 text-center">
+                Standings appear after the season's first close.
+              </p>
+            ) : (
+              <div className="space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">Rank</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Manager</TableHead>
+                      <TableHead className="text-right">Return</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {standings.map((standing) => (
+                      <TableRow key={standing.teamId} className={standing.teamId === league.teamId ? "bg-amber-50" : undefined}>
+                        <TableCell className="font-medium">
+                          {standing.rank ?? "—"} <RankChange standing={standing} />
+                        </TableCell>
+                        <TableCell>{standing.teamName}</TableCell>
+                        <TableCell className="text-neutral-600">{standing.username}</TableCell>
+                        <TableCell className={`text-right ${standing.returnPercent !== null && standing.returnPercent < 0 ? "text-red-700" : "text-green-700"}`}>
+                          {standing.returnPercent === null ? "No roster" : formatPercent(standing.returnPercent)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {series.length > 1 && (
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={series} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#DEE2E6" vertical={false} />
+                        <XAxis
+                          dataKey="day"
+                          tickFormatter={(day: string) => new Date(day).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                          tick={{ fontSize: 12 }}
+                          minTickGap={30}
+                        />
+                        <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} tick={{ fontSize: 12 }} width={50} />
+                        <Tooltip
+                          formatter={(value: number) => formatPercent(value)}
+                          labelFormatter={(day: string) => formatSeasonDay(day)}
+                        />
+                        <Legend />
+                        <ReferenceLine y={0} stroke="#ADB5BD" strokeDasharray="4 4" />
+                        {chartTeams.map((standing, i) => (
+                          <Line
+                            key={standing.teamId}
+                            type="monotone"
+                            dataKey={String(standing.teamId)}
+                            name={standing.teamName}
+                            stroke={lineColors[i % lineColors.length]}
+                            strokeWidth={2}
+                            dot={false}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Teams</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {league.teams.length === 0 ? (
+            <p className="text-sm text-neutral-500 py-6 text-center">No teams have joined yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Manager</TableHead>
+                  <TableHead>Roster</TableHead>
+                  <TableHead className="text-right">Salary</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {league.teams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell className="font-medium">{team.name}</TableCell>
+                    <TableCell className="text-neutral-600">{team.username}</TableCell>
+                    <TableCell>
+                      {team.picks === null ? (
+                        <span className="text-neutral-500">Hidden until the season starts</span>
+                      ) : team.picks.length === 0 ? (
+                        <span className="text-neutral-500">Not drafted yet</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {team.picks.map((pick) => (
+                            <Badge key={`${pick.assetType}:${pick.symbol}`} variant="outline" title={`${pick.assetType === "token" ? "Fantasy token" : "Stock"} drafted at ${formatCurrency(pick.salary)}`}>
+                              {pick.symbol}{pick.assetType === "token" && " (token)"}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{team.salary === null ? "—" : formatCurrency(team.salary)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {myTeam && (
+        <DraftRosterDialog league={league} picks={myTeam.picks || []} open={isDraftOpen} onOpenChange={setIsDraftOpen} />
+      )}
+    </div>
+  );
+}
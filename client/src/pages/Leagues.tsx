@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus } from "lucide-react";
+import { formatCurrency } from "../utils/formatters";
+import CreateLeagueDialog from "../components/CreateLeagueDialog";
+import type { LeagueStatus, LeagueSummary } from "@shared/fantasyLeagues";
+
+export const leagueStatusStyles: Record<LeagueStatus, { label: string; className: string }> = {
+  upcoming: { label: "Drafting", className: "bg-amber-50 text-amber-800 border-amber-200" },
+  active: { label: "In season", className: "bg-green-50 text-green-800 border-green-200" },
+  finished: { label: "Finished", className: "bg-neutral-50 text-neutral-600 border-neutral-200" },
+};
+
+// Season days are UTC dates, so they're shown without shifting into the local time zone
+export function formatSeasonDay(day: string): string {
+  return new Date(day).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+export default function Leagues() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: leagues = [], isLoading } = useQuery<LeagueSummary[]>({
+    queryKey: ["/api/leagues"],
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Fantasy Leagues</h1>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          New League
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Leagues</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : leagues.length === 0 ? (
+            <p className="text-sm text-neutral-500 py-6 text-center">
+              No leagues yet. Create one, invite friends to join and draft, and see whose roster returns the most over the season.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>League</TableHead>
+                  <TableHead>Season</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Teams</TableHead>
+                  <TableHead className="text-right">Salary Cap</TableHead>
+                  <TableHead className="text-right">Roster</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leagues.map((league) => {
+                  const status = leagueStatusStyles[league.status];
+                  return (
+                    <TableRow key={league.id}>
+                      <TableCell>
+                        <Link href={`/leagues/${league.id}`}>
+                          <a className="font-medium hover:underline">{league.name}</a>
+                        </Link>
+                        <div className="text-xs text-neutral-500">by {league.owner}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatSeasonDay(league.seasonStart)} – {formatSeasonDay(league.seasonEnd)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{league.teamCount}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(league.salaryCap)}</TableCell>
+                      <TableCell className="text-right">{league.rosterSize} picks</TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/leagues/${league.id}`}>
+                          <Button variant="outline" size="sm">
+                            {league.teamId === null && league.status === "upcoming" ? "Join" : "Standings"}
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateLeagueDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+    </div>
+  );
+}
@@ -1,70 +1,87 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableHead, 
-  TableHeader, 
-  TableRow 
-} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Trash2, Plus } from "lucide-react";
+import { Plus, NotebookPen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { formatCurrency, formatDate, formatPercent } from "../utils/formatters";
-import { PortfolioStock } from "@shared/schema";
+import { apiRequest, invalidateLedgerQueries } from "@/lib/queryClient";
+import { formatCurrency, formatPercent } from "../utils/formatters";
+import { costBasisMethods, type Account, type CostBasisMethod } from "@shared/schema";
+import type { LedgerResponse, Lot } from "@shared/ledger";
 import AddStockDialog from "../components/AddStockDialog";
+import TransactionDialog from "../components/TransactionDialog";
+import PositionsTable from "../components/PositionsTable";
+import LedgerHistory from "../components/LedgerHistory";
+import OrderTicket from "../components/OrderTicket";
+import OrdersBlotter from "../components/OrdersBlotter";
+import PortfolioPerformance from "../components/PortfolioPerformance";
+import BenchmarkComparison from "../components/BenchmarkComparison";
+import RiskPanel from "../components/RiskPanel";
+import { useQuotes } from "../hooks/use-quotes";
+
+const costBasisMethodLabels: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  specific: "Specific Lot",
+  average: "Average Cost",
+};
 
 export default function Portfolio() {
   const [isAddStockOpen, setIsAddStockOpen] = useState(false);
+  const [isTransactionOpen, setIsTransactionOpen] = useState(false);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
 
-  const { data: portfolio, isLoading } = useQuery({
-    queryKey: ['/api/portfolio'],
+  const { data: ledger, isLoading } = useQuery<LedgerResponse>({
+    queryKey: ['/api/portfolio/ledger'],
   });
+  const positions = ledger?.positions || [];
 
-  const { data: quoteData } = useQuery({
-    queryKey: ['/api/stocks/quotes/portfolio', portfolio],
-    queryFn: async () => {
-      if (!portfolio || portfolio.length === 0) return {};
-      
-      const quotes: Record<string, any> = {};
-      
-      // Due to API rate limits, we need to fetch quotes one by one
-      for (const stock of portfolio) {
-        try {
-          const response = await fetch(`/api/stocks/quote/${stock.symbol}`);
-          const data = await response.json();
-          quotes[stock.symbol] = data["Global Quote"] || null;
-        } catch (error) {
-          console.error(`Failed to fetch quote for ${stock.symbol}:`, error);
-        }
-      }
-      
-      return quotes;
-    },
-    enabled: !!portfolio && portfolio.length > 0,
+  const { data: account } = useQuery<Account>({
+    queryKey: ['/api/account'],
   });
 
+  const { data: quoteResponse } = useQuotes(positions.map(position => position.symbol));
+  const quoteData = quoteResponse?.quotes;
+
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest('DELETE', `/api/portfolio/${id}`);
+    mutationFn: async (lot: Lot) => {
+      await apiRequest('DELETE', `/api/portfolio/${lot.id}`);
     },
     onSuccess: () => {
       toast({
-        title: "Stock removed",
-        description: "The stock has been removed from your portfolio",
+        title: "Lot removed",
+        description: "The purchase has been removed from your portfolio",
+      });
+      invalidateLedgerQueries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove stock from portfolio",
+        variant: "destructive",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+    },
+  });
+
+  const methodMutation = useMutation({
+    mutationFn: async (costBasisMethod: CostBasisMethod) => {
+      await apiRequest('PATCH', '/api/account', { costBasisMethod });
+    },
+    onSuccess: () => {
+      invalidateLedgerQueries();
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to remove stock from portfolio",
+        description: "Failed to change cost basis method",
         variant: "destructive",
       });
     },
@@ -72,12 +89,12 @@ export default function Portfolio() {
 
   // Calculate portfolio totals
   const calculateTotals = () => {
-    if (!portfolio || !quoteData) {
+    if (!quoteData) {
       return {
         totalValue: 0,
         totalCost: 0,
-        totalGain: 0,
-        totalGainPercent: 0,
+        unrealizedGain: 0,
+        unrealizedGainPercent: 0,
         todayChange: 0,
         todayChangePercent: 0,
       };
@@ -87,35 +104,32 @@ export default function Portfolio() {
     let totalCost = 0;
     let todayChange = 0;
 
-    portfolio.forEach((stock: PortfolioStock) => {
-      const quote = quoteData[stock.symbol];
-      const currentPrice = quote ? parseFloat(quote["05. price"]) : 0;
-      const priceChange = quote ? parseFloat(quote["09. change"]) : 0;
-      
-      const stockValue = currentPrice * Number(stock.shares);
-      const stockCost = Number(stock.purchasePrice) * Number(stock.shares);
-      const stockDayChange = priceChange * Number(stock.shares);
+    positions.forEach((position) => {
+      const quote = quoteData[position.symbol];
+      const currentPrice = quote ? quote.price : 0;
+      const priceChange = quote ? quote.change : 0;
       
-      totalValue += stockValue;
-      totalCost += stockCost;
-      todayChange += stockDayChange;
+      totalValue += currentPrice * position.shares;
+      totalCost += position.costBasis;
+      todayChange += priceChange * position.shares;
     });
 
-    const totalGain = totalValue - totalCost;
-    const totalGainPercent = totalCost > 0 ? (totalGain / totalCost) * 100 : 0;
+    const unrealizedGain = totalValue - totalCost;
+    const unrealizedGainPercent = totalCost > 0 ? (unrealizedGain / totalCost) * 100 : 0;
     const todayChangePercent = totalValue > 0 ? (todayChange / totalValue) * 100 : 0;
 
     return {
       totalValue,
       totalCost,
-      totalGain,
-      totalGainPercent,
+      unrealizedGain,
+      unrealizedGainPercent,
       todayChange,
       todayChangePercent,
     };
   };
 
   const totals = calculateTotals();
+  const realizedGain = ledger?.totals.realizedGain || 0;
 
   if (isLoading) {
     return (
@@ -125,8 +139,8 @@ export default function Portfolio() {
           <Skeleton className="h-10 w-32" />
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-          {[...Array(3)].map((_, i) => (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
+          {[...Array(5)].map((_, i) => (
             <Card key={i}>
               <CardContent className="pt-6">
                 <Skeleton className="h-6 w-36 mb-2" />
@@ -150,15 +164,35 @@ export default function Portfolio() {
 
   return (
     <div className="container mx-auto px-4 py-6">
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
         <h1 className="text-2xl font-bold">Your Portfolio</h1>
-        <Button onClick={() => setIsAddStockOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Stock
-        </Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={ledger?.method}
+            onValueChange={(value) => methodMutation.mutate(value as CostBasisMethod)}
+            disabled={!ledger || methodMutation.isPending}
+          >
+            <SelectTrigger className="w-44" aria-label="Cost basis method">
+              <SelectValue placeholder="Cost basis" />
+            </SelectTrigger>
+            <SelectContent>
+              {costBasisMethods.map((method) => (
+                <SelectItem key={method} value={method}>{costBasisMethodLabels[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setIsTransactionOpen(true)}>
+            <NotebookPen className="h-4 w-4 mr-2" />
+            Record Transaction
+          </Button>
+          <Button onClick={() => setIsAddStockOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stock
+          </Button>
+        </div>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
         <Card>
           <CardContent className="pt-6">
             <p className="text-sm text-neutral-600 mb-1">Total Value</p>
@@ -166,6 +200,13 @@ export default function Portfolio() {
           </CardContent>
         </Card>
         
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-neutral-600 mb-1">Cash Available</p>
+            <p className="text-2xl font-bold">{account ? formatCurrency(Number(account.cash)) : "—"}</p>
+          </CardContent>
+        </Card>
+        
         <Card>
           <CardContent className="pt-6">
             <p className="text-sm text-neutral-600 mb-1">Today's Change</p>
@@ -177,20 +218,38 @@ export default function Portfolio() {
         
         <Card>
           <CardContent className="pt-6">
-            <p className="text-sm text-neutral-600 mb-1">Total Gain/Loss</p>
-            <p className={`text-2xl font-bold ${totals.totalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-              {formatCurrency(totals.totalGain)} ({formatPercent(totals.totalGainPercent)})
+            <p className="text-sm text-neutral-600 mb-1">Unrealized Gain/Loss</p>
+            <p className={`text-2xl font-bold ${totals.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(totals.unrealizedGain)} ({formatPercent(totals.unrealizedGainPercent)})
+            </p>
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-neutral-600 mb-1">Realized Gain/Loss</p>
+            <p className={`text-2xl font-bold ${realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(realizedGain)}
             </p>
+            {ledger && ledger.totals.dividends > 0 && (
+              <p className="text-xs text-neutral-600 mt-1">+ {formatCurrency(ledger.totals.dividends)} dividends</p>
+            )}
           </CardContent>
         </Card>
       </div>
       
+      <PortfolioPerformance />
+      
+      <BenchmarkComparison />
+      
+      <RiskPanel />
+      
       <Card>
         <CardHeader>
           <CardTitle>Portfolio Holdings</CardTitle>
         </CardHeader>
         <CardContent>
-          {portfolio.length === 0 ? (
+          {positions.length === 0 ? (
             <div className="text-center p-8">
               <p className="text-neutral-600 mb-4">You don't have any stocks in your portfolio yet.</p>
               <Button onClick={() => setIsAddStockOpen(true)}>
@@ -199,75 +258,37 @@ export default function Portfolio() {
               </Button>
             </div>
           ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Symbol</TableHead>
-                  <TableHead>Name</TableHead>
-                  <TableHead className="text-right">Shares</TableHead>
-                  <TableHead className="text-right">Purchase Price</TableHead>
-                  <TableHead className="text-right">Current Price</TableHead>
-                  <TableHead className="text-right">Market Value</TableHead>
-                  <TableHead className="text-right">Gain/Loss</TableHead>
-                  <TableHead className="text-right">Today's Change</TableHead>
-                  <TableHead className="text-right">Purchase Date</TableHead>
-                  <TableHead></TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {portfolio.map((stock: PortfolioStock) => {
-                  const quote = quoteData?.[stock.symbol];
-                  const currentPrice = quote ? parseFloat(quote["05. price"]) : 0;
-                  const priceChange = quote ? parseFloat(quote["09. change"]) : 0;
-                  const priceChangePercent = quote ? parseFloat(quote["10. change percent"].replace('%', '')) : 0;
-                  
-                  const shares = Number(stock.shares);
-                  const purchasePrice = Number(stock.purchasePrice);
-                  const marketValue = currentPrice * shares;
-                  const costBasis = purchasePrice * shares;
-                  const gainLoss = marketValue - costBasis;
-                  const gainLossPercent = costBasis > 0 ? (gainLoss / costBasis) * 100 : 0;
-                  const dayChange = priceChange * shares;
-                  
-                  return (
-                    <TableRow key={stock.id}>
-                      <TableCell className="font-medium">{stock.symbol}</TableCell>
-                      <TableCell>{stock.name}</TableCell>
-                      <TableCell className="text-right">{shares}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(purchasePrice)}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(currentPrice)}</TableCell>
-                      <TableCell className="text-right">{formatCurrency(marketValue)}</TableCell>
-                      <TableCell className={`text-right ${gainLoss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        {formatCurrency(gainLoss)} ({formatPercent(gainLossPercent)})
-                      </TableCell>
-                      <TableCell className={`text-right ${dayChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        {formatCurrency(dayChange)} ({formatPercent(priceChangePercent)})
-                      </TableCell>
-                      <TableCell className="text-right">{formatDate(stock.purchaseDate)}</TableCell>
-                      <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => deleteMutation.mutate(stock.id)}
-                          disabled={deleteMutation.isPending}
-                        >
-                          <Trash2 className="h-4 w-4 text-neutral-500" />
-                          <span className="sr-only">Delete</span>
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
+            <PositionsTable
+              positions={positions}
+              quotes={quoteData}
+              onDeleteLot={(lot) => deleteMutation.mutate(lot)}
+              isDeleting={deleteMutation.isPending}
+            />
           )}
         </CardContent>
       </Card>
       
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+        <OrderTicket />
+        <div className="lg:col-span-2">
+          <OrdersBlotter />
+        </div>
+      </div>
+      
+      <div className="mt-6">
+        <LedgerHistory realized={ledger?.realized || []} />
+      </div>
+      
       <AddStockDialog 
         open={isAddStockOpen} 
         onOpenChange={setIsAddStockOpen} 
       />
+      
+      <TransactionDialog
+        open={isTransactionOpen}
+        onOpenChange={setIsTransactionOpen}
+        positions={positions}
+      />
     </div>
   );
 }
@@ -0,0 +1,650 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Play, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatNumber, formatPercent } from "../utils/formatters";
+import { indicatorDefinitions, indicatorNames, type IndicatorName } from "@shared/indicators";
+import {
+  screenerFields,
+  screenerSectors,
+  screenerUniverses,
+  type ScreenCriteria,
+  type ScreenerField,
+  type ScreenerFilter,
+  type ScreenerResult,
+  type ScreenerSector,
+  type ScreenerUniverse,
+} from "@shared/screener";
+import { screenSchedules, type Screen, type ScreenSchedule } from "@shared/schema";
+
+const universeLabels: Record<ScreenerUniverse, string> = {
+  popular: "Popular stocks",
+  watchlist: "My watchlist",
+  portfolio: "My holdings",
+  custom: "Custom symbols",
+};
+
+const fieldLabels: Record<ScreenerField, string> = {
+  price: "Price",
+  changePercent: "% Change",
+  volume: "Volume",
+  marketCap: "Market Cap",
+  peRatio: "P/E",
+  rangePosition: "52-Week Range %",
+};
+
+const scheduleLabels: Record<ScreenSchedule, string> = {
+  manual: "Manual",
+  hourly: "Hourly",
+  daily: "Daily",
+};
+
+// Filters as edited in the form; numbers stay as text until the screen runs
+type FilterDraft =
+  | { type: "range"; field: ScreenerField; min: string; max: string }
+  | { type: "sector"; sectors: ScreenerSector[] }
+  | {
+      type: "indicator";
+      name: IndicatorName;
+      params: string;
+      line: string;
+      operator: "above" | "below";
+      compareTo: "value" | "price";
+      value: string;
+    };
+
+interface CriteriaDraft {
+  universe: ScreenerUniverse;
+  symbols: string;
+  filters: FilterDraft[];
+  sortBy: ScreenerField;
+  sortDirection: "asc" | "desc";
+}
+
+const defaultCriteria: CriteriaDraft = {
+  universe: "popular",
+  symbols: "",
+  filters: [{ type: "indicator", name: "rsi", params: "14", line: "value", operator: "below", compareTo: "value", value: "30" }],
+  sortBy: "changePercent",
+  sortDirection: "desc",
+};
+
+function newFilter(type: FilterDraft["type"]): FilterDraft {
+  switch (type) {
+    case "range":
+      return { type, field: "price", min: "", max: "" };
+    case "sector":
+      return { type, sectors: [] };
+    case "indicator":
+      return { type, name: "sma", params: "200", line: "value", operator: "above", compareTo: "price", value: "" };
+  }
+}
+
+function toFilter(draft: FilterDraft): ScreenerFilter {
+  switch (draft.type) {
+    case "range":
+      return {
+        type: "range",
+        field: draft.field,
+        min: draft.min === "" ? undefined : Number(draft.min),
+        max: draft.max === "" ? undefined : Number(draft.max),
+      };
+    case "sector":
+      return { type: "sector", sectors: draft.sectors };
+    case "indicator": {
+      const params = draft.params.split(/[\s,:]+/).filter(Boolean);
+      const lines = indicatorDefinitions[draft.name].lines;
+      return {
+        type: "indicator",
+        indicator: [draft.name, ...params].join(":"),
+        line: lines.length > 1 ? draft.line : undefined,
+        operator: draft.operator,
+        value: draft.compareTo === "price" ? "price" : Number(draft.value),
+      };
+    }
+  }
+}
+
+function fromFilter(filter: ScreenerFilter): FilterDraft {
+  switch (filter.type) {
+    case "range":
+      return { type: "range", field: filter.field, min: filter.min?.toString() ?? "", max: filter.max?.toString() ?? "" };
+    case "sector":
+      return { type: "sector", sectors: filter.sectors };
+    case "indicator": {
+      const [name, ...params] = filter.indicator.split(":");
+      return {
+        type: "indicator",
+        name: name as IndicatorName,
+        params: params.join(", "),
+        line: filter.line || indicatorDefinitions[name as IndicatorName].lines[0],
+        operator: filter.operator,
+        compareTo: filter.value === "price" ? "price" : "value",
+        value: filter.value === "price" ? "" : String(filter.value),
+      };
+    }
+  }
+}
+
+function toCriteria(draft: CriteriaDraft) {
+  return {
+    universe: draft.universe,
+    symbols: draft.universe === "custom" ? draft.symbols.split(/[\s,]+/).filter(Boolean) : undefined,
+    filters: draft.filters.map(toFilter),
+    sortBy: draft.sortBy,
+    sortDirection: draft.sortDirection,
+  };
+}
+
+function fromCriteria(criteria: ScreenCriteria): CriteriaDraft {
+  return {
+    universe: criteria.universe,
+    symbols: (criteria.symbols || []).join(", "),
+    filters: criteria.filters.map(fromFilter),
+    sortBy: criteria.sortBy,
+    sortDirection: criteria.sortDirection,
+  };
+}
+
+function formatOptional(value: number | null, format: (value: number) => string): string {
+  return value === null ? "—" : format(value);
+}
+
+function FilterRow({ draft, onChange, onRemove }: {
+  draft: FilterDraft;
+  onChange: (draft: FilterDraft) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <Select value={draft.type} onValueChange={(type) => onChange(newFilter(type as FilterDraft["type"]))}>
+          <SelectTrigger className="w-40 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="range">Value range</SelectItem>
+            <SelectItem value="sector">Sector</SelectItem>
+            <SelectItem value="indicator">Indicator</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <X className="h-4 w-4 text-neutral-500" />
+          <span className="sr-only">Remove filter</span>
+        </Button>
+      </div>
+
+      {draft.type === "range" && (
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={draft.field} onValueChange={(field) => onChange({ ...draft, field: field as ScreenerField })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {screenerFields.map((field) => (
+                <SelectItem key={field} value={field}>{fieldLabels[field]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input className="h-8" type="number" step="any" placeholder="Min" value={draft.min} onChange={(e) => onChange({ ...draft, min: e.target.value })} />
+          <Input className="h-8" type="number" step="any" placeholder="Max" value={draft.max} onChange={(e) => onChange({ ...draft, max: e.target.value })} />
+        </div>
+      )}
+
+      {draft.type === "sector" && (
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          variant="outline"
+          className="flex flex-wrap justify-start"
+          value={draft.sectors}
+          onValueChange={(sectors) => onChange({ ...draft, sectors: sectors as ScreenerSector[] })}
+        >
+          {screenerSectors.map((sector) => (
+            <ToggleGroupItem key={sector} value={sector} className="h-7 text-xs">{sector}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {draft.type === "indicator" && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <Select
+              value={draft.name}
+              onValueChange={(name) => onChange({
+                ...draft,
+                name: name as IndicatorName,
+                params: indicatorDefinitions[name as IndicatorName].params.map(param => param.default).join(", "),
+                line: indicatorDefinitions[name as IndicatorName].lines[0],
+              })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {indicatorNames.map((name) => (
+                  <SelectItem key={name} value={name}>{indicatorDefinitions[name].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="h-8"
+              placeholder={indicatorDefinitions[draft.name].params.map(param => param.name).join(", ")}
+              title={indicatorDefinitions[draft.name].params.map(param => param.name).join(", ")}
+              value={draft.params}
+              onChange={(e) => onChange({ ...draft, params: e.target.value })}
+            />
+            {indicatorDefinitions[draft.name].lines.length > 1 ? (
+              <Select value={draft.line} onValueChange={(line) => onChange({ ...draft, line })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {indicatorDefinitions[draft.name].lines.map((line) => (
+                    <SelectItem key={line} value={line}>{line}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : <div />}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Select value={draft.operator} onValueChange={(operator) => onChange({ ...draft, operator: operator as "above" | "below" })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="above">is above</SelectItem>
+                <SelectItem value="below">is below</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={draft.compareTo} onValueChange={(compareTo) => onChange({ ...draft, compareTo: compareTo as "value" | "price" })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="value">a value</SelectItem>
+                <SelectItem value="price">the price</SelectItem>
+              </SelectContent>
+            </Select>
+            {draft.compareTo === "value" ? (
+              <Input className="h-8" type="number" step="any" value={draft.value} onChange={(e) => onChange({ ...draft, value: e.target.value })} />
+            ) : <div />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Screener() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CriteriaDraft>(defaultCriteria);
+  const [result, setResult] = useState<ScreenerResult>();
+  const [selectedScreen, setSelectedScreen] = useState<Screen>();
+  const [screenName, setScreenName] = useState("");
+  const [schedule, setSchedule] = useState<ScreenSchedule>("manual");
+
+  const { data: screens = [] } = useQuery<Screen[]>({
+    queryKey: ["/api/screens"],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/screener", toCriteria(draft));
+      return (await res.json()) as ScreenerResult;
+    },
+    onSuccess: setResult,
+    onError: onError("Failed to run screen"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name: screenName, schedule, criteria: toCriteria(draft) };
+      const res = selectedScreen
+        ? await apiRequest("PATCH", `/api/screens/${selectedScreen.id}`, body)
+        : await apiRequest("POST", "/api/screens", body);
+      return (await res.json()) as Screen;
+    },
+    onSuccess: (screen) => {
+      toast({
+        title: "Screen saved",
+        description: screen.schedule === "manual"
+          ? `"${screen.name}" has been saved`
+          : `"${screen.name}" will run ${screen.schedule} and notify you of new matches`,
+      });
+      setSelectedScreen(screen);
+      queryClient.invalidateQueries({ queryKey: ["/api/screens"] });
+    },
+    onError: onError("Failed to save screen"),
+  });
+
+  const runSavedMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/screens/${id}/run`);
+      return (await res.json()) as Screen;
+    },
+    onSuccess: (screen) => {
+      loadScreen(screen);
+      queryClient.invalidateQueries({ queryKey: ["/api/screens"] });
+    },
+    onError: onError("Failed to run screen"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/screens/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      if (selectedScreen?.id === id) setSelectedScreen(undefined);
+      queryClient.invalidateQueries({ queryKey: ["/api/screens"] });
+    },
+    onError: onError("Failed to delete screen"),
+  });
+
+  const loadScreen = (screen: Screen) => {
+    setSelectedScreen(screen);
+    setScreenName(screen.name);
+    setSchedule(screen.schedule);
+    setDraft(fromCriteria(screen.criteria));
+    setResult(screen.lastResult || undefined);
+  };
+
+  const updateFilter = (index: number, filter: FilterDraft) =>
+    setDraft(current => ({ ...current, filters: current.filters.map((f, i) => i === index ? filter : f) }));
+
+  const indicatorColumns = Array.from(new Set(result?.rows.flatMap(row => Object.keys(row.indicators)) || []));
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <h1 className="text-2xl font-bold mb-6">Stock Screener</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Criteria</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Universe</Label>
+                <Select value={draft.universe} onValueChange={(universe) => setDraft({ ...draft, universe: universe as ScreenerUniverse })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {screenerUniverses.map((universe) => (
+                      <SelectItem key={universe} value={universe}>{universeLabels[universe]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {draft.universe === "custom" && (
+                  <Input
+                    placeholder="AAPL, MSFT, NVDA"
+                    className="uppercase"
+                    value={draft.symbols}
+                    onChange={(e) => setDraft({ ...draft, symbols: e.target.value })}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Filters</Label>
+                {draft.filters.length === 0 && (
+                  <p className="text-sm text-neutral-500">No filters: every symbol in the universe matches.</p>
+                )}
+                {draft.filters.map((filter, i) => (
+                  <FilterRow
+                    key={i}
+                    draft={filter}
+                    onChange={(updated) => updateFilter(i, updated)}
+                    onRemove={() => setDraft({ ...draft, filters: draft.filters.filter((_, j) => j !== i) })}
+                  />
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, filters: [...draft.filters, newFilter("range")] })}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add Filter
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Sort by</Label>
+                  <Select value={draft.sortBy} onValueChange={(sortBy) => setDraft({ ...draft, sortBy: sortBy as ScreenerField })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {screenerFields.map((field) => (
+                        <SelectItem key={field} value={field}>{fieldLabels[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Order</Label>
+                  <Select value={draft.sortDirection} onValueChange={(sortDirection) => setDraft({ ...draft, sortDirection: sortDirection as "asc" | "desc" })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="desc">Highest first</SelectItem>
+                      <SelectItem value="asc">Lowest first</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Button className="w-full" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+                {runMutation.isPending ? "Screening..." : "Run Screen"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{selectedScreen ? "Update Saved Screen" : "Save Screen"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input placeholder="Oversold tech" value={screenName} onChange={(e) => setScreenName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Schedule</Label>
+                  <Select value={schedule} onValueChange={(value) => setSchedule(value as ScreenSchedule)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {screenSchedules.map((value) => (
+                        <SelectItem key={value} value={value}>{scheduleLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-neutral-500">
+                Scheduled screens re-run in the background and notify you when new symbols match.
+              </p>
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !screenName.trim()}>
+                  {saveMutation.isPending ? "Saving..." : selectedScreen ? "Update" : "Save"}
+                </Button>
+                {selectedScreen && (
+                  <Button variant="outline" onClick={() => { setSelectedScreen(undefined); setScreenName(""); }}>
+                    Save as New
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved Screens</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {screens.length === 0 ? (
+                <p className="text-sm text-neutral-500">No saved screens yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {screens.map((screen) => (
+                    <li key={screen.id} className="flex items-center justify-between py-2">
+                      <button className="text-left" onClick={() => loadScreen(screen)}>
+                        <div className={`text-sm font-medium ${selectedScreen?.id === screen.id ? "text-amber-600" : ""}`}>{screen.name}</div>
+                        <div className="text-xs text-neutral-500">
+                          {scheduleLabels[screen.schedule]}
+                          {screen.lastRunAt && ` · last run ${formatDate(screen.lastRunAt)}`}
+                          {screen.lastResult && ` · ${screen.lastResult.matched} matches`}
+                        </div>
+                      </button>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Run now"
+                          onClick={() => runSavedMutation.mutate(screen.id)}
+                          disabled={runSavedMutation.isPending}
+                        >
+                          <Play className="h-4 w-4 text-neutral-500" />
+                          <span className="sr-only">Run now</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          onClick={() => deleteMutation.mutate(screen.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-neutral-500" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Results</span>
+                {result && (
+                  <span className="text-sm font-normal text-neutral-500">
+                    {result.matched} of {result.universeSize} match · {formatDate(result.ranAt)}{" "}
+                    {new Date(result.ranAt).toLocaleTimeString()}
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!result ? (
+                <p className="p-12 text-center text-neutral-600">Set up your criteria and run the screen to see matching stocks.</p>
+              ) : result.rows.length === 0 ? (
+                <p className="p-12 text-center text-neutral-600">No stocks match these filters.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Symbol</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Volume</TableHead>
+                        <TableHead className="text-right">Market Cap</TableHead>
+                        <TableHead className="text-right">P/E</TableHead>
+                        <TableHead>Sector</TableHead>
+                        <TableHead className="text-right">52W Range</TableHead>
+                        {indicatorColumns.map((key) => (
+                          <TableHead key={key} className="text-right uppercase">{key}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.rows.map((row) => (
+                        <TableRow key={row.symbol}>
+                          <TableCell>
+                            <Link href={`/stock/${row.symbol}`}>
+                              <a className="font-medium hover:underline">{row.symbol}</a>
+                            </Link>
+                            <div className="text-xs text-neutral-500 truncate max-w-[10rem]">{row.name}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.price)}</TableCell>
+                          <TableCell className={`text-right ${row.changePercent >= 0 ? "text-green-600" : "text-red-600"}`}>
+                            {formatPercent(row.changePercent)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatNumber(row.volume)}</TableCell>
+                          <TableCell className="text-right">{formatOptional(row.marketCap, formatNumber)}</TableCell>
+                          <TableCell className="text-right">{formatOptional(row.peRatio, value => value.toFixed(1))}</TableCell>
+                          <TableCell>
+                            {row.sector ? <Badge variant="outline" title={row.industry || undefined}>{row.sector}</Badge> : "—"}
+                          </TableCell>
+                          <TableCell className="text-right" title={
+                            row.fiftyTwoWeekLow !== null && row.fiftyTwoWeekHigh !== null
+                              ? `${formatCurrency(row.fiftyTwoWeekLow)} – ${formatCurrency(row.fiftyTwoWeekHigh)}`
+                              : undefined
+                          }>
+                            {formatOptional(row.rangePosition, value => `${value.toFixed(0)}%`)}
+                          </TableCell>
+                          {indicatorColumns.map((key) => (
+                            <TableCell key={key} className="text-right">
+                              {formatOptional(row.indicators[key] ?? null, value => value.toFixed(2))}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {result && result.unavailable.length > 0 && (
+                <p className="mt-3 text-xs text-neutral-500">No quotes for {result.unavailable.join(", ")}</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
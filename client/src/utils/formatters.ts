@@ -22,11 +22,22 @@ export function formatPercent(value: number): string {
   return `${sign}${value.toFixed(2)}%`;
 }
 
+/**
+ * Format a share count, keeping fractional shares left by splits or average cost sales readable
+ */
+export function formatShares(value: number): string {
+  if (isNaN(value)) return "0";
+  
+  return value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
+
 /**
  * Format a large number with appropriate suffixes (K, M, B, T)
  */
 export function formatNumber(value: number): string {
   if (isNaN(value)) return "0";
+  // Losses and other negative figures keep their sign in front of the suffix
+  if (value < 0) return `-${formatNumber(-value)}`;
   
   if (value >= 1000000000000) {
     return `${(value / 1000000000000).toFixed(2)}T`;
@@ -43,6 +54,13 @@ export function formatNumber(value: number): string {
   return value.toFixed(0);
 }
 
+/**
+ * Shorten a chain address or transaction hash to its first and last few digits
+ */
+export function formatHash(hash: string): string {
+  return `${hash.slice(0, 6)}…${hash.slice(-4)}`;
+}
+
 /**
  * Format a date as a localized string
  */
@@ -41,6 +41,11 @@ export interface TimeSeriesData {
     "5. Output Size"?: string;
     "6. Time Zone": string;
   };
+  // Data-quality markers: synthetic series are generated, not real prices
+  synthetic: boolean;
+  source: string;
+  cachedAt?: string;
+  stale?: boolean;
   [key: string]: any; // Time series data with variable key name
 }
 
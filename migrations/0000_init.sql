@@ -0,0 +1,33 @@
+CREATE TABLE "market_indices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"value" numeric NOT NULL,
+	"change" numeric NOT NULL,
+	"change_percent" numeric NOT NULL,
+	"last_updated" timestamp NOT NULL,
+	CONSTRAINT "market_indices_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "portfolio_stocks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"symbol" text NOT NULL,
+	"name" text NOT NULL,
+	"shares" numeric NOT NULL,
+	"purchase_price" numeric NOT NULL,
+	"purchase_date" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE "watchlist_stocks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"symbol" text NOT NULL,
+	"name" text NOT NULL
+);
@@ -0,0 +1,25 @@
+CREATE TABLE "accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"cash" numeric NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "accounts_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"symbol" text NOT NULL,
+	"side" text NOT NULL,
+	"type" text NOT NULL,
+	"quantity" numeric NOT NULL,
+	"limit_price" numeric,
+	"stop_price" numeric,
+	"time_in_force" text NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"stop_triggered" boolean DEFAULT false NOT NULL,
+	"filled_price" numeric,
+	"filled_at" timestamp,
+	"status_reason" text,
+	"created_at" timestamp NOT NULL
+);
@@ -0,0 +1,31 @@
+CREATE TABLE "transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"symbol" text,
+	"name" text,
+	"quantity" numeric,
+	"price" numeric,
+	"amount" numeric,
+	"lot_id" integer,
+	"order_id" integer,
+	"executed_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+-- Open each existing account with the deposit that reconciles its cash with the holdings carried over below
+INSERT INTO "transactions" ("user_id", "type", "amount", "executed_at")
+SELECT "accounts"."user_id", 'deposit', "accounts"."cash" + COALESCE("holdings"."cost", 0), LEAST("accounts"."created_at", COALESCE("holdings"."first_purchase", "accounts"."created_at"))
+FROM "accounts"
+LEFT JOIN (
+	SELECT "user_id", SUM("shares" * "purchase_price") AS "cost", MIN("purchase_date") AS "first_purchase"
+	FROM "portfolio_stocks"
+	GROUP BY "user_id"
+) AS "holdings" ON "holdings"."user_id" = "accounts"."user_id"
+WHERE "accounts"."cash" + COALESCE("holdings"."cost", 0) > 0;--> statement-breakpoint
+-- Each existing holding row becomes the buy that opened its lot
+INSERT INTO "transactions" ("user_id", "type", "symbol", "name", "quantity", "price", "executed_at")
+SELECT "user_id", 'buy', "symbol", "name", "shares", "purchase_price", "purchase_date"
+FROM "portfolio_stocks"
+ORDER BY "purchase_date", "id";--> statement-breakpoint
+DROP TABLE "portfolio_stocks" CASCADE;--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "cost_basis_method" text DEFAULT 'fifo' NOT NULL;
\ No newline at end of file
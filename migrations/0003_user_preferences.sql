@@ -0,0 +1,6 @@
+CREATE TABLE "user_preferences" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"chart_type" text DEFAULT 'area' NOT NULL,
+	"chart_scale" text DEFAULT 'linear' NOT NULL,
+	"show_volume" boolean DEFAULT true NOT NULL
+);
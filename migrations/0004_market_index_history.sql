@@ -0,0 +1,7 @@
+CREATE TABLE "market_index_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"value" numeric NOT NULL,
+	"recorded_at" timestamp NOT NULL,
+	CONSTRAINT "market_index_history_name_recorded_at_unique" UNIQUE("name","recorded_at")
+);
@@ -0,0 +1,22 @@
+CREATE TABLE "alerts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"symbol" text NOT NULL,
+	"condition" text NOT NULL,
+	"threshold" numeric,
+	"period" integer,
+	"webhook_url" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"triggered_at" timestamp,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"alert_id" integer,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"read" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp NOT NULL
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "screens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"criteria" jsonb NOT NULL,
+	"schedule" text DEFAULT 'manual' NOT NULL,
+	"last_run_at" timestamp,
+	"last_result" jsonb,
+	"created_at" timestamp NOT NULL
+);
@@ -0,0 +1,29 @@
+CREATE TABLE "fantasy_token_balances" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"balance" numeric NOT NULL,
+	CONSTRAINT "fantasy_token_balances_token_id_user_id_unique" UNIQUE("token_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "fantasy_token_transfers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"from_user_id" integer,
+	"to_user_id" integer,
+	"amount" numeric NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fantasy_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"symbol" text NOT NULL,
+	"name" text NOT NULL,
+	"base_stock" text,
+	"creator_id" integer NOT NULL,
+	"issue_price" numeric NOT NULL,
+	"total_supply" numeric NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "fantasy_tokens_symbol_unique" UNIQUE("symbol")
+);
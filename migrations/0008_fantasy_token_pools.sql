@@ -0,0 +1,21 @@
+CREATE TABLE "fantasy_token_pools" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_id" integer NOT NULL,
+	"token_reserve" numeric NOT NULL,
+	"cash_reserve" numeric NOT NULL,
+	"virtual_cash" numeric NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "fantasy_token_pools_token_id_unique" UNIQUE("token_id")
+);
+--> statement-breakpoint
+CREATE TABLE "fantasy_token_trades" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"side" text NOT NULL,
+	"amount" numeric NOT NULL,
+	"cash" numeric NOT NULL,
+	"fee" numeric NOT NULL,
+	"price" numeric NOT NULL,
+	"created_at" timestamp NOT NULL
+);
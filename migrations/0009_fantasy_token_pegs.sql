@@ -0,0 +1,9 @@
+CREATE TABLE "fantasy_token_peg_samples" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_id" integer NOT NULL,
+	"reference_price" numeric NOT NULL,
+	"pool_price" numeric,
+	"sampled_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fantasy_tokens" ADD COLUMN "peg_multiplier" numeric;
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE "fantasy_league_scores" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"league_id" integer NOT NULL,
+	"team_id" integer NOT NULL,
+	"day" text NOT NULL,
+	"return_percent" numeric NOT NULL,
+	"rank" integer NOT NULL,
+	CONSTRAINT "fantasy_league_scores_team_id_day_unique" UNIQUE("team_id","day")
+);
+--> statement-breakpoint
+CREATE TABLE "fantasy_league_teams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"league_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"joined_at" timestamp NOT NULL,
+	CONSTRAINT "fantasy_league_teams_league_id_user_id_unique" UNIQUE("league_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "fantasy_leagues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"creator_id" integer NOT NULL,
+	"salary_cap" numeric NOT NULL,
+	"roster_size" integer NOT NULL,
+	"season_start" timestamp NOT NULL,
+	"season_end" timestamp NOT NULL,
+	"scored_at" timestamp,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fantasy_roster_picks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"asset_type" text NOT NULL,
+	"symbol" text NOT NULL,
+	"salary" numeric NOT NULL,
+	CONSTRAINT "fantasy_roster_picks_team_id_asset_type_symbol_unique" UNIQUE("team_id","asset_type","symbol")
+);
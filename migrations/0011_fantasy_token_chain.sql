@@ -0,0 +1,5 @@
+ALTER TABLE "fantasy_token_transfers" ADD COLUMN "tx_hash" text;--> statement-breakpoint
+ALTER TABLE "fantasy_token_transfers" ADD COLUMN "block_number" integer;--> statement-breakpoint
+ALTER TABLE "fantasy_tokens" ADD COLUMN "contract_address" text;--> statement-breakpoint
+ALTER TABLE "fantasy_tokens" ADD COLUMN "deploy_tx_hash" text;--> statement-breakpoint
+ALTER TABLE "fantasy_tokens" ADD COLUMN "deploy_block_number" integer;
\ No newline at end of file
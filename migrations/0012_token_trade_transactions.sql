@@ -0,0 +1,4 @@
+-- Fantasy token trades used to settle as withdrawals and deposits, which counted them as money moving in or out of the account
+UPDATE "transactions" SET "type" = 'token_buy' WHERE "type" = 'withdrawal' AND "symbol" IS NULL AND "name" LIKE '% token purchase';--> statement-breakpoint
+UPDATE "transactions" SET "type" = 'token_sell' WHERE "type" = 'deposit' AND "symbol" IS NULL AND "name" LIKE '% token sale';--> statement-breakpoint
+UPDATE "transactions" SET "type" = 'token_fee' WHERE "type" = 'deposit' AND "symbol" IS NULL AND "name" LIKE '% trading fee';
@@ -0,0 +1,140 @@
+import type { Alert, Notification } from "@shared/schema";
+import { sma } from "@shared/indicators";
+import { storage, type IStorage } from "./storage";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import type { Quote } from "./marketData";
+import { evaluateAlert, needsDailyHistory, type AlertContext } from "./alerts";
+import { postWebhook } from "./webhooks";
+
+// How often active alerts are checked against fresh quotes; matches the quote cache TTL
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+
+// Webhooks that take longer than this are abandoned
+const WEBHOOK_TIMEOUT_MS = 5 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function sessionDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Checks every active price alert on each quote refresh, records a notification
+// for the owner when one fires and forwards it to the alert's webhook
+export class AlertEngine {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  // Price seen on the previous tick for each crossing alert
+  private lastPrices = new Map<number, number>();
+
+  constructor(private storage: IStorage, private marketData: MarketDataCache) {}
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Alert engine error:", error));
+    }, intervalMs);
+    // Don't keep the process alive just for the alert loop
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const alerts = await this.storage.getActiveAlerts();
+
+      // Paused, fired and deleted alerts start from scratch if they come back
+      const activeIds = new Set(alerts.map(alert => alert.id));
+      for (const id of Array.from(this.lastPrices.keys())) {
+        if (!activeIds.has(id)) this.lastPrices.delete(id);
+      }
+      if (alerts.length === 0) return;
+
+      const symbols = Array.from(new Set(alerts.map(alert => alert.symbol)));
+      const quotes = await this.marketData.quotes(symbols);
+
+      for (const alert of alerts) {
+        const cached = quotes.get(alert.symbol);
+        if (!cached) continue;
+
+        try {
+          await this.checkAlert(alert, cached.value);
+        } catch (error) {
+          console.error(`Alert ${alert.id} check error:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async checkAlert(alert: Alert, quote: Quote) {
+    const context: AlertContext = needsDailyHistory(alert.condition) && alert.period
+      ? await this.dailyContext(alert.symbol, alert.period, quote.marketTime)
+      : {};
+    context.previousPrice = this.lastPrices.get(alert.id);
+    this.lastPrices.set(alert.id, quote.price);
+
+    const evaluation = evaluateAlert(alert, quote, context);
+    if (!evaluation.triggered) return;
+
+    const notification = await this.storage.triggerAlert(alert.id, {
+      userId: alert.userId,
+      alertId: alert.id,
+      title: `${alert.symbol} alert`,
+      message: evaluation.message,
+      createdAt: new Date(),
+    });
+    // Someone else paused or deleted the alert first
+    if (!notification) return;
+
+    this.lastPrices.delete(alert.id);
+    if (alert.webhookUrl) {
+      this.deliverWebhook(alert.webhookUrl, alert, notification).catch(error => {
+        console.error(`Alert ${alert.id} webhook error:`, error);
+      });
+    }
+  }
+
+  // Moving average and average volume over the last `period` completed sessions
+  private async dailyContext(symbol: string, period: number, marketTime: Date): Promise<AlertContext> {
+    // Weekends and holidays mean roughly 1.5 calendar days per session
+    const bars = (await this.marketData.history(symbol, {
+      from: new Date(marketTime.getTime() - (period * 1.5 + 10) * DAY_MS),
+      to: marketTime,
+      interval: "1d",
+    })).value;
+
+    const today = sessionDate(marketTime);
+    const completed = bars.filter(bar => sessionDate(bar.date) < today).slice(-period);
+    if (completed.length < period) return {};
+
+    const average = sma(completed.map(bar => bar.close), period).at(-1);
+    const averageVolume = completed.reduce((sum, bar) => sum + bar.volume, 0) / period;
+    return { sma: average ?? undefined, averageVolume };
+  }
+
+  // Alerts saved before webhook hosts were checked may still point at private
+  // addresses; postWebhook refuses those
+  private async deliverWebhook(url: string, alert: Alert, notification: Notification) {
+    await postWebhook(url, {
+      alertId: alert.id,
+      symbol: alert.symbol,
+      condition: alert.condition,
+      threshold: alert.threshold,
+      period: alert.period,
+      title: notification.title,
+      message: notification.message,
+      triggeredAt: notification.createdAt,
+    }, WEBHOOK_TIMEOUT_MS);
+  }
+}
+
+export const alertEngine = new AlertEngine(storage, marketDataCache);
@@ -0,0 +1,73 @@
+import type { Alert, AlertCondition } from "@shared/schema";
+import type { Quote } from "./marketData";
+
+// Daily statistics some conditions compare against, from completed sessions only
+export interface AlertContext {
+  sma?: number;
+  averageVolume?: number;
+  // Price seen on the previous check, needed to detect a crossing
+  previousPrice?: number;
+}
+
+export type AlertEvaluation = { triggered: true; message: string } | { triggered: false };
+
+const NOT_TRIGGERED: AlertEvaluation = { triggered: false };
+
+// Conditions that need daily history for a moving average or average volume
+export function needsDailyHistory(condition: AlertCondition): boolean {
+  return condition === "cross_above_sma" || condition === "cross_below_sma" || condition === "volume_spike";
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+// Decide whether an active alert fires on `quote`
+export function evaluateAlert(alert: Alert, quote: Quote, context: AlertContext = {}): AlertEvaluation {
+  const threshold = alert.threshold !== null ? Number(alert.threshold) : undefined;
+  const { price } = quote;
+
+  switch (alert.condition) {
+    case "price_above":
+      return threshold !== undefined && price >= threshold
+        ? { triggered: true, message: `${alert.symbol} is at ${formatPrice(price)}, above ${formatPrice(threshold)}` }
+        : NOT_TRIGGERED;
+    case "price_below":
+      return threshold !== undefined && price <= threshold
+        ? { triggered: true, message: `${alert.symbol} is at ${formatPrice(price)}, below ${formatPrice(threshold)}` }
+        : NOT_TRIGGERED;
+    case "percent_change":
+      return threshold !== undefined && Math.abs(quote.changePercent) >= threshold
+        ? {
+            triggered: true,
+            message: `${alert.symbol} has moved ${quote.changePercent.toFixed(2)}% today, beyond ${threshold}%`,
+          }
+        : NOT_TRIGGERED;
+    case "cross_above_sma":
+    case "cross_below_sma": {
+      const { sma, previousPrice } = context;
+      if (sma === undefined || previousPrice === undefined) return NOT_TRIGGERED;
+
+      const above = alert.condition === "cross_above_sma";
+      const crossed = above ? previousPrice <= sma && price > sma : previousPrice >= sma && price < sma;
+      return crossed
+        ? {
+            triggered: true,
+            message: `${alert.symbol} crossed ${above ? "above" : "below"} its ${alert.period}-day average of ${formatPrice(sma)} at ${formatPrice(price)}`,
+          }
+        : NOT_TRIGGERED;
+    }
+    case "volume_spike": {
+      const { averageVolume } = context;
+      if (threshold === undefined || !averageVolume) return NOT_TRIGGERED;
+
+      const multiple = quote.volume / averageVolume;
+      return multiple >= threshold
+        ? {
+            triggered: true,
+            message: `${alert.symbol} volume is ${multiple.toFixed(1)}x its ${alert.period}-day average`,
+          }
+        : NOT_TRIGGERED;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { FantasyToken } from "@shared/schema";
+import type { TokenTradeQuote } from "@shared/fantasyTokens";
+import { openingReserves, planTrade, poolPrice, quoteTrade, repricedReserves, tradeSettlement, type PoolReserves, type TradePlan } from "./amm";
+
+// A fresh pool of 100 tokens at 10, with all 1000 of its cash virtual
+const opening = openingReserves(100, 10);
+
+function planned(plan: TradePlan) {
+  if ("rejectReason" in plan) throw new Error(plan.rejectReason);
+  return plan;
+}
+
+describe("quoteTrade", () => {
+  it("prices a buy along the constant-product curve, with the fee on top", () => {
+    const { quote, reserves } = planned(quoteTrade(opening, "buy", 20));
+
+    // 1000 · 20 / (100 - 20) = 250 goes into the pool; the buyer pays 250 / 0.99
+    expect(reserves).toEqual({ tokenReserve: 80, cashReserve: 1250, virtualCash: 1000 });
+    expect(quote.cash).toBeCloseTo(250 / 0.99, 9);
+    expect(quote.fee).toBeCloseTo(250 / 0.99 - 250, 9);
+    expect(quote.fee / quote.cash).toBeCloseTo(0.01, 12);
+    expect(quote.averagePrice).toBeCloseTo(250 / 0.99 / 20, 9);
+    expect(quote).toMatchObject({ side: "buy", amount: 20, priceBefore: 10, priceAfter: 15.625 });
+    expect(quote.priceImpact).toBeCloseTo(56.25, 9);
+  });
+
+  it("prices a sell along the curve, with the fee taken out", () => {
+    const afterBuy: PoolReserves = { tokenReserve: 80, cashReserve: 1250, virtualCash: 1000 };
+    const { quote, reserves } = planned(quoteTrade(afterBuy, "sell", 20));
+
+    // 1250 · 20 / (80 + 20) = 250 leaves the pool; the seller keeps 99% of it
+    expect(reserves).toEqual({ tokenReserve: 100, cashReserve: 1000, virtualCash: 1000 });
+    expect(quote.cash).toBeCloseTo(247.5, 9);
+    expect(quote.fee).toBeCloseTo(2.5, 9);
+    expect(quote).toMatchObject({ priceBefore: 15.625, priceAfter: 10 });
+  });
+
+  it("keeps the product of the reserves fixed", () => {
+    const { reserves } = planned(quoteTrade(opening, "buy", 37));
+
+    expect(reserves.tokenReserve * reserves.cashReserve).toBeCloseTo(100 * 1000, 6);
+  });
+
+  it("refuses to buy the whole pool", () => {
+    expect(quoteTrade(opening, "buy", 100)).toEqual({ rejectReason: "Not enough tokens in the pool" });
+  });
+
+  it("refuses to pay out virtual cash", () => {
+    // Nobody has bought yet, so the pool holds no real cash to pay a seller
+    expect(quoteTrade(opening, "sell", 1)).toEqual({ rejectReason: "Not enough cash in the pool" });
+  });
+});
+
+describe("planTrade", () => {
+  it("accepts a buy costing up to `slippage` percent over the expected cash", () => {
+    // The buy costs 252.53: over 250 + 1%, within 250 + 2%
+    expect(planTrade(opening, { side: "buy", amount: 20, expectedCash: 250, slippage: 1 }))
+      .toEqual({ rejectReason: "Price moved beyond your slippage limit" });
+    expect(planTrade(opening, { side: "buy", amount: 20, expectedCash: 250, slippage: 2 })).toHaveProperty("quote.amount", 20);
+  });
+
+  it("accepts a sale paying down to `slippage` percent under the expected cash", () => {
+    const afterBuy: PoolReserves = { tokenReserve: 80, cashReserve: 1250, virtualCash: 1000 };
+
+    // The sale pays 247.50: under 249 - 0.5%, within 249 - 1%
+    expect(planTrade(afterBuy, { side: "sell", amount: 20, expectedCash: 249, slippage: 0.5 }))
+      .toEqual({ rejectReason: "Price moved beyond your slippage limit" });
+    expect(planTrade(afterBuy, { side: "sell", amount: 20, expectedCash: 249, slippage: 1 })).toHaveProperty("quote.amount", 20);
+  });
+});
+
+describe("repricedReserves", () => {
+  it("moves the price by resizing the virtual cash", () => {
+    const afterBuy: PoolReserves = { tokenReserve: 80, cashReserve: 1250, virtualCash: 1000 };
+    const repriced = repricedReserves(afterBuy, 20);
+
+    expect(repriced).toEqual({ tokenReserve: 80, cashReserve: 1600, virtualCash: 1350 });
+    expect(poolPrice(repriced)).toBe(20);
+  });
+});
+
+describe("tradeSettlement", () => {
+  const token = { symbol: "FUN", creatorId: 7 } as FantasyToken;
+  const executedAt = new Date("2024-03-01T12:00:00Z");
+
+  function quote(side: TokenTradeQuote["side"], cash: number, fee: number): TokenTradeQuote {
+    return { side, amount: 20, cash, fee, averagePrice: cash / 20, priceBefore: 10, priceAfter: 10, priceImpact: 0 };
+  }
+
+  it("debits a buyer and pays the creator's fee as token transactions", () => {
+    expect(tradeSettlement(token, 3, quote("buy", 252.5, 2.5), executedAt)).toEqual({
+      trader: { userId: 3, type: "token_buy", name: "FUN token purchase", amount: "252.5", executedAt },
+      fee: { userId: 7, type: "token_fee", name: "FUN trading fee", amount: "2.5", executedAt },
+    });
+  });
+
+  it("credits a seller", () => {
+    expect(tradeSettlement(token, 3, quote("sell", 247.5, 2.5), executedAt).trader).toEqual({
+      userId: 3, type: "token_sell", name: "FUN token sale", amount: "247.5", executedAt,
+    });
+  });
+
+  it("records no fee when there is none", () => {
+    expect(tradeSettlement(token, 3, quote("buy", 250, 0), executedAt).fee).toBeNull();
+  });
+});
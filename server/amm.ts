@@ -0,0 +1,130 @@
+import type { FantasyToken, FantasyTokenPool, InsertTransaction } from "@shared/schema";
+import { TOKEN_TRADE_FEE_RATE, type TokenTradeQuote, type TokenTradeRequest } from "@shared/fantasyTokens";
+
+// Constant-product pricing for fantasy token pools: tokenReserve * cashReserve
+// stays fixed across trades, fees aside.
+
+// Slack for floating point error in reserve checks
+const EPSILON = 1e-9;
+
+export interface PoolReserves {
+  tokenReserve: number;
+  cashReserve: number;
+  virtualCash: number;
+}
+
+export type TradePlan = { quote: TokenTradeQuote; reserves: PoolReserves } | { rejectReason: string };
+
+export function poolReserves(pool: FantasyTokenPool): PoolReserves {
+  return {
+    tokenReserve: Number(pool.tokenReserve),
+    cashReserve: Number(pool.cashReserve),
+    virtualCash: Number(pool.virtualCash),
+  };
+}
+
+// Reserves as stored on the pool row
+export function reserveColumns(reserves: PoolReserves): Pick<FantasyTokenPool, "tokenReserve" | "cashReserve" | "virtualCash"> {
+  return {
+    tokenReserve: String(reserves.tokenReserve),
+    cashReserve: String(reserves.cashReserve),
+    virtualCash: String(reserves.virtualCash),
+  };
+}
+
+// A new pool holding `tokens` and priced at `price`, with all of its cash virtual
+export function openingReserves(tokens: number, price: number): PoolReserves {
+  return { tokenReserve: tokens, cashReserve: tokens * price, virtualCash: tokens * price };
+}
+
+export function poolPrice(reserves: PoolReserves): number {
+  return reserves.cashReserve / reserves.tokenReserve;
+}
+
+// Moves the pool to `price` by resizing its virtual cash, leaving its tokens and the
+// cash buyers paid in where they are. Virtual cash goes negative when the price falls
+// below what buyers paid; sells are still bounded by the curve.
+export function repricedReserves(reserves: PoolReserves, price: number): PoolReserves {
+  const cashReserve = reserves.tokenReserve * price;
+  return {
+    tokenReserve: reserves.tokenReserve,
+    cashReserve,
+    virtualCash: reserves.virtualCash + cashReserve - reserves.cashReserve,
+  };
+}
+
+// Prices trading `amount` tokens with the pool and returns the reserves afterwards.
+// Buyers pay the fee on top of the cash going into the pool; sellers have it taken
+// out of the cash the pool pays.
+export function quoteTrade(reserves: PoolReserves, side: TokenTradeQuote["side"], amount: number): TradePlan {
+  const { tokenReserve, cashReserve, virtualCash } = reserves;
+  const priceBefore = poolPrice(reserves);
+
+  let cash: number;
+  let fee: number;
+  let after: PoolReserves;
+  if (side === "buy") {
+    if (amount >= tokenReserve) {
+      return { rejectReason: "Not enough tokens in the pool" };
+    }
+    const cashIn = cashReserve * amount / (tokenReserve - amount);
+    fee = cashIn * TOKEN_TRADE_FEE_RATE / (1 - TOKEN_TRADE_FEE_RATE);
+    cash = cashIn + fee;
+    after = { tokenReserve: tokenReserve - amount, cashReserve: cashReserve + cashIn, virtualCash };
+  } else {
+    const cashOut = cashReserve * amount / (tokenReserve + amount);
+    if (cashOut > cashReserve - virtualCash + EPSILON) {
+      return { rejectReason: "Not enough cash in the pool" };
+    }
+    fee = cashOut * TOKEN_TRADE_FEE_RATE;
+    cash = cashOut - fee;
+    after = { tokenReserve: tokenReserve + amount, cashReserve: cashReserve - cashOut, virtualCash };
+  }
+
+  const priceAfter = poolPrice(after);
+  return {
+    quote: {
+      side,
+      amount,
+      cash,
+      fee,
+      averagePrice: cash / amount,
+      priceBefore,
+      priceAfter,
+      priceImpact: (priceAfter / priceBefore - 1) * 100,
+    },
+    reserves: after,
+  };
+}
+
+// Prices a trade and checks it against the trader's slippage limit
+export function planTrade(reserves: PoolReserves, request: TokenTradeRequest): TradePlan {
+  const plan = quoteTrade(reserves, request.side, request.amount);
+  if ("rejectReason" in plan) return plan;
+
+  const tolerance = request.expectedCash * request.slippage / 100;
+  const slipped = request.side === "buy"
+    ? plan.quote.cash > request.expectedCash + tolerance
+    : plan.quote.cash < request.expectedCash - tolerance;
+  if (slipped) {
+    return { rejectReason: "Price moved beyond your slippage limit" };
+  }
+  return plan;
+}
+
+// Account ledger entries settling a trade: the trader's payment or proceeds and the creator's fee
+export function tradeSettlement(
+  token: FantasyToken,
+  traderId: number,
+  quote: TokenTradeQuote,
+  executedAt: Date,
+): { trader: InsertTransaction; fee: InsertTransaction | null } {
+  const trader: InsertTransaction = quote.side === "buy"
+    ? { userId: traderId, type: "token_buy", name: `${token.symbol} token purchase`, amount: String(quote.cash), executedAt }
+    : { userId: traderId, type: "token_sell", name: `${token.symbol} token sale`, amount: String(quote.cash), executedAt };
+  const fee: InsertTransaction | null = quote.fee > 0
+    ? { userId: token.creatorId, type: "token_fee", name: `${token.symbol} trading fee`, amount: String(quote.fee), executedAt }
+    : null;
+
+  return { trader, fee };
+}
@@ -0,0 +1,333 @@
+import { FixtureMarketDataProvider, fixtureDirectory, type Bar } from "./marketData";
+import { marketDataCache } from "./marketDataCache";
+import { createStrategy } from "./strategies";
+import { sma, ema, highest, lowest, type IndicatorSeries } from "@shared/indicators";
+import type {
+  BacktestRequest,
+  BacktestResult,
+  Commission,
+  EquityPoint,
+  BacktestFill,
+  BacktestTrade,
+  BacktestMetrics,
+} from "@shared/backtest";
+
+// Indicator values as of the current bar. `barsAgo` looks further back, e.g. 1 for
+// the previous bar when checking for a crossover. Values are null during warm-up.
+export interface Indicators {
+  close(barsAgo?: number): number | null;
+  // Moving averages of closing prices
+  sma(period: number, barsAgo?: number): number | null;
+  ema(period: number, barsAgo?: number): number | null;
+  // Highest high and lowest low over the last `period` bars
+  highest(period: number, barsAgo?: number): number | null;
+  lowest(period: number, barsAgo?: number): number | null;
+}
+
+// What a strategy sees on each bar. Orders are filled by the simulated broker on
+// the next bar: market orders at its open, limit orders if its range reaches the
+// limit. Limit orders that don't fill on that bar are cancelled.
+export interface StrategyContext {
+  readonly bar: Bar;
+  readonly index: number;
+  // Shares held; short selling is not supported
+  readonly position: number;
+  readonly cash: number;
+  readonly equity: number;
+  readonly indicators: Indicators;
+  buy(quantity: number, limitPrice?: number): void;
+  sell(quantity: number, limitPrice?: number): void;
+  closePosition(): void;
+  // Whole shares the available cash buys at the current close, after commission
+  maxShares(): number;
+}
+
+export interface Strategy {
+  onBar(context: StrategyContext): void;
+}
+
+export interface BrokerOptions {
+  initialCash: number;
+  commission: Commission;
+  slippageBps: number;
+  // Bars per year, used to annualize the Sharpe ratio
+  periodsPerYear: number;
+}
+
+export interface BacktestRun {
+  finalEquity: number;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  fills: BacktestFill[];
+  trades: BacktestTrade[];
+}
+
+interface PendingOrder {
+  side: "buy" | "sell";
+  quantity: number;
+  limitPrice?: number;
+}
+
+interface OpenTrade {
+  entryTime: Date;
+  bought: number;
+  cost: number;
+  sold: number;
+  proceeds: number;
+  commission: number;
+}
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+// History loaded when a request gives no start date
+const DEFAULT_LOOKBACK_MS = 2 * YEAR_MS;
+
+const PERIODS_PER_YEAR: Record<BacktestRequest["interval"], number> = {
+  "1d": 252,
+  "1wk": 52,
+};
+
+// Created on first use so backtests can replay recorded data while the app serves live quotes
+let fixtureProvider: FixtureMarketDataProvider | undefined;
+
+function commissionFor(commission: Commission, quantity: number, price: number): number {
+  return commission.perTrade + commission.perShare * quantity + quantity * price * commission.percent / 100;
+}
+
+// Whole shares `cash` pays for at `price`, commission included
+function affordableShares(commission: Commission, cash: number, price: number): number {
+  const perShare = price * (1 + commission.percent / 100) + commission.perShare;
+  return Math.max(0, Math.floor((cash - commission.perTrade) / perShare));
+}
+
+function createIndicators(bars: Bar[], currentIndex: () => number): Indicators {
+  const closes = bars.map(bar => bar.close);
+  const highs = bars.map(bar => bar.high);
+  const lows = bars.map(bar => bar.low);
+  // Each series is computed once over every bar; values only depend on earlier bars
+  const cache = new Map<string, IndicatorSeries>();
+
+  const valueOf = (key: string, compute: () => IndicatorSeries, barsAgo: number): number | null => {
+    let series = cache.get(key);
+    if (!series) {
+      series = compute();
+      cache.set(key, series);
+    }
+    const index = currentIndex() - barsAgo;
+    return index >= 0 ? series[index] : null;
+  };
+
+  return {
+    close: (barsAgo = 0) => {
+      const index = currentIndex() - barsAgo;
+      return index >= 0 ? closes[index] : null;
+    },
+    sma: (period, barsAgo = 0) => valueOf(`sma:${period}`, () => sma(closes, period), barsAgo),
+    ema: (period, barsAgo = 0) => valueOf(`ema:${period}`, () => ema(closes, period), barsAgo),
+    highest: (period, barsAgo = 0) => valueOf(`highest:${period}`, () => highest(highs, period), barsAgo),
+    lowest: (period, barsAgo = 0) => valueOf(`lowest:${period}`, () => lowest(lows, period), barsAgo),
+  };
+}
+
+function computeMetrics(
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[],
+  options: BrokerOptions,
+  barsInMarket: number,
+  totalCommission: number,
+): BacktestMetrics {
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : options.initialCash;
+  const growth = finalEquity / options.initialCash;
+
+  const years = equityCurve.length > 1
+    ? (Date.parse(equityCurve[equityCurve.length - 1].time) - Date.parse(equityCurve[0].time)) / YEAR_MS
+    : 0;
+  const cagr = years > 0 && growth > 0 ? Math.pow(growth, 1 / years) - 1 : 0;
+
+  const returns: number[] = [];
+  let previous = options.initialCash;
+  for (const point of equityCurve) {
+    returns.push(point.equity / previous - 1);
+    previous = point.equity;
+  }
+  const mean = returns.reduce((total, r) => total + r, 0) / Math.max(returns.length, 1);
+  const variance = returns.length > 1
+    ? returns.reduce((total, r) => total + (r - mean) ** 2, 0) / (returns.length - 1)
+    : 0;
+  const deviation = Math.sqrt(variance);
+  const sharpe = deviation > 0 ? (mean / deviation) * Math.sqrt(options.periodsPerYear) : 0;
+
+  const wins = trades.filter(trade => trade.pnl > 0).length;
+
+  return {
+    totalReturn: (growth - 1) * 100,
+    cagr: cagr * 100,
+    maxDrawdown: Math.min(0, ...equityCurve.map(point => point.drawdown)),
+    sharpe,
+    tradeCount: trades.length,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    exposure: equityCurve.length > 0 ? (barsInMarket / equityCurve.length) * 100 : 0,
+    totalCommission,
+  };
+}
+
+// Run a strategy bar by bar through a simulated broker
+export function runBacktest(bars: Bar[], strategy: Strategy, options: BrokerOptions): BacktestRun {
+  const slippage = options.slippageBps / 10_000;
+  let cash = options.initialCash;
+  let position = 0;
+  let index = 0;
+  let pending: PendingOrder[] = [];
+  let openTrade: OpenTrade | undefined;
+  let peak = options.initialCash;
+  let barsInMarket = 0;
+  let totalCommission = 0;
+
+  const equityCurve: EquityPoint[] = [];
+  const fills: BacktestFill[] = [];
+  const trades: BacktestTrade[] = [];
+
+  const execute = (order: PendingOrder, bar: Bar) => {
+    const isBuy = order.side === "buy";
+    let price: number | undefined;
+    if (order.limitPrice === undefined) {
+      price = bar.open * (isBuy ? 1 + slippage : 1 - slippage);
+    } else if (isBuy) {
+      if (bar.open <= order.limitPrice) price = bar.open;
+      else if (bar.low <= order.limitPrice) price = order.limitPrice;
+    } else {
+      if (bar.open >= order.limitPrice) price = bar.open;
+      else if (bar.high >= order.limitPrice) price = order.limitPrice;
+    }
+    if (price === undefined) return;
+
+    // Orders are trimmed to what the account can cover rather than rejected
+    const quantity = Math.floor(Math.min(
+      order.quantity,
+      isBuy ? affordableShares(options.commission, cash, price) : position,
+    ));
+    if (quantity <= 0) return;
+
+    const commission = commissionFor(options.commission, quantity, price);
+    totalCommission += commission;
+    fills.push({ time: bar.date.toISOString(), side: order.side, quantity, price, commission });
+
+    if (isBuy) {
+      cash -= quantity * price + commission;
+      position += quantity;
+      openTrade = openTrade || { entryTime: bar.date, bought: 0, cost: 0, sold: 0, proceeds: 0, commission: 0 };
+      openTrade.bought += quantity;
+      openTrade.cost += quantity * price;
+      openTrade.commission += commission;
+      return;
+    }
+
+    cash += quantity * price - commission;
+    position -= quantity;
+    if (!openTrade) return;
+
+    openTrade.sold += quantity;
+    openTrade.proceeds += quantity * price;
+    openTrade.commission += commission;
+    if (position === 0) {
+      const pnl = openTrade.proceeds - openTrade.cost - openTrade.commission;
+      trades.push({
+        entryTime: openTrade.entryTime.toISOString(),
+        exitTime: bar.date.toISOString(),
+        quantity: openTrade.bought,
+        entryPrice: openTrade.cost / openTrade.bought,
+        exitPrice: openTrade.proceeds / openTrade.sold,
+        pnl,
+        returnPercent: (pnl / openTrade.cost) * 100,
+      });
+      openTrade = undefined;
+    }
+  };
+
+  const context: StrategyContext = {
+    get bar() { return bars[index]; },
+    get index() { return index; },
+    get position() { return position; },
+    get cash() { return cash; },
+    get equity() { return cash + position * bars[index].close; },
+    indicators: createIndicators(bars, () => index),
+    buy: (quantity, limitPrice) => { pending.push({ side: "buy", quantity, limitPrice }); },
+    sell: (quantity, limitPrice) => { pending.push({ side: "sell", quantity, limitPrice }); },
+    closePosition: () => {
+      if (position > 0) pending.push({ side: "sell", quantity: position });
+    },
+    maxShares: () => affordableShares(options.commission, cash, bars[index].close * (1 + slippage)),
+  };
+
+  for (index = 0; index < bars.length; index++) {
+    const bar = bars[index];
+
+    const orders = pending;
+    pending = [];
+    for (const order of orders) {
+      execute(order, bar);
+    }
+
+    strategy.onBar(context);
+
+    const positionValue = position * bar.close;
+    const equity = cash + positionValue;
+    peak = Math.max(peak, equity);
+    if (position > 0) barsInMarket++;
+    equityCurve.push({
+      time: bar.date.toISOString(),
+      equity,
+      cash,
+      positionValue,
+      drawdown: (equity / peak - 1) * 100,
+    });
+  }
+
+  return {
+    finalEquity: equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : options.initialCash,
+    metrics: computeMetrics(equityCurve, trades, options, barsInMarket, totalCommission),
+    equityCurve,
+    fills,
+    trades,
+  };
+}
+
+async function loadBars(request: BacktestRequest): Promise<Bar[]> {
+  const to = request.to || new Date();
+  const options = {
+    from: request.from || new Date(to.getTime() - DEFAULT_LOOKBACK_MS),
+    to,
+    interval: request.interval,
+  };
+
+  if (request.dataSource === "fixture") {
+    fixtureProvider = fixtureProvider || new FixtureMarketDataProvider(fixtureDirectory());
+    return fixtureProvider.history(request.symbol, options);
+  }
+  return (await marketDataCache.history(request.symbol, options)).value;
+}
+
+// Load history for a request and run the chosen built-in strategy over it.
+// Returns undefined when there are too few bars to simulate anything.
+export async function runBacktestRequest(request: BacktestRequest): Promise<BacktestResult | undefined> {
+  const bars = await loadBars(request);
+  if (bars.length < 2) return undefined;
+
+  const run = runBacktest(bars, createStrategy(request.strategy), {
+    initialCash: request.initialCash,
+    commission: request.commission,
+    slippageBps: request.slippageBps,
+    periodsPerYear: PERIODS_PER_YEAR[request.interval],
+  });
+
+  return {
+    symbol: request.symbol,
+    strategy: request.strategy,
+    interval: request.interval,
+    dataSource: request.dataSource,
+    from: bars[0].date.toISOString(),
+    to: bars[bars.length - 1].date.toISOString(),
+    initialCash: request.initialCash,
+    ...run,
+  };
+}
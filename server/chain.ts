@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import type { Block, ContractCall, TransactionDetail, TransactionReceipt, TransferLog } from "@shared/chain";
+import { ContractRevert, TokenContract } from "./erc20";
+
+// Chain id mixed into every transaction hash, as on a local development network
+export const CHAIN_ID = 31337;
+
+function sha256(value: unknown): string {
+  return `0x${createHash("sha256").update(JSON.stringify(value)).digest("hex")}`;
+}
+
+// Deterministic account address for a label such as "user:1"
+export function accountAddress(label: string): string {
+  return `0x${sha256(label).slice(-40)}`;
+}
+
+// Contract addresses follow from the deployer and its nonce, as with CREATE
+export function contractAddress(deployer: string, nonce: number): string {
+  return accountAddress(`contract:${deployer}:${nonce}`);
+}
+
+// Account each token contract keeps its pool's tokens in
+export function poolAddress(contract: string): string {
+  return accountAddress(`pool:${contract}`);
+}
+
+function blockHash(number: number, parentHash: string, timestamp: Date, transactions: string[]): string {
+  return sha256([number, parentHash, timestamp.toISOString(), transactions]);
+}
+
+function genesisBlock(): Block {
+  const timestamp = new Date(0);
+  const parentHash = `0x${"0".repeat(64)}`;
+  return { number: 0, hash: blockHash(0, parentHash, timestamp, []), parentHash, timestamp: timestamp.toISOString(), transactions: [] };
+}
+
+// In-process chain that mines every transaction into its own block as soon as it is
+// submitted. Nothing is random: the same transactions submitted in the same order
+// give the same hashes, blocks and state.
+export class ChainSimulator {
+  private blocks: Block[] = [genesisBlock()];
+  private transactions = new Map<string, TransactionDetail>();
+  private nonces = new Map<string, number>();
+  private contracts = new Map<string, TokenContract>();
+
+  get blockNumber(): number {
+    return this.blocks.length - 1;
+  }
+
+  // Transactions sent from the address so far
+  nonceOf(address: string): number {
+    return this.nonces.get(address) ?? 0;
+  }
+
+  getBlock(number: number): Block | undefined {
+    return this.blocks[number];
+  }
+
+  getTransaction(hash: string): TransactionDetail | undefined {
+    return this.transactions.get(hash);
+  }
+
+  getContract(address: string): TokenContract | undefined {
+    return this.contracts.get(address);
+  }
+
+  // Mines `call` from `from`, sent to the contract at `to` or deploying one when `to` is
+  // null. Reverted calls are mined too: they use up the nonce but change no state.
+  submit(from: string, to: string | null, call: ContractCall, timestamp: Date): TransactionReceipt {
+    const nonce = this.nonceOf(from);
+    const hash = sha256([CHAIN_ID, from, to, nonce, call]);
+
+    let deployed: TokenContract | null = null;
+    let logs: TransferLog[] = [];
+    let revertReason: string | null = null;
+    try {
+      if (call.method === "deploy") {
+        if (to !== null) throw new ContractRevert("Deployments have no recipient");
+        const address = contractAddress(from, nonce);
+        deployed = new TokenContract(address, from, call.args.name, call.args.symbol, poolAddress(address));
+      } else {
+        const contract = to === null ? undefined : this.contracts.get(to);
+        if (!contract) throw new ContractRevert("No contract at this address");
+        logs = contract.call(from, call);
+      }
+    } catch (error) {
+      if (!(error instanceof ContractRevert)) throw error;
+      revertReason = error.message;
+    }
+    if (deployed) this.contracts.set(deployed.address, deployed);
+    this.nonces.set(from, nonce + 1);
+
+    // Block times never go backwards, even if a transaction arrives stamped earlier
+    const parent = this.blocks[this.blocks.length - 1];
+    const blockTime = new Date(Math.max(timestamp.getTime(), Date.parse(parent.timestamp)));
+    const block: Block = {
+      number: parent.number + 1,
+      hash: blockHash(parent.number + 1, parent.hash, blockTime, [hash]),
+      parentHash: parent.hash,
+      timestamp: blockTime.toISOString(),
+      transactions: [hash],
+    };
+    this.blocks.push(block);
+
+    const receipt: TransactionReceipt = {
+      transactionHash: hash,
+      blockNumber: block.number,
+      blockHash: block.hash,
+      from,
+      to,
+      contractAddress: deployed?.address ?? null,
+      status: revertReason === null ? "success" : "reverted",
+      revertReason,
+      logs,
+    };
+    this.transactions.set(hash, {
+      transaction: { hash, from, to, nonce, call, blockNumber: block.number, blockHash: block.hash },
+      receipt,
+      timestamp: block.timestamp,
+    });
+    return receipt;
+  }
+}
@@ -0,0 +1,10 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema> & { $client: pg.Pool };
+
+export function createDb(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
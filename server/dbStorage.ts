@@ -0,0 +1,805 @@
+import path from "path";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, max, ne } from "drizzle-orm";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import {
+  users, type User, type InsertUser,
+  watchlistStocks, type WatchlistStock, type InsertWatchlistStock,
+  marketIndices, type MarketIndex, type InsertMarketIndex,
+  marketIndexHistory, type MarketIndexPoint, type InsertMarketIndexPoint,
+  accounts, type Account, type InsertAccount, type UpdateAccount,
+  orders, type Order, type InsertOrder,
+  transactions, type Transaction, type InsertTransaction,
+  userPreferences, type UserPreferences, type UpdateUserPreferences,
+  alerts, type Alert, type InsertAlert, type UpdateAlert,
+  notifications, type Notification, type InsertNotification,
+  screens, type Screen, type InsertScreen, type UpdateScreen,
+  fantasyTokens, type FantasyToken, type InsertFantasyToken,
+  fantasyTokenBalances, type FantasyTokenBalance,
+  fantasyTokenTransfers, type FantasyTokenTransfer, type InsertFantasyTokenTransfer,
+  fantasyTokenPools, type FantasyTokenPool,
+  fantasyTokenTrades, type FantasyTokenTrade,
+  fantasyTokenPegSamples, type FantasyTokenPegSample, type UpdateFantasyToken,
+  fantasyLeagues, type FantasyLeague, type InsertFantasyLeague,
+  fantasyLeagueTeams, type FantasyLeagueTeam, type InsertFantasyLeagueTeam,
+  fantasyRosterPicks, type FantasyRosterPick, type InsertFantasyRosterPick,
+  fantasyLeagueScores, type FantasyLeagueScore, type InsertFantasyLeagueScore,
+  defaultUserPreferences
+} from "@shared/schema";
+import type { ScreenerResult } from "@shared/screener";
+import type { TokenTradeRequest } from "@shared/fantasyTokens";
+import type { IStorage, OrderUpdate, LedgerResult, TokenLedgerResult, TokenTradeResult, TokenDeployment, MinedTokenTransfer } from "./storage";
+import type { Database } from "./db";
+import { demoUser, demoPassword, demoMarketIndices, demoWatchlistStocks, demoLedger, demoFantasyTokens, demoFantasyLeague } from "./demoData";
+import { hashPassword } from "./passwords";
+import { fillTransaction, type Fill } from "./trading";
+import { planTransaction, planRemoval } from "./ledger";
+import { planTokenTransfer } from "./fantasyTokens";
+import { openingReserves, planTrade, poolPrice, poolReserves, repricedReserves, reserveColumns, tradeSettlement } from "./amm";
+
+const PostgresSessionStore = connectPg(session);
+
+type DbTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Standings rows per insert, keeping a long season of a big league under Postgres' bind parameter limit
+const SCORE_INSERT_BATCH = 1000;
+
+// Postgres-backed storage built on drizzle-orm
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  // Apply checked-in migrations and seed the market indices, and the demo account
+  // when it has a password, into an empty database
+  async initialize(): Promise<void> {
+    await migrate(this.db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+
+    const existingUsers = await this.db.select({ id: users.id }).from(users).limit(1);
+    if (existingUsers.length > 0) return;
+
+    const password = demoPassword();
+    await this.db.transaction(async (tx) => {
+      await tx.insert(marketIndices).values(demoMarketIndices.map(idx => ({
+        name: idx.name,
+        value: idx.value.toString(),
+        change: idx.change.toString(),
+        changePercent: idx.changePercent.toString(),
+        lastUpdated: new Date(),
+      }))).onConflictDoNothing();
+
+      if (!password) return;
+
+      const [user] = await tx.insert(users).values({
+        username: demoUser.username,
+        password: await hashPassword(password),
+      }).returning();
+
+      const ledger = demoLedger(user.id);
+      await tx.insert(accounts).values({
+        userId: user.id,
+        cash: String(ledger.cash),
+        createdAt: new Date(),
+      });
+      await tx.insert(transactions).values(ledger.transactions);
+
+      await tx.insert(watchlistStocks).values(demoWatchlistStocks.map(stock => ({
+        userId: user.id,
+        symbol: stock.symbol,
+        name: stock.name,
+      })));
+
+      for (const { token, poolSupply } of demoFantasyTokens(user.id)) {
+        await this.insertFantasyToken(tx, token, poolSupply);
+      }
+
+      const demo = demoFantasyLeague(user.id);
+      const [league] = await tx.insert(fantasyLeagues).values({ ...demo.league, createdAt: new Date() }).returning();
+      const [team] = await tx.insert(fantasyLeagueTeams).values({
+        leagueId: league.id,
+        userId: user.id,
+        name: demo.teamName,
+        joinedAt: new Date(),
+      }).returning();
+      await tx.insert(fantasyRosterPicks).values(demo.picks.map(pick => ({ ...pick, teamId: team.id })));
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // User preference methods
+  async getUserPreferences(userId: number): Promise<UserPreferences> {
+    const [preferences] = await this.db.select().from(userPreferences)
+      .where(eq(userPreferences.userId, userId));
+    return preferences || { userId, ...defaultUserPreferences };
+  }
+
+  async updateUserPreferences(userId: number, data: UpdateUserPreferences): Promise<UserPreferences> {
+    if (Object.keys(data).length === 0) {
+      return this.getUserPreferences(userId);
+    }
+
+    const [preferences] = await this.db.insert(userPreferences)
+      .values({ userId, ...data })
+      .onConflictDoUpdate({ target: userPreferences.userId, set: data })
+      .returning();
+    return preferences;
+  }
+
+  // Watchlist methods
+  async getWatchlistStocks(userId: number): Promise<WatchlistStock[]> {
+    return this.db.select().from(watchlistStocks)
+      .where(eq(watchlistStocks.userId, userId))
+      .orderBy(watchlistStocks.id);
+  }
+
+  async getWatchlistStock(id: number): Promise<WatchlistStock | undefined> {
+    const [stock] = await this.db.select().from(watchlistStocks).where(eq(watchlistStocks.id, id));
+    return stock;
+  }
+
+  async createWatchlistStock(stock: InsertWatchlistStock): Promise<WatchlistStock> {
+    const [watchlistStock] = await this.db.insert(watchlistStocks).values(stock).returning();
+    return watchlistStock;
+  }
+
+  async deleteWatchlistStock(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(watchlistStocks)
+      .where(eq(watchlistStocks.id, id))
+      .returning({ id: watchlistStocks.id });
+    return deleted.length > 0;
+  }
+
+  // Market index methods
+  async getMarketIndices(): Promise<MarketIndex[]> {
+    return this.db.select().from(marketIndices).orderBy(marketIndices.id);
+  }
+
+  async updateMarketIndex(name: string, data: Partial<InsertMarketIndex>): Promise<MarketIndex | undefined> {
+    if (Object.keys(data).length === 0) {
+      const [index] = await this.db.select().from(marketIndices).where(eq(marketIndices.name, name));
+      return index;
+    }
+
+    const [index] = await this.db.update(marketIndices)
+      .set(data)
+      .where(eq(marketIndices.name, name))
+      .returning();
+    return index;
+  }
+
+  async createMarketIndex(indexData: InsertMarketIndex): Promise<MarketIndex> {
+    const [marketIndex] = await this.db.insert(marketIndices).values(indexData).returning();
+    return marketIndex;
+  }
+
+  async getMarketIndexHistory(name: string, since: Date): Promise<MarketIndexPoint[]> {
+    return this.db.select().from(marketIndexHistory)
+      .where(and(eq(marketIndexHistory.name, name), gte(marketIndexHistory.recordedAt, since)))
+      .orderBy(asc(marketIndexHistory.recordedAt));
+  }
+
+  async getLatestMarketIndexTime(name: string): Promise<Date | undefined> {
+    const [latest] = await this.db.select({ recordedAt: max(marketIndexHistory.recordedAt) })
+      .from(marketIndexHistory)
+      .where(eq(marketIndexHistory.name, name));
+    return latest?.recordedAt ?? undefined;
+  }
+
+  async recordMarketIndexHistory(points: InsertMarketIndexPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    await this.db.insert(marketIndexHistory).values(points).onConflictDoNothing();
+  }
+
+  async pruneMarketIndexHistory(before: Date): Promise<number> {
+    const removed = await this.db.delete(marketIndexHistory)
+      .where(lt(marketIndexHistory.recordedAt, before))
+      .returning({ id: marketIndexHistory.id });
+    return removed.length;
+  }
+
+  // Paper trading account methods
+  async getAccount(userId: number): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.userId, userId));
+    return account;
+  }
+
+  async createAccount(accountData: InsertAccount): Promise<Account> {
+    return this.db.transaction(async (tx) => {
+      // Concurrent first requests may race to open the account; keep whichever landed first
+      const [created] = await tx.insert(accounts).values(accountData)
+        .onConflictDoNothing({ target: accounts.userId })
+        .returning();
+      if (!created) {
+        const [account] = await tx.select().from(accounts).where(eq(accounts.userId, accountData.userId));
+        return account;
+      }
+
+      if (Number(created.cash) > 0) {
+        await tx.insert(transactions).values({
+          userId: created.userId,
+          type: "deposit",
+          amount: created.cash,
+          executedAt: created.createdAt,
+        });
+      }
+      return created;
+    });
+  }
+
+  async updateAccount(userId: number, data: UpdateAccount): Promise<Account | undefined> {
+    const [account] = await this.db.update(accounts)
+      .set(data)
+      .where(eq(accounts.userId, userId))
+      .returning();
+    return account;
+  }
+
+  // Transaction ledger methods
+  async getTransactions(userId: number): Promise<Transaction[]> {
+    return this.db.select().from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.executedAt), desc(transactions.id));
+  }
+
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(eq(transactions.id, id));
+    return transaction;
+  }
+
+  async recordTransaction(entry: InsertTransaction): Promise<LedgerResult> {
+    return this.db.transaction(tx => this.applyTransaction(tx, entry));
+  }
+
+  async removeTransaction(id: number): Promise<LedgerResult | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [transaction] = await tx.select().from(transactions).where(eq(transactions.id, id));
+      if (!transaction) return undefined;
+
+      const account = await this.lockAccount(tx, transaction.userId);
+      const history = await tx.select().from(transactions).where(eq(transactions.userId, transaction.userId));
+      const plan = planRemoval(transaction, Number(account.cash), history, account.costBasisMethod);
+      if ("rejectReason" in plan) return plan;
+
+      await tx.update(accounts).set({ cash: String(plan.cash) }).where(eq(accounts.id, account.id));
+      await tx.delete(transactions).where(eq(transactions.id, id));
+      return { transaction };
+    });
+  }
+
+  // Lock the account so concurrent ledger changes for the same user run one at a time
+  private async lockAccount(tx: DbTransaction, userId: number): Promise<Account> {
+    const [account] = await tx.select().from(accounts).where(eq(accounts.userId, userId)).for("update");
+    if (!account) throw new Error(`No trading account for user ${userId}`);
+    return account;
+  }
+
+  private async applyTransaction(tx: DbTransaction, entry: InsertTransaction): Promise<LedgerResult> {
+    const account = await this.lockAccount(tx, entry.userId);
+    const history = await tx.select().from(transactions).where(eq(transactions.userId, entry.userId));
+    const plan = planTransaction(entry, Number(account.cash), history, account.costBasisMethod);
+    if ("rejectReason" in plan) return plan;
+
+    await tx.update(accounts).set({ cash: String(plan.cash) }).where(eq(accounts.id, account.id));
+    const [transaction] = await tx.insert(transactions).values(entry).returning();
+    return { transaction };
+  }
+
+  // Order methods
+  async getOrders(userId: number): Promise<Order[]> {
+    return this.db.select().from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt), desc(orders.id));
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).where(eq(orders.status, "open")).orderBy(orders.id);
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async createOrder(orderData: InsertOrder): Promise<Order> {
+    const [order] = await this.db.insert(orders)
+      .values({ ...orderData, status: "open", createdAt: new Date() })
+      .returning();
+    return order;
+  }
+
+  async updateOpenOrder(id: number, data: OrderUpdate): Promise<Order | undefined> {
+    const [order] = await this.db.update(orders)
+      .set(data)
+      .where(and(eq(orders.id, id), eq(orders.status, "open")))
+      .returning();
+    return order;
+  }
+
+  async fillOrder(id: number, fill: Fill): Promise<Order | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the order so a concurrent fill or cancel waits for this one; the ledger locks the account
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order || order.status !== "open") return undefined;
+
+      const result = await this.applyTransaction(tx, fillTransaction(order, fill));
+      if ("rejectReason" in result) {
+        const [rejected] = await tx.update(orders)
+          .set({ status: "rejected", statusReason: result.rejectReason })
+          .where(eq(orders.id, id))
+          .returning();
+        return rejected;
+      }
+
+      const [filled] = await tx.update(orders)
+        .set({ status: "filled", filledPrice: String(fill.price), filledAt: fill.filledAt })
+        .where(eq(orders.id, id))
+        .returning();
+      return filled;
+    });
+  }
+
+  // Price alert methods
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return this.db.select().from(alerts)
+      .where(eq(alerts.userId, userId))
+      .orderBy(desc(alerts.createdAt), desc(alerts.id));
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(eq(alerts.active, true));
+  }
+
+  async getAlert(id: number): Promise<Alert | undefined> {
+    const [alert] = await this.db.select().from(alerts).where(eq(alerts.id, id));
+    return alert;
+  }
+
+  async createAlert(alertData: InsertAlert): Promise<Alert> {
+    const [alert] = await this.db.insert(alerts)
+      .values({ ...alertData, createdAt: new Date() })
+      .returning();
+    return alert;
+  }
+
+  async updateAlert(id: number, data: UpdateAlert): Promise<Alert | undefined> {
+    if (Object.keys(data).length === 0) {
+      return this.getAlert(id);
+    }
+
+    const [alert] = await this.db.update(alerts)
+      .set(data)
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  async deleteAlert(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(alerts).where(eq(alerts.id, id)).returning({ id: alerts.id });
+    return deleted.length > 0;
+  }
+
+  async triggerAlert(id: number, notificationData: InsertNotification): Promise<Notification | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Only the check that switches the alert off gets to notify
+      const [alert] = await tx.update(alerts)
+        .set({ active: false, triggeredAt: notificationData.createdAt })
+        .where(and(eq(alerts.id, id), eq(alerts.active, true)))
+        .returning();
+      if (!alert) return undefined;
+
+      const [notification] = await tx.insert(notifications).values(notificationData).returning();
+      return notification;
+    });
+  }
+
+  // Saved screen methods
+  async getScreens(userId: number): Promise<Screen[]> {
+    return this.db.select().from(screens)
+      .where(eq(screens.userId, userId))
+      .orderBy(asc(screens.name), asc(screens.id));
+  }
+
+  async getScheduledScreens(): Promise<Screen[]> {
+    return this.db.select().from(screens).where(ne(screens.schedule, "manual"));
+  }
+
+  async getScreen(id: number): Promise<Screen | undefined> {
+    const [screen] = await this.db.select().from(screens).where(eq(screens.id, id));
+    return screen;
+  }
+
+  async createScreen(screenData: InsertScreen): Promise<Screen> {
+    const [screen] = await this.db.insert(screens)
+      .values({ ...screenData, createdAt: new Date() })
+      .returning();
+    return screen;
+  }
+
+  async updateScreen(id: number, data: UpdateScreen): Promise<Screen | undefined> {
+    if (Object.keys(data).length === 0) {
+      return this.getScreen(id);
+    }
+
+    const [screen] = await this.db.update(screens)
+      .set(data)
+      .where(eq(screens.id, id))
+      .returning();
+    return screen;
+  }
+
+  async recordScreenRun(id: number, result: ScreenerResult): Promise<Screen | undefined> {
+    const [screen] = await this.db.update(screens)
+      .set({ lastRunAt: new Date(result.ranAt), lastResult: result })
+      .where(eq(screens.id, id))
+      .returning();
+    return screen;
+  }
+
+  async deleteScreen(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(screens).where(eq(screens.id, id)).returning({ id: screens.id });
+    return deleted.length > 0;
+  }
+
+  // Fantasy token methods
+  async getFantasyTokens(): Promise<FantasyToken[]> {
+    return this.db.select().from(fantasyTokens).orderBy(asc(fantasyTokens.id));
+  }
+
+  async getFantasyToken(id: number): Promise<FantasyToken | undefined> {
+    const [token] = await this.db.select().from(fantasyTokens).where(eq(fantasyTokens.id, id));
+    return token;
+  }
+
+  async createFantasyToken(tokenData: InsertFantasyToken, poolSupply: number): Promise<FantasyToken | undefined> {
+    return this.db.transaction(async (tx) => this.insertFantasyToken(tx, tokenData, poolSupply));
+  }
+
+  async updateFantasyToken(id: number, data: UpdateFantasyToken): Promise<FantasyToken | undefined> {
+    const [token] = await this.db.update(fantasyTokens)
+      .set(data)
+      .where(eq(fantasyTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  async getFantasyTokenHolders(tokenId: number): Promise<FantasyTokenBalance[]> {
+    return this.db.select().from(fantasyTokenBalances)
+      .where(and(eq(fantasyTokenBalances.tokenId, tokenId), gt(fantasyTokenBalances.balance, "0")))
+      .orderBy(desc(fantasyTokenBalances.balance), asc(fantasyTokenBalances.userId));
+  }
+
+  async getFantasyTokenBalance(tokenId: number, userId: number): Promise<number> {
+    return this.tokenBalance(this.db, tokenId, userId);
+  }
+
+  async getFantasyTokenTransfers(tokenId: number): Promise<FantasyTokenTransfer[]> {
+    return this.db.select().from(fantasyTokenTransfers)
+      .where(eq(fantasyTokenTransfers.tokenId, tokenId))
+      .orderBy(desc(fantasyTokenTransfers.createdAt), desc(fantasyTokenTransfers.id));
+  }
+
+  async recordFantasyTokenTransfer(entry: InsertFantasyTokenTransfer): Promise<TokenLedgerResult> {
+    return this.db.transaction(async (tx) => this.applyTokenTransfer(tx, entry));
+  }
+
+  async getMinedFantasyTokenTransfers(): Promise<FantasyTokenTransfer[]> {
+    return this.db.select().from(fantasyTokenTransfers)
+      .where(isNotNull(fantasyTokenTransfers.blockNumber))
+      .orderBy(asc(fantasyTokenTransfers.blockNumber));
+  }
+
+  async getUnminedFantasyTokenTransfers(): Promise<FantasyTokenTransfer[]> {
+    return this.db.select().from(fantasyTokenTransfers)
+      .where(isNull(fantasyTokenTransfers.blockNumber))
+      .orderBy(asc(fantasyTokenTransfers.id));
+  }
+
+  async recordFantasyTokenDeployment(id: number, deployment: TokenDeployment): Promise<FantasyToken | undefined> {
+    const [token] = await this.db.update(fantasyTokens)
+      .set(deployment)
+      .where(eq(fantasyTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  async recordMinedFantasyTokenTransfer(id: number, mined: MinedTokenTransfer): Promise<FantasyTokenTransfer | undefined> {
+    const [transfer] = await this.db.update(fantasyTokenTransfers)
+      .set(mined)
+      .where(eq(fantasyTokenTransfers.id, id))
+      .returning();
+    return transfer;
+  }
+
+  async getFantasyTokenPool(tokenId: number): Promise<FantasyTokenPool | undefined> {
+    const [pool] = await this.db.select().from(fantasyTokenPools).where(eq(fantasyTokenPools.tokenId, tokenId));
+    return pool;
+  }
+
+  async getFantasyTokenTrades(tokenId: number): Promise<FantasyTokenTrade[]> {
+    return this.db.select().from(fantasyTokenTrades)
+      .where(eq(fantasyTokenTrades.tokenId, tokenId))
+      .orderBy(desc(fantasyTokenTrades.createdAt), desc(fantasyTokenTrades.id));
+  }
+
+  async tradeFantasyToken(tokenId: number, userId: number, request: TokenTradeRequest): Promise<TokenTradeResult> {
+    return this.db.transaction(async (tx) => {
+      // Lock the token, then the pool, so trades and ledger changes for the token run one at a time
+      const [token] = await tx.select().from(fantasyTokens).where(eq(fantasyTokens.id, tokenId)).for("update");
+      const [pool] = await tx.select().from(fantasyTokenPools).where(eq(fantasyTokenPools.tokenId, tokenId)).for("update");
+      if (!token || !pool) throw new Error(`No pool for fantasy token ${tokenId}`);
+
+      const plan = planTrade(poolReserves(pool), request);
+      if ("rejectReason" in plan) return plan;
+      const { quote, reserves } = plan;
+
+      // Check the seller's tokens before any cash moves
+      if (quote.side === "sell" && quote.amount > await this.tokenBalance(tx, tokenId, userId)) {
+        return { rejectReason: "Insufficient token balance" };
+      }
+
+      // Lock both accounts in a fixed order so trades settling between the same users can't deadlock
+      for (const accountUserId of Array.from(new Set([userId, token.creatorId])).sort((a, b) => a - b)) {
+        await this.lockAccount(tx, accountUserId);
+      }
+
+      const createdAt = new Date();
+      const settlement = tradeSettlement(token, userId, quote, createdAt);
+      const paid = await this.applyTransaction(tx, settlement.trader);
+      if ("rejectReason" in paid) return paid;
+      if (settlement.fee) {
+        const fee = await this.applyTransaction(tx, settlement.fee);
+        if ("rejectReason" in fee) throw new Error(fee.rejectReason);
+      }
+
+      const moved = await this.applyTokenTransfer(tx, {
+        tokenId,
+        type: quote.side,
+        fromUserId: quote.side === "sell" ? userId : null,
+        toUserId: quote.side === "buy" ? userId : null,
+        amount: String(quote.amount),
+      });
+      if ("rejectReason" in moved) throw new Error(moved.rejectReason);
+
+      await tx.update(fantasyTokenPools).set(reserveColumns(reserves)).where(eq(fantasyTokenPools.id, pool.id));
+      const [trade] = await tx.insert(fantasyTokenTrades).values({
+        tokenId,
+        userId,
+        side: quote.side,
+        amount: String(quote.amount),
+        cash: String(quote.cash),
+        fee: String(quote.fee),
+        price: String(quote.priceAfter),
+        createdAt,
+      }).returning();
+      return { trade, transfer: moved.transfer };
+    });
+  }
+
+  async rebalanceFantasyTokenPool(tokenId: number, referencePrice: number, sampledAt: Date, tracked: boolean): Promise<FantasyTokenPegSample | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Same lock order as trades: the token, then its pool
+      await tx.select({ id: fantasyTokens.id }).from(fantasyTokens).where(eq(fantasyTokens.id, tokenId)).for("update");
+      const [pool] = await tx.select().from(fantasyTokenPools).where(eq(fantasyTokenPools.tokenId, tokenId)).for("update");
+      if (!pool) return undefined;
+
+      const reserves = poolReserves(pool);
+      await tx.update(fantasyTokenPools)
+        .set(reserveColumns(repricedReserves(reserves, referencePrice)))
+        .where(eq(fantasyTokenPools.id, pool.id));
+      const [sample] = await tx.insert(fantasyTokenPegSamples).values({
+        tokenId,
+        referencePrice: String(referencePrice),
+        poolPrice: tracked ? String(poolPrice(reserves)) : null,
+        sampledAt,
+      }).returning();
+      return sample;
+    });
+  }
+
+  async getFantasyTokenPegSamples(tokenId: number, since: Date): Promise<FantasyTokenPegSample[]> {
+    return this.db.select().from(fantasyTokenPegSamples)
+      .where(and(eq(fantasyTokenPegSamples.tokenId, tokenId), gte(fantasyTokenPegSamples.sampledAt, since)))
+      .orderBy(asc(fantasyTokenPegSamples.sampledAt), asc(fantasyTokenPegSamples.id));
+  }
+
+  async pruneFantasyTokenPegSamples(before: Date): Promise<number> {
+    const deleted = await this.db.delete(fantasyTokenPegSamples)
+      .where(lt(fantasyTokenPegSamples.sampledAt, before))
+      .returning({ id: fantasyTokenPegSamples.id });
+    return deleted.length;
+  }
+
+  // Fantasy league methods
+  async getFantasyLeagues(): Promise<FantasyLeague[]> {
+    return this.db.select().from(fantasyLeagues).orderBy(desc(fantasyLeagues.seasonStart), desc(fantasyLeagues.id));
+  }
+
+  async getFantasyLeague(id: number): Promise<FantasyLeague | undefined> {
+    const [league] = await this.db.select().from(fantasyLeagues).where(eq(fantasyLeagues.id, id));
+    return league;
+  }
+
+  async createFantasyLeague(leagueData: InsertFantasyLeague): Promise<FantasyLeague> {
+    const [league] = await this.db.insert(fantasyLeagues)
+      .values({ ...leagueData, createdAt: new Date() })
+      .returning();
+    return league;
+  }
+
+  async getFantasyLeagueTeams(leagueId: number): Promise<FantasyLeagueTeam[]> {
+    return this.db.select().from(fantasyLeagueTeams)
+      .where(eq(fantasyLeagueTeams.leagueId, leagueId))
+      .orderBy(asc(fantasyLeagueTeams.joinedAt), asc(fantasyLeagueTeams.id));
+  }
+
+  async createFantasyLeagueTeam(teamData: InsertFantasyLeagueTeam): Promise<FantasyLeagueTeam | undefined> {
+    const [team] = await this.db.insert(fantasyLeagueTeams)
+      .values({ ...teamData, joinedAt: new Date() })
+      .onConflictDoNothing()
+      .returning();
+    return team;
+  }
+
+  async getFantasyRosterPicks(leagueId: number): Promise<FantasyRosterPick[]> {
+    const teamIds = (await this.getFantasyLeagueTeams(leagueId)).map(team => team.id);
+    if (teamIds.length === 0) return [];
+
+    return this.db.select().from(fantasyRosterPicks)
+      .where(inArray(fantasyRosterPicks.teamId, teamIds))
+      .orderBy(asc(fantasyRosterPicks.id));
+  }
+
+  async setFantasyRoster(teamId: number, picks: InsertFantasyRosterPick[]): Promise<FantasyRosterPick[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(fantasyRosterPicks).where(eq(fantasyRosterPicks.teamId, teamId));
+      if (picks.length === 0) return [];
+      return tx.insert(fantasyRosterPicks).values(picks.map(pick => ({ ...pick, teamId }))).returning();
+    });
+  }
+
+  async getFantasyLeagueScores(leagueId: number): Promise<FantasyLeagueScore[]> {
+    return this.db.select().from(fantasyLeagueScores)
+      .where(eq(fantasyLeagueScores.leagueId, leagueId))
+      .orderBy(asc(fantasyLeagueScores.day), asc(fantasyLeagueScores.rank), asc(fantasyLeagueScores.teamId));
+  }
+
+  async recordFantasyLeagueScores(leagueId: number, scores: InsertFantasyLeagueScore[], scoredAt: Date): Promise<FantasyLeague | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [league] = await tx.update(fantasyLeagues)
+        .set({ scoredAt })
+        .where(eq(fantasyLeagues.id, leagueId))
+        .returning();
+      if (!league) return undefined;
+
+      await tx.delete(fantasyLeagueScores).where(eq(fantasyLeagueScores.leagueId, leagueId));
+      for (let i = 0; i < scores.length; i += SCORE_INSERT_BATCH) {
+        await tx.insert(fantasyLeagueScores).values(scores.slice(i, i + SCORE_INSERT_BATCH).map(score => ({ ...score, leagueId })));
+      }
+      return league;
+    });
+  }
+
+  // The supply starts at zero and comes into existence through the creator's mint
+  private async insertFantasyToken(tx: DbTransaction, tokenData: InsertFantasyToken, poolSupply: number): Promise<FantasyToken | undefined> {
+    const [token] = await tx.insert(fantasyTokens)
+      .values({ ...tokenData, totalSupply: "0", createdAt: new Date() })
+      .onConflictDoNothing({ target: fantasyTokens.symbol })
+      .returning();
+    if (!token) return undefined;
+
+    const result = await this.applyTokenTransfer(tx, {
+      tokenId: token.id,
+      type: "mint",
+      toUserId: token.creatorId,
+      amount: tokenData.totalSupply,
+    });
+    if ("rejectReason" in result) throw new Error(result.rejectReason);
+
+    const seeded = await this.applyTokenTransfer(tx, {
+      tokenId: token.id,
+      type: "seed",
+      fromUserId: token.creatorId,
+      amount: String(poolSupply),
+    });
+    if ("rejectReason" in seeded) throw new Error(seeded.rejectReason);
+    await tx.insert(fantasyTokenPools).values({
+      tokenId: token.id,
+      ...reserveColumns(openingReserves(poolSupply, Number(token.issuePrice))),
+      createdAt: token.createdAt,
+    });
+
+    return { ...token, totalSupply: tokenData.totalSupply };
+  }
+
+  private async tokenBalance(db: Database | DbTransaction, tokenId: number, userId: number): Promise<number> {
+    const [row] = await db.select({ balance: fantasyTokenBalances.balance }).from(fantasyTokenBalances)
+      .where(and(eq(fantasyTokenBalances.tokenId, tokenId), eq(fantasyTokenBalances.userId, userId)));
+    return Number(row?.balance ?? 0);
+  }
+
+  private async applyTokenTransfer(tx: DbTransaction, entry: InsertFantasyTokenTransfer): Promise<TokenLedgerResult> {
+    // Lock the token so concurrent changes to its balances and supply run one at a time
+    const [token] = await tx.select().from(fantasyTokens).where(eq(fantasyTokens.id, entry.tokenId)).for("update");
+    if (!token) throw new Error(`No fantasy token ${entry.tokenId}`);
+
+    const senderBalance = entry.fromUserId != null ? await this.tokenBalance(tx, token.id, entry.fromUserId) : 0;
+    const plan = planTokenTransfer(entry, senderBalance);
+    if ("rejectReason" in plan) return plan;
+
+    const amount = Number(entry.amount);
+    if (entry.fromUserId != null) {
+      await tx.update(fantasyTokenBalances)
+        .set({ balance: String(senderBalance - amount) })
+        .where(and(eq(fantasyTokenBalances.tokenId, token.id), eq(fantasyTokenBalances.userId, entry.fromUserId)));
+    }
+    if (entry.toUserId != null) {
+      const recipientBalance = await this.tokenBalance(tx, token.id, entry.toUserId);
+      await tx.insert(fantasyTokenBalances)
+        .values({ tokenId: token.id, userId: entry.toUserId, balance: String(recipientBalance + amount) })
+        .onConflictDoUpdate({
+          target: [fantasyTokenBalances.tokenId, fantasyTokenBalances.userId],
+          set: { balance: String(recipientBalance + amount) },
+        });
+    }
+    await tx.update(fantasyTokens)
+      .set({ totalSupply: String(Number(token.totalSupply) + plan.supplyChange) })
+      .where(eq(fantasyTokens.id, token.id));
+
+    const [transfer] = await tx.insert(fantasyTokenTransfers).values({ ...entry, createdAt: new Date() }).returning();
+    return { transfer };
+  }
+
+  // Notification methods
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return this.db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(notificationData).returning();
+    return notification;
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await this.db.select({ count: count() }).from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+    return result.count;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+
+    const updated = await this.db.update(notifications)
+      .set({ read: true })
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.read, false),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+}
@@ -0,0 +1,115 @@
+import type { InsertFantasyLeague, InsertFantasyRosterPick, InsertFantasyToken, InsertTransaction } from "@shared/schema";
+import { STARTING_CASH } from "./trading";
+
+// Seed data for the demo account, shared by every storage backend
+
+export const demoUser = {
+  username: "demo",
+};
+
+// Password of the demo login, hashed by each storage backend before it is saved.
+// Outside production it defaults to a well-known one; production only gets a demo
+// account when DEMO_PASSWORD is set, since anyone could sign in with the default.
+export function demoPassword(): string | undefined {
+  return process.env.DEMO_PASSWORD || (process.env.NODE_ENV === "production" ? undefined : "password");
+}
+
+export const demoMarketIndices = [
+  { name: "S&P 500", value: 4682.80, change: 53.24, changePercent: 1.15 },
+  { name: "NASDAQ", value: 15362.90, change: 270.02, changePercent: 1.79 },
+  { name: "DOW", value: 36432.22, change: 246.76, changePercent: 0.68 },
+  { name: "RUSSELL 2000", value: 2243.10, change: -4.97, changePercent: -0.22 },
+  { name: "10-YR YIELD", value: 1.45, change: 0.05, changePercent: 3.57 },
+  { name: "VIX", value: 16.48, change: -1.02, changePercent: -5.83 }
+];
+
+export const demoHoldings = [
+  { symbol: "AAPL", name: "Apple Inc.", shares: 12, purchasePrice: 150.25 },
+  { symbol: "MSFT", name: "Microsoft", shares: 8, purchasePrice: 330.75 },
+  { symbol: "TSLA", name: "Tesla, Inc.", shares: 5, purchasePrice: 950.53 },
+  { symbol: "AMZN", name: "Amazon", shares: 3, purchasePrice: 3350.50 }
+];
+
+export const demoWatchlistStocks = [
+  { symbol: "GOOG", name: "Alphabet Inc." },
+  { symbol: "NFLX", name: "Netflix Inc." },
+  { symbol: "JPM", name: "JPMorgan Chase" },
+  { symbol: "DIS", name: "Disney" }
+];
+
+// Random purchase date in the last 30 days
+export function demoPurchaseDate(): Date {
+  return new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000);
+}
+
+// Opening deposit followed by a buy for each demo holding, and the cash left over
+export function demoLedger(userId: number): { cash: number; transactions: InsertTransaction[] } {
+  const buys: InsertTransaction[] = demoHoldings.map(stock => ({
+    userId,
+    type: "buy",
+    symbol: stock.symbol,
+    name: stock.name,
+    quantity: String(stock.shares),
+    price: String(stock.purchasePrice),
+    executedAt: demoPurchaseDate(),
+  }));
+  const cost = demoHoldings.reduce((total, stock) => total + stock.shares * stock.purchasePrice, 0);
+
+  return {
+    cash: STARTING_CASH - cost,
+    transactions: [
+      {
+        userId,
+        type: "deposit",
+        amount: String(STARTING_CASH),
+        executedAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000),
+      },
+      ...buys,
+    ],
+  };
+}
+
+// Fantasy tokens issued by the demo user, with half of each supply seeding the token's
+// pool. The pegged ones move to their base stock's price on the first rebalance.
+export function demoFantasyTokens(creatorId: number): { token: InsertFantasyToken; poolSupply: number }[] {
+  return [
+    { symbol: "WZAPL", name: "Wizard Apple", baseStock: "AAPL", issuePrice: 178.72, totalSupply: 15000, pegMultiplier: 1 },
+    { symbol: "MGMSFT", name: "Magical Microsoft", baseStock: "MSFT", issuePrice: 412.35, totalSupply: 5000, pegMultiplier: 0.5 },
+    { symbol: "SBTSL", name: "Spellbound Tesla", baseStock: "TSLA", issuePrice: 172.63, totalSupply: 6000, pegMultiplier: null },
+  ].map(token => ({
+    token: {
+      ...token,
+      creatorId,
+      issuePrice: String(token.issuePrice),
+      totalSupply: String(token.totalSupply),
+      pegMultiplier: token.pegMultiplier === null ? null : String(token.pegMultiplier),
+    },
+    poolSupply: token.totalSupply / 2,
+  }));
+}
+
+// A league whose season started four weeks ago, with the demo user's team drafted
+// at prices from before then
+export function demoFantasyLeague(creatorId: number): { league: InsertFantasyLeague; teamName: string; picks: InsertFantasyRosterPick[] } {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const seasonStart = new Date(Date.parse(new Date().toISOString().slice(0, 10)) - 28 * dayMs);
+
+  return {
+    league: {
+      name: "Gringotts Invitational",
+      creatorId,
+      salaryCap: "1000",
+      rosterSize: 5,
+      seasonStart,
+      seasonEnd: new Date(seasonStart.getTime() + 90 * dayMs),
+    },
+    teamName: "Goblin Gold",
+    picks: [
+      { assetType: "stock", symbol: "AAPL", salary: "225.40" },
+      { assetType: "stock", symbol: "NVDA", salary: "118.10" },
+      { assetType: "stock", symbol: "AMD", salary: "149.30" },
+      { assetType: "stock", symbol: "DIS", salary: "92.15" },
+      { assetType: "token", symbol: "WZAPL", salary: "225.40" },
+    ],
+  };
+}
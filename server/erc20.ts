@@ -0,0 +1,72 @@
+import type { ContractCall, TransferLog } from "@shared/chain";
+
+// Balances below this are treated as zero to absorb floating point noise
+const EPSILON = 1e-9;
+
+// Sender of mints and recipient of burns in Transfer events
+export const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+
+// A contract call can't go through; its transaction is mined as reverted with this reason
+export class ContractRevert extends Error {}
+
+export type TokenCall = Exclude<ContractCall, { method: "deploy" }>;
+
+// ERC-20-like token with a pool account the contract controls. Only the deployer
+// can mint; anyone can transfer or burn their own balance, and buys move tokens
+// from the pool to the sender. State only changes once a call has passed every check.
+export class TokenContract {
+  private balances = new Map<string, number>();
+  totalSupply = 0;
+
+  constructor(
+    readonly address: string,
+    readonly owner: string,
+    readonly name: string,
+    readonly symbol: string,
+    readonly pool: string,
+  ) {}
+
+  balanceOf(account: string): number {
+    return this.balances.get(account) ?? 0;
+  }
+
+  // Applies a call from `sender` and returns the Transfer events it emits
+  call(sender: string, call: TokenCall): TransferLog[] {
+    const amount = Number(call.args.amount);
+    if (!(amount > 0)) throw new ContractRevert("Amount must be positive");
+
+    switch (call.method) {
+      case "mint":
+        if (sender !== this.owner) throw new ContractRevert("Only the owner can mint");
+        this.totalSupply += amount;
+        this.credit(call.args.to, amount);
+        return [this.log(ZERO_ADDRESS, call.args.to, call.args.amount)];
+      case "transfer":
+        this.debit(sender, amount, "Transfer amount exceeds balance");
+        this.credit(call.args.to, amount);
+        return [this.log(sender, call.args.to, call.args.amount)];
+      case "burn":
+        this.debit(sender, amount, "Burn amount exceeds balance");
+        this.totalSupply -= amount;
+        return [this.log(sender, ZERO_ADDRESS, call.args.amount)];
+      case "buy":
+        this.debit(this.pool, amount, "Not enough tokens in the pool");
+        this.credit(sender, amount);
+        return [this.log(this.pool, sender, call.args.amount)];
+    }
+  }
+
+  private debit(account: string, amount: number, reason: string) {
+    const balance = this.balanceOf(account);
+    if (amount > balance + EPSILON) throw new ContractRevert(reason);
+    this.balances.set(account, Math.max(0, balance - amount));
+  }
+
+  private credit(account: string, amount: number) {
+    this.balances.set(account, this.balanceOf(account) + amount);
+  }
+
+  private log(from: string, to: string, value: string): TransferLog {
+    return { address: this.address, event: "Transfer", from, to, value };
+  }
+}
@@ -0,0 +1,121 @@
+import type {
+  FantasyLeague,
+  FantasyLeagueTeam,
+  FantasyRosterPick,
+  InsertFantasyLeagueScore,
+  InsertFantasyRosterPick,
+  RosterAssetType,
+} from "@shared/schema";
+import type { LeagueStatus } from "@shared/fantasyLeagues";
+
+// League rules and season scoring shared by the routes and the league scorer
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An asset's close on a day, YYYY-MM-DD
+export interface DailyClose {
+  day: string;
+  close: number;
+}
+
+export type RosterPlan = { picks: InsertFantasyRosterPick[] } | { rejectReason: string };
+
+export function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Picks are told apart by asset type as well as symbol, since a token may share a stock's symbol
+export function assetKey(assetType: RosterAssetType, symbol: string): string {
+  return `${assetType}:${symbol}`;
+}
+
+// Rosters can be drafted until the season's first day; the last day is still part of the season
+export function leagueStatus(league: FantasyLeague, now: Date): LeagueStatus {
+  if (now < league.seasonStart) return "upcoming";
+  if (now.getTime() < league.seasonEnd.getTime() + DAY_MS) return "active";
+  return "finished";
+}
+
+// Why a roster of `count` picks is too big for the league, if it is; checked before
+// pricing the picks too, since each one costs a quote
+export function rosterSizeRejection(league: FantasyLeague, count: number): string | undefined {
+  if (count > league.rosterSize) return `Rosters can hold at most ${league.rosterSize} picks`;
+}
+
+// Checks a priced roster against the league's roster size and salary cap
+export function planRoster(league: FantasyLeague, picks: InsertFantasyRosterPick[]): RosterPlan {
+  const tooBig = rosterSizeRejection(league, picks.length);
+  if (tooBig) {
+    return { rejectReason: tooBig };
+  }
+
+  const salary = picks.reduce((total, pick) => total + Number(pick.salary), 0);
+  const cap = Number(league.salaryCap);
+  if (salary > cap) {
+    return { rejectReason: `Roster costs $${salary.toFixed(2)}, over the $${cap.toFixed(2)} salary cap` };
+  }
+
+  return { picks };
+}
+
+// Weekdays of the season that have closed by `now`: from its first day to its last or yesterday, whichever is earlier
+function scoredDays(league: FantasyLeague, now: Date): string[] {
+  const days: string[] = [];
+  const last = Math.min(league.seasonEnd.getTime(), Date.parse(dayKey(now)) - DAY_MS);
+  for (let time = league.seasonStart.getTime(); time <= last; time += DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) days.push(dayKey(new Date(time)));
+  }
+  return days;
+}
+
+// Latest close on or before `day` in closes sorted by day
+function closeOn(closes: DailyClose[], day: string): number | undefined {
+  let close: number | undefined;
+  for (const entry of closes) {
+    if (entry.day > day) break;
+    close = entry.close;
+  }
+  return close;
+}
+
+// Standings for every closed day of the season. Each team's return on a day is the
+// average return of its picks since their last close before the season; picks
+// without one count as flat. Teams that never drafted aren't ranked, and tied
+// teams share a rank.
+export function scoreSeason(
+  league: FantasyLeague,
+  teams: FantasyLeagueTeam[],
+  picks: FantasyRosterPick[],
+  closes: Map<string, DailyClose[]>,
+  now: Date,
+): InsertFantasyLeagueScore[] {
+  const seasonStart = dayKey(league.seasonStart);
+  const rosters = teams
+    .map(team => ({
+      teamId: team.id,
+      picks: picks.filter(pick => pick.teamId === team.id).map(pick => {
+        const symbolCloses = closes.get(assetKey(pick.assetType, pick.symbol)) || [];
+        const before = symbolCloses.filter(entry => entry.day < seasonStart);
+        return { closes: symbolCloses, baseline: before[before.length - 1]?.close };
+      }),
+    }))
+    .filter(roster => roster.picks.length > 0);
+
+  return scoredDays(league, now).flatMap(day => {
+    const returns = rosters.map(roster => {
+      const pickReturns = roster.picks.map(pick => {
+        const close = closeOn(pick.closes, day);
+        return pick.baseline && close !== undefined ? close / pick.baseline - 1 : 0;
+      });
+      return { teamId: roster.teamId, returnPercent: pickReturns.reduce((total, value) => total + value, 0) / pickReturns.length * 100 };
+    });
+
+    return returns.map(({ teamId, returnPercent }) => ({
+      teamId,
+      day,
+      returnPercent: String(returnPercent),
+      rank: 1 + returns.filter(other => other.returnPercent > returnPercent).length,
+    }));
+  });
+}
@@ -0,0 +1,38 @@
+import type { InsertFantasyTokenTransfer, TokenTransferType } from "@shared/schema";
+
+// Token ledger rules shared by the storage backends
+
+// Change to the token's total supply, or why the entry can't be recorded
+export type TokenTransferPlan = { supplyChange: number } | { rejectReason: string };
+
+// Entries whose tokens come out of, or go into, no user's balance: the mint or
+// the pool on the sending side, the burn or the pool on the receiving side
+const withoutSender: TokenTransferType[] = ["mint", "buy"];
+const withoutRecipient: TokenTransferType[] = ["burn", "seed", "sell"];
+
+// Checks a ledger entry against the sender's balance; the caller moves the balances.
+// Pool reserves are checked by the pool when it prices a trade.
+export function planTokenTransfer(entry: InsertFantasyTokenTransfer, senderBalance: number): TokenTransferPlan {
+  const hasSender = entry.fromUserId != null;
+  const hasRecipient = entry.toUserId != null;
+  if (hasSender === withoutSender.includes(entry.type) || hasRecipient === withoutRecipient.includes(entry.type)) {
+    throw new Error(`Malformed ${entry.type} entry for fantasy token ${entry.tokenId}`);
+  }
+
+  const amount = Number(entry.amount);
+  if (entry.type === "transfer" && entry.fromUserId === entry.toUserId) {
+    return { rejectReason: "Cannot transfer tokens to yourself" };
+  }
+  if (hasSender && amount > senderBalance) {
+    return { rejectReason: "Insufficient token balance" };
+  }
+
+  switch (entry.type) {
+    case "mint":
+      return { supplyChange: amount };
+    case "burn":
+      return { supplyChange: -amount };
+    default:
+      return { supplyChange: 0 };
+  }
+}
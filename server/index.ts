@@ -1,10 +1,17 @@
+// Load environment variables from .env file before any module reads its config
+import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initializeStorage } from "./storage";
+import { tradingEngine } from "./tradingEngine";
+import { quoteStream } from "./quoteStream";
+import { marketIndexRefresher } from "./indexRefresher";
+import { alertEngine } from "./alertEngine";
+import { screenScheduler } from "./screenScheduler";
+import { pegRebalancer } from "./pegRebalancer";
+import { leagueScorer } from "./leagueScorer";
+import { tokenChain } from "./tokenChain";
 import { setupVite, serveStatic, log } from "./vite";
-import dotenv from 'dotenv';
-
-// Load environment variables from .env file
-dotenv.config();
 
 const app = express();
 app.use(express.json());
@@ -41,8 +48,33 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initializeStorage();
+  // Rebuild the simulated chain fantasy token contracts live on before serving requests
+  await tokenChain.load();
   const server = await registerRoutes(app);
 
+  // Fill open paper trading orders as quotes come in
+  tradingEngine.start();
+
+  // Keep market index levels and their intraday history current
+  marketIndexRefresher.start();
+
+  // Check users' price alerts against fresh quotes
+  alertEngine.start();
+
+  // Re-run saved screens that are on a schedule
+  screenScheduler.start();
+
+  // Pull pegged fantasy token pools back to their base stock's price
+  pegRebalancer.start();
+
+  // Update fantasy league standings from the latest closes
+  leagueScorer.start();
+
+  // Push live quotes to browsers subscribed over /ws
+  quoteStream.attach(server);
+  quoteStream.start();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,87 @@
+import { storage, type IStorage } from "./storage";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import { marketIndexSymbols } from "@shared/marketData";
+import type { InsertMarketIndexPoint } from "@shared/schema";
+
+// How often index levels are refreshed; intraday bars are cached for a minute
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Intraday history kept for sparklines; long enough to span a weekend
+export const INDEX_HISTORY_RETENTION_MS = 4 * 24 * 60 * 60 * 1000;
+
+// Keeps the stored market indices in step with the market data provider and
+// records their intraday levels for the market summary sparklines
+export class MarketIndexRefresher {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private storage: IStorage, private marketData: MarketDataCache) {}
+
+  // Refresh straight away so the seeded values are replaced before anyone looks
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer) return;
+
+    this.refresh().catch(error => console.error("Market index refresh error:", error));
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error("Market index refresh error:", error));
+    }, intervalMs);
+    // Don't keep the process alive just for the refresh loop
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async refresh(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const indices = await this.storage.getMarketIndices();
+      const tracked = indices.filter(index => marketIndexSymbols[index.name]);
+      const quotes = await this.marketData.quotes(tracked.map(index => marketIndexSymbols[index.name]));
+
+      for (const index of tracked) {
+        const symbol = marketIndexSymbols[index.name];
+        // One index failing leaves only that index stale
+        try {
+          // Indices the provider can't quote keep their last known level
+          const cached = quotes.get(symbol);
+          if (cached) {
+            await this.storage.updateMarketIndex(index.name, {
+              value: String(cached.value.price),
+              change: String(cached.value.change),
+              changePercent: String(cached.value.changePercent),
+              lastUpdated: cached.value.marketTime,
+            });
+          }
+
+          const bars = (await this.marketData.history(symbol, {
+            from: new Date(now.getTime() - INDEX_HISTORY_RETENTION_MS),
+            to: now,
+            interval: "5m",
+          })).value;
+          // Only bars after the newest stored point are inserted; duplicates would be
+          // skipped anyway, but Postgres would still use up an id on each of them
+          const latest = await this.storage.getLatestMarketIndexTime(index.name);
+          const points: InsertMarketIndexPoint[] = bars.filter(bar => !latest || bar.date > latest).map(bar => ({
+            name: index.name,
+            value: String(bar.close),
+            recordedAt: bar.date,
+          }));
+          await this.storage.recordMarketIndexHistory(points);
+        } catch (error) {
+          console.error(`Market index ${index.name} refresh error:`, error);
+        }
+      }
+
+      await this.storage.pruneMarketIndexHistory(new Date(now.getTime() - INDEX_HISTORY_RETENTION_MS));
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const marketIndexRefresher = new MarketIndexRefresher(storage, marketDataCache);
@@ -0,0 +1,119 @@
+import type { FantasyLeague, FantasyToken } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import { assetKey, dayKey, scoreSeason, type DailyClose } from "./fantasyLeagues";
+
+// How often leagues are checked for standings due
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Extra history loaded before the season so every pick has a close to measure from
+const LOOKBACK_DAYS = 10;
+
+// Assets whose history is loaded at the same time
+const CONCURRENCY = 5;
+
+// Leagues are scored once a day from their first day until a run after their last
+export function isLeagueDue(league: FantasyLeague, now: Date): boolean {
+  if (now < league.seasonStart) return false;
+  if (!league.scoredAt) return true;
+  return dayKey(league.scoredAt) < dayKey(now) && league.scoredAt.getTime() < league.seasonEnd.getTime() + DAY_MS;
+}
+
+// Recomputes league standings from daily closes once a day while seasons run
+export class LeagueScorer {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private storage: IStorage, private marketData: MarketDataCache) {}
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer) return;
+
+    // Catch up on leagues left unscored while the server was down
+    this.tick().catch(error => console.error("League scorer error:", error));
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("League scorer error:", error));
+    }, intervalMs);
+    // Don't keep the process alive just for the schedule
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = (await this.storage.getFantasyLeagues()).filter(league => isLeagueDue(league, now));
+      for (const league of due) {
+        try {
+          await this.score(league, now);
+        } catch (error) {
+          console.error(`Fantasy league ${league.id} scoring error:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Replaces the league's standings with every team's return at each closed day of the season
+  async score(league: FantasyLeague, now: Date = new Date()): Promise<FantasyLeague | undefined> {
+    const [teams, picks, tokens] = await Promise.all([
+      this.storage.getFantasyLeagueTeams(league.id),
+      this.storage.getFantasyRosterPicks(league.id),
+      this.storage.getFantasyTokens(),
+    ]);
+
+    const from = new Date(league.seasonStart.getTime() - LOOKBACK_DAYS * DAY_MS);
+    const to = new Date(Math.min(now.getTime(), league.seasonEnd.getTime() + DAY_MS));
+    const assets = Array.from(new Map(picks.map(pick => [assetKey(pick.assetType, pick.symbol), pick])).entries());
+
+    const closes = new Map<string, DailyClose[]>();
+    for (let i = 0; i < assets.length; i += CONCURRENCY) {
+      await Promise.all(assets.slice(i, i + CONCURRENCY).map(async ([key, pick]) => {
+        if (pick.assetType === "stock") {
+          closes.set(key, await this.stockCloses(pick.symbol, from, to));
+          return;
+        }
+        const token = tokens.find(candidate => candidate.symbol === pick.symbol);
+        closes.set(key, token ? await this.tokenCloses(token, from, to) : []);
+      }));
+    }
+
+    return this.storage.recordFantasyLeagueScores(league.id, scoreSeason(league, teams, picks, closes, now), now);
+  }
+
+  // A symbol without history scores as flat rather than failing the whole league
+  private async stockCloses(symbol: string, from: Date, to: Date): Promise<DailyClose[]> {
+    const cached = await this.marketData.history(symbol, { from, to, interval: "1d" }).catch(() => undefined);
+    return (cached?.value || []).map(bar => ({ day: dayKey(bar.date), close: bar.close }));
+  }
+
+  // Pegged tokens close at their base stock's close times the multiplier; the rest
+  // close where the day's last trade left their pool, or at the issue price before any
+  private async tokenCloses(token: FantasyToken, from: Date, to: Date): Promise<DailyClose[]> {
+    if (token.pegMultiplier !== null && token.baseStock) {
+      const multiplier = Number(token.pegMultiplier);
+      return (await this.stockCloses(token.baseStock, from, to)).map(({ day, close }) => ({ day, close: close * multiplier }));
+    }
+
+    const closes = new Map<string, number>([[dayKey(token.createdAt), Number(token.issuePrice)]]);
+    const trades = await this.storage.getFantasyTokenTrades(token.id);
+    // Oldest first, so each day keeps its last trade
+    for (const trade of [...trades].reverse()) {
+      closes.set(dayKey(trade.createdAt), Number(trade.price));
+    }
+    return Array.from(closes.entries())
+      .map(([day, close]) => ({ day, close }))
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+}
+
+export const leagueScorer = new LeagueScorer(storage, marketDataCache);
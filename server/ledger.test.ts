@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { CostBasisMethod, Transaction } from "@shared/schema";
+import { buildLedger, LedgerError, planRemoval, planTransaction, toTransaction } from "./ledger";
+
+function entry(id: number, type: Transaction["type"], day: string, fields: Partial<Transaction> = {}): Transaction {
+  return { ...toTransaction(id, { userId: 1, type, executedAt: new Date(`${day}T15:00:00Z`) }), ...fields };
+}
+
+function buy(id: number, day: string, quantity: number, price: number): Transaction {
+  return entry(id, "buy", day, { symbol: "AAPL", quantity: String(quantity), price: String(price) });
+}
+
+function sell(id: number, day: string, quantity: number, price: number, lotId: number | null = null): Transaction {
+  return entry(id, "sell", day, { symbol: "AAPL", quantity: String(quantity), price: String(price), lotId });
+}
+
+// Lots of 10 shares bought at 10, 20 and 30
+const lots = [buy(1, "2024-01-02", 10, 10), buy(2, "2024-01-03", 10, 20), buy(3, "2024-01-04", 10, 30)];
+
+describe("buildLedger", () => {
+  // Selling 15 of the 30 shares at 25, for 375
+  it.each<[CostBasisMethod, number | null, { lotId: number; shares: number; costBasis: number }[], { id: number; shares: number }[]]>([
+    // 10 from the first lot and 5 from the second
+    ["fifo", null, [{ lotId: 1, shares: 10, costBasis: 100 }, { lotId: 2, shares: 5, costBasis: 100 }], [{ id: 2, shares: 5 }, { id: 3, shares: 10 }]],
+    // 10 from the last lot and 5 from the second
+    ["lifo", null, [{ lotId: 3, shares: 10, costBasis: 300 }, { lotId: 2, shares: 5, costBasis: 100 }], [{ id: 1, shares: 10 }, { id: 2, shares: 5 }]],
+    // The chosen second lot, then the rest first in, first out
+    ["specific", 2, [{ lotId: 2, shares: 10, costBasis: 200 }, { lotId: 1, shares: 5, costBasis: 50 }], [{ id: 1, shares: 5 }, { id: 3, shares: 10 }]],
+    // Half of every lot
+    ["average", null, [
+      { lotId: 1, shares: 5, costBasis: 50 }, { lotId: 2, shares: 5, costBasis: 100 }, { lotId: 3, shares: 5, costBasis: 150 },
+    ], [{ id: 1, shares: 5 }, { id: 2, shares: 5 }, { id: 3, shares: 5 }]],
+  ])("matches a sale %s", (method, lotId, closed, open) => {
+    const ledger = buildLedger([...lots, sell(4, "2024-01-05", 15, 25, lotId)], method);
+
+    expect(ledger.realized.map(({ lotId, shares, costBasis }) => ({ lotId, shares, costBasis }))).toEqual(closed);
+    const costBasis = closed.reduce((total, lot) => total + lot.costBasis, 0);
+    expect(ledger.totals.realizedGain).toBeCloseTo(375 - costBasis, 9);
+
+    const [position] = ledger.positions;
+    expect(position.lots.map(({ id, shares }) => ({ id, shares }))).toEqual(open);
+    expect(position.shares).toBe(15);
+    expect(position.costBasis).toBeCloseTo(600 - costBasis, 9);
+    expect(ledger.totals.costBasis).toBeCloseTo(600 - costBasis, 9);
+  });
+
+  it("keeps the average cost of what's left under average cost", () => {
+    const { positions } = buildLedger([...lots, sell(4, "2024-01-05", 15, 25)], "average");
+
+    expect(positions[0].averageCost).toBeCloseTo(20, 9);
+    expect(positions[0].lots.map(lot => lot.purchasePrice)).toEqual([10, 20, 30]);
+  });
+
+  it("multiplies shares on a split without changing the cost", () => {
+    const { positions } = buildLedger([
+      buy(1, "2024-01-02", 10, 30),
+      entry(2, "split", "2024-01-03", { symbol: "AAPL", quantity: "3" }),
+    ], "fifo");
+
+    expect(positions[0]).toMatchObject({ shares: 30, costBasis: 300, averageCost: 10 });
+  });
+
+  it("totals dividends, fees, deposits and withdrawals", () => {
+    const { totals, positions } = buildLedger([
+      entry(1, "deposit", "2024-01-02", { amount: "1000" }),
+      buy(2, "2024-01-02", 10, 10),
+      entry(3, "dividend", "2024-01-03", { symbol: "AAPL", amount: "12.5" }),
+      entry(4, "fee", "2024-01-03", { amount: "2" }),
+      entry(5, "withdrawal", "2024-01-04", { amount: "100" }),
+    ], "fifo");
+
+    expect(totals).toMatchObject({ dividends: 12.5, fees: 2, deposits: 1000, withdrawals: 100 });
+    expect(positions[0].dividends).toBe(12.5);
+  });
+
+  it("throws a LedgerError when a sale exceeds the shares held then", () => {
+    // The later buy doesn't cover a sale that came before it
+    const history = [buy(1, "2024-01-02", 10, 10), sell(2, "2024-01-03", 15, 20), buy(3, "2024-01-04", 10, 10)];
+
+    expect(() => buildLedger(history, "fifo")).toThrow(LedgerError);
+    expect(() => buildLedger(history, "fifo")).toThrow("Insufficient shares");
+  });
+});
+
+describe("planTransaction", () => {
+  const history = [entry(1, "deposit", "2024-01-02", { amount: "1000" }), buy(2, "2024-01-02", 10, 50)];
+
+  it("returns the cash balance after the transaction", () => {
+    const plan = planTransaction({
+      userId: 1, type: "sell", symbol: "AAPL", quantity: "4", price: "60", executedAt: new Date("2024-01-03T15:00:00Z"),
+    }, 500, history, "fifo");
+
+    expect(plan).toEqual({ cash: 740 });
+  });
+
+  it("refuses a sale of more shares than are held", () => {
+    const plan = planTransaction({
+      userId: 1, type: "sell", symbol: "AAPL", quantity: "11", price: "60", executedAt: new Date("2024-01-03T15:00:00Z"),
+    }, 500, history, "fifo");
+
+    expect(plan).toEqual({ rejectReason: "Insufficient shares" });
+  });
+
+  it("refuses a purchase the cash doesn't cover", () => {
+    const plan = planTransaction({
+      userId: 1, type: "buy", symbol: "MSFT", quantity: "2", price: "250.01", executedAt: new Date("2024-01-03T15:00:00Z"),
+    }, 500, history, "fifo");
+
+    expect(plan).toEqual({ rejectReason: "Insufficient cash" });
+  });
+
+  it("refuses a specific-lot sale from a lot that isn't open", () => {
+    const plan = planTransaction({
+      userId: 1, type: "sell", symbol: "AAPL", quantity: "1", price: "60", lotId: 99, executedAt: new Date("2024-01-03T15:00:00Z"),
+    }, 500, history, "specific");
+
+    expect(plan).toEqual({ rejectReason: "Lot 99 is not an open AAPL lot" });
+  });
+});
+
+describe("planRemoval", () => {
+  const deposit = entry(1, "deposit", "2024-01-02", { amount: "1000" });
+  const purchase = buy(2, "2024-01-02", 10, 50);
+
+  it("reverses the transaction's cash movement", () => {
+    expect(planRemoval(purchase, 500, [deposit, purchase], "fifo")).toEqual({ cash: 1000 });
+  });
+
+  it("refuses to remove a purchase a later sale depends on", () => {
+    const sale = sell(3, "2024-01-03", 10, 60);
+
+    expect(planRemoval(purchase, 1100, [deposit, purchase, sale], "fifo")).toEqual({
+      rejectReason: "Later sales depend on this transaction",
+    });
+  });
+
+  it("refuses to remove a deposit the cash has already been spent from", () => {
+    expect(planRemoval(deposit, 500, [deposit, purchase], "fifo")).toEqual({ rejectReason: "Insufficient cash" });
+  });
+});
@@ -0,0 +1,274 @@
+import type { CostBasisMethod, InsertTransaction, Transaction } from "@shared/schema";
+import type { Lot, LedgerResponse, LedgerTotals, Position, RealizedLot } from "@shared/ledger";
+
+// Share counts and cash amounts below this are treated as zero to absorb floating point noise
+const EPSILON = 1e-9;
+
+// A transaction can't be applied to the ledger; the message is shown to the user
+export class LedgerError extends Error {}
+
+// Outcome of checking a ledger change against the account, shared by every storage backend
+export type LedgerPlan = { cash: number } | { rejectReason: string };
+
+interface OpenLot {
+  id: number;
+  userId: number;
+  symbol: string;
+  name: string;
+  shares: number;
+  // Total cost of the remaining shares
+  cost: number;
+  purchaseDate: Date;
+  orderId: number | null;
+}
+
+// Fill in the columns an insert may leave out
+export function toTransaction(id: number, entry: InsertTransaction): Transaction {
+  return {
+    id,
+    userId: entry.userId,
+    type: entry.type,
+    symbol: entry.symbol ?? null,
+    name: entry.name ?? null,
+    quantity: entry.quantity ?? null,
+    price: entry.price ?? null,
+    amount: entry.amount ?? null,
+    lotId: entry.lotId ?? null,
+    orderId: entry.orderId ?? null,
+    executedAt: entry.executedAt,
+  };
+}
+
+// Ledger order: by execution time, then by when the entry was recorded
+export function chronological(a: Transaction, b: Transaction): number {
+  return a.executedAt.getTime() - b.executedAt.getTime() || a.id - b.id;
+}
+
+// Change in account cash from one transaction
+export function cashEffect(transaction: Transaction): number {
+  const quantity = Number(transaction.quantity ?? 0);
+  const price = Number(transaction.price ?? 0);
+  const amount = Number(transaction.amount ?? 0);
+
+  switch (transaction.type) {
+    case "buy": return -quantity * price;
+    case "sell": return quantity * price;
+    case "dividend":
+    case "deposit":
+    case "token_sell":
+    case "token_fee": return amount;
+    case "fee":
+    case "withdrawal":
+    case "token_buy": return -amount;
+    case "split": return 0;
+  }
+}
+
+// How many shares of each open lot a sale closes. Average cost closes every lot
+// pro rata, which leaves the average cost of what remains unchanged.
+function matchLots(lots: OpenLot[], quantity: number, method: CostBasisMethod, lotId: number | null): { lot: OpenLot; shares: number }[] {
+  if (method === "average") {
+    const held = lots.reduce((total, lot) => total + lot.shares, 0);
+    return lots.map(lot => ({ lot, shares: lot.shares * quantity / held }));
+  }
+
+  let ordered = method === "lifo" ? [...lots].reverse() : [...lots];
+  // A specific-lot sale closes the chosen lot first and anything left over first in, first out
+  const chosen = method === "specific" && lotId !== null ? lots.find(lot => lot.id === lotId) : undefined;
+  if (chosen) {
+    ordered = [chosen, ...ordered.filter(lot => lot !== chosen)];
+  }
+
+  const matches: { lot: OpenLot; shares: number }[] = [];
+  let remaining = quantity;
+  for (const lot of ordered) {
+    if (remaining <= EPSILON) break;
+
+    const shares = Math.min(lot.shares, remaining);
+    matches.push({ lot, shares });
+    remaining -= shares;
+  }
+  return matches;
+}
+
+function toLot(lot: OpenLot): Lot {
+  return {
+    id: lot.id,
+    userId: lot.userId,
+    symbol: lot.symbol,
+    name: lot.name,
+    shares: lot.shares,
+    purchasePrice: lot.cost / lot.shares,
+    purchaseDate: lot.purchaseDate.toISOString(),
+    orderId: lot.orderId,
+  };
+}
+
+// Replay a user's transactions into open lots, positions and realized gains.
+// Throws a LedgerError when a sale exceeds the shares held at that point.
+export function buildLedger(history: Transaction[], method: CostBasisMethod): LedgerResponse {
+  let lots: OpenLot[] = [];
+  const realized: RealizedLot[] = [];
+  const dividends = new Map<string, number>();
+  const totals: LedgerTotals = { costBasis: 0, realizedGain: 0, dividends: 0, fees: 0, deposits: 0, withdrawals: 0 };
+
+  for (const transaction of [...history].sort(chronological)) {
+    const symbol = transaction.symbol || "";
+    const quantity = Number(transaction.quantity ?? 0);
+    const amount = Number(transaction.amount ?? 0);
+
+    switch (transaction.type) {
+      case "buy":
+        lots.push({
+          id: transaction.id,
+          userId: transaction.userId,
+          symbol,
+          name: transaction.name || symbol,
+          shares: quantity,
+          cost: quantity * Number(transaction.price),
+          purchaseDate: transaction.executedAt,
+          orderId: transaction.orderId,
+        });
+        break;
+
+      case "sell": {
+        const held = lots.filter(lot => lot.symbol === symbol);
+        const heldShares = held.reduce((total, lot) => total + lot.shares, 0);
+        if (heldShares + EPSILON < quantity) {
+          throw new LedgerError("Insufficient shares");
+        }
+
+        const price = Number(transaction.price);
+        for (const { lot, shares } of matchLots(held, quantity, method, transaction.lotId)) {
+          const costBasis = lot.cost * shares / lot.shares;
+          const proceeds = shares * price;
+          realized.push({
+            saleId: transaction.id,
+            lotId: lot.id,
+            symbol,
+            shares,
+            proceeds,
+            costBasis,
+            gain: proceeds - costBasis,
+            purchaseDate: lot.purchaseDate.toISOString(),
+            saleDate: transaction.executedAt.toISOString(),
+          });
+          lot.cost -= costBasis;
+          lot.shares -= shares;
+        }
+        lots = lots.filter(lot => lot.shares > EPSILON);
+        break;
+      }
+
+      case "split":
+        // Splits change the share count but not what was paid
+        for (const lot of lots) {
+          if (lot.symbol === symbol) {
+            lot.shares *= quantity;
+          }
+        }
+        break;
+
+      case "dividend":
+        dividends.set(symbol, (dividends.get(symbol) || 0) + amount);
+        totals.dividends += amount;
+        break;
+      case "fee":
+        totals.fees += amount;
+        break;
+      case "deposit":
+        totals.deposits += amount;
+        break;
+      case "withdrawal":
+        totals.withdrawals += amount;
+        break;
+    }
+  }
+
+  const positions = new Map<string, Position>();
+  for (const lot of lots) {
+    let position = positions.get(lot.symbol);
+    if (!position) {
+      position = {
+        symbol: lot.symbol,
+        name: lot.name,
+        shares: 0,
+        costBasis: 0,
+        averageCost: 0,
+        realizedGain: 0,
+        dividends: dividends.get(lot.symbol) || 0,
+        lots: [],
+      };
+      positions.set(lot.symbol, position);
+    }
+
+    position.shares += lot.shares;
+    position.costBasis += lot.cost;
+    position.lots.push(toLot(lot));
+  }
+
+  for (const sale of realized) {
+    const position = positions.get(sale.symbol);
+    if (position) {
+      position.realizedGain += sale.gain;
+    }
+    totals.realizedGain += sale.gain;
+  }
+
+  const openPositions = Array.from(positions.values());
+  for (const position of openPositions) {
+    position.averageCost = position.costBasis / position.shares;
+    totals.costBasis += position.costBasis;
+  }
+
+  return { method, positions: openPositions, realized, totals };
+}
+
+// Check a new transaction against the account and return the resulting cash balance
+export function planTransaction(entry: InsertTransaction, cash: number, history: Transaction[], method: CostBasisMethod): LedgerPlan {
+  // Not saved yet, so it sorts after anything recorded at the same moment
+  const candidate = toTransaction(Number.MAX_SAFE_INTEGER, entry);
+
+  try {
+    if (candidate.lotId !== null) {
+      const open = buildLedger(history.filter(transaction => transaction.executedAt <= candidate.executedAt), method);
+      const isOpen = open.positions.some(position =>
+        position.symbol === candidate.symbol && position.lots.some(lot => lot.id === candidate.lotId)
+      );
+      if (!isOpen) {
+        return { rejectReason: `Lot ${candidate.lotId} is not an open ${candidate.symbol} lot` };
+      }
+    }
+
+    buildLedger([...history, candidate], method);
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return { rejectReason: error.message };
+    }
+    throw error;
+  }
+
+  const balance = cash + cashEffect(candidate);
+  if (balance < -EPSILON) {
+    return { rejectReason: "Insufficient cash" };
+  }
+  return { cash: balance };
+}
+
+// Check that deleting a transaction leaves a consistent ledger and return the resulting cash balance
+export function planRemoval(transaction: Transaction, cash: number, history: Transaction[], method: CostBasisMethod): LedgerPlan {
+  try {
+    buildLedger(history.filter(other => other.id !== transaction.id), method);
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return { rejectReason: "Later sales depend on this transaction" };
+    }
+    throw error;
+  }
+
+  const balance = cash - cashEffect(transaction);
+  if (balance < -EPSILON) {
+    return { rejectReason: "Insufficient cash" };
+  }
+  return { cash: balance };
+}
@@ -0,0 +1,535 @@
+import fs from "fs";
+import path from "path";
+import yahooFinance from "yahoo-finance2";
+import { z } from "zod";
+import { SYMBOL_PATTERN } from "@shared/marketData";
+
+// Normalized market data shapes shared by every provider
+export type IntradayInterval = "5m" | "15m" | "60m";
+export type BarInterval = IntradayInterval | "1d" | "1wk" | "1mo";
+
+export function isIntradayInterval(interval: BarInterval): interval is IntradayInterval {
+  return interval === "5m" || interval === "15m" || interval === "60m";
+}
+
+export interface Quote {
+  symbol: string;
+  name: string;
+  price: number;
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  marketTime: Date;
+}
+
+export interface Bar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface HistoryOptions {
+  from: Date;
+  to: Date;
+  interval: BarInterval;
+}
+
+export interface SearchResult {
+  symbol: string;
+  name: string;
+  type: string;
+  exchange: string;
+  currency: string;
+}
+
+// Company classification, description and key statistics; fields Yahoo doesn't report are left out
+export interface CompanyProfile {
+  symbol: string;
+  name: string;
+  sector?: string;
+  industry?: string;
+  description?: string;
+  website?: string;
+  marketCap?: number;
+  // Trailing twelve month price/earnings and earnings per share
+  peRatio?: number;
+  eps?: number;
+  // Percent, e.g. 0.45 for a 0.45% yield
+  dividendYield?: number;
+  beta?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  sharesOutstanding?: number;
+}
+
+// One fiscal quarter of income statement and balance sheet figures, in the reporting currency
+export interface FinancialPeriod {
+  periodEnd: Date;
+  revenue?: number;
+  grossProfit?: number;
+  operatingIncome?: number;
+  netIncome?: number;
+  // Diluted earnings per share
+  eps?: number;
+  totalAssets?: number;
+  totalLiabilities?: number;
+  shareholdersEquity?: number;
+  cash?: number;
+  totalDebt?: number;
+}
+
+export interface NewsItem {
+  title: string;
+  summary: string;
+  url: string;
+  thumbnail?: string;
+  publisher: string;
+  publishedAt: Date;
+  symbols: string[];
+}
+
+// Market data source interface used by every /api/stocks route
+export interface MarketDataProvider {
+  readonly name: string;
+  quote(symbol: string): Promise<Quote | undefined>;
+  // Quotes for several symbols in one upstream call, keyed by requested symbol; unknown symbols are omitted
+  quotes(symbols: string[]): Promise<Map<string, Quote>>;
+  history(symbol: string, options: HistoryOptions): Promise<Bar[]>;
+  search(query: string): Promise<SearchResult[]>;
+  news(symbol: string): Promise<NewsItem[]>;
+  profile(symbol: string): Promise<CompanyProfile | undefined>;
+  // Recent quarters, oldest first
+  financials(symbol: string): Promise<FinancialPeriod[]>;
+}
+
+// Fields we read from yahoo-finance2 quote results
+interface YahooQuote {
+  symbol: string;
+  shortName?: string;
+  longName?: string;
+  regularMarketPrice?: number;
+  regularMarketOpen?: number;
+  regularMarketDayHigh?: number;
+  regularMarketDayLow?: number;
+  regularMarketVolume?: number;
+  regularMarketPreviousClose?: number;
+  regularMarketChange?: number;
+  regularMarketChangePercent?: number;
+  regularMarketTime?: Date;
+}
+
+export class YahooMarketDataProvider implements MarketDataProvider {
+  readonly name = "yahoo";
+
+  async quote(symbol: string): Promise<Quote | undefined> {
+    const quote = await yahooFinance.quote(symbol);
+    if (!quote) return undefined;
+
+    return this.toQuote(quote);
+  }
+
+  async quotes(symbols: string[]): Promise<Map<string, Quote>> {
+    const results = new Map<string, Quote>();
+    if (symbols.length === 0) return results;
+
+    const quotes = await yahooFinance.quote(symbols, { return: "object" });
+    for (const symbol of symbols) {
+      const quote = quotes[symbol] || quotes[symbol.toUpperCase()];
+      if (quote) {
+        results.set(symbol, this.toQuote(quote));
+      }
+    }
+
+    return results;
+  }
+
+  private toQuote(quote: YahooQuote): Quote {
+    return {
+      symbol: quote.symbol,
+      name: quote.shortName || quote.longName || quote.symbol,
+      price: quote.regularMarketPrice || 0,
+      open: quote.regularMarketOpen || 0,
+      high: quote.regularMarketDayHigh || 0,
+      low: quote.regularMarketDayLow || 0,
+      volume: quote.regularMarketVolume || 0,
+      previousClose: quote.regularMarketPreviousClose || 0,
+      change: quote.regularMarketChange || 0,
+      changePercent: quote.regularMarketChangePercent || 0,
+      marketTime: quote.regularMarketTime || new Date(),
+    };
+  }
+
+  async history(symbol: string, options: HistoryOptions): Promise<Bar[]> {
+    // The historical endpoint only serves daily and longer bars
+    if (isIntradayInterval(options.interval)) {
+      const chart = await yahooFinance.chart(symbol, {
+        period1: options.from,
+        period2: options.to,
+        interval: options.interval,
+      });
+
+      // Yahoo pads sessions with null bars where no trades happened
+      return chart.quotes
+        .filter(bar => bar.close !== null && bar.close !== undefined)
+        .map(bar => ({
+          date: bar.date,
+          open: bar.open ?? bar.close ?? 0,
+          high: bar.high ?? bar.close ?? 0,
+          low: bar.low ?? bar.close ?? 0,
+          close: bar.close ?? 0,
+          volume: bar.volume ?? 0,
+        }));
+    }
+
+    const historicalData = await yahooFinance.historical(symbol, {
+      period1: options.from,
+      period2: options.to,
+      interval: options.interval,
+    });
+
+    return historicalData.map(bar => ({
+      date: bar.date,
+      open: bar.open || 0,
+      high: bar.high || 0,
+      low: bar.low || 0,
+      close: bar.close || 0,
+      volume: bar.volume || 0,
+    }));
+  }
+
+  async search(query: string): Promise<SearchResult[]> {
+    const results = await yahooFinance.search(query);
+
+    // Results also include non-Yahoo entries without a symbol, which aren't securities
+    return results.quotes.flatMap(quote => "symbol" in quote ? [{
+      symbol: quote.symbol,
+      name: ("shortname" in quote && quote.shortname) || ("longname" in quote && quote.longname) || "",
+      type: "quoteType" in quote ? quote.quoteType : "EQUITY",
+      exchange: quote.exchange || "US",
+      // Search results don't say what currency a listing trades in
+      currency: "USD",
+    }] : []);
+  }
+
+  async news(symbol: string): Promise<NewsItem[]> {
+    const result = await yahooFinance.search(symbol);
+
+    // Search news carries no summary; the headline stands alone
+    return result.news.map(item => ({
+      title: item.title,
+      summary: "",
+      url: item.link,
+      thumbnail: item.thumbnail?.resolutions[0]?.url,
+      publisher: item.publisher,
+      publishedAt: item.providerPublishTime,
+      symbols: item.relatedTickers || [symbol],
+    }));
+  }
+
+  async profile(symbol: string): Promise<CompanyProfile | undefined> {
+    const summary = await yahooFinance.quoteSummary(symbol, {
+      modules: ["price", "assetProfile", "summaryDetail", "defaultKeyStatistics"],
+    });
+    if (!summary.price) return undefined;
+
+    const { price, assetProfile, summaryDetail, defaultKeyStatistics } = summary;
+    const dividendYield = summaryDetail?.dividendYield ?? summaryDetail?.trailingAnnualDividendYield;
+    return {
+      symbol: price.symbol,
+      name: price.longName || price.shortName || price.symbol,
+      sector: assetProfile?.sector || undefined,
+      industry: assetProfile?.industry || undefined,
+      description: assetProfile?.longBusinessSummary || undefined,
+      website: assetProfile?.website || undefined,
+      marketCap: price.marketCap ?? summaryDetail?.marketCap ?? undefined,
+      peRatio: summaryDetail?.trailingPE ?? undefined,
+      eps: defaultKeyStatistics?.trailingEps ?? undefined,
+      // Yahoo reports yields as fractions
+      dividendYield: dividendYield != null ? dividendYield * 100 : undefined,
+      beta: summaryDetail?.beta ?? defaultKeyStatistics?.beta ?? undefined,
+      fiftyTwoWeekHigh: summaryDetail?.fiftyTwoWeekHigh ?? undefined,
+      fiftyTwoWeekLow: summaryDetail?.fiftyTwoWeekLow ?? undefined,
+      sharesOutstanding: defaultKeyStatistics?.sharesOutstanding ?? undefined,
+    };
+  }
+
+  async financials(symbol: string): Promise<FinancialPeriod[]> {
+    // Statements are filed up to a few months after the quarter ends; two years covers the last eight quarters
+    const period1 = new Date();
+    period1.setFullYear(period1.getFullYear() - 2);
+
+    // The time series module isn't typed per statement, so rows are parsed here and
+    // only the figures we show are kept
+    const [income, balance]: unknown[] = await Promise.all([
+      yahooFinance.fundamentalsTimeSeries(symbol, { period1, type: "quarterly", module: "financials" }, { validateResult: false }),
+      yahooFinance.fundamentalsTimeSeries(symbol, { period1, type: "quarterly", module: "balance-sheet" }, { validateResult: false }),
+    ]);
+
+    const periods = new Map<string, FinancialPeriod>();
+    const periodFor = (date: Date) => {
+      const key = new Date(date).toISOString().slice(0, 10);
+      let period = periods.get(key);
+      if (!period) {
+        period = { periodEnd: new Date(key) };
+        periods.set(key, period);
+      }
+      return period;
+    };
+
+    for (const row of parseRows(incomeRowSchema, income)) {
+      Object.assign(periodFor(row.date), {
+        revenue: row.totalRevenue,
+        grossProfit: row.grossProfit,
+        operatingIncome: row.operatingIncome,
+        netIncome: row.netIncome,
+        eps: row.dilutedEPS,
+      });
+    }
+    for (const row of parseRows(balanceRowSchema, balance)) {
+      Object.assign(periodFor(row.date), {
+        totalAssets: row.totalAssets,
+        totalLiabilities: row.totalLiabilitiesNetMinorityInterest,
+        shareholdersEquity: row.stockholdersEquity,
+        cash: row.cashAndCashEquivalents,
+        totalDebt: row.totalDebt,
+      });
+    }
+
+    return Array.from(periods.values()).sort((a, b) => a.periodEnd.getTime() - b.periodEnd.getTime());
+  }
+}
+
+// A figure Yahoo left out or reported as something other than a number is treated as unreported
+const reportedFigure = z.number().optional().catch(undefined);
+
+const incomeRowSchema = z.object({
+  date: z.coerce.date(),
+  totalRevenue: reportedFigure,
+  grossProfit: reportedFigure,
+  operatingIncome: reportedFigure,
+  netIncome: reportedFigure,
+  dilutedEPS: reportedFigure,
+});
+
+const balanceRowSchema = z.object({
+  date: z.coerce.date(),
+  totalAssets: reportedFigure,
+  totalLiabilitiesNetMinorityInterest: reportedFigure,
+  stockholdersEquity: reportedFigure,
+  cashAndCashEquivalents: reportedFigure,
+  totalDebt: reportedFigure,
+});
+
+// Rows of a fundamentals time series that match `schema`; others are skipped
+function parseRows<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, rows: unknown): T[] {
+  if (!Array.isArray(rows)) return [];
+  return rows.flatMap(row => {
+    const parsed = schema.safeParse(row);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// Bars are stored as [date, open, high, low, close, volume] to keep fixture files compact
+type FixtureBar = [string, number, number, number, number, number];
+
+export interface MarketDataFixture {
+  symbol: string;
+  recordedAt: string;
+  quote: Omit<Quote, "marketTime"> & { marketTime: string };
+  bars: Partial<Record<BarInterval, FixtureBar[]>>;
+  news: (Omit<NewsItem, "publishedAt"> & { publishedAt: string })[];
+  // Not recorded for indices
+  profile?: CompanyProfile;
+  financials?: (Omit<FinancialPeriod, "periodEnd"> & { periodEnd: string })[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Serves recorded market data from one JSON file per symbol, so the app can
+// run in CI and on machines without network access. Recorded dates are moved
+// forward in whole weeks so the latest session lands in the current week,
+// which keeps "last 30 days" style queries returning data as a recording ages.
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = "fixture";
+  private fixtures = new Map<string, MarketDataFixture>();
+
+  constructor(private directory: string) {}
+
+  async quote(symbol: string): Promise<Quote | undefined> {
+    const fixture = await this.load(symbol);
+    if (!fixture) return undefined;
+
+    return {
+      ...fixture.quote,
+      marketTime: new Date(Date.parse(fixture.quote.marketTime) + this.offset(fixture)),
+    };
+  }
+
+  async quotes(symbols: string[]): Promise<Map<string, Quote>> {
+    const results = new Map<string, Quote>();
+    for (const symbol of symbols) {
+      const quote = await this.quote(symbol);
+      if (quote) {
+        results.set(symbol, quote);
+      }
+    }
+    return results;
+  }
+
+  async history(symbol: string, options: HistoryOptions): Promise<Bar[]> {
+    const fixture = await this.load(symbol);
+    if (!fixture) return [];
+
+    const offset = this.offset(fixture);
+    const recorded = fixture.bars[options.interval];
+    // Longer intervals are rolled up from the finest recorded bars of the same kind
+    const base = isIntradayInterval(options.interval) ? "5m" : "1d";
+    const bars = recorded
+      ? recorded.map(bar => toBar(bar, offset))
+      : aggregateBars((fixture.bars[base] || []).map(bar => toBar(bar, offset)), options.interval);
+
+    return bars.filter(bar => bar.date >= options.from && bar.date <= options.to);
+  }
+
+  async search(query: string): Promise<SearchResult[]> {
+    const needle = query.toLowerCase();
+    const files = await fs.promises.readdir(this.directory).catch(() => [] as string[]);
+    const results: SearchResult[] = [];
+
+    for (const file of files.filter(f => f.endsWith(".json")).sort()) {
+      const fixture = await this.load(path.basename(file, ".json"));
+      if (!fixture) continue;
+
+      const { symbol, name } = fixture.quote;
+      if (symbol.toLowerCase().includes(needle) || name.toLowerCase().includes(needle)) {
+        results.push({ symbol, name, type: "EQUITY", exchange: "FIXTURE", currency: "USD" });
+      }
+    }
+
+    return results;
+  }
+
+  async news(symbol: string): Promise<NewsItem[]> {
+    const fixture = await this.load(symbol);
+    if (!fixture) return [];
+
+    return fixture.news.map(item => ({ ...item, publishedAt: new Date(item.publishedAt) }));
+  }
+
+  async profile(symbol: string): Promise<CompanyProfile | undefined> {
+    const fixture = await this.load(symbol);
+    if (!fixture) return undefined;
+
+    return fixture.profile || { symbol: fixture.quote.symbol, name: fixture.quote.name };
+  }
+
+  async financials(symbol: string): Promise<FinancialPeriod[]> {
+    const fixture = await this.load(symbol);
+    if (!fixture) return [];
+
+    // Reporting periods are real dates, so unlike bars they aren't moved forward
+    return (fixture.financials || []).map(period => ({ ...period, periodEnd: new Date(period.periodEnd) }));
+  }
+
+  private async load(symbol: string): Promise<MarketDataFixture | undefined> {
+    const key = symbol.toUpperCase();
+    // Symbols come from request paths; anything that isn't a ticker could name a file
+    // outside the fixture directory
+    if (!SYMBOL_PATTERN.test(key)) return undefined;
+    const cached = this.fixtures.get(key);
+    if (cached) return cached;
+
+    const directory = path.resolve(this.directory);
+    const file = path.resolve(directory, `${key}.json`);
+    if (path.dirname(file) !== directory) return undefined;
+
+    // Only fixtures that exist are cached; caching misses would let requests for made-up
+    // symbols grow the cache without limit
+    let fixture: MarketDataFixture;
+    try {
+      const contents = await fs.promises.readFile(file, "utf-8");
+      fixture = JSON.parse(contents);
+    } catch (error) {
+      return undefined;
+    }
+
+    this.fixtures.set(key, fixture);
+    return fixture;
+  }
+
+  private offset(fixture: MarketDataFixture): number {
+    const daily = fixture.bars["1d"];
+    const lastRecorded = daily && daily.length > 0
+      ? Date.parse(daily[daily.length - 1][0])
+      : Date.parse(fixture.quote.marketTime);
+
+    return Math.max(0, Math.floor((Date.now() - lastRecorded) / WEEK_MS)) * WEEK_MS;
+  }
+}
+
+function toBar([date, open, high, low, close, volume]: FixtureBar, offset: number): Bar {
+  return { date: new Date(Date.parse(date) + offset), open, high, low, close, volume };
+}
+
+const INTRADAY_MINUTES: Record<IntradayInterval, number> = { "5m": 5, "15m": 15, "60m": 60 };
+
+// Roll 5 minute bars up into longer intraday bars, or daily bars into weekly or monthly bars
+function aggregateBars(source: Bar[], interval: BarInterval): Bar[] {
+  if (interval === "5m" || interval === "1d") return source;
+
+  const buckets = new Map<string, Bar>();
+  for (const bar of source) {
+    const start = new Date(bar.date);
+    if (isIntradayInterval(interval)) {
+      const minutes = INTRADAY_MINUTES[interval];
+      // Align to the session open (:30) so hourly bars match Yahoo's 9:30, 10:30, ...
+      const sinceHalfHour = (start.getUTCHours() * 60 + start.getUTCMinutes() - 30 + 24 * 60) % minutes;
+      start.setUTCMinutes(start.getUTCMinutes() - sinceHalfHour, 0, 0);
+    } else if (interval === "1wk") {
+      start.setUTCDate(start.getUTCDate() - start.getUTCDay());
+    } else {
+      start.setUTCDate(1);
+    }
+    const key = start.toISOString();
+
+    const bucket = buckets.get(key);
+    if (!bucket) {
+      buckets.set(key, { ...bar, date: start });
+    } else {
+      bucket.high = Math.max(bucket.high, bar.high);
+      bucket.low = Math.min(bucket.low, bar.low);
+      bucket.close = bar.close;
+      bucket.volume += bar.volume;
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+// Where recorded fixture files are read from
+export function fixtureDirectory(): string {
+  return process.env.MARKET_DATA_FIXTURES_DIR || path.resolve(process.cwd(), "fixtures", "market-data");
+}
+
+export function createMarketDataProvider(): MarketDataProvider {
+  const provider = process.env.MARKET_DATA_PROVIDER || "yahoo";
+
+  switch (provider) {
+    case "yahoo":
+      return new YahooMarketDataProvider();
+    case "fixture":
+      return new FixtureMarketDataProvider(fixtureDirectory());
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${provider}", expected "yahoo" or "fixture"`);
+  }
+}
+
+export const marketData = createMarketDataProvider();
@@ -0,0 +1,259 @@
+import {
+  marketData,
+  isIntradayInterval,
+  type MarketDataProvider,
+  type Quote,
+  type Bar,
+  type HistoryOptions,
+  type SearchResult,
+  type NewsItem,
+  type CompanyProfile,
+  type FinancialPeriod,
+} from "./marketData";
+
+// A value served from the cache along with when it was fetched upstream.
+// `stale` is set when the upstream refresh failed and an expired value was served instead.
+export interface Cached<T> {
+  value: T;
+  cachedAt: Date;
+  stale: boolean;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+interface NamespaceStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  staleServed: number;
+}
+
+// Time-to-live per kind of data, in milliseconds
+const TTL = {
+  quote: 15 * 1000,
+  intradayHistory: 60 * 1000,
+  history: 60 * 60 * 1000,
+  search: 10 * 60 * 1000,
+  news: 5 * 60 * 1000,
+  profile: 6 * 60 * 60 * 1000,
+  financials: 6 * 60 * 60 * 1000,
+};
+
+// Expired entries are kept this long so they can be served if the provider fails
+const MAX_STALE_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 5000;
+
+// TTL cache in front of the market data provider. Concurrent requests for the
+// same key share one upstream call, and hit/miss counts are tracked per namespace.
+export class MarketDataCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+  private inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+  private namespaceStats = new Map<string, NamespaceStats>();
+
+  constructor(private provider: MarketDataProvider) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async quote(symbol: string): Promise<Cached<Quote | undefined>> {
+    const key = symbol.toUpperCase();
+    return this.get("quote", key, TTL.quote, () => this.provider.quote(key));
+  }
+
+  // Serve fresh quotes from the cache and fetch the rest in one upstream call
+  async quotes(symbols: string[]): Promise<Map<string, Cached<Quote>>> {
+    const results = new Map<string, Cached<Quote>>();
+    const missing: string[] = [];
+    const now = Date.now();
+
+    for (const symbol of symbols) {
+      const entry = this.entries.get(this.key("quote", symbol)) as CacheEntry<Quote | undefined> | undefined;
+      if (entry && entry.expiresAt > now && entry.value) {
+        this.counters("quote").hits++;
+        results.set(symbol, { value: entry.value, cachedAt: new Date(entry.cachedAt), stale: false });
+      } else {
+        missing.push(symbol);
+      }
+    }
+
+    if (missing.length === 0) return results;
+    this.counters("quote").misses += missing.length;
+
+    try {
+      const fetched = await this.provider.quotes(missing);
+      for (const symbol of missing) {
+        const quote = fetched.get(symbol);
+        const entry = this.store("quote", symbol, quote, TTL.quote);
+        if (quote) {
+          results.set(symbol, { value: quote, cachedAt: new Date(entry.cachedAt), stale: false });
+        }
+      }
+    } catch (error) {
+      // Fall back to expired quotes where we have them, otherwise surface the failure
+      let served = 0;
+      for (const symbol of missing) {
+        const entry = this.entries.get(this.key("quote", symbol)) as CacheEntry<Quote | undefined> | undefined;
+        if (entry?.value && now - entry.expiresAt < MAX_STALE_MS) {
+          this.counters("quote").staleServed++;
+          results.set(symbol, { value: entry.value, cachedAt: new Date(entry.cachedAt), stale: true });
+          served++;
+        }
+      }
+      if (served === 0) throw error;
+    }
+
+    return results;
+  }
+
+  async history(symbol: string, options: HistoryOptions): Promise<Cached<Bar[]>> {
+    const ttl = isIntradayInterval(options.interval) ? TTL.intradayHistory : TTL.history;
+    const key = [
+      symbol.toUpperCase(),
+      options.interval,
+      // Round the window to the TTL so repeated "last N days" requests share an entry
+      Math.floor(options.from.getTime() / ttl),
+      Math.floor(options.to.getTime() / ttl),
+    ].join(":");
+
+    return this.get("history", key, ttl, () => this.provider.history(symbol, options));
+  }
+
+  async search(query: string): Promise<Cached<SearchResult[]>> {
+    return this.get("search", query.toLowerCase(), TTL.search, () => this.provider.search(query));
+  }
+
+  async news(symbol: string): Promise<Cached<NewsItem[]>> {
+    const key = symbol.toUpperCase();
+    return this.get("news", key, TTL.news, () => this.provider.news(key));
+  }
+
+  async profile(symbol: string): Promise<Cached<CompanyProfile | undefined>> {
+    const key = symbol.toUpperCase();
+    return this.get("profile", key, TTL.profile, () => this.provider.profile(key));
+  }
+
+  async financials(symbol: string): Promise<Cached<FinancialPeriod[]>> {
+    const key = symbol.toUpperCase();
+    return this.get("financials", key, TTL.financials, () => this.provider.financials(key));
+  }
+
+  // Hit rates per namespace plus totals, for the admin endpoint
+  stats() {
+    const namespaces: Record<string, NamespaceStats & { hitRate: number; entries: number }> = {};
+    const totals: NamespaceStats = { hits: 0, misses: 0, coalesced: 0, staleServed: 0 };
+
+    for (const [namespace, stats] of Array.from(this.namespaceStats.entries())) {
+      const requests = stats.hits + stats.misses + stats.coalesced;
+      namespaces[namespace] = {
+        ...stats,
+        hitRate: requests > 0 ? (stats.hits + stats.coalesced) / requests : 0,
+        entries: Array.from(this.entries.keys()).filter(key => key.startsWith(`${namespace}:`)).length,
+      };
+      totals.hits += stats.hits;
+      totals.misses += stats.misses;
+      totals.coalesced += stats.coalesced;
+      totals.staleServed += stats.staleServed;
+    }
+
+    const requests = totals.hits + totals.misses + totals.coalesced;
+    return {
+      provider: this.provider.name,
+      entries: this.entries.size,
+      inFlight: this.inFlight.size,
+      ...totals,
+      hitRate: requests > 0 ? (totals.hits + totals.coalesced) / requests : 0,
+      namespaces,
+    };
+  }
+
+  // Drop cached entries, optionally only those in one namespace. Returns the number removed.
+  flush(namespace?: string): number {
+    if (!namespace) {
+      const removed = this.entries.size;
+      this.entries.clear();
+      this.namespaceStats.clear();
+      return removed;
+    }
+
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(`${namespace}:`)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.namespaceStats.delete(namespace);
+    return removed;
+  }
+
+  private async get<T>(namespace: string, id: string, ttl: number, load: () => Promise<T>): Promise<Cached<T>> {
+    const key = this.key(namespace, id);
+    const now = Date.now();
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (entry && entry.expiresAt > now) {
+      this.counters(namespace).hits++;
+      return { value: entry.value, cachedAt: new Date(entry.cachedAt), stale: false };
+    }
+
+    // Share an upstream call that is already running for this key
+    let pending = this.inFlight.get(key) as Promise<CacheEntry<T>> | undefined;
+    if (pending) {
+      this.counters(namespace).coalesced++;
+    } else {
+      this.counters(namespace).misses++;
+      pending = load()
+        .then(value => this.store(namespace, id, value, ttl))
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    try {
+      const fresh = await pending;
+      return { value: fresh.value, cachedAt: new Date(fresh.cachedAt), stale: false };
+    } catch (error) {
+      if (entry && now - entry.expiresAt < MAX_STALE_MS) {
+        this.counters(namespace).staleServed++;
+        return { value: entry.value, cachedAt: new Date(entry.cachedAt), stale: true };
+      }
+      throw error;
+    }
+  }
+
+  private store<T>(namespace: string, id: string, value: T, ttl: number): CacheEntry<T> {
+    const key = this.key(namespace, id);
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, cachedAt: now, expiresAt: now + ttl };
+
+    // Re-insert so Map order tracks recency, then evict the oldest entries past the cap
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    return entry;
+  }
+
+  private key(namespace: string, id: string): string {
+    return `${namespace}:${id.toUpperCase()}`;
+  }
+
+  private counters(namespace: string): NamespaceStats {
+    let stats = this.namespaceStats.get(namespace);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, coalesced: 0, staleServed: 0 };
+      this.namespaceStats.set(namespace, stats);
+    }
+    return stats;
+  }
+}
+
+export const marketDataCache = new MarketDataCache(marketData);
@@ -0,0 +1,27 @@
+import { scrypt, scryptSync, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Passwords are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+// Synchronous variant for seeding demo data in constructors
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `${scryptSync(password, salt, KEY_LENGTH).toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
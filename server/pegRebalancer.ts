@@ -0,0 +1,103 @@
+import type { FantasyToken, FantasyTokenPegSample } from "@shared/schema";
+import type { TokenPeg } from "@shared/fantasyTokens";
+import { storage, type IStorage } from "./storage";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import type { Quote } from "./marketData";
+import { mean } from "./statistics";
+
+// How often pegged pools are pulled back to their reference price
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Rebalance samples kept for tracking error
+export const PEG_SAMPLE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Where a pegged token stands against its base stock. The reference price is live;
+// tracking error comes from how far trading had moved the pool at each rebalance.
+export function summarizePeg(
+  token: FantasyToken,
+  price: number,
+  quote: Quote | undefined,
+  samples: FantasyTokenPegSample[],
+): TokenPeg {
+  const multiplier = Number(token.pegMultiplier);
+  const referencePrice = quote ? quote.price * multiplier : null;
+  const deviations = samples
+    .filter(sample => sample.poolPrice !== null)
+    .map(sample => (Number(sample.poolPrice) / Number(sample.referencePrice) - 1) * 100);
+
+  return {
+    multiplier,
+    referencePrice,
+    deviation: referencePrice ? (price / referencePrice - 1) * 100 : null,
+    trackingError: deviations.length > 0 ? Math.sqrt(mean(deviations.map(deviation => deviation * deviation))) : null,
+    lastRebalancedAt: samples.length > 0 ? samples[samples.length - 1].sampledAt.toISOString() : null,
+  };
+}
+
+// Keeps pegged fantasy tokens at their base stock's price times their multiplier.
+// Trades push a pool away from its peg between runs; each run samples how far
+// and moves the pool back. A token's first run after being pegged moves the pool
+// without tracking the gap, which only reflects where it was before.
+export class PegRebalancer {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private storage: IStorage, private marketData: MarketDataCache) {}
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer) return;
+
+    // Bring pools in line straight away rather than a full interval after startup
+    this.tick().catch(error => console.error("Peg rebalancer error:", error));
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Peg rebalancer error:", error));
+    }, intervalMs);
+    // Don't keep the process alive just for the schedule
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const pegged = (await this.storage.getFantasyTokens()).filter(token => token.pegMultiplier !== null && token.baseStock);
+      const symbols = Array.from(new Set(pegged.map(token => token.baseStock!)));
+      const quotes = symbols.length > 0 ? await this.marketData.quotes(symbols) : new Map();
+
+      const since = new Date(now.getTime() - PEG_SAMPLE_RETENTION_MS);
+      for (const token of pegged) {
+        const quote = quotes.get(token.baseStock!)?.value;
+        if (!quote) continue;
+        const referencePrice = quote.price * Number(token.pegMultiplier);
+        try {
+          const tracked = (await this.storage.getFantasyTokenPegSamples(token.id, since)).length > 0;
+          await this.storage.rebalanceFantasyTokenPool(token.id, referencePrice, now, tracked);
+        } catch (error) {
+          console.error(`Fantasy token ${token.id} rebalance error:`, error);
+        }
+      }
+
+      await this.storage.pruneFantasyTokenPegSamples(since);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Moves a token's pool to its reference price right after it is pegged or re-pegged,
+  // without tracking the gap; undefined when the token isn't pegged or its base stock has no quote
+  async repeg(token: FantasyToken, now: Date = new Date()): Promise<FantasyTokenPegSample | undefined> {
+    if (token.pegMultiplier === null || !token.baseStock) return undefined;
+
+    const quote = (await this.marketData.quote(token.baseStock)).value;
+    if (!quote) return undefined;
+    return this.storage.rebalanceFantasyTokenPool(token.id, quote.price * Number(token.pegMultiplier), now, false);
+  }
+}
+
+export const pegRebalancer = new PegRebalancer(storage, marketDataCache);
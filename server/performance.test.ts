@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { Transaction } from "@shared/schema";
+import type { MarketDataCache } from "./marketDataCache";
+import type { Bar } from "./marketData";
+import { buildPortfolioSnapshots, portfolioReturns } from "./performance";
+
+let nextId = 1;
+
+function transaction(type: Transaction["type"], day: string, fields: Partial<Transaction> = {}): Transaction {
+  return {
+    id: nextId++, userId: 1, type, symbol: null, name: null, quantity: null, price: null, amount: null,
+    lotId: null, orderId: null, executedAt: new Date(`${day}T15:00:00Z`), ...fields,
+  };
+}
+
+function bar(day: string, close: number): Bar {
+  return { date: new Date(`${day}T00:00:00Z`), open: close, high: close, low: close, close, volume: 1000 };
+}
+
+// AAPL closes at 50, then 55 and 55
+const marketData = {
+  history: async () => ({ value: [bar("2024-01-02", 50), bar("2024-01-03", 55), bar("2024-01-04", 55)] }),
+} as unknown as MarketDataCache;
+
+const from = new Date("2024-01-01T00:00:00Z");
+const to = new Date("2024-01-04T23:00:00Z");
+
+const stockTrades = [
+  transaction("deposit", "2024-01-02", { amount: "1000" }),
+  transaction("buy", "2024-01-02", { symbol: "AAPL", quantity: "10", price: "50" }),
+];
+
+describe("buildPortfolioSnapshots", () => {
+  it("values holdings at each day's close", async () => {
+    const snapshots = await buildPortfolioSnapshots(stockTrades, marketData, from, to);
+
+    expect(snapshots.map(snapshot => snapshot.value)).toEqual([1000, 1050, 1050]);
+    expect(snapshots.map(snapshot => snapshot.netFlow)).toEqual([1000, 0, 0]);
+    expect(portfolioReturns(snapshots).timeWeighted).toBeCloseTo(5, 9);
+  });
+
+  it("counts fantasy token trades as flows, so they leave the return unchanged", async () => {
+    const withTokens = [
+      ...stockTrades,
+      transaction("token_buy", "2024-01-03", { name: "FUN token purchase", amount: "200" }),
+      transaction("token_sell", "2024-01-04", { name: "FUN token sale", amount: "300" }),
+      transaction("token_fee", "2024-01-04", { name: "FUN trading fee", amount: "3" }),
+    ];
+
+    const snapshots = await buildPortfolioSnapshots(withTokens, marketData, from, to);
+
+    expect(snapshots.map(snapshot => snapshot.value)).toEqual([1000, 850, 1153]);
+    expect(snapshots.map(snapshot => snapshot.netFlow)).toEqual([1000, -200, 303]);
+    expect(portfolioReturns(snapshots).timeWeighted).toBeCloseTo(5, 9);
+  });
+});
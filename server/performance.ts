@@ -0,0 +1,286 @@
+import type { Transaction } from "@shared/schema";
+import type { BenchmarkPoint, BenchmarkStatistics, PortfolioReturns, PortfolioSnapshot } from "@shared/performance";
+import type { MarketDataCache } from "./marketDataCache";
+import type { Bar } from "./marketData";
+import { cashEffect, chronological } from "./ledger";
+import { covariance, mean, TRADING_DAYS_PER_YEAR } from "./statistics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+// Extra history loaded before the range so holdings have a close to carry into its first day
+const LOOKBACK_DAYS = 10;
+
+// Symbols whose history is loaded at the same time
+const CONCURRENCY = 5;
+
+// Values below this are treated as an empty account
+const EPSILON = 1e-9;
+
+// Returns are annualized from this span on; a "1y" range covers slightly less than a year of trading days
+const ANNUALIZE_MIN_YEARS = 0.95;
+
+// Daily returns needed before benchmark statistics are reported
+const MIN_STATISTICS_DAYS = 5;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Money moved into (positive) or out of (negative) the account from outside; trades,
+// dividends and fees change the value from within. Fantasy tokens aren't part of the
+// holdings valued here, so cash paid for them leaves the account and cash from token
+// sales and creator fees arrives from outside it.
+function externalFlow(transaction: Transaction): number {
+  switch (transaction.type) {
+    case "deposit":
+    case "withdrawal":
+    case "token_buy":
+    case "token_sell":
+    case "token_fee":
+      return cashEffect(transaction);
+    default:
+      return 0;
+  }
+}
+
+// Weekdays from `from` to `to`, used when no holding has price history to take trading days from
+function weekdays(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  for (let time = Date.parse(dayKey(from)); time <= to.getTime(); time += DAY_MS) {
+    const day = new Date(time).getUTCDay();
+    if (day !== 0 && day !== 6) days.push(dayKey(new Date(time)));
+  }
+  return days;
+}
+
+// Close on or before a day, walking forward through a symbol's bars as the days advance
+class CloseCursor {
+  private next = 0;
+  private close?: number;
+
+  constructor(private bars: Bar[]) {}
+
+  at(day: string): number | undefined {
+    while (this.next < this.bars.length && dayKey(this.bars[this.next].date) <= day) {
+      this.close = this.bars[this.next++].close;
+    }
+    return this.close;
+  }
+}
+
+// Replay a user's transactions over daily closes into one snapshot per trading
+// day from `from` (or the first transaction, if later) to `to`. Holdings without
+// a close yet are valued at the price they last traded at in the ledger.
+export async function buildPortfolioSnapshots(
+  transactions: Transaction[],
+  marketData: MarketDataCache,
+  from: Date,
+  to: Date = new Date(),
+): Promise<PortfolioSnapshot[]> {
+  const history = [...transactions].sort(chronological);
+  if (history.length === 0) return [];
+
+  const start = new Date(Math.max(from.getTime(), history[0].executedAt.getTime()));
+  const historyFrom = new Date(start.getTime() - LOOKBACK_DAYS * DAY_MS);
+  const symbols = Array.from(new Set(history.filter(transaction => transaction.symbol).map(transaction => transaction.symbol!)));
+
+  // A symbol without history is valued at its trade prices rather than failing the whole series
+  const bars = new Map<string, Bar[]>();
+  for (let i = 0; i < symbols.length; i += CONCURRENCY) {
+    await Promise.all(symbols.slice(i, i + CONCURRENCY).map(async symbol => {
+      const cached = await marketData.history(symbol, { from: historyFrom, to, interval: "1d" }).catch(() => undefined);
+      bars.set(symbol, cached?.value || []);
+    }));
+  }
+
+  const startDay = dayKey(start);
+  const tradingDays = new Set<string>();
+  for (const symbolBars of Array.from(bars.values())) {
+    for (const bar of symbolBars) {
+      const day = dayKey(bar.date);
+      if (day >= startDay) tradingDays.add(day);
+    }
+  }
+  const days = tradingDays.size > 0 ? Array.from(tradingDays).sort() : weekdays(start, to);
+
+  const cursors = new Map(symbols.map(symbol => [symbol, new CloseCursor(bars.get(symbol) || [])]));
+  const shares = new Map<string, number>();
+  const tradePrices = new Map<string, number>();
+  const snapshots: PortfolioSnapshot[] = [];
+  let cash = 0;
+  let next = 0;
+
+  for (const day of days) {
+    let netFlow = 0;
+    while (next < history.length && dayKey(history[next].executedAt) <= day) {
+      const transaction = history[next++];
+      const symbol = transaction.symbol || "";
+      const quantity = Number(transaction.quantity ?? 0);
+
+      cash += cashEffect(transaction);
+      // Flows before the first day are already part of its value
+      if (snapshots.length > 0 || dayKey(transaction.executedAt) === day) {
+        netFlow += externalFlow(transaction);
+      }
+
+      switch (transaction.type) {
+        case "buy":
+        case "sell":
+          shares.set(symbol, (shares.get(symbol) || 0) + (transaction.type === "buy" ? quantity : -quantity));
+          tradePrices.set(symbol, Number(transaction.price));
+          break;
+        case "split":
+          shares.set(symbol, (shares.get(symbol) || 0) * quantity);
+          if (tradePrices.has(symbol)) tradePrices.set(symbol, tradePrices.get(symbol)! / quantity);
+          break;
+      }
+    }
+
+    let holdingsValue = 0;
+    for (const [symbol, held] of Array.from(shares.entries())) {
+      const price = cursors.get(symbol)?.at(day) ?? tradePrices.get(symbol) ?? 0;
+      holdingsValue += held * price;
+    }
+
+    snapshots.push({ date: day, value: cash + holdingsValue, cash, holdingsValue, netFlow });
+  }
+
+  return snapshots;
+}
+
+// Return for each snapshot after the first, counting that day's flows as arriving
+// at the close; null when the account was empty the day before
+function dailyReturns(snapshots: PortfolioSnapshot[]): (number | null)[] {
+  return snapshots.slice(1).map((snapshot, i) => {
+    const previous = snapshots[i].value;
+    return previous > EPSILON ? (snapshot.value - snapshot.netFlow) / previous - 1 : null;
+  });
+}
+
+function yearsBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / YEAR_MS;
+}
+
+// Annual rate at which the flows' present value is zero, found by bisection.
+// Undefined when the flows don't change sign over the search interval.
+function internalRateOfReturn(flows: { years: number; amount: number }[]): number | undefined {
+  const npv = (rate: number) => flows.reduce((total, flow) => total + flow.amount / Math.pow(1 + rate, flow.years), 0);
+
+  let low = -0.9999;
+  let high = 1;
+  // Short ranges can annualize to very large rates
+  while (npv(high) > 0 && high < 1e9) high *= 10;
+
+  let lowValue = npv(low);
+  if (!Number.isFinite(lowValue) || Math.sign(lowValue) === Math.sign(npv(high))) return undefined;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.sign(value) === Math.sign(lowValue)) {
+      low = mid;
+      lowValue = value;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function annualize(periodReturn: number, years: number): number {
+  return Math.pow(1 + periodReturn, 1 / years) - 1;
+}
+
+// Time- and money-weighted returns from the first snapshot to the last
+export function portfolioReturns(snapshots: PortfolioSnapshot[]): PortfolioReturns {
+  const empty: PortfolioReturns = { timeWeighted: null, moneyWeighted: null, annualizedTimeWeighted: null, annualizedMoneyWeighted: null };
+  if (snapshots.length < 2 || snapshots[0].value <= EPSILON) return empty;
+
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const years = yearsBetween(first.date, last.date);
+
+  const growth = dailyReturns(snapshots).reduce<number>((total, daily) => total * (1 + (daily ?? 0)), 1);
+  const timeWeighted = growth - 1;
+
+  // From the investor's side: the starting value and deposits go in, withdrawals and the ending value come out
+  const flows = [
+    { years: 0, amount: -first.value },
+    ...snapshots.slice(1).filter(snapshot => snapshot.netFlow !== 0).map(snapshot => ({
+      years: yearsBetween(first.date, snapshot.date),
+      amount: -snapshot.netFlow,
+    })),
+    { years, amount: last.value },
+  ];
+  const irr = years > 0 ? internalRateOfReturn(flows) : undefined;
+  const moneyWeighted = irr !== undefined ? Math.pow(1 + irr, years) - 1 : undefined;
+
+  return {
+    timeWeighted: timeWeighted * 100,
+    moneyWeighted: moneyWeighted !== undefined ? moneyWeighted * 100 : null,
+    annualizedTimeWeighted: years >= ANNUALIZE_MIN_YEARS ? annualize(timeWeighted, years) * 100 : null,
+    annualizedMoneyWeighted: years >= ANNUALIZE_MIN_YEARS && irr !== undefined ? irr * 100 : null,
+  };
+}
+
+// Cumulative returns of the portfolio and a benchmark index on each snapshot day,
+// and how the portfolio's daily returns relate to the benchmark's
+export function compareWithBenchmark(
+  snapshots: PortfolioSnapshot[],
+  benchmarkBars: Bar[],
+): { series: BenchmarkPoint[] } & BenchmarkStatistics {
+  const cursor = new CloseCursor(benchmarkBars);
+  const closes = snapshots.map(snapshot => cursor.at(snapshot.date));
+  const portfolioDaily = dailyReturns(snapshots);
+
+  const series: BenchmarkPoint[] = [];
+  const pairs: { portfolio: number; benchmark: number }[] = [];
+  let portfolioGrowth = 1;
+  let baseClose: number | undefined;
+
+  snapshots.forEach((snapshot, i) => {
+    const close = closes[i];
+    // Days before the benchmark has a close can't be compared
+    if (close === undefined) return;
+
+    if (baseClose === undefined) {
+      baseClose = close;
+    } else {
+      const portfolio = portfolioDaily[i - 1];
+      const previousClose = closes[i - 1]!;
+      if (portfolio !== null) {
+        portfolioGrowth *= 1 + portfolio;
+        pairs.push({ portfolio, benchmark: close / previousClose - 1 });
+      }
+    }
+
+    series.push({
+      date: snapshot.date,
+      portfolio: (portfolioGrowth - 1) * 100,
+      benchmark: (close / baseClose - 1) * 100,
+    });
+  });
+
+  if (pairs.length < MIN_STATISTICS_DAYS) {
+    return { series, alpha: null, beta: null, trackingError: null, informationRatio: null };
+  }
+
+  const portfolio = pairs.map(pair => pair.portfolio);
+  const benchmark = pairs.map(pair => pair.benchmark);
+  const active = pairs.map(pair => pair.portfolio - pair.benchmark);
+
+  const benchmarkVariance = covariance(benchmark, benchmark);
+  const beta = benchmarkVariance > 0 ? covariance(portfolio, benchmark) / benchmarkVariance : null;
+  const alpha = beta !== null ? (mean(portfolio) - beta * mean(benchmark)) * TRADING_DAYS_PER_YEAR : null;
+  const trackingError = Math.sqrt(covariance(active, active) * TRADING_DAYS_PER_YEAR);
+  const informationRatio = trackingError > 0 ? mean(active) * TRADING_DAYS_PER_YEAR / trackingError : null;
+
+  return {
+    series,
+    alpha: alpha !== null ? alpha * 100 : null,
+    beta,
+    trackingError: trackingError * 100,
+    informationRatio,
+  };
+}
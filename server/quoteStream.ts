@@ -0,0 +1,227 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import {
+  MAX_STREAM_SYMBOLS,
+  streamClientMessageSchema,
+  type Quote,
+  type StreamServerMessage,
+} from "@shared/marketData";
+
+// How often subscribed symbols are re-quoted; matches the quote cache TTL
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_MS = 30 * 1000;
+
+export const STREAM_PATH = "/ws";
+
+interface Connection {
+  symbols: Set<string>;
+  alive: boolean;
+}
+
+// Fields of `next` that differ from `previous`
+function quoteChanges(previous: Quote, next: Quote): Partial<Quote> {
+  const changes: Partial<Quote> = {};
+  for (const key of Object.keys(next) as (keyof Quote)[]) {
+    if (next[key] !== previous[key]) {
+      (changes as Record<string, unknown>)[key] = next[key];
+    }
+  }
+  return changes;
+}
+
+// Pushes quote updates to browser clients over a WebSocket. Subscribed symbols
+// are polled through the market data cache, so every client shares one upstream
+// request per symbol, and only changed fields are sent.
+export class QuoteStream {
+  private wss = new WebSocketServer({ noServer: true });
+  private connections = new Map<WebSocket, Connection>();
+  // Last quote pushed for each subscribed symbol, used to compute deltas
+  private lastQuotes = new Map<string, Quote>();
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private marketData: MarketDataCache) {
+    this.wss.on("connection", socket => this.onConnection(socket));
+  }
+
+  // Accept upgrades on the stream path; other upgrades (e.g. Vite HMR) are left alone
+  attach(server: Server) {
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url || "/", "http://localhost");
+      if (pathname !== STREAM_PATH) return;
+
+      this.wss.handleUpgrade(req, socket, head, ws => this.wss.emit("connection", ws, req));
+    });
+  }
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => console.error("Quote stream error:", error));
+    }, intervalMs);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_MS);
+    // Don't keep the process alive just for the stream
+    this.pollTimer.unref();
+    this.heartbeatTimer.unref();
+  }
+
+  stop() {
+    clearInterval(this.pollTimer);
+    clearInterval(this.heartbeatTimer);
+    this.pollTimer = undefined;
+    this.heartbeatTimer = undefined;
+  }
+
+  get clientCount(): number {
+    return this.connections.size;
+  }
+
+  // Re-quote every subscribed symbol and push what changed
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const symbols = this.subscribedSymbols();
+      if (symbols.length === 0) return;
+
+      const results = await this.marketData.quotes(symbols);
+      for (const symbol of symbols) {
+        const cached = results.get(symbol);
+        if (!cached) continue;
+
+        const quote = { ...cached.value, marketTime: cached.value.marketTime.toISOString() };
+        const previous = this.lastQuotes.get(symbol);
+        this.lastQuotes.set(symbol, quote);
+
+        const message: StreamServerMessage = previous
+          ? { type: "quote", symbol, changes: quoteChanges(previous, quote) }
+          : { type: "snapshot", quote };
+        if (message.type === "quote" && Object.keys(message.changes).length === 0) continue;
+
+        this.broadcast(symbol, message);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private onConnection(socket: WebSocket) {
+    const connection: Connection = { symbols: new Set(), alive: true };
+    this.connections.set(socket, connection);
+
+    socket.on("pong", () => { connection.alive = true; });
+    socket.on("message", data => {
+      this.onMessage(socket, connection, data).catch(error => {
+        console.error("Quote stream message error:", error);
+        this.send(socket, { type: "error", message: "Failed to fetch stock quotes" });
+      });
+    });
+    socket.on("close", () => {
+      this.connections.delete(socket);
+      this.forgetUnsubscribed();
+    });
+    socket.on("error", error => console.error("Quote stream socket error:", error));
+  }
+
+  private async onMessage(socket: WebSocket, connection: Connection, data: RawData) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data.toString());
+    } catch {
+      return this.send(socket, { type: "error", message: "Messages must be JSON" });
+    }
+
+    const result = streamClientMessageSchema.safeParse(payload);
+    if (!result.success) {
+      return this.send(socket, { type: "error", message: "Invalid message" });
+    }
+
+    const { type, symbols } = result.data;
+    if (type === "unsubscribe") {
+      for (const symbol of symbols) {
+        connection.symbols.delete(symbol);
+      }
+      this.forgetUnsubscribed();
+      return;
+    }
+
+    const added = symbols.filter(symbol => !connection.symbols.has(symbol));
+    if (connection.symbols.size + added.length > MAX_STREAM_SYMBOLS) {
+      return this.send(socket, { type: "error", message: `At most ${MAX_STREAM_SYMBOLS} symbols can be streamed at once` });
+    }
+    for (const symbol of added) {
+      connection.symbols.add(symbol);
+    }
+    if (added.length === 0) return;
+
+    // New subscribers start from a full quote
+    const results = await this.marketData.quotes(added);
+    for (const symbol of added) {
+      const cached = results.get(symbol);
+      if (!cached) {
+        connection.symbols.delete(symbol);
+        this.send(socket, { type: "error", message: `Stock not found: ${symbol}` });
+        continue;
+      }
+
+      const quote = { ...cached.value, marketTime: cached.value.marketTime.toISOString() };
+      if (!this.lastQuotes.has(symbol)) {
+        this.lastQuotes.set(symbol, quote);
+      }
+      this.send(socket, { type: "snapshot", quote });
+    }
+  }
+
+  private subscribedSymbols(): string[] {
+    const symbols = new Set<string>();
+    for (const connection of Array.from(this.connections.values())) {
+      connection.symbols.forEach(symbol => symbols.add(symbol));
+    }
+    return Array.from(symbols);
+  }
+
+  // Drop delta state for symbols nobody is watching any more
+  private forgetUnsubscribed() {
+    const subscribed = new Set(this.subscribedSymbols());
+    for (const symbol of Array.from(this.lastQuotes.keys())) {
+      if (!subscribed.has(symbol)) {
+        this.lastQuotes.delete(symbol);
+      }
+    }
+  }
+
+  private broadcast(symbol: string, message: StreamServerMessage) {
+    for (const [socket, connection] of Array.from(this.connections.entries())) {
+      if (connection.symbols.has(symbol)) {
+        this.send(socket, message);
+      }
+    }
+  }
+
+  private send(socket: WebSocket, message: StreamServerMessage) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  // Terminate connections that didn't answer the previous ping
+  private heartbeat() {
+    for (const [socket, connection] of Array.from(this.connections.entries())) {
+      if (!connection.alive) {
+        socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      socket.ping();
+    }
+  }
+}
+
+export const quoteStream = new QuoteStream(marketDataCache);
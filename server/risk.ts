@@ -0,0 +1,138 @@
+import type { Position } from "@shared/ledger";
+import type { Drawdown, LossEstimate, RiskResponse } from "@shared/risk";
+import type { MarketDataCache } from "./marketDataCache";
+import type { Bar } from "./marketData";
+import {
+  correlation,
+  mean,
+  normalDensity,
+  normalQuantile,
+  standardDeviation,
+  TRADING_DAYS_PER_YEAR,
+} from "./statistics";
+
+// Symbols whose history is loaded at the same time
+const CONCURRENCY = 5;
+
+// Daily returns needed before volatility, VaR and correlations are reported
+const MIN_OBSERVATIONS = 20;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function annualizedVolatility(returns: number[]): number {
+  return standardDeviation(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+}
+
+function lossEstimate(loss: number, holdingsValue: number): LossEstimate {
+  return { percent: loss * 100, amount: loss * holdingsValue };
+}
+
+// Largest fall from a running peak of the compounded returns
+function maxDrawdown(returns: number[], days: string[]): Drawdown | null {
+  let growth = 1;
+  let peak = 1;
+  let peakDay = days[0];
+  let worst: Drawdown | null = null;
+
+  for (let i = 0; i < returns.length; i++) {
+    growth *= 1 + returns[i];
+    if (growth > peak) {
+      peak = growth;
+      peakDay = days[i + 1];
+    }
+    const drawdown = (1 - growth / peak) * 100;
+    if (drawdown > 0 && (!worst || drawdown > worst.percent)) {
+      worst = { percent: drawdown, peakDate: peakDay, troughDate: days[i + 1] };
+    }
+  }
+
+  return worst;
+}
+
+// Risk of the current holdings from their daily returns between `from` and `to`.
+// Returns are taken on the days every holding traded, so one recently listed
+// symbol shortens the history for all of them.
+export async function analyzeRisk(
+  positions: Position[],
+  marketData: MarketDataCache,
+  from: Date,
+  to: Date,
+  confidence: number,
+): Promise<Omit<RiskResponse, "range">> {
+  const bars = new Map<string, Bar[]>();
+  for (let i = 0; i < positions.length; i += CONCURRENCY) {
+    await Promise.all(positions.slice(i, i + CONCURRENCY).map(async position => {
+      const cached = await marketData.history(position.symbol, { from, to, interval: "1d" }).catch(() => undefined);
+      bars.set(position.symbol, cached?.value || []);
+    }));
+  }
+
+  const priced = positions.filter(position => (bars.get(position.symbol) || []).length > 0);
+  const unavailable = positions.filter(position => !priced.includes(position)).map(position => position.symbol);
+
+  const closes = priced.map(position => new Map(bars.get(position.symbol)!.map(bar => [dayKey(bar.date), bar.close])));
+  const days = closes.length > 0
+    ? Array.from(closes[0].keys()).filter(day => closes.every(symbolCloses => symbolCloses.has(day))).sort()
+    : [];
+
+  const values = priced.map((position, i) => position.shares * (closes[i].get(days[days.length - 1]) ?? 0));
+  const holdingsValue = values.reduce((total, value) => total + value, 0);
+  const weights = values.map(value => holdingsValue > 0 ? value / holdingsValue : 0);
+
+  const returns = closes.map(symbolCloses =>
+    days.slice(1).map((day, t) => symbolCloses.get(day)! / symbolCloses.get(days[t])! - 1)
+  );
+  // Today's weights applied to every day, i.e. the risk of holding the current positions throughout
+  const portfolio = days.slice(1).map((_, t) => returns.reduce((total, symbolReturns, i) => total + weights[i] * symbolReturns[t], 0));
+  const enough = portfolio.length >= MIN_OBSERVATIONS;
+
+  const holdings = priced.map((position, i) => ({
+    symbol: position.symbol,
+    name: position.name,
+    value: values[i],
+    weight: weights[i] * 100,
+    volatility: enough ? annualizedVolatility(returns[i]) : null,
+  }));
+
+  const empty = {
+    confidence,
+    holdingsValue,
+    observations: portfolio.length,
+    holdings,
+    unavailable,
+    volatility: null,
+    historicalVaR: null,
+    historicalCVaR: null,
+    parametricVaR: null,
+    parametricCVaR: null,
+    maxDrawdown: null,
+    correlations: holdings.map(() => holdings.map(() => null)),
+  };
+  if (!enough) return empty;
+
+  // Historical: the loss at the (1 - confidence) quantile of observed days, and the average beyond it
+  const sorted = [...portfolio].sort((a, b) => a - b);
+  const tailSize = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const historicalVaR = -sorted[tailSize - 1];
+  const historicalCVaR = -mean(sorted.slice(0, tailSize));
+
+  // Parametric: the same quantile and tail mean of a normal distribution fitted to the returns
+  const mu = mean(portfolio);
+  const sigma = standardDeviation(portfolio);
+  const z = normalQuantile(1 - confidence);
+  const parametricVaR = -(mu + z * sigma);
+  const parametricCVaR = sigma * normalDensity(z) / (1 - confidence) - mu;
+
+  return {
+    ...empty,
+    volatility: annualizedVolatility(portfolio),
+    historicalVaR: lossEstimate(historicalVaR, holdingsValue),
+    historicalCVaR: lossEstimate(historicalCVaR, holdingsValue),
+    parametricVaR: lossEstimate(parametricVaR, holdingsValue),
+    parametricCVaR: lossEstimate(parametricCVaR, holdingsValue),
+    maxDrawdown: maxDrawdown(portfolio, days),
+    correlations: returns.map(a => returns.map(b => correlation(a, b))),
+  };
+}
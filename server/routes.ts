@@ -1,18 +1,276 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import axios from "axios";
-import { insertPortfolioStockSchema, insertWatchlistStockSchema } from "@shared/schema";
 import { z } from "zod";
-import yahooFinance from "yahoo-finance2";
+import { storage } from "./storage";
+import type { Quote, BarInterval } from "./marketData";
+import { marketDataCache, type Cached } from "./marketDataCache";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import { registerV2Routes } from "./routesV2";
+import { tradingEngine } from "./tradingEngine";
+import { buildLedger } from "./ledger";
+import { runBacktestRequest } from "./backtest";
+import { INDEX_HISTORY_RETENTION_MS } from "./indexRefresher";
+import { resolveUniverse, runScreen } from "./screener";
+import { screenScheduler } from "./screenScheduler";
+import { buildPortfolioSnapshots, compareWithBenchmark, portfolioReturns } from "./performance";
+import { analyzeRisk } from "./risk";
+import {
+  insertWatchlistStockSchema,
+  placeOrderSchema,
+  addHoldingSchema,
+  recordTransactionSchema,
+  updateAccountSchema,
+  updateUserPreferencesSchema,
+  createAlertSchema,
+  updateAlertSchema,
+  markNotificationsReadSchema,
+  createScreenSchema,
+  updateScreenSchema,
+  createFantasyTokenSchema,
+  updateFantasyTokenSchema,
+  tokenTransferSchema,
+  tokenSupplyChangeSchema,
+  createFantasyLeagueSchema,
+  joinFantasyLeagueSchema,
+  draftRosterSchema,
+  costBasisMethods,
+  type CostBasisMethod,
+  type FantasyToken,
+  type FantasyTokenTransfer,
+  type FantasyLeague,
+  type FantasyLeagueTeam,
+  type FantasyRosterPick,
+  type RosterAssetType,
+  type IndexSparklines,
+  type NotificationFeed,
+} from "@shared/schema";
+import { backtestRequestSchema } from "@shared/backtest";
+import { screenCriteriaSchema } from "@shared/screener";
+import { rangeStart } from "@shared/marketData";
+import {
+  benchmarkQuerySchema,
+  benchmarks,
+  portfolioHistoryQuerySchema,
+  type BenchmarkComparisonResponse,
+  type PortfolioHistoryResponse,
+} from "@shared/performance";
+import { riskQuerySchema, type RiskResponse } from "@shared/risk";
+import {
+  tokenQuoteQuerySchema,
+  tokenTradeSchema,
+  type FantasyTokenSummary,
+  type TokenHolder,
+  type TokenPosition,
+  type TokenTrade,
+  type TokenTradeQuote,
+  type TokenTransferEntry,
+} from "@shared/fantasyTokens";
+import { poolPrice, poolReserves, quoteTrade } from "./amm";
+import { pegRebalancer, PEG_SAMPLE_RETENTION_MS, summarizePeg } from "./pegRebalancer";
+import { tokenChain } from "./tokenChain";
+import type { TransactionDetail } from "@shared/chain";
+import type { LeagueDetail, LeagueLeaderboard, LeagueStanding, LeagueSummary, LeagueTeam } from "@shared/fantasyLeagues";
+import { dayKey, leagueStatus, planRoster, rosterSizeRejection } from "./fantasyLeagues";
+
+// Log which market data provider we're using
+console.log(`Using ${marketDataCache.providerName} market data provider for stock data`);
+
+// Maximum number of symbols accepted by the batch quote endpoint
+const MAX_BATCH_SYMBOLS = 50;
+
+// Notifications returned to the notification center, newest first
+const NOTIFICATION_LIMIT = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ledgerQuerySchema = z.object({
+  method: z.enum(costBasisMethods).optional(),
+});
+
+// Replay a user's ledger with their account's cost basis method unless another one is requested
+async function loadLedger(userId: number, method?: CostBasisMethod) {
+  const account = await tradingEngine.getAccount(userId);
+  const history = await storage.getTransactions(userId);
+  return buildLedger(history, method || account.costBasisMethod);
+}
+
+// Usernames of the given users, each looked up once
+async function lookupUsernames(userIds: (number | null)[]): Promise<Map<number, string>> {
+  const ids = Array.from(new Set(userIds.filter((id): id is number => id !== null)));
+  const users = await Promise.all(ids.map(id => storage.getUser(id)));
+  return new Map(ids.map((id, i) => [id, users[i]?.username ?? "unknown"]));
+}
+
+// Tokens are priced by their pool, which opens at the issue price and moves when they
+// trade or, for pegged tokens, when the rebalancer pulls it back to the base stock
+async function summarizeFantasyToken(token: FantasyToken): Promise<FantasyTokenSummary> {
+  const pegged = token.pegMultiplier !== null && token.baseStock !== null;
+  const [usernames, holders, pool, trades, quote, pegSamples] = await Promise.all([
+    lookupUsernames([token.creatorId]),
+    storage.getFantasyTokenHolders(token.id),
+    storage.getFantasyTokenPool(token.id),
+    storage.getFantasyTokenTrades(token.id),
+    pegged ? marketDataCache.quote(token.baseStock!).then(cached => cached.value).catch(() => undefined) : undefined,
+    pegged ? storage.getFantasyTokenPegSamples(token.id, new Date(Date.now() - PEG_SAMPLE_RETENTION_MS)) : [],
+  ]);
+  const price = pool ? poolPrice(poolReserves(pool)) : Number(token.issuePrice);
+  const totalSupply = Number(token.totalSupply);
+
+  // Price a day ago: for pegged tokens the reference at the base stock's previous
+  // close, otherwise where the last trade before then left the pool
+  const cutoff = Date.now() - DAY_MS;
+  const dayAgo = trades.find(trade => trade.createdAt.getTime() <= cutoff);
+  const previousPrice = pegged && quote
+    ? quote.previousClose * Number(token.pegMultiplier)
+    : dayAgo ? Number(dayAgo.price) : Number(token.issuePrice);
+
+  return {
+    id: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    baseStock: token.baseStock,
+    creatorId: token.creatorId,
+    owner: usernames.get(token.creatorId)!,
+    price,
+    change24h: (price / previousPrice - 1) * 100,
+    poolReserve: pool ? Number(pool.tokenReserve) : null,
+    totalSupply,
+    marketCap: price * totalSupply,
+    holders: holders.length,
+    peg: pegged ? summarizePeg(token, price, quote, pegSamples) : null,
+    contractAddress: token.contractAddress,
+    deployTxHash: token.deployTxHash,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+async function describeTokenTransfers(transfers: FantasyTokenTransfer[]): Promise<TokenTransferEntry[]> {
+  const usernames = await lookupUsernames(transfers.flatMap(transfer => [transfer.fromUserId, transfer.toUserId]));
+  return transfers.map(transfer => ({
+    id: transfer.id,
+    type: transfer.type,
+    from: transfer.fromUserId === null ? null : usernames.get(transfer.fromUserId)!,
+    to: transfer.toUserId === null ? null : usernames.get(transfer.toUserId)!,
+    amount: Number(transfer.amount),
+    txHash: transfer.txHash,
+    createdAt: transfer.createdAt.toISOString(),
+  }));
+}
+
+async function summarizeFantasyLeague(league: FantasyLeague, userId: number): Promise<LeagueSummary> {
+  const [usernames, teams] = await Promise.all([
+    lookupUsernames([league.creatorId]),
+    storage.getFantasyLeagueTeams(league.id),
+  ]);
+
+  return {
+    id: league.id,
+    name: league.name,
+    creatorId: league.creatorId,
+    owner: usernames.get(league.creatorId)!,
+    salaryCap: Number(league.salaryCap),
+    rosterSize: league.rosterSize,
+    seasonStart: dayKey(league.seasonStart),
+    seasonEnd: dayKey(league.seasonEnd),
+    status: leagueStatus(league, new Date()),
+    teamCount: teams.length,
+    teamId: teams.find(team => team.userId === userId)?.id ?? null,
+    scoredAt: league.scoredAt?.toISOString() ?? null,
+  };
+}
+
+// Rosters are kept from other teams until the season starts, so nobody drafts by copying
+function describeLeagueTeam(
+  team: FantasyLeagueTeam,
+  picks: FantasyRosterPick[],
+  username: string,
+  visible: boolean,
+): LeagueTeam {
+  const roster = picks.filter(pick => pick.teamId === team.id);
+  return {
+    id: team.id,
+    name: team.name,
+    username,
+    picks: visible ? roster.map(pick => ({ assetType: pick.assetType, symbol: pick.symbol, salary: Number(pick.salary) })) : null,
+    salary: visible ? roster.reduce((total, pick) => total + Number(pick.salary), 0) : null,
+  };
+}
+
+async function describeFantasyLeague(league: FantasyLeague, userId: number): Promise<LeagueDetail> {
+  const [summary, teams, picks] = await Promise.all([
+    summarizeFantasyLeague(league, userId),
+    storage.getFantasyLeagueTeams(league.id),
+    storage.getFantasyRosterPicks(league.id),
+  ]);
+  const usernames = await lookupUsernames(teams.map(team => team.userId));
+  const started = summary.status !== "upcoming";
+
+  return {
+    ...summary,
+    teams: teams.map(team => describeLeagueTeam(team, picks, usernames.get(team.userId)!, started || team.userId === userId)),
+  };
+}
+
+// What a pick costs against the salary cap: a stock's quote or a fantasy token's pool price
+async function priceRosterPick(assetType: RosterAssetType, symbol: string, tokens: FantasyToken[]): Promise<number | undefined> {
+  if (assetType === "stock") {
+    return (await marketDataCache.quote(symbol)).value?.price;
+  }
+
+  const token = tokens.find(candidate => candidate.symbol === symbol);
+  if (!token) return undefined;
+  const pool = await storage.getFantasyTokenPool(token.id);
+  return pool ? poolPrice(poolReserves(pool)) : Number(token.issuePrice);
+}
+
+// Transform a provider quote to match the structure expected by the frontend
+function toGlobalQuote(quote: Quote) {
+  return {
+    "01. symbol": quote.symbol,
+    "02. open": quote.open.toString(),
+    "03. high": quote.high.toString(),
+    "04. low": quote.low.toString(),
+    "05. price": quote.price.toString(),
+    "06. volume": quote.volume.toString(),
+    "07. latest trading day": new Date().toISOString().split('T')[0],
+    "08. previous close": quote.previousClose.toString(),
+    "09. change": quote.change.toString(),
+    "10. change percent": `${quote.changePercent * 100}%`
+  };
+}
+
+// Alpha Vantage style intraday intervals accepted by the intraday endpoint
+const INTRADAY_INTERVALS: Record<string, BarInterval> = {
+  "5min": "5m",
+  "15min": "15m",
+  "60min": "60m",
+};
+
+// Freshness marker added to every response served through the market data cache
+function cacheInfo(cached: Pick<Cached<unknown>, "cachedAt" | "stale">) {
+  return { cachedAt: cached.cachedAt.toISOString(), stale: cached.stale };
+}
 
-// Log which API we're using
-console.log("Using Yahoo Finance API for stock data");
+// Data-quality marker for time series: `synthetic` is only set when the series was
+// generated rather than returned by the provider (opt-in via ?synthetic=true)
+function seriesInfo(history: Cached<unknown>, synthetic: boolean) {
+  return {
+    ...cacheInfo(history),
+    synthetic,
+    source: synthetic ? "synthetic" : marketDataCache.providerName,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API routes prefix
   const apiPrefix = "/api";
 
+  // Sessions and /api/auth endpoints
+  setupAuth(app);
+
+  // Normalized /api/v2 market data endpoints; the Alpha Vantage style routes below are kept for existing clients
+  registerV2Routes(app);
+
   // Market data endpoints
   app.get(`${apiPrefix}/market/indices`, async (req, res) => {
     try {
@@ -23,7 +281,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stock search endpoint with Yahoo Finance
+  app.get(`${apiPrefix}/market/indices/intraday`, async (req, res) => {
+    try {
+      const since = new Date(Date.now() - INDEX_HISTORY_RETENTION_MS);
+      const indices = await storage.getMarketIndices();
+      const sparklines: IndexSparklines = {};
+
+      for (const index of indices) {
+        const history = await storage.getMarketIndexHistory(index.name, since);
+        // Only the most recent session, which is not today on weekends and holidays
+        const latestSession = history.length > 0 ? history[history.length - 1].recordedAt.toISOString().slice(0, 10) : "";
+        sparklines[index.name] = history
+          .filter(point => point.recordedAt.toISOString().startsWith(latestSession))
+          .map(point => ({ time: point.recordedAt.toISOString(), value: Number(point.value) }));
+      }
+
+      res.json(sparklines);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch intraday market indices" });
+    }
+  });
+
+  // Stock search endpoint
   app.get(`${apiPrefix}/stocks/search`, async (req, res) => {
     try {
       const query = req.query.q as string;
@@ -31,30 +310,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Query parameter q is required" });
       }
 
-      const results = await yahooFinance.search(query);
+      const cached = await marketDataCache.search(query);
+      const results = cached.value;
       
       // Transform the results to match the structure expected by the frontend
       const transformedResults = {
-        bestMatches: results.quotes.map(quote => {
-          // Handle different quote types safely with type assertions
-          const symbol = (quote as any).symbol || "";
-          const name = (quote as any).shortname || (quote as any).longname || "";
-          const type = (quote as any).quoteType || "Equity";
-          const region = (quote as any).exchange || "US";
-          const currency = (quote as any).currency || "USD";
-          
-          return {
-            "1. symbol": symbol,
-            "2. name": name,
-            "3. type": type,
-            "4. region": region,
-            "5. marketOpen": "09:30",
-            "6. marketClose": "16:00",
-            "7. timezone": "UTC-5",
-            "8. currency": currency,
-            "9. matchScore": "1.0"
-          };
-        })
+        bestMatches: results.map(result => ({
+          "1. symbol": result.symbol,
+          "2. name": result.name,
+          "3. type": result.type,
+          "4. region": result.exchange,
+          "5. marketOpen": "09:30",
+          "6. marketClose": "16:00",
+          "7. timezone": "UTC-5",
+          "8. currency": result.currency,
+          "9. matchScore": "1.0"
+        })),
+        ...cacheInfo(cached)
       };
       
       res.json(transformedResults);
@@ -69,157 +341,231 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { symbol } = req.params;
       
-      const quote = await yahooFinance.quote(symbol);
+      const cached = await marketDataCache.quote(symbol);
+      const quote = cached.value;
       
       if (!quote) {
         return res.status(404).json({ message: "Stock not found" });
       }
       
-      // Transform the Yahoo Finance response to match the structure expected by the frontend
-      const transformedData = {
-        "Global Quote": {
-          "01. symbol": quote.symbol,
-          "02. open": quote.regularMarketOpen?.toString() || "0",
-          "03. high": quote.regularMarketDayHigh?.toString() || "0",
-          "04. low": quote.regularMarketDayLow?.toString() || "0",
-          "05. price": quote.regularMarketPrice?.toString() || "0",
-          "06. volume": quote.regularMarketVolume?.toString() || "0",
-          "07. latest trading day": new Date().toISOString().split('T')[0],
-          "08. previous close": quote.regularMarketPreviousClose?.toString() || "0",
-          "09. change": quote.regularMarketChange?.toString() || "0",
-          "10. change percent": `${(quote.regularMarketChangePercent || 0) * 100}%`
-        }
-      };
-      
-      res.json(transformedData);
+      res.json({ "Global Quote": toGlobalQuote(quote), ...cacheInfo(cached) });
     } catch (error) {
       console.error("Quote error:", error);
       res.status(500).json({ message: "Failed to fetch stock quote" });
     }
   });
 
-  // Stock intraday data endpoint
+  // Company profile and key statistics: /api/stocks/profile/AAPL
+  app.get(`${apiPrefix}/stocks/profile/:symbol`, async (req, res) => {
+    try {
+      const cached = await marketDataCache.profile(req.params.symbol);
+      const profile = cached.value;
+
+      if (!profile) {
+        return res.status(404).json({ message: "Stock not found" });
+      }
+
+      res.json({ profile, ...cacheInfo(cached) });
+    } catch (error) {
+      console.error("Profile error:", error);
+      res.status(500).json({ message: "Failed to fetch company profile" });
+    }
+  });
+
+  // Quarterly income statement and balance sheet figures: /api/stocks/financials/AAPL
+  app.get(`${apiPrefix}/stocks/financials/:symbol`, async (req, res) => {
+    try {
+      const symbol = req.params.symbol.toUpperCase();
+      const cached = await marketDataCache.financials(symbol);
+
+      res.json({
+        symbol,
+        quarters: cached.value.map(period => ({ ...period, periodEnd: period.periodEnd.toISOString() })),
+        ...cacheInfo(cached),
+      });
+    } catch (error) {
+      console.error("Financials error:", error);
+      res.status(500).json({ message: "Failed to fetch company financials" });
+    }
+  });
+
+  // Batch quote endpoint: /api/stocks/quotes?symbols=AAPL,MSFT
+  app.get(`${apiPrefix}/stocks/quotes`, async (req, res) => {
+    const symbols = Array.from(new Set(
+      String(req.query.symbols || "")
+        .split(",")
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    ));
+
+    if (symbols.length === 0) {
+      return res.status(400).json({ message: "Query parameter symbols is required" });
+    }
+    if (symbols.length > MAX_BATCH_SYMBOLS) {
+      return res.status(400).json({ message: `At most ${MAX_BATCH_SYMBOLS} symbols can be requested at once` });
+    }
+
+    const quotes: Record<string, ReturnType<typeof toGlobalQuote>> = {};
+    const errors: Record<string, string> = {};
+    // Report the oldest entry served, and stale if any entry was
+    let freshness: { cachedAt: Date; stale: boolean } | undefined;
+
+    try {
+      const results = await marketDataCache.quotes(symbols);
+      for (const symbol of symbols) {
+        const cached = results.get(symbol);
+        if (cached) {
+          quotes[symbol] = toGlobalQuote(cached.value);
+          freshness = {
+            cachedAt: freshness && freshness.cachedAt < cached.cachedAt ? freshness.cachedAt : cached.cachedAt,
+            stale: (freshness?.stale ?? false) || cached.stale,
+          };
+        } else {
+          errors[symbol] = "Stock not found";
+        }
+      }
+    } catch (error) {
+      console.error("Batch quote error:", error);
+      for (const symbol of symbols) {
+        errors[symbol] = "Failed to fetch stock quote";
+      }
+    }
+
+    res.json({ quotes, errors, ...(freshness ? cacheInfo(freshness) : {}) });
+  });
+
+  // Stock intraday data endpoint: /api/stocks/intraday/AAPL?interval=5min
+  // Synthesized bars are only returned when explicitly requested with ?synthetic=true
   app.get(`${apiPrefix}/stocks/intraday/:symbol`, async (req, res) => {
+    const interval = String(req.query.interval || "5min");
+    const barInterval = INTRADAY_INTERVALS[interval];
+    if (!barInterval) {
+      return res.status(400).json({ message: `Unsupported interval, expected one of ${Object.keys(INTRADAY_INTERVALS).join(", ")}` });
+    }
+
     try {
       const { symbol } = req.params;
-      // Default to daily for more reliable data
-      const interval = "1d";
-      
-      // First try to get a recent quote to ensure we have current price
-      const quote = await yahooFinance.quote(symbol);
-      
-      // Then get daily data for the last few days instead of trying intraday
-      // Yahoo Finance doesn't consistently provide intraday data 
-      const historicalData = await yahooFinance.historical(symbol, {
-        period1: new Date(new Date().setDate(new Date().getDate() - 10)),  // Last 10 days
-        period2: new Date(),  // Today
-        interval: interval
+      const allowSynthetic = req.query.synthetic === "true";
+      
+      // A week of bars covers the latest session even over weekends and holidays
+      const history = await marketDataCache.history(symbol, {
+        from: new Date(new Date().setDate(new Date().getDate() - 7)),
+        to: new Date(),  // Now
+        interval: barInterval
       });
+      const historicalData = history.value;
+      let synthetic = false;
       
       // Format for our frontend (similar to Alpha Vantage format)
       const formattedData: any = {
         "Meta Data": {
-          "1. Information": `Intraday Time Series (substitute with daily)`,
+          "1. Information": `Intraday (${interval}) open, high, low, close prices and volume`,
           "2. Symbol": symbol,
           "3. Last Refreshed": new Date().toISOString(),
           "4. Interval": interval,
           "5. Output Size": "Compact",
-          "6. Time Zone": "US/Eastern"
+          "6. Time Zone": "UTC"
         },
-        [`Time Series (5min)`]: {}
+        [`Time Series (${interval})`]: {}
       };
+      const timeSeries = formattedData[`Time Series (${interval})`];
       
-      // If we have no historical data but have a current quote,
-      // create synthetic time points based on the current price
-      if (historicalData.length === 0 && quote) {
-        // Current time
-        const now = new Date();
-        
-        // Get current price info
-        const currentPrice = quote.regularMarketPrice || 100;
-        const prevClose = quote.regularMarketPreviousClose || currentPrice * 0.99;
-        const high = quote.regularMarketDayHigh || currentPrice * 1.01;
-        const low = quote.regularMarketDayLow || currentPrice * 0.99;
-        const volume = quote.regularMarketVolume || 1000;
-        
-        // Create a series of time points for today (last 8 hours)
-        for (let i = 0; i < 96; i++) {  // 96 5-minute intervals = 8 hours
-          const timePoint = new Date(now);
-          timePoint.setMinutes(now.getMinutes() - (i * 5));
-          
-          // Small price variation pattern based on index
-          const priceVariation = (Math.sin(i / 10) * 0.01 * currentPrice);
-          // Price that oscillates slightly around current price
-          const adjustedPrice = currentPrice + priceVariation;
-          
-          const timestamp = timePoint.toISOString().replace('T', ' ').split('.')[0];
-          formattedData[`Time Series (5min)`][timestamp] = {
-            "1. open": (adjustedPrice - 0.1).toFixed(2),
-            "2. high": (adjustedPrice + 0.2).toFixed(2),
-            "3. low": (adjustedPrice - 0.2).toFixed(2),
-            "4. close": adjustedPrice.toFixed(2),
-            "5. volume": Math.floor(volume / 96).toString()
+      if (historicalData.length > 0) {
+        historicalData.forEach(bar => {
+          const timestamp = bar.date.toISOString().replace('T', ' ').split('.')[0];
+          timeSeries[timestamp] = {
+            "1. open": bar.open.toString(),
+            "2. high": bar.high.toString(),
+            "3. low": bar.low.toString(),
+            "4. close": bar.close.toString(),
+            "5. volume": bar.volume.toString()
           };
-        }
-      } 
-      // If we have historical data, use it
-      else if (historicalData.length > 0) {
-        // Expand daily data into 5-minute intervals for smoother charts
-        historicalData.forEach((bar, dayIndex) => {
-          // For each day, create multiple price points
-          for (let i = 0; i < 8; i++) {
-            const hour = 9 + i; // 9am to 4pm
-            for (let min = 0; min < 60; min += 5) {
-              const date = new Date(bar.date);
-              date.setHours(hour, min);
-              
-              // Skip times outside market hours
-              if (hour < 9 || (hour === 16 && min > 0) || hour > 16) continue;
-              
-              // Simple price interpolation for intraday pattern
-              // Create a natural-looking intraday pattern
-              const progressOfDay = (hour - 9) + (min / 60); // 0 to 7 hours
-              const dayProgress = progressOfDay / 7; // 0 to 1 (full trading day)
-              
-              // Simulate typical U-shaped intraday pattern
-              // Prices often dip mid-day and recover toward close
-              const patternMultiplier = 1 - Math.sin(dayProgress * Math.PI) * 0.005;
-              
-              const basePrice = bar.close || 100;
-              const adjustedPrice = basePrice * patternMultiplier;
-              const open = (bar.open || basePrice) * (1 - (dayIndex * 0.001));
-              const high = (bar.high || basePrice * 1.01) * (1 - (dayIndex * 0.001));
-              const low = (bar.low || basePrice * 0.99) * (1 - (dayIndex * 0.001));
-              const volume = Math.floor((bar.volume || 1000) / 96);
+        });
+      }
+      // Without real intraday bars, expand recent daily bars into an intraday pattern
+      else if (allowSynthetic) {
+        const daily = await marketDataCache.history(symbol, {
+          from: new Date(new Date().setDate(new Date().getDate() - 10)),  // Last 10 days
+          to: new Date(),  // Today
+          interval: "1d"
+        });
+
+        if (daily.value.length > 0) {
+          daily.value.forEach((bar, dayIndex) => {
+            for (let i = 0; i < 8; i++) {
+              const hour = 9 + i; // 9am to 4pm
+              for (let min = 0; min < 60; min += 5) {
+                const date = new Date(bar.date);
+                date.setHours(hour, min);
+                
+                // Simulate typical U-shaped intraday pattern
+                // Prices often dip mid-day and recover toward close
+                const progressOfDay = (hour - 9) + (min / 60); // 0 to 7 hours
+                const dayProgress = progressOfDay / 7; // 0 to 1 (full trading day)
+                const patternMultiplier = 1 - Math.sin(dayProgress * Math.PI) * 0.005;
+                
+                const basePrice = bar.close || 100;
+                const adjustedPrice = basePrice * patternMultiplier;
+                const open = (bar.open || basePrice) * (1 - (dayIndex * 0.001));
+                const high = (bar.high || basePrice * 1.01) * (1 - (dayIndex * 0.001));
+                const low = (bar.low || basePrice * 0.99) * (1 - (dayIndex * 0.001));
+                const volume = Math.floor((bar.volume || 1000) / 96);
+                
+                const timestamp = date.toISOString().replace('T', ' ').split('.')[0];
+                timeSeries[timestamp] = {
+                  "1. open": open.toFixed(2),
+                  "2. high": high.toFixed(2),
+                  "3. low": low.toFixed(2),
+                  "4. close": adjustedPrice.toFixed(2),
+                  "5. volume": volume.toString()
+                };
+              }
+            }
+          });
+        } else {
+          // Oscillate around the current price over the last 8 hours
+          const quote = (await marketDataCache.quote(symbol)).value;
+          if (quote) {
+            const now = new Date();
+            const currentPrice = quote.price || 100;
+            const volume = quote.volume || 1000;
+            
+            for (let i = 0; i < 96; i++) {  // 96 5-minute intervals = 8 hours
+              const timePoint = new Date(now);
+              timePoint.setMinutes(now.getMinutes() - (i * 5));
               
-              const timestamp = date.toISOString().replace('T', ' ').split('.')[0];
-              formattedData[`Time Series (5min)`][timestamp] = {
-                "1. open": open.toFixed(2),
-                "2. high": high.toFixed(2),
-                "3. low": low.toFixed(2),
+              const adjustedPrice = currentPrice + (Math.sin(i / 10) * 0.01 * currentPrice);
+              const timestamp = timePoint.toISOString().replace('T', ' ').split('.')[0];
+              timeSeries[timestamp] = {
+                "1. open": (adjustedPrice - 0.1).toFixed(2),
+                "2. high": (adjustedPrice + 0.2).toFixed(2),
+                "3. low": (adjustedPrice - 0.2).toFixed(2),
                 "4. close": adjustedPrice.toFixed(2),
-                "5. volume": volume.toString()
+                "5. volume": Math.floor(volume / 96).toString()
               };
             }
           }
-        });
+        }
+        synthetic = Object.keys(timeSeries).length > 0;
       }
       
-      res.json(formattedData);
+      res.json({ ...formattedData, ...seriesInfo(history, synthetic) });
     } catch (error) {
       console.error("Historical data error:", error);
       
       // Create a basic fallback response with empty data
       const fallbackData = {
         "Meta Data": {
-          "1. Information": "Intraday Time Series with 5min interval",
+          "1. Information": `Intraday (${interval}) open, high, low, close prices and volume`,
           "2. Symbol": req.params.symbol,
           "3. Last Refreshed": new Date().toISOString(),
-          "4. Interval": "5min", 
+          "4. Interval": interval, 
           "5. Output Size": "Compact",
-          "6. Time Zone": "US/Eastern"
+          "6. Time Zone": "UTC"
         },
-        "Time Series (5min)": {}
+        [`Time Series (${interval})`]: {},
+        synthetic: false,
+        source: marketDataCache.providerName
       };
       
       // Return the fallback data to not break the frontend
@@ -232,16 +578,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { symbol } = req.params;
       
-      // Get current quote first
-      const quote = await yahooFinance.quote(symbol);
-      
-      const historicalData = await yahooFinance.historical(symbol, {
-        period1: new Date(new Date().setDate(new Date().getDate() - 30)),  // Last 30 days
-        period2: new Date(),  // Today
+      const history = await marketDataCache.history(symbol, {
+        from: new Date(new Date().setDate(new Date().getDate() - 30)),  // Last 30 days
+        to: new Date(),  // Today
         interval: "1d"
       });
+      const historicalData = history.value;
+      
+      const allowSynthetic = req.query.synthetic === "true";
+      let synthetic = false;
+      
+      // Only fall back to the current quote when there are no bars and synthesis was requested
+      const quote = historicalData.length === 0 && allowSynthetic
+        ? (await marketDataCache.quote(symbol)).value
+        : undefined;
       
-      // Transform the Yahoo Finance response to match the structure expected by the frontend
+      // Transform the provider bars to match the structure expected by the frontend
       const formattedData: any = {
         "Meta Data": {
           "1. Information": "Daily Time Series",
@@ -258,17 +610,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         historicalData.forEach(bar => {
           const timestamp = bar.date.toISOString().split('T')[0];
           formattedData["Time Series (Daily)"][timestamp] = {
-            "1. open": bar.open?.toString() || "0",
-            "2. high": bar.high?.toString() || "0",
-            "3. low": bar.low?.toString() || "0",
-            "4. close": bar.close?.toString() || "0",
-            "5. volume": bar.volume?.toString() || "0"
+            "1. open": bar.open.toString(),
+            "2. high": bar.high.toString(),
+            "3. low": bar.low.toString(),
+            "4. close": bar.close.toString(),
+            "5. volume": bar.volume.toString()
           };
         });
       }
       // If no historical data but we have a quote, create some basic data points
       else if (quote) {
-        const currentPrice = quote.regularMarketPrice || 100;
+        synthetic = true;
+        const currentPrice = quote.price || 100;
         const today = new Date();
         
         // Create 30 days of data
@@ -299,7 +652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(formattedData);
+      res.json({ ...formattedData, ...seriesInfo(history, synthetic) });
     } catch (error) {
       console.error("Daily data error:", error);
       
@@ -312,7 +665,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           "4. Output Size": "Compact",
           "5. Time Zone": "US/Eastern"
         },
-        "Time Series (Daily)": {}
+        "Time Series (Daily)": {},
+        synthetic: false,
+        source: marketDataCache.providerName
       };
       
       res.json(fallbackData);
@@ -324,16 +679,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { symbol } = req.params;
       
-      // Get current quote first to ensure we have at least current price
-      const quote = await yahooFinance.quote(symbol);
-      
-      const historicalData = await yahooFinance.historical(symbol, {
-        period1: new Date(new Date().setFullYear(new Date().getFullYear() - 1)),  // Last year
-        period2: new Date(),  // Today
+      const history = await marketDataCache.history(symbol, {
+        from: new Date(new Date().setFullYear(new Date().getFullYear() - 1)),  // Last year
+        to: new Date(),  // Today
         interval: "1wk"
       });
+      const historicalData = history.value;
+      
+      const allowSynthetic = req.query.synthetic === "true";
+      let synthetic = false;
+      
+      // Only fall back to the current quote when there are no bars and synthesis was requested
+      const quote = historicalData.length === 0 && allowSynthetic
+        ? (await marketDataCache.quote(symbol)).value
+        : undefined;
       
-      // Transform the Yahoo Finance response to match the structure expected by the frontend
+      // Transform the provider bars to match the structure expected by the frontend
       const formattedData: any = {
         "Meta Data": {
           "1. Information": "Weekly Time Series",
@@ -349,17 +710,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         historicalData.forEach(bar => {
           const timestamp = bar.date.toISOString().split('T')[0];
           formattedData["Weekly Time Series"][timestamp] = {
-            "1. open": bar.open?.toString() || "0",
-            "2. high": bar.high?.toString() || "0",
-            "3. low": bar.low?.toString() || "0",
-            "4. close": bar.close?.toString() || "0",
-            "5. volume": bar.volume?.toString() || "0"
+            "1. open": bar.open.toString(),
+            "2. high": bar.high.toString(),
+            "3. low": bar.low.toString(),
+            "4. close": bar.close.toString(),
+            "5. volume": bar.volume.toString()
           };
         });
       }
       // If no historical data but we have a quote, create some basic data points
       else if (quote) {
-        const currentPrice = quote.regularMarketPrice || 100;
+        synthetic = true;
+        const currentPrice = quote.price || 100;
         const today = new Date();
         
         // Create 52 weeks of data (1 year)
@@ -387,7 +749,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(formattedData);
+      res.json({ ...formattedData, ...seriesInfo(history, synthetic) });
     } catch (error) {
       console.error("Weekly data error:", error);
       
@@ -399,7 +761,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           "3. Last Refreshed": new Date().toISOString().split('T')[0],
           "4. Time Zone": "US/Eastern"
         },
-        "Weekly Time Series": {}
+        "Weekly Time Series": {},
+        synthetic: false,
+        source: marketDataCache.providerName
       };
       
       res.json(fallbackData);
@@ -411,16 +775,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { symbol } = req.params;
       
-      // Get current quote first to ensure we have at least current price
-      const quote = await yahooFinance.quote(symbol);
-      
-      const historicalData = await yahooFinance.historical(symbol, {
-        period1: new Date(new Date().setFullYear(new Date().getFullYear() - 5)),  // Last 5 years
-        period2: new Date(),  // Today
+      const history = await marketDataCache.history(symbol, {
+        from: new Date(new Date().setFullYear(new Date().getFullYear() - 5)),  // Last 5 years
+        to: new Date(),  // Today
         interval: "1mo"
       });
+      const historicalData = history.value;
+      
+      const allowSynthetic = req.query.synthetic === "true";
+      let synthetic = false;
+      
+      // Only fall back to the current quote when there are no bars and synthesis was requested
+      const quote = historicalData.length === 0 && allowSynthetic
+        ? (await marketDataCache.quote(symbol)).value
+        : undefined;
       
-      // Transform the Yahoo Finance response to match the structure expected by the frontend
+      // Transform the provider bars to match the structure expected by the frontend
       const formattedData: any = {
         "Meta Data": {
           "1. Information": "Monthly Time Series",
@@ -436,17 +806,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         historicalData.forEach(bar => {
           const timestamp = bar.date.toISOString().split('T')[0];
           formattedData["Monthly Time Series"][timestamp] = {
-            "1. open": bar.open?.toString() || "0",
-            "2. high": bar.high?.toString() || "0",
-            "3. low": bar.low?.toString() || "0",
-            "4. close": bar.close?.toString() || "0",
-            "5. volume": bar.volume?.toString() || "0"
+            "1. open": bar.open.toString(),
+            "2. high": bar.high.toString(),
+            "3. low": bar.low.toString(),
+            "4. close": bar.close.toString(),
+            "5. volume": bar.volume.toString()
           };
         });
       }
       // If no historical data but we have a quote, create some basic data points
       else if (quote) {
-        const currentPrice = quote.regularMarketPrice || 100;
+        synthetic = true;
+        const currentPrice = quote.price || 100;
         const today = new Date();
         
         // Create 60 months of data (5 years)
@@ -474,7 +845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(formattedData);
+      res.json({ ...formattedData, ...seriesInfo(history, synthetic) });
     } catch (error) {
       console.error("Monthly data error:", error);
       
@@ -486,51 +857,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
           "3. Last Refreshed": new Date().toISOString().split('T')[0],
           "4. Time Zone": "US/Eastern"
         },
-        "Monthly Time Series": {}
+        "Monthly Time Series": {},
+        synthetic: false,
+        source: marketDataCache.providerName
       };
       
       res.json(fallbackData);
     }
   });
 
-  // Portfolio endpoints
-  app.get(`${apiPrefix}/portfolio`, async (req, res) => {
+  // Portfolio endpoints; holdings are the open tax lots derived from the transaction ledger
+  app.get(`${apiPrefix}/portfolio`, requireAuth, async (req, res) => {
     try {
-      // Using demo user (id: 1) for this example
-      const userId = 1;
-      const portfolioStocks = await storage.getPortfolioStocks(userId);
-      res.json(portfolioStocks);
+      const ledger = await loadLedger(req.user!.id);
+      res.json(ledger.positions.flatMap(position => position.lots));
     } catch (error) {
+      console.error("Portfolio error:", error);
       res.status(500).json({ message: "Failed to fetch portfolio stocks" });
     }
   });
 
-  app.post(`${apiPrefix}/portfolio`, async (req, res) => {
+  // Positions with their lots and realized gains: /api/portfolio/ledger?method=lifo previews another method
+  app.get(`${apiPrefix}/portfolio/ledger`, requireAuth, async (req, res) => {
+    const result = ledgerQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+    }
+
+    try {
+      const ledger = await loadLedger(req.user!.id, result.data.method);
+      res.json(ledger);
+    } catch (error) {
+      console.error("Ledger error:", error);
+      res.status(500).json({ message: "Failed to build portfolio ledger" });
+    }
+  });
+
+  // Daily account value and returns: /api/portfolio/history?range=1y
+  app.get(`${apiPrefix}/portfolio/history`, requireAuth, async (req, res) => {
+    const result = portfolioHistoryQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+    }
+
+    try {
+      const { range } = result.data;
+      const to = new Date();
+      const transactions = await storage.getTransactions(req.user!.id);
+      const snapshots = await buildPortfolioSnapshots(transactions, marketDataCache, rangeStart(range, to), to);
+
+      const history: PortfolioHistoryResponse = { range, snapshots, returns: portfolioReturns(snapshots) };
+      res.json(history);
+    } catch (error) {
+      console.error("Portfolio history error:", error);
+      res.status(500).json({ message: "Failed to build portfolio history" });
+    }
+  });
+
+  // Portfolio against a market index: /api/portfolio/benchmark?symbol=^GSPC&range=1y
+  app.get(`${apiPrefix}/portfolio/benchmark`, requireAuth, async (req, res) => {
+    const result = benchmarkQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+    }
+
+    try {
+      const { symbol, range } = result.data;
+      const to = new Date();
+      const from = rangeStart(range, to);
+      const transactions = await storage.getTransactions(req.user!.id);
+      const [snapshots, bars] = await Promise.all([
+        buildPortfolioSnapshots(transactions, marketDataCache, from, to),
+        // A week of lead-in so the first snapshot day has a benchmark close
+        marketDataCache.history(symbol, { from: new Date(from.getTime() - 7 * 24 * 60 * 60 * 1000), to, interval: "1d" }),
+      ]);
+
+      const { series, ...statistics } = compareWithBenchmark(snapshots, bars.value);
+      const last = series[series.length - 1];
+      const comparison: BenchmarkComparisonResponse = {
+        range,
+        benchmark: benchmarks.find(benchmark => benchmark.symbol === symbol)!,
+        series,
+        portfolioReturn: last ? last.portfolio : null,
+        benchmarkReturn: last ? last.benchmark : null,
+        ...statistics,
+      };
+      res.json(comparison);
+    } catch (error) {
+      console.error("Benchmark comparison error:", error);
+      res.status(500).json({ message: "Failed to compare portfolio with benchmark" });
+    }
+  });
+
+  // Volatility, value at risk, drawdown and correlations of current holdings: /api/portfolio/risk?range=1y&confidence=0.95
+  app.get(`${apiPrefix}/portfolio/risk`, requireAuth, async (req, res) => {
+    const result = riskQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+    }
+
+    try {
+      const { range, confidence } = result.data;
+      const to = new Date();
+      const ledger = await loadLedger(req.user!.id);
+
+      const analysis = await analyzeRisk(ledger.positions, marketDataCache, rangeStart(range, to), to, confidence);
+      const risk: RiskResponse = { range, ...analysis };
+      res.json(risk);
+    } catch (error) {
+      console.error("Risk analysis error:", error);
+      res.status(500).json({ message: "Failed to analyze portfolio risk" });
+    }
+  });
+
+  app.post(`${apiPrefix}/portfolio`, requireAuth, async (req, res) => {
     try {
-      // Validate request body
-      const result = insertPortfolioStockSchema.safeParse(req.body);
+      // Validate request body; the owner always comes from the session
+      const result = addHoldingSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
       }
       
-      const portfolioStock = await storage.createPortfolioStock(result.data);
-      res.status(201).json(portfolioStock);
+      await tradingEngine.getAccount(req.user!.id);
+      const recorded = await storage.recordTransaction({
+        userId: req.user!.id,
+        type: "buy",
+        symbol: result.data.symbol,
+        name: result.data.name,
+        quantity: result.data.shares,
+        price: result.data.purchasePrice,
+        executedAt: result.data.purchaseDate,
+      });
+      if ("rejectReason" in recorded) {
+        return res.status(400).json({ message: recorded.rejectReason });
+      }
+      
+      res.status(201).json(recorded.transaction);
     } catch (error) {
+      console.error("Portfolio error:", error);
       res.status(500).json({ message: "Failed to create portfolio stock" });
     }
   });
 
-  app.delete(`${apiPrefix}/portfolio/:id`, async (req, res) => {
+  // Removes a holding by deleting the buy that opened the lot
+  app.delete(`${apiPrefix}/portfolio/:id`, requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      const deleted = await storage.deletePortfolioStock(id);
-      if (!deleted) {
+      const transaction = await storage.getTransaction(id);
+      if (!transaction || transaction.userId !== req.user!.id || transaction.type !== "buy") {
         return res.status(404).json({ message: "Portfolio stock not found" });
       }
+      if (transaction.orderId !== null) {
+        return res.status(409).json({ message: "Holdings bought through an order can only be sold" });
+      }
+      
+      const removed = await storage.removeTransaction(id);
+      if (removed && "rejectReason" in removed) {
+        return res.status(409).json({ message: removed.rejectReason });
+      }
       
       res.status(204).send();
     } catch (error) {
@@ -538,161 +1026,1060 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Transaction ledger endpoints
+  app.get(`${apiPrefix}/transactions`, requireAuth, async (req, res) => {
+    try {
+      const transactions = await storage.getTransactions(req.user!.id);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
+  app.post(`${apiPrefix}/transactions`, requireAuth, async (req, res) => {
+    try {
+      // Validate request body; the owner always comes from the session
+      const result = recordTransactionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+      
+      await tradingEngine.getAccount(req.user!.id);
+      const recorded = await storage.recordTransaction({ ...result.data, userId: req.user!.id });
+      if ("rejectReason" in recorded) {
+        return res.status(400).json({ message: recorded.rejectReason });
+      }
+      
+      res.status(201).json(recorded.transaction);
+    } catch (error) {
+      console.error("Transaction error:", error);
+      res.status(500).json({ message: "Failed to record transaction" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/transactions/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const transaction = await storage.getTransaction(id);
+      if (!transaction || transaction.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      // Fills stay in the ledger so it keeps matching the order history
+      if (transaction.orderId !== null) {
+        return res.status(409).json({ message: "Transactions from filled orders can't be deleted" });
+      }
+      
+      const removed = await storage.removeTransaction(id);
+      if (removed && "rejectReason" in removed) {
+        return res.status(409).json({ message: removed.rejectReason });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete transaction" });
+    }
+  });
+
   // Watchlist endpoints
-  app.get(`${apiPrefix}/watchlist`, async (req, res) => {
+  app.get(`${apiPrefix}/watchlist`, requireAuth, async (req, res) => {
     try {
-      // Using demo user (id: 1) for this example
-      const userId = 1;
-      const watchlistStocks = await storage.getWatchlistStocks(userId);
+      const watchlistStocks = await storage.getWatchlistStocks(req.user!.id);
       res.json(watchlistStocks);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch watchlist stocks" });
     }
   });
 
-  app.post(`${apiPrefix}/watchlist`, async (req, res) => {
+  app.post(`${apiPrefix}/watchlist`, requireAuth, async (req, res) => {
     try {
-      // Validate request body
-      const result = insertWatchlistStockSchema.safeParse(req.body);
+      // Validate request body; the owner always comes from the session
+      const result = insertWatchlistStockSchema.omit({ userId: true }).safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
       }
       
-      const watchlistStock = await storage.createWatchlistStock(result.data);
+      const watchlistStock = await storage.createWatchlistStock({ ...result.data, userId: req.user!.id });
       res.status(201).json(watchlistStock);
     } catch (error) {
       res.status(500).json({ message: "Failed to create watchlist stock" });
     }
   });
 
-  app.delete(`${apiPrefix}/watchlist/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/watchlist/:id`, requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      const deleted = await storage.deleteWatchlistStock(id);
-      if (!deleted) {
+      const stock = await storage.getWatchlistStock(id);
+      if (!stock || stock.userId !== req.user!.id) {
         return res.status(404).json({ message: "Watchlist stock not found" });
       }
       
+      await storage.deleteWatchlistStock(id);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete watchlist stock" });
     }
   });
 
-  // Market news endpoint using Yahoo Finance
-  app.get(`${apiPrefix}/market/news`, async (req, res) => {
+  // User preference endpoints
+  app.get(`${apiPrefix}/preferences`, requireAuth, async (req, res) => {
     try {
-      // Use a fixed list of popular stocks since trendingStocks might not be available
-      const symbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META'];
-      
-      // Fetch news for these popular stocks
-      const newsPromises = symbols.map(symbol => yahooFinance.search(symbol));
-      const newsResults = await Promise.all(newsPromises);
-      
-      // Transform to Alpha Vantage format
-      const transformedNews = {
-        feed: newsResults.flatMap((result: any, index: number) => {
-          const symbol = symbols[index];
-          return ((result.news || []) as any[]).slice(0, 2).map((item: any) => ({
-            title: item.title || `Market News for ${symbol}`,
-            summary: item.summary || 'Market updates and financial news',
-            url: item.link || 'https://finance.yahoo.com',
-            banner_image: item.thumbnail?.resolutions?.[0]?.url || '',
-            source: item.publisher || 'Yahoo Finance',
-            source_domain: 'finance.yahoo.com',
-            time_published: new Date((item.providerPublishTime || Date.now()) * 1000).toISOString(),
-            topics: [{ 
-              topic: symbol, 
-              relevance_score: "1.0" 
-            }]
-          }));
-        })
-      };
-      
-      res.json(transformedNews);
+      const preferences = await storage.getUserPreferences(req.user!.id);
+      res.json(preferences);
     } catch (error) {
-      console.error("News error:", error);
-      
-      // If Yahoo Finance news failed, return some default format to keep the UI working
-      const defaultNews = {
-        feed: [
-          {
-            title: "Markets Today: Wizarding Finance Update",
-            summary: "The market is experiencing changes as various magical companies adjust to the new economic climate.",
-            url: "https://finance.yahoo.com",
-            source: "Magic Financial Times",
-            source_domain: "finance.yahoo.com",
-            time_published: new Date().toISOString(),
-            topics: [{ topic: "Markets", relevance_score: "1.0" }]
-          }
-        ]
-      };
-      
-      res.json(defaultNews);
+      res.status(500).json({ message: "Failed to fetch preferences" });
     }
   });
-  
-  // Fantasy Team Tokens endpoint
-  app.get(`${apiPrefix}/fantasy-tokens`, (req, res) => {
-    // This would be connected to a blockchain or smart contract in a real implementation
-    const fantasyTokens = [
-      {
-        id: "ft-001",
-        name: "Wizard Apple",
-        symbol: "WZAPL",
-        price: 178.72,
-        change24h: 2.3,
-        marketCap: 2750000,
-        owner: "0x7a2d...3e8f",
-        baseStock: "AAPL",
-        contractAddress: "0x7a2dbc8e3f8f9a2d3e8f"
-      },
-      {
-        id: "ft-002",
-        name: "Magical Microsoft",
-        symbol: "MGMSFT",
-        price: 412.35,
-        change24h: -0.8,
-        marketCap: 1950000,
-        owner: "0x8b3c...9d7a",
-        baseStock: "MSFT",
-        contractAddress: "0x8b3c45d67890a9b9c9d7a"
-      },
-      {
-        id: "ft-003",
-        name: "Spellbound Tesla",
-        symbol: "SBTSL",
-        price: 172.63,
-        change24h: 4.2,
-        marketCap: 985000,
-        owner: "0x3f6d...2c1e",
-        baseStock: "TSLA",
-        contractAddress: "0x3f6defab123456789a2c1e"
-      }
-    ];
-    
-    res.json(fantasyTokens);
+
+  app.patch(`${apiPrefix}/preferences`, requireAuth, async (req, res) => {
+    try {
+      const result = updateUserPreferencesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const preferences = await storage.updateUserPreferences(req.user!.id, result.data);
+      res.json(preferences);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
   });
-  
-  app.post(`${apiPrefix}/fantasy-tokens`, (req, res) => {
-    // In a real implementation, this would deploy a smart contract
-    const newToken = {
-      id: `ft-${Date.now().toString().substring(7)}`,
-      name: req.body.name || "New Fantasy Token",
-      symbol: req.body.symbol || "NFT",
-      price: req.body.basePrice || 100,
-      change24h: 0,
-      marketCap: req.body.initialSupply * (req.body.basePrice || 100) || 500000,
-      owner: req.body.ownerAddress || "0x123...abc",
-      baseStock: req.body.baseStock || "CUSTOM",
-      contractAddress: `0x${Math.random().toString(16).substring(2, 10)}...${Math.random().toString(16).substring(2, 6)}`
-    };
-    
-    res.status(201).json(newToken);
+
+  // Price alert endpoints
+  app.get(`${apiPrefix}/alerts`, requireAuth, async (req, res) => {
+    try {
+      const alerts = await storage.getAlerts(req.user!.id);
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.post(`${apiPrefix}/alerts`, requireAuth, async (req, res) => {
+    try {
+      const result = createAlertSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      // Only accept symbols the engine will be able to quote
+      const quote = (await marketDataCache.quote(result.data.symbol)).value;
+      if (!quote) {
+        return res.status(400).json({ message: "Stock not found" });
+      }
+
+      const alert = await storage.createAlert({ ...result.data, userId: req.user!.id });
+      res.status(201).json(alert);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create alert" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/alerts/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = updateAlertSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const existing = await storage.getAlert(id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const alert = await storage.updateAlert(id, result.data);
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update alert" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/alerts/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const alert = await storage.getAlert(id);
+      if (!alert || alert.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      await storage.deleteAlert(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete alert" });
+    }
+  });
+
+  // Notification center endpoints
+  app.get(`${apiPrefix}/notifications`, requireAuth, async (req, res) => {
+    try {
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id, NOTIFICATION_LIMIT),
+        storage.getUnreadNotificationCount(req.user!.id),
+      ]);
+      const feed: NotificationFeed = { notifications, unreadCount };
+      res.json(feed);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post(`${apiPrefix}/notifications/read`, requireAuth, async (req, res) => {
+    try {
+      const result = markNotificationsReadSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const updated = await storage.markNotificationsRead(req.user!.id, result.data.ids);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  // Paper trading endpoints
+  app.get(`${apiPrefix}/account`, requireAuth, async (req, res) => {
+    try {
+      const account = await tradingEngine.getAccount(req.user!.id);
+      res.json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trading account" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/account`, requireAuth, async (req, res) => {
+    try {
+      const result = updateAccountSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+      
+      await tradingEngine.getAccount(req.user!.id);
+      const account = await storage.updateAccount(req.user!.id, result.data);
+      res.json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update trading account" });
+    }
+  });
+
+  app.get(`${apiPrefix}/orders`, requireAuth, async (req, res) => {
+    try {
+      const orders = await storage.getOrders(req.user!.id);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  app.post(`${apiPrefix}/orders`, requireAuth, async (req, res) => {
+    try {
+      // Validate request body; the owner always comes from the session
+      const result = placeOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+      
+      const order = await tradingEngine.placeOrder({ ...result.data, userId: req.user!.id });
+      res.status(201).json(order);
+    } catch (error) {
+      console.error("Order error:", error);
+      res.status(500).json({ message: "Failed to place order" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/orders/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const order = await storage.getOrder(id);
+      if (!order || order.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      // The order may have filled or expired since the client last saw it
+      const cancelled = await tradingEngine.cancelOrder(id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Only open orders can be cancelled" });
+      }
+      
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel order" });
+    }
+  });
+
+  // Backtesting endpoint: runs a built-in strategy over historical bars
+  app.post(`${apiPrefix}/backtests`, requireAuth, async (req, res) => {
+    try {
+      const result = backtestRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+      
+      const backtest = await runBacktestRequest(result.data);
+      if (!backtest) {
+        return res.status(422).json({ message: `Not enough price history for ${result.data.symbol} in the requested range` });
+      }
+      
+      res.json(backtest);
+    } catch (error) {
+      console.error("Backtest error:", error);
+      res.status(500).json({ message: "Failed to run backtest" });
+    }
+  });
+
+  // Stock screener: filter a universe of symbols by quote, valuation and indicator conditions
+  app.post(`${apiPrefix}/screener`, requireAuth, async (req, res) => {
+    try {
+      const result = screenCriteriaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const symbols = await resolveUniverse(result.data, req.user!.id, storage);
+      const screen = await runScreen(result.data, symbols, marketDataCache);
+      res.json(screen);
+    } catch (error) {
+      console.error("Screener error:", error);
+      res.status(500).json({ message: "Failed to run screen" });
+    }
+  });
+
+  // Saved screen endpoints
+  app.get(`${apiPrefix}/screens`, requireAuth, async (req, res) => {
+    try {
+      const screens = await storage.getScreens(req.user!.id);
+      res.json(screens);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch screens" });
+    }
+  });
+
+  app.post(`${apiPrefix}/screens`, requireAuth, async (req, res) => {
+    try {
+      const result = createScreenSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const screen = await storage.createScreen({ ...result.data, userId: req.user!.id });
+      res.status(201).json(screen);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save screen" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/screens/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = updateScreenSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const existing = await storage.getScreen(id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Screen not found" });
+      }
+
+      const screen = await storage.updateScreen(id, result.data);
+      res.json(screen);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update screen" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/screens/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const screen = await storage.getScreen(id);
+      if (!screen || screen.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Screen not found" });
+      }
+
+      await storage.deleteScreen(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete screen" });
+    }
+  });
+
+  // Run a saved screen now; the result is kept on the screen
+  app.post(`${apiPrefix}/screens/:id/run`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const screen = await storage.getScreen(id);
+      if (!screen || screen.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Screen not found" });
+      }
+
+      const updated = await screenScheduler.run(screen);
+      if (!updated) {
+        return res.status(404).json({ message: "Screen not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Screen run error:", error);
+      res.status(500).json({ message: "Failed to run screen" });
+    }
+  });
+
+  // Market news endpoint
+  app.get(`${apiPrefix}/market/news`, async (req, res) => {
+    try {
+      // Use a fixed list of popular stocks since trendingStocks might not be available
+      const symbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META'];
+      
+      // Fetch news for these popular stocks
+      const newsPromises = symbols.map(symbol => marketDataCache.news(symbol));
+      const newsResults = (await Promise.all(newsPromises)).map(cached => cached.value);
+      
+      // Transform to Alpha Vantage format
+      const transformedNews = {
+        feed: newsResults.flatMap((items, index) => {
+          const symbol = symbols[index];
+          return items.slice(0, 2).map(item => ({
+            title: item.title || `Market News for ${symbol}`,
+            summary: item.summary || 'Market updates and financial news',
+            url: item.url || 'https://finance.yahoo.com',
+            banner_image: item.thumbnail || '',
+            source: item.publisher || 'Yahoo Finance',
+            source_domain: 'finance.yahoo.com',
+            time_published: item.publishedAt.toISOString(),
+            topics: [{ 
+              topic: symbol, 
+              relevance_score: "1.0" 
+            }]
+          }));
+        })
+      };
+      
+      res.json(transformedNews);
+    } catch (error) {
+      console.error("News error:", error);
+      
+      // If Yahoo Finance news failed, return some default format to keep the UI working
+      const defaultNews = {
+        feed: [
+          {
+            title: "Markets Today: Wizarding Finance Update",
+            summary: "The market is experiencing changes as various magical companies adjust to the new economic climate.",
+            url: "https://finance.yahoo.com",
+            source: "Magic Financial Times",
+            source_domain: "finance.yahoo.com",
+            time_published: new Date().toISOString(),
+            topics: [{ topic: "Markets", relevance_score: "1.0" }]
+          }
+        ]
+      };
+      
+      res.json(defaultNews);
+    }
+  });
+  
+  // Market data cache administration
+  app.get(`${apiPrefix}/admin/cache`, requireAdmin, (req, res) => {
+    res.json(marketDataCache.stats());
+  });
+
+  app.delete(`${apiPrefix}/admin/cache`, requireAdmin, (req, res) => {
+    const namespace = req.query.namespace as string | undefined;
+    const removed = marketDataCache.flush(namespace);
+    res.json({ removed });
+  });
+
+  // Fantasy token endpoints
+  app.get(`${apiPrefix}/fantasy-tokens`, async (req, res) => {
+    try {
+      const tokens = await storage.getFantasyTokens();
+      const summaries: FantasyTokenSummary[] = await Promise.all(tokens.map(summarizeFantasyToken));
+      res.json(summaries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch fantasy tokens" });
+    }
+  });
+
+  // Issues a new token; the creator receives the initial supply less the share seeding its pool
+  app.post(`${apiPrefix}/fantasy-tokens`, requireAuth, async (req, res) => {
+    try {
+      const result = createFantasyTokenSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const { poolShare, ...tokenData } = result.data;
+      // Pegged tokens are issued at their reference price rather than the one asked for
+      if (tokenData.pegMultiplier) {
+        const { value: quote } = await marketDataCache.quote(tokenData.baseStock!);
+        if (!quote) {
+          return res.status(400).json({ message: `No quote for ${tokenData.baseStock}` });
+        }
+        tokenData.issuePrice = String(quote.price * Number(tokenData.pegMultiplier));
+      }
+
+      const poolSupply = Number(tokenData.totalSupply) * poolShare / 100;
+      const token = await storage.createFantasyToken({ ...tokenData, creatorId: req.user!.id }, poolSupply);
+      if (!token) {
+        return res.status(409).json({ message: "Token symbol already exists" });
+      }
+      await tokenChain.sync();
+
+      res.status(201).json(await summarizeFantasyToken(tokenChain.deployed(token)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create fantasy token" });
+    }
+  });
+
+  // Pegs a token to its base stock, or unpegs it; pegged pools move to the reference price straight away
+  app.patch(`${apiPrefix}/fantasy-tokens/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = updateFantasyTokenSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+      if (token.creatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the token's creator can change its peg" });
+      }
+      if (result.data.pegMultiplier && !token.baseStock) {
+        return res.status(400).json({ message: "Pegged tokens need a base stock" });
+      }
+
+      const updated = await storage.updateFantasyToken(id, result.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+      await pegRebalancer.repeg(updated);
+
+      res.json(await summarizeFantasyToken(updated));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update fantasy token" });
+    }
+  });
+
+  app.get(`${apiPrefix}/fantasy-tokens/:id`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+
+      res.json(await summarizeFantasyToken(token));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch fantasy token" });
+    }
+  });
+
+  app.get(`${apiPrefix}/fantasy-tokens/:id/holders`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+
+      const balances = await storage.getFantasyTokenHolders(id);
+      const usernames = await lookupUsernames(balances.map(balance => balance.userId));
+      const totalSupply = Number(token.totalSupply);
+      const holders: TokenHolder[] = balances.map(balance => ({
+        userId: balance.userId,
+        username: usernames.get(balance.userId)!,
+        balance: Number(balance.balance),
+        share: totalSupply > 0 ? Number(balance.balance) / totalSupply * 100 : 0,
+      }));
+      res.json(holders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch token holders" });
+    }
+  });
+
+  // Token ledger, newest first
+  app.get(`${apiPrefix}/fantasy-tokens/:id/transactions`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+
+      res.json(await describeTokenTransfers(await storage.getFantasyTokenTransfers(id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch token transactions" });
+    }
+  });
+
+  app.post(`${apiPrefix}/fantasy-tokens/:id/transfer`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = tokenTransferSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+      const recipient = await storage.getUserByUsername(result.data.toUsername);
+      if (!recipient) {
+        return res.status(404).json({ message: "Recipient not found" });
+      }
+
+      const recorded = await storage.recordFantasyTokenTransfer({
+        tokenId: id,
+        type: "transfer",
+        fromUserId: req.user!.id,
+        toUserId: recipient.id,
+        amount: result.data.amount,
+      });
+      if ("rejectReason" in recorded) {
+        return res.status(400).json({ message: recorded.rejectReason });
+      }
+      await tokenChain.sync();
+
+      const [entry] = await describeTokenTransfers([tokenChain.mined(recorded.transfer)]);
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to transfer tokens" });
+    }
+  });
+
+  // Only the creator can add to a token's supply; new tokens go to their balance
+  app.post(`${apiPrefix}/fantasy-tokens/:id/mint`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = tokenSupplyChangeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+      if (token.creatorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the token's creator can mint it" });
+      }
+
+      const recorded = await storage.recordFantasyTokenTransfer({
+        tokenId: id,
+        type: "mint",
+        toUserId: req.user!.id,
+        amount: result.data.amount,
+      });
+      if ("rejectReason" in recorded) {
+        return res.status(400).json({ message: recorded.rejectReason });
+      }
+      await tokenChain.sync();
+
+      const [entry] = await describeTokenTransfers([tokenChain.mined(recorded.transfer)]);
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mint tokens" });
+    }
+  });
+
+  // Any holder can burn tokens from their own balance
+  app.post(`${apiPrefix}/fantasy-tokens/:id/burn`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = tokenSupplyChangeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+
+      const recorded = await storage.recordFantasyTokenTransfer({
+        tokenId: id,
+        type: "burn",
+        fromUserId: req.user!.id,
+        amount: result.data.amount,
+      });
+      if ("rejectReason" in recorded) {
+        return res.status(400).json({ message: recorded.rejectReason });
+      }
+      await tokenChain.sync();
+
+      const [entry] = await describeTokenTransfers([tokenChain.mined(recorded.transfer)]);
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to burn tokens" });
+    }
+  });
+
+  // Prices a trade with the token's pool without making it
+  app.get(`${apiPrefix}/fantasy-tokens/:id/quote`, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = tokenQuoteQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+      const pool = await storage.getFantasyTokenPool(id);
+      if (!pool) {
+        return res.status(409).json({ message: "This token has no pool to trade with" });
+      }
+
+      const plan = quoteTrade(poolReserves(pool), result.data.side, result.data.amount);
+      if ("rejectReason" in plan) {
+        return res.status(400).json({ message: plan.rejectReason });
+      }
+
+      const quote: TokenTradeQuote = plan.quote;
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to quote trade" });
+    }
+  });
+
+  // Trades with the token's pool, settled in paper trading cash; refused if the price
+  // moved past the slippage limit since the quote
+  app.post(`${apiPrefix}/fantasy-tokens/:id/trade`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = tokenTradeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+      if (!await storage.getFantasyTokenPool(id)) {
+        return res.status(409).json({ message: "This token has no pool to trade with" });
+      }
+
+      // Both sides settle in cash: the trader's payment or proceeds and the creator's fee
+      await tradingEngine.getAccount(req.user!.id);
+      await tradingEngine.getAccount(token.creatorId);
+
+      const traded = await storage.tradeFantasyToken(id, req.user!.id, result.data);
+      if ("rejectReason" in traded) {
+        return res.status(400).json({ message: traded.rejectReason });
+      }
+      await tokenChain.sync();
+
+      const trade: TokenTrade = {
+        id: traded.trade.id,
+        side: traded.trade.side,
+        amount: Number(traded.trade.amount),
+        cash: Number(traded.trade.cash),
+        fee: Number(traded.trade.fee),
+        price: Number(traded.trade.price),
+        txHash: tokenChain.mined(traded.transfer).txHash,
+        createdAt: traded.trade.createdAt.toISOString(),
+      };
+      res.status(201).json(trade);
+    } catch (error) {
+      console.error("Fantasy token trade error:", error);
+      res.status(500).json({ message: "Failed to trade tokens" });
+    }
+  });
+
+  // The session user's balance of the token and the cash they can trade it with
+  app.get(`${apiPrefix}/fantasy-tokens/:id/position`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const token = await storage.getFantasyToken(id);
+      if (!token) {
+        return res.status(404).json({ message: "Fantasy token not found" });
+      }
+
+      const [balance, account] = await Promise.all([
+        storage.getFantasyTokenBalance(id, req.user!.id),
+        tradingEngine.getAccount(req.user!.id),
+      ]);
+      const position: TokenPosition = { balance, cash: Number(account.cash) };
+      res.json(position);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch token position" });
+    }
+  });
+
+  // Simulated chain endpoints
+  // A transaction and its receipt; token deployments and ledger entries link here by hash
+  app.get(`${apiPrefix}/chain/tx/:hash`, async (req, res) => {
+    try {
+      const hash = req.params.hash.toLowerCase();
+      if (!/^0x[0-9a-f]{64}$/.test(hash)) {
+        return res.status(400).json({ message: "Invalid transaction hash" });
+      }
+
+      const detail: TransactionDetail | undefined = tokenChain.getTransaction(hash);
+      if (!detail) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      res.json(detail);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transaction" });
+    }
+  });
+
+  // Fantasy league endpoints
+  app.get(`${apiPrefix}/leagues`, requireAuth, async (req, res) => {
+    try {
+      const leagues = await storage.getFantasyLeagues();
+      const summaries = await Promise.all(leagues.map(league => summarizeFantasyLeague(league, req.user!.id)));
+      res.json(summaries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch leagues" });
+    }
+  });
+
+  // Seasons start on a later day so teams have time to join and draft
+  app.post(`${apiPrefix}/leagues`, requireAuth, async (req, res) => {
+    try {
+      const result = createFantasyLeagueSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+      if (result.data.seasonStart <= new Date()) {
+        return res.status(400).json({ message: "Season must start after today" });
+      }
+
+      const league = await storage.createFantasyLeague({ ...result.data, creatorId: req.user!.id });
+      res.status(201).json(await summarizeFantasyLeague(league, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create league" });
+    }
+  });
+
+  app.get(`${apiPrefix}/leagues/:id`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const league = await storage.getFantasyLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      res.json(await describeFantasyLeague(league, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch league" });
+    }
+  });
+
+  app.post(`${apiPrefix}/leagues/:id/join`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = joinFantasyLeagueSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const league = await storage.getFantasyLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+      if (leagueStatus(league, new Date()) !== "upcoming") {
+        return res.status(409).json({ message: "The season has already started" });
+      }
+
+      const team = await storage.createFantasyLeagueTeam({ leagueId: id, userId: req.user!.id, name: result.data.name });
+      if (!team) {
+        return res.status(409).json({ message: "You have already joined this league" });
+      }
+
+      res.status(201).json(describeLeagueTeam(team, [], req.user!.username, true));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to join league" });
+    }
+  });
+
+  // Drafts the session user's whole roster at current prices, replacing any earlier draft
+  app.put(`${apiPrefix}/leagues/:id/roster`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const result = draftRosterSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid request body", errors: result.error.format() });
+      }
+
+      const league = await storage.getFantasyLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+      const team = (await storage.getFantasyLeagueTeams(id)).find(candidate => candidate.userId === req.user!.id);
+      if (!team) {
+        return res.status(404).json({ message: "You haven't joined this league" });
+      }
+      if (leagueStatus(league, new Date()) !== "upcoming") {
+        return res.status(409).json({ message: "Rosters are locked once the season starts" });
+      }
+
+      const tooBig = rosterSizeRejection(league, result.data.picks.length);
+      if (tooBig) {
+        return res.status(400).json({ message: tooBig });
+      }
+
+      const tokens = result.data.picks.some(pick => pick.assetType === "token") ? await storage.getFantasyTokens() : [];
+      const salaries = await Promise.all(result.data.picks.map(pick => priceRosterPick(pick.assetType, pick.symbol, tokens)));
+      const unpriced = result.data.picks.find((_, i) => salaries[i] === undefined);
+      if (unpriced) {
+        return res.status(400).json({
+          message: unpriced.assetType === "stock" ? `No quote for ${unpriced.symbol}` : `No fantasy token ${unpriced.symbol}`,
+        });
+      }
+
+      const plan = planRoster(league, result.data.picks.map((pick, i) => ({ ...pick, salary: String(salaries[i]) })));
+      if ("rejectReason" in plan) {
+        return res.status(400).json({ message: plan.rejectReason });
+      }
+
+      const picks = await storage.setFantasyRoster(team.id, plan.picks);
+      res.json(describeLeagueTeam(team, picks, req.user!.username, true));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to draft roster" });
+    }
+  });
+
+  // Standings at the latest scored close, with each team's return through the season
+  app.get(`${apiPrefix}/leagues/:id/standings`, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const league = await storage.getFantasyLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const [teams, scores] = await Promise.all([
+        storage.getFantasyLeagueTeams(id),
+        storage.getFantasyLeagueScores(id),
+      ]);
+      const usernames = await lookupUsernames(teams.map(team => team.userId));
+      const days = Array.from(new Set(scores.map(score => score.day)));
+      const asOf = days[days.length - 1] ?? null;
+      const previousDay = days[days.length - 2];
+
+      const standings: LeagueStanding[] = teams.map(team => {
+        const latest = scores.find(score => score.teamId === team.id && score.day === asOf);
+        const previous = scores.find(score => score.teamId === team.id && score.day === previousDay);
+        return {
+          teamId: team.id,
+          teamName: team.name,
+          username: usernames.get(team.userId)!,
+          rank: latest?.rank ?? null,
+          previousRank: previous?.rank ?? null,
+          returnPercent: latest ? Number(latest.returnPercent) : null,
+        };
+      }).sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.teamName.localeCompare(b.teamName));
+
+      const history = new Map(days.map(day => [day, {} as Record<number, number>]));
+      scores.forEach(score => { history.get(score.day)![score.teamId] = Number(score.returnPercent); });
+
+      const leaderboard: LeagueLeaderboard = {
+        asOf,
+        standings,
+        history: days.map(day => ({ day, returns: history.get(day)! })),
+      };
+      res.json(leaderboard);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch standings" });
+    }
   });
 
   // Create HTTP server
@@ -0,0 +1,262 @@
+import type { Express } from "express";
+import { z } from "zod";
+import type { Quote as ProviderQuote, Bar as ProviderBar, NewsItem as ProviderNewsItem } from "./marketData";
+import { marketDataCache, type Cached } from "./marketDataCache";
+import { computeIndicator, indicatorDefinitions, indicatorId, indicatorLabel, indicatorWarmup } from "@shared/indicators";
+import {
+  barsQuerySchema,
+  indicatorsQuerySchema,
+  rangeStart,
+  type BarInterval,
+  type BarRange,
+  type Quote,
+  type Bar,
+  type NewsItem,
+  type CacheInfo,
+  type QuoteResponse,
+  type QuotesResponse,
+  type BarsResponse,
+  type SearchResponse,
+  type NewsResponse,
+  type IndicatorsResponse,
+} from "@shared/marketData";
+
+// Maximum number of symbols accepted by the batch endpoints
+const MAX_BATCH_SYMBOLS = 50;
+
+// Symbols used for the market news feed when none are requested
+const DEFAULT_NEWS_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "META"];
+
+// Lookback used by the bars endpoint when neither `range` nor `from` is given
+const DEFAULT_RANGES: Record<BarInterval, BarRange> = {
+  "5m": "5d",
+  "15m": "5d",
+  "60m": "1mo",
+  "1d": "1y",
+  "1wk": "5y",
+  "1mo": "max",
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Rough calendar time covered by one bar, allowing for nights, weekends and
+// holidays; used to load enough history to warm indicators up
+const CALENDAR_MS_PER_BAR: Record<BarInterval, number> = {
+  "5m": 30 * MINUTE_MS,
+  "15m": 90 * MINUTE_MS,
+  "60m": 6 * 60 * MINUTE_MS,
+  "1d": 1.6 * DAY_MS,
+  "1wk": 7 * DAY_MS,
+  "1mo": 31 * DAY_MS,
+};
+
+const INTRADAY_INTERVALS: BarInterval[] = ["5m", "15m", "60m"];
+
+const symbolListSchema = z
+  .string({ required_error: "Query parameter symbols is required" })
+  .transform(value => Array.from(new Set(
+    value.split(",").map(symbol => symbol.trim().toUpperCase()).filter(Boolean)
+  )))
+  .pipe(z.array(z.string())
+    .min(1, "Query parameter symbols is required")
+    .max(MAX_BATCH_SYMBOLS, `At most ${MAX_BATCH_SYMBOLS} symbols can be requested at once`));
+
+const searchQuerySchema = z.object({
+  q: z.string({ required_error: "Query parameter q is required" }).trim().min(1, "Query parameter q is required"),
+});
+
+function toCacheInfo(cached: Cached<unknown>): CacheInfo {
+  return { cachedAt: cached.cachedAt.toISOString(), stale: cached.stale };
+}
+
+function toQuote(quote: ProviderQuote): Quote {
+  return { ...quote, marketTime: quote.marketTime.toISOString() };
+}
+
+function toBar({ date, ...bar }: ProviderBar): Bar {
+  return { time: date.toISOString(), ...bar };
+}
+
+function toNewsItem(item: ProviderNewsItem): NewsItem {
+  return { ...item, publishedAt: item.publishedAt.toISOString() };
+}
+
+// Normalized market data API: numeric camelCase fields instead of the
+// Alpha Vantage style strings served under /api/stocks
+export function registerV2Routes(app: Express) {
+  const apiPrefix = "/api/v2";
+
+  // Single quote: /api/v2/quotes/AAPL
+  app.get(`${apiPrefix}/quotes/:symbol`, async (req, res) => {
+    try {
+      const cached = await marketDataCache.quote(req.params.symbol);
+      if (!cached.value) {
+        return res.status(404).json({ message: "Stock not found" });
+      }
+
+      const response: QuoteResponse = { quote: toQuote(cached.value), ...toCacheInfo(cached) };
+      res.json(response);
+    } catch (error) {
+      console.error("Quote error:", error);
+      res.status(500).json({ message: "Failed to fetch stock quote" });
+    }
+  });
+
+  // Batch quotes: /api/v2/quotes?symbols=AAPL,MSFT
+  app.get(`${apiPrefix}/quotes`, async (req, res) => {
+    const result = symbolListSchema.safeParse(req.query.symbols);
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.issues[0].message, errors: result.error.format() });
+    }
+
+    const symbols = result.data;
+    const response: QuotesResponse = { quotes: {}, errors: {} };
+
+    try {
+      const results = await marketDataCache.quotes(symbols);
+      for (const symbol of symbols) {
+        const cached = results.get(symbol);
+        if (!cached) {
+          response.errors[symbol] = "Stock not found";
+          continue;
+        }
+
+        response.quotes[symbol] = toQuote(cached.value);
+        // Report the oldest entry served, and stale if any entry was
+        if (!response.cachedAt || cached.cachedAt.toISOString() < response.cachedAt) {
+          response.cachedAt = cached.cachedAt.toISOString();
+        }
+        response.stale = (response.stale ?? false) || cached.stale;
+      }
+    } catch (error) {
+      console.error("Batch quote error:", error);
+      for (const symbol of symbols) {
+        response.errors[symbol] = "Failed to fetch stock quote";
+      }
+    }
+
+    res.json(response);
+  });
+
+  // Price bars: /api/v2/bars/AAPL?interval=1d&range=3mo (or &from=...&to=...)
+  app.get(`${apiPrefix}/bars/:symbol`, async (req, res) => {
+    const result = barsQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+    }
+
+    try {
+      const { interval, range, from, to = new Date() } = result.data;
+      const cached = await marketDataCache.history(req.params.symbol, {
+        from: from || rangeStart(range || DEFAULT_RANGES[interval], to),
+        to,
+        interval,
+      });
+
+      const response: BarsResponse = {
+        symbol: req.params.symbol.toUpperCase(),
+        interval,
+        source: marketDataCache.providerName,
+        bars: cached.value.map(toBar),
+        ...toCacheInfo(cached),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Bars error:", error);
+      res.status(500).json({ message: "Failed to fetch price bars" });
+    }
+  });
+
+  // Indicator series: /api/v2/indicators/AAPL?interval=1d&range=1y&indicators=sma:50,rsi:14,macd
+  app.get(`${apiPrefix}/indicators/:symbol`, async (req, res) => {
+    const result = indicatorsQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid query parameters", errors: result.error.format() });
+    }
+
+    try {
+      const { interval, range, from: requestedFrom, to = new Date(), indicators } = result.data;
+      const from = requestedFrom || rangeStart(range || DEFAULT_RANGES[interval], to);
+      const warmup = Math.max(...indicators.map(indicatorWarmup));
+      // A week of slack covers long weekends and holidays
+      const loadFrom = warmup > 0
+        ? new Date(Math.max(0, from.getTime() - warmup * CALENDAR_MS_PER_BAR[interval] - 7 * DAY_MS))
+        : from;
+
+      const cached = await marketDataCache.history(req.params.symbol, { from: loadFrom, to, interval });
+      const bars = cached.value.map(toBar);
+      const intraday = INTRADAY_INTERVALS.includes(interval);
+      const first = bars.findIndex(bar => bar.time >= from.toISOString());
+      const start = first === -1 ? bars.length : first;
+
+      const response: IndicatorsResponse = {
+        symbol: req.params.symbol.toUpperCase(),
+        interval,
+        source: marketDataCache.providerName,
+        times: bars.slice(start).map(bar => bar.time),
+        indicators: indicators.map(spec => {
+          const series = computeIndicator(spec, bars, intraday);
+          return {
+            id: indicatorId(spec),
+            name: spec.name,
+            label: indicatorLabel(spec),
+            params: spec.params,
+            placement: indicatorDefinitions[spec.name].placement,
+            series: Object.fromEntries(Object.entries(series).map(([line, values]) => [line, values.slice(start)])),
+          };
+        }),
+        ...toCacheInfo(cached),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Indicators error:", error);
+      res.status(500).json({ message: "Failed to compute indicators" });
+    }
+  });
+
+  // Symbol search: /api/v2/search?q=apple
+  app.get(`${apiPrefix}/search`, async (req, res) => {
+    const result = searchQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Query parameter q is required", errors: result.error.format() });
+    }
+
+    try {
+      const cached = await marketDataCache.search(result.data.q);
+      const response: SearchResponse = { results: cached.value, ...toCacheInfo(cached) };
+      res.json(response);
+    } catch (error) {
+      console.error("Search error:", error);
+      res.status(500).json({ message: "Failed to search stocks" });
+    }
+  });
+
+  // News for a list of symbols, newest first: /api/v2/news?symbols=AAPL,MSFT
+  app.get(`${apiPrefix}/news`, async (req, res) => {
+    const result = symbolListSchema.safeParse(req.query.symbols ?? DEFAULT_NEWS_SYMBOLS.join(","));
+    if (!result.success) {
+      return res.status(400).json({ message: result.error.issues[0].message, errors: result.error.format() });
+    }
+
+    try {
+      const results = await Promise.all(result.data.map(symbol => marketDataCache.news(symbol)));
+
+      // The same story is often returned for several related symbols
+      const byUrl = new Map<string, NewsItem>();
+      for (const item of results.flatMap(cached => cached.value)) {
+        if (!byUrl.has(item.url)) {
+          byUrl.set(item.url, toNewsItem(item));
+        }
+      }
+
+      const response: NewsResponse = {
+        items: Array.from(byUrl.values()).sort((a, b) => b.publishedAt.localeCompare(a.publishedAt)),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("News error:", error);
+      res.status(500).json({ message: "Failed to fetch market news" });
+    }
+  });
+}
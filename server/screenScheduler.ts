@@ -0,0 +1,92 @@
+import type { Screen, ScreenSchedule } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import { resolveUniverse, runScreen } from "./screener";
+
+// How often scheduled screens are checked for being due
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+const SCHEDULE_INTERVAL_MS: Record<Exclude<ScreenSchedule, "manual">, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+// Symbols listed in a match notification before the rest are summarised
+const NOTIFY_SYMBOLS = 5;
+
+export function isScreenDue(screen: Screen, now: Date): boolean {
+  if (screen.schedule === "manual") return false;
+  if (!screen.lastRunAt) return true;
+  return now.getTime() - screen.lastRunAt.getTime() >= SCHEDULE_INTERVAL_MS[screen.schedule];
+}
+
+// Re-runs saved screens on their schedule and tells the owner, through the
+// notification center, about symbols that have started matching since the last run
+export class ScreenScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private storage: IStorage, private marketData: MarketDataCache) {}
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Screen scheduler error:", error));
+    }, intervalMs);
+    // Don't keep the process alive just for the schedule
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = (await this.storage.getScheduledScreens()).filter(screen => isScreenDue(screen, now));
+      for (const screen of due) {
+        try {
+          await this.runScheduled(screen, now);
+        } catch (error) {
+          console.error(`Screen ${screen.id} run error:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Run a saved screen now and keep its result for the screener page
+  async run(screen: Screen, now: Date = new Date()): Promise<Screen | undefined> {
+    const symbols = await resolveUniverse(screen.criteria, screen.userId, this.storage);
+    const result = await runScreen(screen.criteria, symbols, this.marketData, now);
+    return this.storage.recordScreenRun(screen.id, result);
+  }
+
+  private async runScheduled(screen: Screen, now: Date) {
+    const previous = new Set(screen.lastResult?.rows.map(row => row.symbol));
+    const updated = await this.run(screen, now);
+    // Deleted while it was running
+    if (!updated?.lastResult) return;
+
+    const added = updated.lastResult.rows.map(row => row.symbol).filter(symbol => !previous.has(symbol));
+    if (added.length === 0) return;
+
+    const listed = added.slice(0, NOTIFY_SYMBOLS).join(", ");
+    const more = added.length > NOTIFY_SYMBOLS ? ` and ${added.length - NOTIFY_SYMBOLS} more` : "";
+    await this.storage.createNotification({
+      userId: screen.userId,
+      alertId: null,
+      title: `Screen "${screen.name}"`,
+      message: `${added.length === 1 ? "New match" : `${added.length} new matches`}: ${listed}${more}`,
+      createdAt: now,
+    });
+  }
+}
+
+export const screenScheduler = new ScreenScheduler(storage, marketDataCache);
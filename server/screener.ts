@@ -0,0 +1,173 @@
+import {
+  computeIndicator,
+  indicatorDefinitions,
+  indicatorWarmup,
+  type IndicatorBar,
+} from "@shared/indicators";
+import { indicatorSpecSchema } from "@shared/marketData";
+import {
+  MAX_UNIVERSE_SYMBOLS,
+  popularSymbols,
+  type ScreenCriteria,
+  type ScreenerFilter,
+  type ScreenerResult,
+  type ScreenerRow,
+} from "@shared/screener";
+import type { IStorage } from "./storage";
+import type { MarketDataCache } from "./marketDataCache";
+import type { Bar, Quote } from "./marketData";
+import { buildLedger } from "./ledger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily sessions in a 52-week range
+const YEAR_SESSIONS = 252;
+
+// Symbols whose profile and history are loaded at the same time
+const CONCURRENCY = 5;
+
+type IndicatorFilter = Extract<ScreenerFilter, { type: "indicator" }>;
+
+// Key of an indicator line in ScreenerRow.indicators, e.g. "rsi:14" or "macd:12:26:9.signal"
+export function indicatorKey(filter: Pick<IndicatorFilter, "indicator" | "line">): string {
+  return filter.line ? `${filter.indicator}.${filter.line}` : filter.indicator;
+}
+
+// Symbols a screen runs over, deduplicated and capped at MAX_UNIVERSE_SYMBOLS
+export async function resolveUniverse(criteria: ScreenCriteria, userId: number, storage: IStorage): Promise<string[]> {
+  let symbols: string[];
+  switch (criteria.universe) {
+    case "popular":
+      symbols = popularSymbols;
+      break;
+    case "watchlist":
+      symbols = (await storage.getWatchlistStocks(userId)).map(stock => stock.symbol);
+      break;
+    case "portfolio":
+      // Open positions don't depend on the cost basis method
+      symbols = buildLedger(await storage.getTransactions(userId), "fifo").positions.map(position => position.symbol);
+      break;
+    case "custom":
+      symbols = criteria.symbols || [];
+      break;
+  }
+
+  return Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).slice(0, MAX_UNIVERSE_SYMBOLS);
+}
+
+// Latest value of each indicator line the filters use
+function latestIndicatorValues(filters: IndicatorFilter[], bars: Bar[]): Record<string, number | null> {
+  const indicatorBars: IndicatorBar[] = bars.map(bar => ({ ...bar, time: bar.date.toISOString() }));
+  const values: Record<string, number | null> = {};
+
+  for (const filter of filters) {
+    const spec = indicatorSpecSchema.parse(filter.indicator);
+    const series = computeIndicator(spec, indicatorBars);
+    const line = filter.line || indicatorDefinitions[spec.name].lines[0];
+    values[indicatorKey(filter)] = series[line]?.at(-1) ?? null;
+  }
+
+  return values;
+}
+
+async function buildRow(
+  quote: Quote,
+  marketData: MarketDataCache,
+  indicatorFilters: IndicatorFilter[],
+  historyFrom: Date,
+  now: Date,
+): Promise<ScreenerRow> {
+  // A missing profile or history leaves those columns empty rather than failing the screen
+  const [profile, bars] = await Promise.all([
+    marketData.profile(quote.symbol).then(cached => cached.value).catch(() => undefined),
+    marketData.history(quote.symbol, { from: historyFrom, to: now, interval: "1d" })
+      .then(cached => cached.value)
+      .catch(() => [] as Bar[]),
+  ]);
+
+  const year = bars.slice(-YEAR_SESSIONS);
+  const fiftyTwoWeekHigh = year.length > 0 ? Math.max(quote.high, ...year.map(bar => bar.high)) : null;
+  const fiftyTwoWeekLow = year.length > 0 ? Math.min(quote.low || Infinity, ...year.map(bar => bar.low)) : null;
+  const rangePosition = fiftyTwoWeekHigh !== null && fiftyTwoWeekLow !== null && fiftyTwoWeekHigh > fiftyTwoWeekLow
+    ? ((quote.price - fiftyTwoWeekLow) / (fiftyTwoWeekHigh - fiftyTwoWeekLow)) * 100
+    : null;
+
+  return {
+    symbol: quote.symbol,
+    name: profile?.name || quote.name,
+    price: quote.price,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    volume: quote.volume,
+    marketCap: profile?.marketCap ?? null,
+    peRatio: profile?.peRatio ?? null,
+    sector: profile?.sector ?? null,
+    industry: profile?.industry ?? null,
+    fiftyTwoWeekHigh,
+    fiftyTwoWeekLow,
+    rangePosition,
+    indicators: latestIndicatorValues(indicatorFilters, bars),
+  };
+}
+
+export function matchesFilter(row: ScreenerRow, filter: ScreenerFilter): boolean {
+  switch (filter.type) {
+    case "range": {
+      const value = row[filter.field];
+      if (value === null) return false;
+      return (filter.min === undefined || value >= filter.min) && (filter.max === undefined || value <= filter.max);
+    }
+    case "sector":
+      return row.sector !== null && (filter.sectors as string[]).includes(row.sector);
+    case "indicator": {
+      const value = row.indicators[indicatorKey(filter)];
+      if (value === null || value === undefined) return false;
+
+      const target = filter.value === "price" ? row.price : filter.value;
+      return filter.operator === "above" ? value > target : value < target;
+    }
+  }
+}
+
+// Quote every symbol, keep those that pass all filters and sort them.
+// Symbols without a value for the sort field go last.
+export async function runScreen(
+  criteria: ScreenCriteria,
+  symbols: string[],
+  marketData: MarketDataCache,
+  now: Date = new Date(),
+): Promise<ScreenerResult> {
+  const indicatorFilters = criteria.filters.filter((filter): filter is IndicatorFilter => filter.type === "indicator");
+
+  // Load a year of daily bars, or more when an indicator needs a longer warm-up
+  const warmup = Math.max(0, ...indicatorFilters.map(filter => indicatorWarmup(indicatorSpecSchema.parse(filter.indicator))));
+  const historyDays = Math.max(366, Math.ceil(warmup * 1.5) + 10);
+  const historyFrom = new Date(now.getTime() - historyDays * DAY_MS);
+
+  const quotes = await marketData.quotes(symbols);
+  const unavailable = symbols.filter(symbol => !quotes.has(symbol));
+  const quoted = symbols.filter(symbol => quotes.has(symbol)).map(symbol => quotes.get(symbol)!.value);
+
+  const rows: ScreenerRow[] = [];
+  for (let i = 0; i < quoted.length; i += CONCURRENCY) {
+    const batch = quoted.slice(i, i + CONCURRENCY);
+    rows.push(...await Promise.all(batch.map(quote => buildRow(quote, marketData, indicatorFilters, historyFrom, now))));
+  }
+
+  const matched = rows.filter(row => criteria.filters.every(filter => matchesFilter(row, filter)));
+  const direction = criteria.sortDirection === "asc" ? 1 : -1;
+  matched.sort((a, b) => {
+    const x = a[criteria.sortBy];
+    const y = b[criteria.sortBy];
+    if (x === null || y === null) return x === null ? (y === null ? 0 : 1) : -1;
+    return (x - y) * direction;
+  });
+
+  return {
+    ranAt: now.toISOString(),
+    universeSize: symbols.length,
+    matched: matched.length,
+    rows: matched.slice(0, criteria.limit),
+    unavailable,
+  };
+}
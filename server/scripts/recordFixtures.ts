@@ -0,0 +1,96 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import {
+  YahooMarketDataProvider,
+  type Bar,
+  type BarInterval,
+  type MarketDataFixture,
+} from "../marketData";
+
+// Records live Yahoo Finance data into fixture files for the fixture provider.
+// Usage: npm run fixtures:record -- AAPL MSFT ^GSPC
+const defaultSymbols = [
+  "AAPL", "MSFT", "TSLA", "AMZN", "GOOG", "GOOGL", "NFLX", "JPM", "DIS",
+  "META", "NVDA", "AMD", "^GSPC", "^IXIC", "^DJI", "^RUT", "^TNX", "^VIX",
+];
+
+const outputDir = process.env.MARKET_DATA_FIXTURES_DIR || path.resolve(process.cwd(), "fixtures", "market-data");
+
+function toFixtureBars(bars: Bar[]) {
+  return bars.map(bar => [
+    bar.date.toISOString(),
+    bar.open,
+    bar.high,
+    bar.low,
+    bar.close,
+    bar.volume,
+  ] as [string, number, number, number, number, number]);
+}
+
+// Pretty-print the fixture but keep each bar on a single line
+function formatFixture(fixture: MarketDataFixture): string {
+  const { bars, ...rest } = fixture;
+  const json = JSON.stringify({ ...rest, bars: {} }, null, 2);
+  const intervals = Object.entries(bars).map(([interval, rows]) =>
+    `    "${interval}": [\n${(rows || []).map(row => `      ${JSON.stringify(row)}`).join(",\n")}\n    ]`,
+  );
+
+  return json.replace(`"bars": {}`, `"bars": {\n${intervals.join(",\n")}\n  }`) + "\n";
+}
+
+async function record(symbol: string, provider: YahooMarketDataProvider) {
+  const quote = await provider.quote(symbol);
+  if (!quote) {
+    throw new Error(`No quote returned for ${symbol}`);
+  }
+
+  const now = new Date();
+  const twoYearsAgo = new Date(now);
+  twoYearsAgo.setFullYear(now.getFullYear() - 2);
+
+  // Yahoo serves 5 minute bars for recent sessions only; a week covers the latest session
+  const oneWeekAgo = new Date(now);
+  oneWeekAgo.setDate(now.getDate() - 7);
+
+  const bars: Partial<Record<BarInterval, ReturnType<typeof toFixtureBars>>> = {
+    "1d": toFixtureBars(await provider.history(symbol, { from: twoYearsAgo, to: now, interval: "1d" })),
+    "5m": toFixtureBars(await provider.history(symbol, { from: oneWeekAgo, to: now, interval: "5m" })),
+  };
+
+  const news = symbol.startsWith("^") ? [] : await provider.news(symbol);
+  const profile = symbol.startsWith("^") ? undefined : await provider.profile(symbol);
+  const financials = symbol.startsWith("^") ? [] : await provider.financials(symbol);
+
+  const fixture: MarketDataFixture = {
+    symbol,
+    recordedAt: now.toISOString(),
+    quote: { ...quote, marketTime: quote.marketTime.toISOString() },
+    bars,
+    news: news.slice(0, 5).map(item => ({ ...item, publishedAt: item.publishedAt.toISOString() })),
+    profile,
+    financials: financials.map(period => ({ ...period, periodEnd: period.periodEnd.toISOString() })),
+  };
+
+  await fs.promises.writeFile(
+    path.join(outputDir, `${symbol.toUpperCase()}.json`),
+    formatFixture(fixture),
+  );
+}
+
+(async () => {
+  const symbols = process.argv.slice(2).length > 0 ? process.argv.slice(2) : defaultSymbols;
+  const provider = new YahooMarketDataProvider();
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+
+  for (const symbol of symbols) {
+    try {
+      await record(symbol, provider);
+      console.log(`Recorded ${symbol}`);
+    } catch (error) {
+      console.error(`Failed to record ${symbol}:`, error);
+      process.exitCode = 1;
+    }
+  }
+})();
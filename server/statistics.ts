@@ -0,0 +1,52 @@
+// Summary statistics over daily return series, shared by the performance and risk analytics
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+// Sample covariance; the variance when both series are the same
+export function covariance(xs: number[], ys: number[]): number {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  return xs.reduce((total, x, i) => total + (x - meanX) * (ys[i] - meanY), 0) / (xs.length - 1);
+}
+
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(covariance(values, values));
+}
+
+// Pearson correlation; null when either series doesn't move
+export function correlation(xs: number[], ys: number[]): number | null {
+  const deviations = standardDeviation(xs) * standardDeviation(ys);
+  return deviations > 0 ? covariance(xs, ys) / deviations : null;
+}
+
+export function normalDensity(x: number): number {
+  return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+
+// Inverse of the standard normal distribution function (Acklam's rational
+// approximation, accurate to about 1e-9)
+export function normalQuantile(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
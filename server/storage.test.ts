@@ -0,0 +1,351 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DbStorage } from "./dbStorage";
+import type { Database } from "./db";
+import { poolReserves, quoteTrade } from "./amm";
+
+// The same contract runs against both backends. DbStorage gets an in-process Postgres
+// with the checked-in migrations applied; drizzle's PGlite driver has the same query
+// builder as node-postgres, so it stands in for the pool-backed database.
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage", async () => {
+    const storage = new DbStorage(drizzle(new PGlite(), { schema }) as unknown as Database);
+    await storage.initialize();
+    return storage;
+  }],
+];
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let userCount = 0;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60_000);
+
+  // Each test trades as its own user so tests don't see each other's data
+  async function openAccount(cash: number) {
+    const user = await storage.createUser({ username: `trader${++userCount}`, password: "hashed" });
+    await storage.createAccount({ userId: user.id, cash: String(cash), createdAt: new Date("2024-01-02T00:00:00Z") });
+    return user.id;
+  }
+
+  async function cashOf(userId: number) {
+    return Number((await storage.getAccount(userId))!.cash);
+  }
+
+  describe("seed data", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("leaves the demo login out of production without DEMO_PASSWORD", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+      vi.stubEnv("DEMO_PASSWORD", "");
+      const production = await createStorage();
+
+      expect(await production.getUserByUsername("demo")).toBeUndefined();
+      expect(await production.getMarketIndices()).toHaveLength(6);
+    }, 60_000);
+
+    it("seeds the demo login in production with DEMO_PASSWORD", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+      vi.stubEnv("DEMO_PASSWORD", "not-the-default");
+      const production = await createStorage();
+
+      const demo = await production.getUserByUsername("demo");
+      expect(demo).toBeDefined();
+      expect(demo!.password).not.toContain("not-the-default");
+      expect(await production.getAccount(demo!.id)).toBeDefined();
+    }, 60_000);
+  });
+
+  describe("market index history", () => {
+    it("reports when an index's newest point was recorded", async () => {
+      expect(await storage.getLatestMarketIndexTime("TEST INDEX")).toBeUndefined();
+
+      const recordedAt = [new Date("2024-01-02T14:35:00Z"), new Date("2024-01-02T14:40:00Z")];
+      await storage.recordMarketIndexHistory(recordedAt.map(time => ({ name: "TEST INDEX", value: "100", recordedAt: time })));
+      await storage.recordMarketIndexHistory([{ name: "OTHER INDEX", value: "5", recordedAt: new Date("2024-01-03T00:00:00Z") }]);
+
+      expect(await storage.getLatestMarketIndexTime("TEST INDEX")).toEqual(recordedAt[1]);
+    });
+  });
+
+  describe("accounts", () => {
+    it("records the opening balance as a deposit", async () => {
+      const userId = await openAccount(1000);
+
+      expect(await cashOf(userId)).toBe(1000);
+      const [deposit] = await storage.getTransactions(userId);
+      expect(deposit).toMatchObject({ userId, type: "deposit" });
+      expect(Number(deposit.amount)).toBe(1000);
+    });
+
+    it("keeps the first account when one is opened twice", async () => {
+      const userId = await openAccount(1000);
+      const again = await storage.createAccount({ userId, cash: "5", createdAt: new Date() });
+
+      expect(Number(again.cash)).toBe(1000);
+      expect(await storage.getTransactions(userId)).toHaveLength(1);
+    });
+
+    it("updates the cost basis method", async () => {
+      const userId = await openAccount(1000);
+
+      const updated = await storage.updateAccount(userId, { costBasisMethod: "lifo" });
+      expect(updated?.costBasisMethod).toBe("lifo");
+      expect(await storage.updateAccount(-1, { costBasisMethod: "lifo" })).toBeUndefined();
+    });
+  });
+
+  describe("transactions", () => {
+    it("moves cash for buys, sells and withdrawals", async () => {
+      const userId = await openAccount(1000);
+
+      const buy = await storage.recordTransaction({
+        userId, type: "buy", symbol: "AAPL", quantity: "4", price: "100", executedAt: new Date("2024-01-03T00:00:00Z"),
+      });
+      expect(buy).toHaveProperty("transaction.type", "buy");
+      await storage.recordTransaction({
+        userId, type: "sell", symbol: "AAPL", quantity: "1", price: "150", executedAt: new Date("2024-01-04T00:00:00Z"),
+      });
+      await storage.recordTransaction({ userId, type: "withdrawal", amount: "50", executedAt: new Date("2024-01-05T00:00:00Z") });
+
+      expect(await cashOf(userId)).toBe(700);
+      expect((await storage.getTransactions(userId)).map(t => t.type)).toEqual(["withdrawal", "sell", "buy", "deposit"]);
+    });
+
+    it("refuses entries the account can't cover and leaves cash alone", async () => {
+      const userId = await openAccount(100);
+
+      const overdrawn = await storage.recordTransaction({ userId, type: "withdrawal", amount: "150", executedAt: new Date() });
+      const shortSale = await storage.recordTransaction({
+        userId, type: "sell", symbol: "MSFT", quantity: "1", price: "10", executedAt: new Date(),
+      });
+
+      expect(overdrawn).toHaveProperty("rejectReason");
+      expect(shortSale).toHaveProperty("rejectReason");
+      expect(await cashOf(userId)).toBe(100);
+      expect(await storage.getTransactions(userId)).toHaveLength(1);
+    });
+
+    it("reverses the cash movement of a removed transaction", async () => {
+      const userId = await openAccount(100);
+      const result = await storage.recordTransaction({ userId, type: "fee", amount: "30", executedAt: new Date() });
+      if (!("transaction" in result)) throw new Error(result.rejectReason);
+
+      expect(await storage.removeTransaction(result.transaction.id)).toHaveProperty("transaction.id", result.transaction.id);
+      expect(await storage.getTransaction(result.transaction.id)).toBeUndefined();
+      expect(await cashOf(userId)).toBe(100);
+      expect(await storage.removeTransaction(result.transaction.id)).toBeUndefined();
+    });
+
+    it("refuses to remove a buy whose shares were since sold", async () => {
+      const userId = await openAccount(1000);
+      const buy = await storage.recordTransaction({
+        userId, type: "buy", symbol: "IBM", quantity: "2", price: "100", executedAt: new Date("2024-01-03T00:00:00Z"),
+      });
+      if (!("transaction" in buy)) throw new Error(buy.rejectReason);
+      await storage.recordTransaction({
+        userId, type: "sell", symbol: "IBM", quantity: "2", price: "110", executedAt: new Date("2024-01-04T00:00:00Z"),
+      });
+
+      expect(await storage.removeTransaction(buy.transaction.id)).toHaveProperty("rejectReason");
+      expect(await storage.getTransaction(buy.transaction.id)).toBeDefined();
+    });
+  });
+
+  describe("orders", () => {
+    it("fills an open order into the ledger", async () => {
+      const userId = await openAccount(1000);
+      const order = await storage.createOrder({ userId, symbol: "AAPL", side: "buy", type: "market", quantity: "5", timeInForce: "day" });
+      expect(order.status).toBe("open");
+      expect((await storage.getOpenOrders()).map(o => o.id)).toContain(order.id);
+
+      const filledAt = new Date("2024-02-01T15:00:00Z");
+      const filled = await storage.fillOrder(order.id, { price: 100, name: "Apple Inc.", filledAt });
+
+      expect(filled).toMatchObject({ id: order.id, status: "filled", filledAt });
+      expect(Number(filled!.filledPrice)).toBe(100);
+      expect(await cashOf(userId)).toBe(500);
+      const [transaction] = await storage.getTransactions(userId);
+      expect(transaction).toMatchObject({ type: "buy", symbol: "AAPL", orderId: order.id });
+      expect((await storage.getOpenOrders()).map(o => o.id)).not.toContain(order.id);
+    });
+
+    it("rejects an order the account can't cover", async () => {
+      const userId = await openAccount(100);
+      const order = await storage.createOrder({ userId, symbol: "AAPL", side: "buy", type: "market", quantity: "5", timeInForce: "day" });
+
+      const rejected = await storage.fillOrder(order.id, { price: 100, name: "Apple Inc.", filledAt: new Date() });
+
+      expect(rejected?.status).toBe("rejected");
+      expect(rejected?.statusReason).toBeTruthy();
+      expect(await cashOf(userId)).toBe(100);
+    });
+
+    it("only changes or fills orders that are still open", async () => {
+      const userId = await openAccount(1000);
+      const order = await storage.createOrder({
+        userId, symbol: "MSFT", side: "buy", type: "limit", quantity: "1", limitPrice: "50", timeInForce: "gtc",
+      });
+
+      expect(await storage.updateOpenOrder(order.id, { stopTriggered: true })).toHaveProperty("stopTriggered", true);
+      expect(await storage.updateOpenOrder(order.id, { status: "cancelled" })).toHaveProperty("status", "cancelled");
+      expect(await storage.updateOpenOrder(order.id, { status: "expired" })).toBeUndefined();
+      expect(await storage.fillOrder(order.id, { price: 50, name: "Microsoft", filledAt: new Date() })).toBeUndefined();
+      expect(await cashOf(userId)).toBe(1000);
+      expect((await storage.getOrders(userId)).map(o => o.status)).toEqual(["cancelled"]);
+    });
+  });
+
+  describe("alerts", () => {
+    it("notifies once when an active alert fires", async () => {
+      const userId = await openAccount(0);
+      const alert = await storage.createAlert({ userId, symbol: "TSLA", condition: "price_above", threshold: "300" });
+      expect(alert).toMatchObject({ active: true, triggeredAt: null, webhookUrl: null });
+      expect((await storage.getActiveAlerts()).map(a => a.id)).toContain(alert.id);
+
+      const createdAt = new Date("2024-03-01T12:00:00Z");
+      const notification = await storage.triggerAlert(alert.id, {
+        userId, alertId: alert.id, title: "TSLA above 300", message: "TSLA traded at 301", createdAt,
+      });
+
+      expect(notification).toMatchObject({ userId, alertId: alert.id, read: false });
+      expect(await storage.getAlert(alert.id)).toMatchObject({ active: false, triggeredAt: createdAt });
+      expect(await storage.triggerAlert(alert.id, {
+        userId, alertId: alert.id, title: "TSLA above 300", message: "again", createdAt,
+      })).toBeUndefined();
+      expect(await storage.getUnreadNotificationCount(userId)).toBe(1);
+    });
+
+    it("re-arms, lists and deletes alerts", async () => {
+      const userId = await openAccount(0);
+      const alert = await storage.createAlert({ userId, symbol: "NVDA", condition: "cross_above_sma", period: 50 });
+
+      expect(await storage.updateAlert(alert.id, { active: false })).toHaveProperty("active", false);
+      expect((await storage.getActiveAlerts()).map(a => a.id)).not.toContain(alert.id);
+      expect(await storage.updateAlert(alert.id, { active: true })).toHaveProperty("active", true);
+      expect((await storage.getAlerts(userId)).map(a => a.id)).toEqual([alert.id]);
+
+      expect(await storage.deleteAlert(alert.id)).toBe(true);
+      expect(await storage.deleteAlert(alert.id)).toBe(false);
+      expect(await storage.getAlerts(userId)).toEqual([]);
+    });
+  });
+
+  describe("fantasy tokens", () => {
+    let symbolCount = 0;
+
+    async function createToken(creatorId: number, totalSupply: number, poolSupply: number) {
+      const token = await storage.createFantasyToken({
+        symbol: `TST${++symbolCount}`, name: "Test token", creatorId, issuePrice: "2", totalSupply: String(totalSupply),
+      }, poolSupply);
+      if (!token) throw new Error("Token symbol taken");
+      return token;
+    }
+
+    it("mints the supply to the creator and seeds the pool", async () => {
+      const creatorId = await openAccount(0);
+      const token = await createToken(creatorId, 1000, 400);
+
+      expect(await storage.getFantasyTokenBalance(token.id, creatorId)).toBe(600);
+      const pool = await storage.getFantasyTokenPool(token.id);
+      expect(Number(pool!.tokenReserve)).toBe(400);
+      expect((await storage.getFantasyTokenTransfers(token.id)).map(t => t.type).sort()).toEqual(["mint", "seed"]);
+      expect(await storage.createFantasyToken({
+        symbol: token.symbol, name: "Copy", creatorId, issuePrice: "1", totalSupply: "10",
+      }, 5)).toBeUndefined();
+    });
+
+    it("moves balances on transfers and refuses overdrafts", async () => {
+      const creatorId = await openAccount(0);
+      const recipientId = await openAccount(0);
+      const token = await createToken(creatorId, 100, 50);
+
+      const sent = await storage.recordFantasyTokenTransfer({
+        tokenId: token.id, type: "transfer", fromUserId: creatorId, toUserId: recipientId, amount: "20",
+      });
+      const overdrawn = await storage.recordFantasyTokenTransfer({
+        tokenId: token.id, type: "transfer", fromUserId: recipientId, toUserId: creatorId, amount: "21",
+      });
+
+      expect(sent).toHaveProperty("transfer.type", "transfer");
+      expect(overdrawn).toHaveProperty("rejectReason");
+      expect(await storage.getFantasyTokenBalance(token.id, creatorId)).toBe(30);
+      expect(await storage.getFantasyTokenBalance(token.id, recipientId)).toBe(20);
+      expect((await storage.getFantasyTokenHolders(token.id)).map(h => h.userId)).toEqual([creatorId, recipientId]);
+    });
+
+    it("changes supply on mints and burns", async () => {
+      const creatorId = await openAccount(0);
+      const token = await createToken(creatorId, 100, 50);
+
+      await storage.recordFantasyTokenTransfer({ tokenId: token.id, type: "mint", toUserId: creatorId, amount: "25" });
+      await storage.recordFantasyTokenTransfer({ tokenId: token.id, type: "burn", fromUserId: creatorId, amount: "5" });
+
+      expect(Number((await storage.getFantasyToken(token.id))!.totalSupply)).toBe(120);
+      expect(await storage.getFantasyTokenBalance(token.id, creatorId)).toBe(70);
+    });
+
+    it("settles pool trades in cash and pays the creator's fee", async () => {
+      const creatorId = await openAccount(0);
+      const traderId = await openAccount(1000);
+      const token = await createToken(creatorId, 1000, 500);
+      const plan = quoteTrade(poolReserves((await storage.getFantasyTokenPool(token.id))!), "buy", 10);
+      if ("rejectReason" in plan) throw new Error(plan.rejectReason);
+
+      const result = await storage.tradeFantasyToken(token.id, traderId, {
+        side: "buy", amount: 10, expectedCash: plan.quote.cash, slippage: 1,
+      });
+      if ("rejectReason" in result) throw new Error(result.rejectReason);
+
+      expect(result.transfer).toMatchObject({ type: "buy", toUserId: traderId });
+      expect(await storage.getFantasyTokenBalance(token.id, traderId)).toBe(10);
+      expect(await cashOf(traderId)).toBeCloseTo(1000 - plan.quote.cash, 6);
+      expect(await cashOf(creatorId)).toBeCloseTo(plan.quote.fee, 6);
+      expect((await storage.getTransactions(traderId)).map(t => t.type)).toEqual(["token_buy", "deposit"]);
+      expect((await storage.getTransactions(creatorId)).map(t => t.type)).toEqual(["token_fee"]);
+      expect(Number((await storage.getFantasyTokenPool(token.id))!.tokenReserve)).toBe(490);
+      expect(await storage.getFantasyTokenTrades(token.id)).toHaveLength(1);
+    });
+
+    it("refuses trades that slipped past the limit or can't be paid for", async () => {
+      const creatorId = await openAccount(0);
+      const traderId = await openAccount(1);
+      const token = await createToken(creatorId, 1000, 500);
+
+      const slipped = await storage.tradeFantasyToken(token.id, traderId, { side: "buy", amount: 10, expectedCash: 1, slippage: 1 });
+      const unpaid = await storage.tradeFantasyToken(token.id, traderId, { side: "buy", amount: 10, expectedCash: 20.2, slippage: 5 });
+      const unheld = await storage.tradeFantasyToken(token.id, traderId, { side: "sell", amount: 10, expectedCash: 19.8, slippage: 5 });
+
+      for (const result of [slipped, unpaid, unheld]) expect(result).toHaveProperty("rejectReason");
+      expect(await cashOf(traderId)).toBe(1);
+      expect(Number((await storage.getFantasyTokenPool(token.id))!.tokenReserve)).toBe(500);
+      expect(await storage.getFantasyTokenTrades(token.id)).toEqual([]);
+    });
+
+    it("tracks which ledger entries are on the simulated chain", async () => {
+      const creatorId = await openAccount(0);
+      const token = await createToken(creatorId, 100, 50);
+      const entries = (await storage.getUnminedFantasyTokenTransfers()).filter(t => t.tokenId === token.id);
+      expect(entries).toHaveLength(2);
+
+      const deployed = await storage.recordFantasyTokenDeployment(token.id, {
+        contractAddress: "0xcontract", deployTxHash: "0xdeploy", deployBlockNumber: 1000,
+      });
+      expect(deployed).toMatchObject({ contractAddress: "0xcontract", deployBlockNumber: 1000 });
+      await storage.recordMinedFantasyTokenTransfer(entries[1].id, { txHash: "0xsecond", blockNumber: 1002 });
+      await storage.recordMinedFantasyTokenTransfer(entries[0].id, { txHash: "0xfirst", blockNumber: 1001 });
+
+      expect((await storage.getUnminedFantasyTokenTransfers()).filter(t => t.tokenId === token.id)).toEqual([]);
+      const mined = (await storage.getMinedFantasyTokenTransfers()).filter(t => t.tokenId === token.id);
+      expect(mined.map(t => t.txHash)).toEqual(["0xfirst", "0xsecond"]);
+    });
+  });
+});
@@ -1,23 +1,71 @@
 import { 
-  users, type User, type InsertUser,
-  portfolioStocks, type PortfolioStock, type InsertPortfolioStock,
-  watchlistStocks, type WatchlistStock, type InsertWatchlistStock,
-  marketIndices, type MarketIndex, type InsertMarketIndex
+  type User, type InsertUser,
+  type WatchlistStock, type InsertWatchlistStock,
+  type MarketIndex, type InsertMarketIndex,
+  type MarketIndexPoint, type InsertMarketIndexPoint,
+  type Account, type InsertAccount, type UpdateAccount,
+  type Order, type InsertOrder,
+  type Transaction, type InsertTransaction,
+  type UserPreferences, type UpdateUserPreferences,
+  type Alert, type InsertAlert, type UpdateAlert,
+  type Notification, type InsertNotification,
+  type Screen, type InsertScreen, type UpdateScreen,
+  type FantasyToken, type InsertFantasyToken,
+  type FantasyTokenBalance, type FantasyTokenTransfer, type InsertFantasyTokenTransfer,
+  type FantasyTokenPool, type FantasyTokenTrade,
+  type UpdateFantasyToken, type FantasyTokenPegSample,
+  type FantasyLeague, type InsertFantasyLeague,
+  type FantasyLeagueTeam, type InsertFantasyLeagueTeam,
+  type FantasyRosterPick, type InsertFantasyRosterPick,
+  type FantasyLeagueScore, type InsertFantasyLeagueScore,
+  defaultUserPreferences
 } from "@shared/schema";
+import type { ScreenerResult } from "@shared/screener";
+import type { TokenTradeRequest } from "@shared/fantasyTokens";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { demoUser, demoPassword, demoMarketIndices, demoWatchlistStocks, demoLedger, demoFantasyTokens, demoFantasyLeague } from "./demoData";
+import { createDb } from "./db";
+import { DbStorage } from "./dbStorage";
+import { hashPasswordSync } from "./passwords";
+import { fillTransaction, type Fill } from "./trading";
+import { planTransaction, planRemoval, toTransaction } from "./ledger";
+import { planTokenTransfer } from "./fantasyTokens";
+import { openingReserves, planTrade, poolPrice, poolReserves, repricedReserves, reserveColumns, tradeSettlement } from "./amm";
+
+const MemoryStore = createMemoryStore(session);
+
+// Fields the fill engine and order routes may change on an open order
+export type OrderUpdate = Partial<Pick<Order, "status" | "stopTriggered" | "statusReason">>;
+
+// Outcome of changing the ledger: the transaction affected, or why the change was refused
+export type LedgerResult = { transaction: Transaction } | { rejectReason: string };
+
+// Outcome of a fantasy token mint, transfer or burn
+export type TokenLedgerResult = { transfer: FantasyTokenTransfer } | { rejectReason: string };
+
+// Outcome of trading with a fantasy token's pool, with the ledger entry moving the tokens
+export type TokenTradeResult = { trade: FantasyTokenTrade; transfer: FantasyTokenTransfer } | { rejectReason: string };
+
+// Where a fantasy token's contract landed on the simulated chain
+export type TokenDeployment = { contractAddress: string; deployTxHash: string; deployBlockNumber: number };
+
+// The simulated chain transaction a token ledger entry was mined as
+export type MinedTokenTransfer = { txHash: string; blockNumber: number };
 
 // Storage interface with CRUD methods for our data models
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
-  // Portfolio methods
-  getPortfolioStocks(userId: number): Promise<PortfolioStock[]>;
-  getPortfolioStock(id: number): Promise<PortfolioStock | undefined>;
-  createPortfolioStock(stock: InsertPortfolioStock): Promise<PortfolioStock>;
-  updatePortfolioStock(id: number, stock: Partial<InsertPortfolioStock>): Promise<PortfolioStock | undefined>;
-  deletePortfolioStock(id: number): Promise<boolean>;
+
+  // User preference methods; users who never saved any get the defaults
+  getUserPreferences(userId: number): Promise<UserPreferences>;
+  updateUserPreferences(userId: number, data: UpdateUserPreferences): Promise<UserPreferences>;
   
   // Watchlist methods
   getWatchlistStocks(userId: number): Promise<WatchlistStock[]>;
@@ -29,54 +77,224 @@ export interface IStorage {
   getMarketIndices(): Promise<MarketIndex[]>;
   updateMarketIndex(name: string, data: Partial<InsertMarketIndex>): Promise<MarketIndex | undefined>;
   createMarketIndex(index: InsertMarketIndex): Promise<MarketIndex>;
+  // Intraday levels for an index since `since`, oldest first
+  getMarketIndexHistory(name: string, since: Date): Promise<MarketIndexPoint[]>;
+  // When the index's newest point was recorded; undefined when it has none
+  getLatestMarketIndexTime(name: string): Promise<Date | undefined>;
+  // Points already recorded for the same index and time are skipped
+  recordMarketIndexHistory(points: InsertMarketIndexPoint[]): Promise<void>;
+  // Deletes points recorded before `before`; returns how many were removed
+  pruneMarketIndexHistory(before: Date): Promise<number>;
+
+  // Paper trading account methods
+  getAccount(userId: number): Promise<Account | undefined>;
+  // Also records the opening balance as a deposit
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(userId: number, data: UpdateAccount): Promise<Account | undefined>;
+
+  // Transaction ledger methods
+  getTransactions(userId: number): Promise<Transaction[]>;
+  getTransaction(id: number): Promise<Transaction | undefined>;
+  // Atomically records a transaction and moves account cash, or refuses it when the account can't cover it
+  recordTransaction(entry: InsertTransaction): Promise<LedgerResult>;
+  // Deletes a transaction and reverses its cash movement; undefined when it doesn't exist
+  removeTransaction(id: number): Promise<LedgerResult | undefined>;
+
+  // Order methods
+  getOrders(userId: number): Promise<Order[]>;
+  getOpenOrders(): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  // Only applies while the order is still open; returns undefined otherwise
+  updateOpenOrder(id: number, data: OrderUpdate): Promise<Order | undefined>;
+  // Atomically records a fill in the ledger, or rejects the order when the account can't cover it
+  fillOrder(id: number, fill: Fill): Promise<Order | undefined>;
+
+  // Price alert methods
+  getAlerts(userId: number): Promise<Alert[]>;
+  getActiveAlerts(): Promise<Alert[]>;
+  getAlert(id: number): Promise<Alert | undefined>;
+  createAlert(alert: InsertAlert): Promise<Alert>;
+  updateAlert(id: number, data: UpdateAlert): Promise<Alert | undefined>;
+  deleteAlert(id: number): Promise<boolean>;
+  // Atomically switches an active alert off and records its notification; undefined if it already fired or was paused
+  triggerAlert(id: number, notification: InsertNotification): Promise<Notification | undefined>;
+
+  // Saved screen methods
+  getScreens(userId: number): Promise<Screen[]>;
+  // Screens on an hourly or daily schedule, across all users
+  getScheduledScreens(): Promise<Screen[]>;
+  getScreen(id: number): Promise<Screen | undefined>;
+  createScreen(screen: InsertScreen): Promise<Screen>;
+  updateScreen(id: number, data: UpdateScreen): Promise<Screen | undefined>;
+  recordScreenRun(id: number, result: ScreenerResult): Promise<Screen | undefined>;
+  deleteScreen(id: number): Promise<boolean>;
+
+  // Fantasy token methods
+  getFantasyTokens(): Promise<FantasyToken[]>;
+  getFantasyToken(id: number): Promise<FantasyToken | undefined>;
+  // Records the token, mints its supply to the creator and seeds its pool with
+  // `poolSupply` of it at the issue price; undefined when the symbol is taken
+  createFantasyToken(token: InsertFantasyToken, poolSupply: number): Promise<FantasyToken | undefined>;
+  updateFantasyToken(id: number, data: UpdateFantasyToken): Promise<FantasyToken | undefined>;
+  // Users with a positive balance, largest first
+  getFantasyTokenHolders(tokenId: number): Promise<FantasyTokenBalance[]>;
+  getFantasyTokenBalance(tokenId: number, userId: number): Promise<number>;
+  // Newest first
+  getFantasyTokenTransfers(tokenId: number): Promise<FantasyTokenTransfer[]>;
+  // Atomically records a mint, transfer or burn and moves balances and supply, or refuses it when the sender can't cover it
+  recordFantasyTokenTransfer(entry: InsertFantasyTokenTransfer): Promise<TokenLedgerResult>;
+  // Ledger entries of every token already on the simulated chain, in block order
+  getMinedFantasyTokenTransfers(): Promise<FantasyTokenTransfer[]>;
+  // Ledger entries of every token not yet on the simulated chain, in the order they were recorded
+  getUnminedFantasyTokenTransfers(): Promise<FantasyTokenTransfer[]>;
+  recordFantasyTokenDeployment(id: number, deployment: TokenDeployment): Promise<FantasyToken | undefined>;
+  recordMinedFantasyTokenTransfer(id: number, mined: MinedTokenTransfer): Promise<FantasyTokenTransfer | undefined>;
+  getFantasyTokenPool(tokenId: number): Promise<FantasyTokenPool | undefined>;
+  // Newest first
+  getFantasyTokenTrades(tokenId: number): Promise<FantasyTokenTrade[]>;
+  // Atomically trades with the token's pool: moves the trader's tokens and cash, pays the
+  // creator's fee and updates the reserves, or refuses the trade when its price slipped
+  // past the limit or a balance or reserve can't cover it. The token must have a pool.
+  tradeFantasyToken(tokenId: number, userId: number, request: TokenTradeRequest): Promise<TokenTradeResult>;
+  // Atomically samples the pool price against `referencePrice` and moves the pool to it;
+  // untracked samples, for tokens just pegged, leave the pool price out. Undefined when the token has no pool.
+  rebalanceFantasyTokenPool(tokenId: number, referencePrice: number, sampledAt: Date, tracked: boolean): Promise<FantasyTokenPegSample | undefined>;
+  // Samples taken since `since`, oldest first
+  getFantasyTokenPegSamples(tokenId: number, since: Date): Promise<FantasyTokenPegSample[]>;
+  // Deletes samples taken before `before`; returns how many were removed
+  pruneFantasyTokenPegSamples(before: Date): Promise<number>;
+
+  // Fantasy league methods
+  // Latest season first
+  getFantasyLeagues(): Promise<FantasyLeague[]>;
+  getFantasyLeague(id: number): Promise<FantasyLeague | undefined>;
+  createFantasyLeague(league: InsertFantasyLeague): Promise<FantasyLeague>;
+  // In the order they joined
+  getFantasyLeagueTeams(leagueId: number): Promise<FantasyLeagueTeam[]>;
+  // Undefined when the user already has a team in the league
+  createFantasyLeagueTeam(team: InsertFantasyLeagueTeam): Promise<FantasyLeagueTeam | undefined>;
+  // Picks of every team in the league
+  getFantasyRosterPicks(leagueId: number): Promise<FantasyRosterPick[]>;
+  // Atomically replaces the team's roster
+  setFantasyRoster(teamId: number, picks: InsertFantasyRosterPick[]): Promise<FantasyRosterPick[]>;
+  // By day, then rank
+  getFantasyLeagueScores(leagueId: number): Promise<FantasyLeagueScore[]>;
+  // Atomically replaces the league's standings and marks it scored at `scoredAt`
+  recordFantasyLeagueScores(leagueId: number, scores: InsertFantasyLeagueScore[], scoredAt: Date): Promise<FantasyLeague | undefined>;
+
+  // Notification methods
+  // Newest first, at most `limit`
+  getNotifications(userId: number, limit: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  // Marks the given notifications read, or all of the user's when no ids are given; returns how many changed
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
   private users: Map<number, User>;
-  private portfolioStocks: Map<number, PortfolioStock>;
   private watchlistStocks: Map<number, WatchlistStock>;
   private marketIndices: Map<string, MarketIndex>;
+  private marketIndexHistory: Map<string, MarketIndexPoint>;
+  private accounts: Map<number, Account>;
+  private orders: Map<number, Order>;
+  private transactions: Map<number, Transaction>;
+  private userPreferences: Map<number, UserPreferences>;
+  private alerts: Map<number, Alert>;
+  private notifications: Map<number, Notification>;
+  private screens: Map<number, Screen>;
+  private fantasyTokens: Map<number, FantasyToken>;
+  // Keyed by `${tokenId}:${userId}`
+  private fantasyTokenBalances: Map<string, FantasyTokenBalance>;
+  private fantasyTokenTransfers: Map<number, FantasyTokenTransfer>;
+  // Keyed by token id
+  private fantasyTokenPools: Map<number, FantasyTokenPool>;
+  private fantasyTokenTrades: Map<number, FantasyTokenTrade>;
+  private fantasyTokenPegSamples: Map<number, FantasyTokenPegSample>;
+  private fantasyLeagues: Map<number, FantasyLeague>;
+  private fantasyLeagueTeams: Map<number, FantasyLeagueTeam>;
+  private fantasyRosterPicks: Map<number, FantasyRosterPick>;
+  private fantasyLeagueScores: Map<number, FantasyLeagueScore>;
   
   private userIdCounter: number;
-  private portfolioStockIdCounter: number;
   private watchlistStockIdCounter: number;
   private marketIndexIdCounter: number;
+  private marketIndexPointIdCounter: number;
+  private accountIdCounter: number;
+  private orderIdCounter: number;
+  private transactionIdCounter: number;
+  private alertIdCounter: number;
+  private notificationIdCounter: number;
+  private screenIdCounter: number;
+  private fantasyTokenIdCounter: number;
+  private fantasyTokenBalanceIdCounter: number;
+  private fantasyTokenTransferIdCounter: number;
+  private fantasyTokenPoolIdCounter: number;
+  private fantasyTokenTradeIdCounter: number;
+  private fantasyTokenPegSampleIdCounter: number;
+  private fantasyLeagueIdCounter: number;
+  private fantasyLeagueTeamIdCounter: number;
+  private fantasyRosterPickIdCounter: number;
+  private fantasyLeagueScoreIdCounter: number;
 
   constructor() {
     this.users = new Map();
-    this.portfolioStocks = new Map();
     this.watchlistStocks = new Map();
     this.marketIndices = new Map();
+    this.marketIndexHistory = new Map();
+    this.accounts = new Map();
+    this.orders = new Map();
+    this.transactions = new Map();
+    this.userPreferences = new Map();
+    this.alerts = new Map();
+    this.notifications = new Map();
+    this.screens = new Map();
+    this.fantasyTokens = new Map();
+    this.fantasyTokenBalances = new Map();
+    this.fantasyTokenTransfers = new Map();
+    this.fantasyTokenPools = new Map();
+    this.fantasyTokenTrades = new Map();
+    this.fantasyTokenPegSamples = new Map();
+    this.fantasyLeagues = new Map();
+    this.fantasyLeagueTeams = new Map();
+    this.fantasyRosterPicks = new Map();
+    this.fantasyLeagueScores = new Map();
     
     this.userIdCounter = 1;
-    this.portfolioStockIdCounter = 1;
     this.watchlistStockIdCounter = 1;
     this.marketIndexIdCounter = 1;
+    this.marketIndexPointIdCounter = 1;
+    this.accountIdCounter = 1;
+    this.orderIdCounter = 1;
+    this.transactionIdCounter = 1;
+    this.alertIdCounter = 1;
+    this.notificationIdCounter = 1;
+    this.screenIdCounter = 1;
+    this.fantasyTokenIdCounter = 1;
+    this.fantasyTokenBalanceIdCounter = 1;
+    this.fantasyTokenTransferIdCounter = 1;
+    this.fantasyTokenPoolIdCounter = 1;
+    this.fantasyTokenTradeIdCounter = 1;
+    this.fantasyTokenPegSampleIdCounter = 1;
+    this.fantasyLeagueIdCounter = 1;
+    this.fantasyLeagueTeamIdCounter = 1;
+    this.fantasyRosterPickIdCounter = 1;
+    this.fantasyLeagueScoreIdCounter = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // Prune expired sessions daily
+    });
     
     // Initialize with demo user and data
     this.initializeDemo();
   }
 
   private initializeDemo() {
-    // Create demo user
-    const demoUser: User = {
-      id: this.userIdCounter++,
-      username: "demo",
-      password: "password", // In a real app, this would be hashed
-    };
-    this.users.set(demoUser.id, demoUser);
-    
     // Initialize market indices
-    const indices = [
-      { name: "S&P 500", value: 4682.80, change: 53.24, changePercent: 1.15 },
-      { name: "NASDAQ", value: 15362.90, change: 270.02, changePercent: 1.79 },
-      { name: "DOW", value: 36432.22, change: 246.76, changePercent: 0.68 },
-      { name: "RUSSELL 2000", value: 2243.10, change: -4.97, changePercent: -0.22 },
-      { name: "10-YR YIELD", value: 1.45, change: 0.05, changePercent: 3.57 },
-      { name: "VIX", value: 16.48, change: -1.02, changePercent: -5.83 }
-    ];
-    
-    indices.forEach(idx => {
+    demoMarketIndices.forEach(idx => {
       const marketIndex: MarketIndex = {
         id: this.marketIndexIdCounter++,
         name: idx.name,
@@ -87,45 +305,53 @@ export class MemStorage implements IStorage {
       };
       this.marketIndices.set(marketIndex.name, marketIndex);
     });
+
+    const password = demoPassword();
+    if (!password) return;
+
+    // Create demo user
+    const user: User = {
+      id: this.userIdCounter++,
+      username: demoUser.username,
+      password: hashPasswordSync(password),
+    };
+    this.users.set(user.id, user);
     
-    // Add some portfolio stocks for the demo user
-    const portfolioStocks = [
-      { symbol: "AAPL", name: "Apple Inc.", shares: 12, purchasePrice: 150.25 },
-      { symbol: "MSFT", name: "Microsoft", shares: 8, purchasePrice: 330.75 },
-      { symbol: "TSLA", name: "Tesla, Inc.", shares: 5, purchasePrice: 950.53 },
-      { symbol: "AMZN", name: "Amazon", shares: 3, purchasePrice: 3350.50 }
-    ];
-    
-    portfolioStocks.forEach(stock => {
-      const portfolioStock: PortfolioStock = {
-        id: this.portfolioStockIdCounter++,
-        userId: demoUser.id,
-        symbol: stock.symbol,
-        name: stock.name,
-        shares: stock.shares as any,
-        purchasePrice: stock.purchasePrice as any,
-        purchaseDate: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000), // Random date in the last 30 days
-      };
-      this.portfolioStocks.set(portfolioStock.id, portfolioStock);
+    // Give the demo user a funded paper trading account holding some stocks
+    const ledger = demoLedger(user.id);
+    this.accounts.set(user.id, {
+      id: this.accountIdCounter++,
+      userId: user.id,
+      cash: String(ledger.cash),
+      costBasisMethod: "fifo",
+      createdAt: new Date(),
+    });
+    ledger.transactions.forEach(entry => {
+      const transaction = toTransaction(this.transactionIdCounter++, entry);
+      this.transactions.set(transaction.id, transaction);
     });
     
     // Add some watchlist stocks for the demo user
-    const watchlistStocks = [
-      { symbol: "GOOG", name: "Alphabet Inc." },
-      { symbol: "NFLX", name: "Netflix Inc." },
-      { symbol: "JPM", name: "JPMorgan Chase" },
-      { symbol: "DIS", name: "Disney" }
-    ];
-    
-    watchlistStocks.forEach(stock => {
+    demoWatchlistStocks.forEach(stock => {
       const watchlistStock: WatchlistStock = {
         id: this.watchlistStockIdCounter++,
-        userId: demoUser.id,
+        userId: user.id,
         symbol: stock.symbol,
         name: stock.name,
       };
       this.watchlistStocks.set(watchlistStock.id, watchlistStock);
     });
+
+    // Issue the demo fantasy tokens
+    demoFantasyTokens(user.id).forEach(({ token, poolSupply }) => this.insertFantasyToken(token, poolSupply));
+
+    // Enter the demo user's team in a league that is already under way
+    const demo = demoFantasyLeague(user.id);
+    const league: FantasyLeague = { ...demo.league, id: this.fantasyLeagueIdCounter++, scoredAt: null, createdAt: new Date() };
+    this.fantasyLeagues.set(league.id, league);
+    const team: FantasyLeagueTeam = { id: this.fantasyLeagueTeamIdCounter++, leagueId: league.id, userId: user.id, name: demo.teamName, joinedAt: new Date() };
+    this.fantasyLeagueTeams.set(team.id, team);
+    this.replaceFantasyRoster(team.id, demo.picks);
   }
 
   // User methods
@@ -146,35 +372,15 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  // Portfolio methods
-  async getPortfolioStocks(userId: number): Promise<PortfolioStock[]> {
-    return Array.from(this.portfolioStocks.values()).filter(
-      stock => stock.userId === userId
-    );
-  }
-
-  async getPortfolioStock(id: number): Promise<PortfolioStock | undefined> {
-    return this.portfolioStocks.get(id);
-  }
-
-  async createPortfolioStock(stock: InsertPortfolioStock): Promise<PortfolioStock> {
-    const id = this.portfolioStockIdCounter++;
-    const portfolioStock: PortfolioStock = { ...stock, id };
-    this.portfolioStocks.set(id, portfolioStock);
-    return portfolioStock;
+  // User preference methods
+  async getUserPreferences(userId: number): Promise<UserPreferences> {
+    return this.userPreferences.get(userId) || { userId, ...defaultUserPreferences };
   }
 
-  async updatePortfolioStock(id: number, stockUpdate: Partial<InsertPortfolioStock>): Promise<PortfolioStock | undefined> {
-    const stock = this.portfolioStocks.get(id);
-    if (!stock) return undefined;
-    
-    const updatedStock: PortfolioStock = { ...stock, ...stockUpdate };
-    this.portfolioStocks.set(id, updatedStock);
-    return updatedStock;
-  }
-
-  async deletePortfolioStock(id: number): Promise<boolean> {
-    return this.portfolioStocks.delete(id);
+  async updateUserPreferences(userId: number, data: UpdateUserPreferences): Promise<UserPreferences> {
+    const preferences: UserPreferences = { ...(await this.getUserPreferences(userId)), ...data };
+    this.userPreferences.set(userId, preferences);
+    return preferences;
   }
 
   // Watchlist methods
@@ -219,6 +425,669 @@ export class MemStorage implements IStorage {
     this.marketIndices.set(marketIndex.name, marketIndex);
     return marketIndex;
   }
+
+  async getMarketIndexHistory(name: string, since: Date): Promise<MarketIndexPoint[]> {
+    return Array.from(this.marketIndexHistory.values())
+      .filter(point => point.name === name && point.recordedAt >= since)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async getLatestMarketIndexTime(name: string): Promise<Date | undefined> {
+    let latest: Date | undefined;
+    for (const point of Array.from(this.marketIndexHistory.values())) {
+      if (point.name === name && (!latest || point.recordedAt > latest)) latest = point.recordedAt;
+    }
+    return latest;
+  }
+
+  async recordMarketIndexHistory(points: InsertMarketIndexPoint[]): Promise<void> {
+    for (const point of points) {
+      const key = `${point.name}|${point.recordedAt.toISOString()}`;
+      if (!this.marketIndexHistory.has(key)) {
+        this.marketIndexHistory.set(key, { ...point, id: this.marketIndexPointIdCounter++ });
+      }
+    }
+  }
+
+  async pruneMarketIndexHistory(before: Date): Promise<number> {
+    let removed = 0;
+    for (const [key, point] of Array.from(this.marketIndexHistory.entries())) {
+      if (point.recordedAt < before) {
+        this.marketIndexHistory.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Paper trading account methods
+  async getAccount(userId: number): Promise<Account | undefined> {
+    return this.accounts.get(userId);
+  }
+
+  async createAccount(accountData: InsertAccount): Promise<Account> {
+    const existing = this.accounts.get(accountData.userId);
+    if (existing) return existing;
+
+    const account: Account = { ...accountData, id: this.accountIdCounter++, costBasisMethod: "fifo" };
+    this.accounts.set(account.userId, account);
+
+    if (Number(account.cash) > 0) {
+      const deposit = toTransaction(this.transactionIdCounter++, {
+        userId: account.userId,
+        type: "deposit",
+        amount: account.cash,
+        executedAt: account.createdAt,
+      });
+      this.transactions.set(deposit.id, deposit);
+    }
+    return account;
+  }
+
+  async updateAccount(userId: number, data: UpdateAccount): Promise<Account | undefined> {
+    const account = this.accounts.get(userId);
+    if (!account) return undefined;
+
+    const updatedAccount: Account = { ...account, ...data };
+    this.accounts.set(userId, updatedAccount);
+    return updatedAccount;
+  }
+
+  // Transaction ledger methods
+  async getTransactions(userId: number): Promise<Transaction[]> {
+    return this.userTransactions(userId)
+      .sort((a, b) => b.executedAt.getTime() - a.executedAt.getTime() || b.id - a.id);
+  }
+
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+
+  async recordTransaction(entry: InsertTransaction): Promise<LedgerResult> {
+    return this.applyTransaction(entry);
+  }
+
+  async removeTransaction(id: number): Promise<LedgerResult | undefined> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) return undefined;
+
+    const account = this.accounts.get(transaction.userId);
+    if (!account) throw new Error(`No trading account for user ${transaction.userId}`);
+
+    const plan = planRemoval(transaction, Number(account.cash), this.userTransactions(transaction.userId), account.costBasisMethod);
+    if ("rejectReason" in plan) return plan;
+
+    this.accounts.set(account.userId, { ...account, cash: String(plan.cash) });
+    this.transactions.delete(id);
+    return { transaction };
+  }
+
+  private userTransactions(userId: number): Transaction[] {
+    return Array.from(this.transactions.values()).filter(transaction => transaction.userId === userId);
+  }
+
+  // Runs synchronously so concurrent ledger changes can't interleave
+  private applyTransaction(entry: InsertTransaction): LedgerResult {
+    const account = this.accounts.get(entry.userId);
+    if (!account) throw new Error(`No trading account for user ${entry.userId}`);
+
+    const plan = planTransaction(entry, Number(account.cash), this.userTransactions(entry.userId), account.costBasisMethod);
+    if ("rejectReason" in plan) return plan;
+
+    this.accounts.set(account.userId, { ...account, cash: String(plan.cash) });
+    const transaction = toTransaction(this.transactionIdCounter++, entry);
+    this.transactions.set(transaction.id, transaction);
+    return { transaction };
+  }
+
+  // Order methods
+  async getOrders(userId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values()).filter(order => order.status === "open");
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    return this.orders.get(id);
+  }
+
+  async createOrder(orderData: InsertOrder): Promise<Order> {
+    const id = this.orderIdCounter++;
+    const order: Order = {
+      ...orderData,
+      id,
+      limitPrice: orderData.limitPrice ?? null,
+      stopPrice: orderData.stopPrice ?? null,
+      status: "open",
+      stopTriggered: false,
+      filledPrice: null,
+      filledAt: null,
+      statusReason: null,
+      createdAt: new Date(),
+    };
+    this.orders.set(id, order);
+    return order;
+  }
+
+  async updateOpenOrder(id: number, data: OrderUpdate): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order || order.status !== "open") return undefined;
+
+    const updatedOrder: Order = { ...order, ...data };
+    this.orders.set(id, updatedOrder);
+    return updatedOrder;
+  }
+
+  async fillOrder(id: number, fill: Fill): Promise<Order | undefined> {
+    // Everything below runs synchronously so concurrent fills can't interleave
+    const order = this.orders.get(id);
+    if (!order || order.status !== "open") return undefined;
+
+    const result = this.applyTransaction(fillTransaction(order, fill));
+    if ("rejectReason" in result) {
+      const rejected: Order = { ...order, status: "rejected", statusReason: result.rejectReason };
+      this.orders.set(id, rejected);
+      return rejected;
+    }
+
+    const filled: Order = { ...order, status: "filled", filledPrice: String(fill.price), filledAt: fill.filledAt };
+    this.orders.set(id, filled);
+    return filled;
+  }
+
+  // Price alert methods
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter(alert => alert.active);
+  }
+
+  async getAlert(id: number): Promise<Alert | undefined> {
+    return this.alerts.get(id);
+  }
+
+  async createAlert(alertData: InsertAlert): Promise<Alert> {
+    const id = this.alertIdCounter++;
+    const alert: Alert = {
+      ...alertData,
+      id,
+      threshold: alertData.threshold ?? null,
+      period: alertData.period ?? null,
+      webhookUrl: alertData.webhookUrl ?? null,
+      active: true,
+      triggeredAt: null,
+      createdAt: new Date(),
+    };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async updateAlert(id: number, data: UpdateAlert): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+
+    const updatedAlert: Alert = { ...alert, ...data };
+    this.alerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+
+  async deleteAlert(id: number): Promise<boolean> {
+    return this.alerts.delete(id);
+  }
+
+  async triggerAlert(id: number, notificationData: InsertNotification): Promise<Notification | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert || !alert.active) return undefined;
+
+    this.alerts.set(id, { ...alert, active: false, triggeredAt: notificationData.createdAt });
+    const notification: Notification = {
+      ...notificationData,
+      id: this.notificationIdCounter++,
+      alertId: notificationData.alertId ?? null,
+      read: false,
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  // Saved screen methods
+  async getScreens(userId: number): Promise<Screen[]> {
+    return Array.from(this.screens.values())
+      .filter(screen => screen.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getScheduledScreens(): Promise<Screen[]> {
+    return Array.from(this.screens.values()).filter(screen => screen.schedule !== "manual");
+  }
+
+  async getScreen(id: number): Promise<Screen | undefined> {
+    return this.screens.get(id);
+  }
+
+  async createScreen(screenData: InsertScreen): Promise<Screen> {
+    const id = this.screenIdCounter++;
+    const screen: Screen = {
+      ...screenData,
+      id,
+      lastRunAt: null,
+      lastResult: null,
+      createdAt: new Date(),
+    };
+    this.screens.set(id, screen);
+    return screen;
+  }
+
+  async updateScreen(id: number, data: UpdateScreen): Promise<Screen | undefined> {
+    const screen = this.screens.get(id);
+    if (!screen) return undefined;
+
+    const updatedScreen: Screen = { ...screen, ...data };
+    this.screens.set(id, updatedScreen);
+    return updatedScreen;
+  }
+
+  async recordScreenRun(id: number, result: ScreenerResult): Promise<Screen | undefined> {
+    const screen = this.screens.get(id);
+    if (!screen) return undefined;
+
+    const updatedScreen: Screen = { ...screen, lastRunAt: new Date(result.ranAt), lastResult: result };
+    this.screens.set(id, updatedScreen);
+    return updatedScreen;
+  }
+
+  async deleteScreen(id: number): Promise<boolean> {
+    return this.screens.delete(id);
+  }
+
+  // Fantasy token methods
+  async getFantasyTokens(): Promise<FantasyToken[]> {
+    return Array.from(this.fantasyTokens.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getFantasyToken(id: number): Promise<FantasyToken | undefined> {
+    return this.fantasyTokens.get(id);
+  }
+
+  async createFantasyToken(tokenData: InsertFantasyToken, poolSupply: number): Promise<FantasyToken | undefined> {
+    return this.insertFantasyToken(tokenData, poolSupply);
+  }
+
+  async updateFantasyToken(id: number, data: UpdateFantasyToken): Promise<FantasyToken | undefined> {
+    const token = this.fantasyTokens.get(id);
+    if (!token) return undefined;
+
+    const updatedToken: FantasyToken = { ...token, ...data };
+    this.fantasyTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  async getFantasyTokenHolders(tokenId: number): Promise<FantasyTokenBalance[]> {
+    return Array.from(this.fantasyTokenBalances.values())
+      .filter(balance => balance.tokenId === tokenId && Number(balance.balance) > 0)
+      .sort((a, b) => Number(b.balance) - Number(a.balance) || a.userId - b.userId);
+  }
+
+  async getFantasyTokenBalance(tokenId: number, userId: number): Promise<number> {
+    return Number(this.fantasyTokenBalances.get(`${tokenId}:${userId}`)?.balance ?? 0);
+  }
+
+  async getFantasyTokenTransfers(tokenId: number): Promise<FantasyTokenTransfer[]> {
+    return Array.from(this.fantasyTokenTransfers.values())
+      .filter(transfer => transfer.tokenId === tokenId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async recordFantasyTokenTransfer(entry: InsertFantasyTokenTransfer): Promise<TokenLedgerResult> {
+    return this.applyFantasyTokenTransfer(entry);
+  }
+
+  async getMinedFantasyTokenTransfers(): Promise<FantasyTokenTransfer[]> {
+    return Array.from(this.fantasyTokenTransfers.values())
+      .filter(transfer => transfer.blockNumber !== null)
+      .sort((a, b) => a.blockNumber! - b.blockNumber!);
+  }
+
+  async getUnminedFantasyTokenTransfers(): Promise<FantasyTokenTransfer[]> {
+    return Array.from(this.fantasyTokenTransfers.values())
+      .filter(transfer => transfer.blockNumber === null)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async recordFantasyTokenDeployment(id: number, deployment: TokenDeployment): Promise<FantasyToken | undefined> {
+    const token = this.fantasyTokens.get(id);
+    if (!token) return undefined;
+
+    const deployedToken: FantasyToken = { ...token, ...deployment };
+    this.fantasyTokens.set(id, deployedToken);
+    return deployedToken;
+  }
+
+  async recordMinedFantasyTokenTransfer(id: number, mined: MinedTokenTransfer): Promise<FantasyTokenTransfer | undefined> {
+    const transfer = this.fantasyTokenTransfers.get(id);
+    if (!transfer) return undefined;
+
+    const minedTransfer: FantasyTokenTransfer = { ...transfer, ...mined };
+    this.fantasyTokenTransfers.set(id, minedTransfer);
+    return minedTransfer;
+  }
+
+  async getFantasyTokenPool(tokenId: number): Promise<FantasyTokenPool | undefined> {
+    return this.fantasyTokenPools.get(tokenId);
+  }
+
+  async getFantasyTokenTrades(tokenId: number): Promise<FantasyTokenTrade[]> {
+    return Array.from(this.fantasyTokenTrades.values())
+      .filter(trade => trade.tokenId === tokenId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async tradeFantasyToken(tokenId: number, userId: number, request: TokenTradeRequest): Promise<TokenTradeResult> {
+    // Everything below runs synchronously so concurrent trades can't interleave
+    const token = this.fantasyTokens.get(tokenId);
+    const pool = this.fantasyTokenPools.get(tokenId);
+    if (!token || !pool) throw new Error(`No pool for fantasy token ${tokenId}`);
+
+    const plan = planTrade(poolReserves(pool), request);
+    if ("rejectReason" in plan) return plan;
+    const { quote, reserves } = plan;
+
+    // Check the seller's tokens before any cash moves
+    const balance = Number(this.fantasyTokenBalances.get(`${tokenId}:${userId}`)?.balance ?? 0);
+    if (quote.side === "sell" && quote.amount > balance) {
+      return { rejectReason: "Insufficient token balance" };
+    }
+
+    const createdAt = new Date();
+    const settlement = tradeSettlement(token, userId, quote, createdAt);
+    const paid = this.applyTransaction(settlement.trader);
+    if ("rejectReason" in paid) return paid;
+    if (settlement.fee) {
+      const fee = this.applyTransaction(settlement.fee);
+      if ("rejectReason" in fee) throw new Error(fee.rejectReason);
+    }
+
+    const moved = this.applyFantasyTokenTransfer({
+      tokenId,
+      type: quote.side,
+      fromUserId: quote.side === "sell" ? userId : null,
+      toUserId: quote.side === "buy" ? userId : null,
+      amount: String(quote.amount),
+    });
+    if ("rejectReason" in moved) throw new Error(moved.rejectReason);
+
+    this.fantasyTokenPools.set(tokenId, { ...pool, ...reserveColumns(reserves) });
+    const trade: FantasyTokenTrade = {
+      id: this.fantasyTokenTradeIdCounter++,
+      tokenId,
+      userId,
+      side: quote.side,
+      amount: String(quote.amount),
+      cash: String(quote.cash),
+      fee: String(quote.fee),
+      price: String(quote.priceAfter),
+      createdAt,
+    };
+    this.fantasyTokenTrades.set(trade.id, trade);
+    return { trade, transfer: moved.transfer };
+  }
+
+  async rebalanceFantasyTokenPool(tokenId: number, referencePrice: number, sampledAt: Date, tracked: boolean): Promise<FantasyTokenPegSample | undefined> {
+    const pool = this.fantasyTokenPools.get(tokenId);
+    if (!pool) return undefined;
+
+    const reserves = poolReserves(pool);
+    this.fantasyTokenPools.set(tokenId, { ...pool, ...reserveColumns(repricedReserves(reserves, referencePrice)) });
+    const sample: FantasyTokenPegSample = {
+      id: this.fantasyTokenPegSampleIdCounter++,
+      tokenId,
+      referencePrice: String(referencePrice),
+      poolPrice: tracked ? String(poolPrice(reserves)) : null,
+      sampledAt,
+    };
+    this.fantasyTokenPegSamples.set(sample.id, sample);
+    return sample;
+  }
+
+  async getFantasyTokenPegSamples(tokenId: number, since: Date): Promise<FantasyTokenPegSample[]> {
+    return Array.from(this.fantasyTokenPegSamples.values())
+      .filter(sample => sample.tokenId === tokenId && sample.sampledAt >= since)
+      .sort((a, b) => a.sampledAt.getTime() - b.sampledAt.getTime() || a.id - b.id);
+  }
+
+  async pruneFantasyTokenPegSamples(before: Date): Promise<number> {
+    let removed = 0;
+    for (const [id, sample] of Array.from(this.fantasyTokenPegSamples.entries())) {
+      if (sample.sampledAt < before) {
+        this.fantasyTokenPegSamples.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Fantasy league methods
+  async getFantasyLeagues(): Promise<FantasyLeague[]> {
+    return Array.from(this.fantasyLeagues.values())
+      .sort((a, b) => b.seasonStart.getTime() - a.seasonStart.getTime() || b.id - a.id);
+  }
+
+  async getFantasyLeague(id: number): Promise<FantasyLeague | undefined> {
+    return this.fantasyLeagues.get(id);
+  }
+
+  async createFantasyLeague(leagueData: InsertFantasyLeague): Promise<FantasyLeague> {
+    const id = this.fantasyLeagueIdCounter++;
+    const league: FantasyLeague = {
+      ...leagueData,
+      id,
+      scoredAt: null,
+      createdAt: new Date(),
+    };
+    this.fantasyLeagues.set(id, league);
+    return league;
+  }
+
+  async getFantasyLeagueTeams(leagueId: number): Promise<FantasyLeagueTeam[]> {
+    return Array.from(this.fantasyLeagueTeams.values())
+      .filter(team => team.leagueId === leagueId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime() || a.id - b.id);
+  }
+
+  async createFantasyLeagueTeam(teamData: InsertFantasyLeagueTeam): Promise<FantasyLeagueTeam | undefined> {
+    const joined = Array.from(this.fantasyLeagueTeams.values())
+      .some(team => team.leagueId === teamData.leagueId && team.userId === teamData.userId);
+    if (joined) return undefined;
+
+    const id = this.fantasyLeagueTeamIdCounter++;
+    const team: FantasyLeagueTeam = { ...teamData, id, joinedAt: new Date() };
+    this.fantasyLeagueTeams.set(id, team);
+    return team;
+  }
+
+  async getFantasyRosterPicks(leagueId: number): Promise<FantasyRosterPick[]> {
+    const teamIds = new Set((await this.getFantasyLeagueTeams(leagueId)).map(team => team.id));
+    return Array.from(this.fantasyRosterPicks.values())
+      .filter(pick => teamIds.has(pick.teamId))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setFantasyRoster(teamId: number, picks: InsertFantasyRosterPick[]): Promise<FantasyRosterPick[]> {
+    return this.replaceFantasyRoster(teamId, picks);
+  }
+
+  async getFantasyLeagueScores(leagueId: number): Promise<FantasyLeagueScore[]> {
+    return Array.from(this.fantasyLeagueScores.values())
+      .filter(score => score.leagueId === leagueId)
+      .sort((a, b) => a.day.localeCompare(b.day) || a.rank - b.rank || a.teamId - b.teamId);
+  }
+
+  async recordFantasyLeagueScores(leagueId: number, scores: InsertFantasyLeagueScore[], scoredAt: Date): Promise<FantasyLeague | undefined> {
+    const league = this.fantasyLeagues.get(leagueId);
+    if (!league) return undefined;
+
+    for (const [id, score] of Array.from(this.fantasyLeagueScores.entries())) {
+      if (score.leagueId === leagueId) this.fantasyLeagueScores.delete(id);
+    }
+    scores.forEach(scoreData => {
+      const score: FantasyLeagueScore = { ...scoreData, id: this.fantasyLeagueScoreIdCounter++, leagueId };
+      this.fantasyLeagueScores.set(score.id, score);
+    });
+
+    const updatedLeague: FantasyLeague = { ...league, scoredAt };
+    this.fantasyLeagues.set(leagueId, updatedLeague);
+    return updatedLeague;
+  }
+
+  private replaceFantasyRoster(teamId: number, picks: InsertFantasyRosterPick[]): FantasyRosterPick[] {
+    for (const [id, pick] of Array.from(this.fantasyRosterPicks.entries())) {
+      if (pick.teamId === teamId) this.fantasyRosterPicks.delete(id);
+    }
+    return picks.map(pickData => {
+      const pick: FantasyRosterPick = { ...pickData, id: this.fantasyRosterPickIdCounter++, teamId };
+      this.fantasyRosterPicks.set(pick.id, pick);
+      return pick;
+    });
+  }
+
+  // Runs synchronously so a concurrent token with the same symbol can't slip in
+  private insertFantasyToken(tokenData: InsertFantasyToken, poolSupply: number): FantasyToken | undefined {
+    const taken = Array.from(this.fantasyTokens.values()).some(token => token.symbol === tokenData.symbol);
+    if (taken) return undefined;
+
+    // The supply starts at zero and comes into existence through the creator's mint
+    const token: FantasyToken = {
+      ...tokenData,
+      id: this.fantasyTokenIdCounter++,
+      baseStock: tokenData.baseStock ?? null,
+      pegMultiplier: tokenData.pegMultiplier ?? null,
+      contractAddress: null,
+      deployTxHash: null,
+      deployBlockNumber: null,
+      totalSupply: "0",
+      createdAt: new Date(),
+    };
+    this.fantasyTokens.set(token.id, token);
+
+    const result = this.applyFantasyTokenTransfer({
+      tokenId: token.id,
+      type: "mint",
+      toUserId: token.creatorId,
+      amount: tokenData.totalSupply,
+    });
+    if ("rejectReason" in result) throw new Error(result.rejectReason);
+
+    const seeded = this.applyFantasyTokenTransfer({
+      tokenId: token.id,
+      type: "seed",
+      fromUserId: token.creatorId,
+      amount: String(poolSupply),
+    });
+    if ("rejectReason" in seeded) throw new Error(seeded.rejectReason);
+    this.fantasyTokenPools.set(token.id, {
+      id: this.fantasyTokenPoolIdCounter++,
+      tokenId: token.id,
+      ...reserveColumns(openingReserves(poolSupply, Number(token.issuePrice))),
+      createdAt: token.createdAt,
+    });
+
+    return this.fantasyTokens.get(token.id);
+  }
+
+  private adjustFantasyTokenBalance(tokenId: number, userId: number, change: number) {
+    const key = `${tokenId}:${userId}`;
+    const existing = this.fantasyTokenBalances.get(key);
+    this.fantasyTokenBalances.set(key, {
+      id: existing?.id ?? this.fantasyTokenBalanceIdCounter++,
+      tokenId,
+      userId,
+      balance: String(Number(existing?.balance ?? 0) + change),
+    });
+  }
+
+  // Runs synchronously so concurrent token ledger changes can't interleave
+  private applyFantasyTokenTransfer(entry: InsertFantasyTokenTransfer): TokenLedgerResult {
+    const token = this.fantasyTokens.get(entry.tokenId);
+    if (!token) throw new Error(`No fantasy token ${entry.tokenId}`);
+
+    const senderBalance = entry.fromUserId != null
+      ? Number(this.fantasyTokenBalances.get(`${entry.tokenId}:${entry.fromUserId}`)?.balance ?? 0)
+      : 0;
+    const plan = planTokenTransfer(entry, senderBalance);
+    if ("rejectReason" in plan) return plan;
+
+    const amount = Number(entry.amount);
+    if (entry.fromUserId != null) this.adjustFantasyTokenBalance(token.id, entry.fromUserId, -amount);
+    if (entry.toUserId != null) this.adjustFantasyTokenBalance(token.id, entry.toUserId, amount);
+    this.fantasyTokens.set(token.id, { ...token, totalSupply: String(Number(token.totalSupply) + plan.supplyChange) });
+
+    const transfer: FantasyTokenTransfer = {
+      ...entry,
+      id: this.fantasyTokenTransferIdCounter++,
+      fromUserId: entry.fromUserId ?? null,
+      toUserId: entry.toUserId ?? null,
+      txHash: null,
+      blockNumber: null,
+      createdAt: new Date(),
+    };
+    this.fantasyTokenTransfers.set(transfer.id, transfer);
+    return { transfer };
+  }
+
+  // Notification methods
+  async getNotifications(userId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const notification: Notification = {
+      ...notificationData,
+      id: this.notificationIdCounter++,
+      alertId: notificationData.alertId ?? null,
+      read: false,
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.read)
+      .length;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    let changed = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId !== userId || notification.read) continue;
+      if (ids && !ids.includes(notification.id)) continue;
+
+      this.notifications.set(notification.id, { ...notification, read: true });
+      changed++;
+    }
+    return changed;
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is configured, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
+
+// Prepare the configured backend before the server starts handling requests
+export async function initializeStorage(): Promise<void> {
+  if (storage instanceof DbStorage) {
+    await storage.initialize();
+  }
+}
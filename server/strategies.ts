@@ -0,0 +1,61 @@
+import type { StrategyConfig } from "@shared/backtest";
+import type { Strategy } from "./backtest";
+
+// Invest everything on the first bar and hold to the end; the usual baseline
+function buyAndHold(): Strategy {
+  let entered = false;
+  return {
+    onBar(context) {
+      if (entered) return;
+      context.buy(context.maxShares());
+      entered = true;
+    },
+  };
+}
+
+// Go long when the fast average crosses above the slow one, exit when it crosses back below
+function smaCrossover(fast: number, slow: number): Strategy {
+  return {
+    onBar({ indicators, position, buy, closePosition, maxShares }) {
+      const fastNow = indicators.sma(fast);
+      const slowNow = indicators.sma(slow);
+      const fastBefore = indicators.sma(fast, 1);
+      const slowBefore = indicators.sma(slow, 1);
+      if (fastNow === null || slowNow === null || fastBefore === null || slowBefore === null) return;
+
+      if (position === 0 && fastBefore <= slowBefore && fastNow > slowNow) {
+        buy(maxShares());
+      } else if (position > 0 && fastBefore >= slowBefore && fastNow < slowNow) {
+        closePosition();
+      }
+    },
+  };
+}
+
+// Donchian channel breakout: buy a close above the prior high, sell a close below the prior low
+function breakout(entryLookback: number, exitLookback: number): Strategy {
+  return {
+    onBar({ bar, indicators, position, buy, closePosition, maxShares }) {
+      const entryHigh = indicators.highest(entryLookback, 1);
+      const exitLow = indicators.lowest(exitLookback, 1);
+
+      if (position === 0 && entryHigh !== null && bar.close > entryHigh) {
+        buy(maxShares());
+      } else if (position > 0 && exitLow !== null && bar.close < exitLow) {
+        closePosition();
+      }
+    },
+  };
+}
+
+// Built-in strategies clients can pick by name when requesting a backtest
+export function createStrategy(config: StrategyConfig): Strategy {
+  switch (config.name) {
+    case "buy_and_hold":
+      return buyAndHold();
+    case "sma_crossover":
+      return smaCrossover(config.fast, config.slow);
+    case "breakout":
+      return breakout(config.entryLookback, config.exitLookback);
+  }
+}
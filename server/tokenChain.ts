@@ -0,0 +1,171 @@
+import type { FantasyToken, FantasyTokenTransfer } from "@shared/schema";
+import type { ContractCall, TransactionDetail, TransactionReceipt } from "@shared/chain";
+import { storage, type IStorage, type MinedTokenTransfer, type TokenDeployment } from "./storage";
+import { ChainSimulator, accountAddress, poolAddress } from "./chain";
+
+// Chain account a user sends from and holds tokens at
+export function userAddress(userId: number): string {
+  return accountAddress(`user:${userId}`);
+}
+
+// Amounts go on chain in one canonical form so how a numeric column prints them can't change a hash
+function chainAmount(amount: string): string {
+  return String(Number(amount));
+}
+
+// The contract call a token ledger entry is mirrored by, and the account sending it.
+// Seeds and sales move tokens into the contract's pool; buys release them from it.
+export function transferCall(
+  token: FantasyToken,
+  transfer: FantasyTokenTransfer,
+  contract: string,
+): { from: string; call: ContractCall } {
+  const amount = chainAmount(transfer.amount);
+  const sender = () => userAddress(transfer.fromUserId!);
+  const recipient = () => userAddress(transfer.toUserId!);
+
+  switch (transfer.type) {
+    case "mint":
+      return { from: userAddress(token.creatorId), call: { method: "mint", args: { to: recipient(), amount } } };
+    case "transfer":
+      return { from: sender(), call: { method: "transfer", args: { to: recipient(), amount } } };
+    case "burn":
+      return { from: sender(), call: { method: "burn", args: { amount } } };
+    case "seed":
+    case "sell":
+      return { from: sender(), call: { method: "transfer", args: { to: poolAddress(contract), amount } } };
+    case "buy":
+      return { from: recipient(), call: { method: "buy", args: { amount } } };
+  }
+}
+
+// Mirrors the fantasy token ledger onto an in-process simulated chain: each token is
+// deployed as a contract and each ledger entry mined as a call to it. The ledger stays
+// the source of truth; the chain only lives in memory, so each entry's block number is
+// stored and the chain replayed in block order on startup, which gives back the same
+// hashes because the simulator is deterministic.
+export class TokenChain {
+  private chain = new ChainSimulator();
+  // Contract address of each deployed token
+  private contracts = new Map<number, string>();
+  // Deployments and ledger entries mined since startup, for callers holding the unmined rows
+  private deployments = new Map<number, TokenDeployment>();
+  private minedTransfers = new Map<number, MinedTokenTransfer>();
+  // Loads and syncs run one at a time so calls reach the chain in a single order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private storage: IStorage) {}
+
+  // Replays what was mined before a restart, then mines whatever is still pending. Call once at startup.
+  load(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.replay();
+      await this.mine();
+    });
+  }
+
+  // Mines token deployments and ledger entries recorded since the last sync
+  sync(): Promise<void> {
+    return this.enqueue(() => this.mine());
+  }
+
+  getTransaction(hash: string): TransactionDetail | undefined {
+    return this.chain.getTransaction(hash);
+  }
+
+  // The token with its deployment filled in if it was mined since it was read
+  deployed(token: FantasyToken): FantasyToken {
+    const deployment = this.deployments.get(token.id);
+    return deployment ? { ...token, ...deployment } : token;
+  }
+
+  // The ledger entry with its transaction filled in if it was mined since it was read
+  mined(transfer: FantasyTokenTransfer): FantasyTokenTransfer {
+    const mined = this.minedTransfers.get(transfer.id);
+    return mined ? { ...transfer, ...mined } : transfer;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // A failed run is reported to its caller but doesn't block the ones queued after it
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async replay() {
+    const tokens = await this.storage.getFantasyTokens();
+    const transfers = await this.storage.getMinedFantasyTokenTransfers();
+    const tokensById = new Map(tokens.map(token => [token.id, token]));
+
+    const steps = [
+      ...tokens.filter(token => token.deployBlockNumber !== null).map(token => ({
+        blockNumber: token.deployBlockNumber!,
+        txHash: token.deployTxHash,
+        submit: () => this.deploy(token),
+      })),
+      ...transfers.map(transfer => ({
+        blockNumber: transfer.blockNumber!,
+        txHash: transfer.txHash,
+        submit: () => this.submitTransfer(tokensById.get(transfer.tokenId)!, transfer),
+      })),
+    ].sort((a, b) => a.blockNumber - b.blockNumber);
+
+    let mismatched = 0;
+    for (const step of steps) {
+      const receipt = step.submit();
+      if (receipt.transactionHash !== step.txHash || receipt.blockNumber !== step.blockNumber) mismatched++;
+    }
+    if (mismatched > 0) {
+      console.warn(`Token chain replay: ${mismatched} of ${steps.length} transactions don't match their recorded hashes`);
+    }
+  }
+
+  private async mine() {
+    const tokens = await this.storage.getFantasyTokens();
+    for (const token of tokens) {
+      if (token.deployBlockNumber !== null) continue;
+      const receipt = this.deploy(token);
+      const deployment: TokenDeployment = {
+        contractAddress: receipt.contractAddress!,
+        deployTxHash: receipt.transactionHash,
+        deployBlockNumber: receipt.blockNumber,
+      };
+      await this.storage.recordFantasyTokenDeployment(token.id, deployment);
+      this.deployments.set(token.id, deployment);
+    }
+
+    const tokensById = new Map(tokens.map(token => [token.id, token]));
+    for (const transfer of await this.storage.getUnminedFantasyTokenTransfers()) {
+      // Entries of a token created after the tokens were read wait for its deployment next sync
+      const token = tokensById.get(transfer.tokenId);
+      if (!token) continue;
+
+      const receipt = this.submitTransfer(token, transfer);
+      if (receipt.status === "reverted") {
+        console.warn(`Token chain: ledger entry ${transfer.id} reverted on chain: ${receipt.revertReason}`);
+      }
+      const mined: MinedTokenTransfer = { txHash: receipt.transactionHash, blockNumber: receipt.blockNumber };
+      await this.storage.recordMinedFantasyTokenTransfer(transfer.id, mined);
+      this.minedTransfers.set(transfer.id, mined);
+    }
+  }
+
+  private deploy(token: FantasyToken): TransactionReceipt {
+    const receipt = this.chain.submit(
+      userAddress(token.creatorId),
+      null,
+      { method: "deploy", args: { name: token.name, symbol: token.symbol } },
+      token.createdAt,
+    );
+    this.contracts.set(token.id, receipt.contractAddress!);
+    return receipt;
+  }
+
+  private submitTransfer(token: FantasyToken, transfer: FantasyTokenTransfer): TransactionReceipt {
+    const contract = this.contracts.get(token.id)!;
+    const { from, call } = transferCall(token, transfer, contract);
+    return this.chain.submit(from, contract, call, transfer.createdAt);
+  }
+}
+
+export const tokenChain = new TokenChain(storage);
@@ -0,0 +1,99 @@
+import type { Order, InsertTransaction } from "@shared/schema";
+
+// Cash every new paper trading account starts with
+export const STARTING_CASH = 100_000;
+
+// Outcome of checking an open order against the latest price
+export type OrderEvaluation =
+  | { action: "fill"; price: number }
+  | { action: "trigger" } // stop reached on a stop-limit order whose limit is not marketable
+  | { action: "none" };
+
+// Decide whether an open order fills at `price`. Stop orders become market orders
+// once triggered, stop-limit orders become limit orders.
+export function evaluateOrder(order: Order, price: number): OrderEvaluation {
+  const isBuy = order.side === "buy";
+  const limit = order.limitPrice !== null ? Number(order.limitPrice) : undefined;
+  const stop = order.stopPrice !== null ? Number(order.stopPrice) : undefined;
+
+  const limitReached = (limitPrice: number) => isBuy ? price <= limitPrice : price >= limitPrice;
+  const stopReached = (stopPrice: number) => isBuy ? price >= stopPrice : price <= stopPrice;
+
+  switch (order.type) {
+    case "market":
+      return { action: "fill", price };
+    case "limit":
+      return limit !== undefined && limitReached(limit) ? { action: "fill", price } : { action: "none" };
+    case "stop":
+      return order.stopTriggered || (stop !== undefined && stopReached(stop))
+        ? { action: "fill", price }
+        : { action: "none" };
+    case "stop_limit": {
+      const triggered = order.stopTriggered || (stop !== undefined && stopReached(stop));
+      if (!triggered) return { action: "none" };
+      if (limit !== undefined && limitReached(limit)) return { action: "fill", price };
+      return order.stopTriggered ? { action: "none" } : { action: "trigger" };
+    }
+  }
+}
+
+// Trading day (YYYY-MM-DD) and hour in New York for a moment in time
+function newYorkTime(date: Date): { day: string; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || "";
+
+  return { day: `${part("year")}-${part("month")}-${part("day")}`, hour: Number(part("hour")) };
+}
+
+const MARKET_CLOSE_HOUR = 16;
+
+// The session a day order belongs to: the day it was placed, or the next weekday
+// when it was placed after the close or over a weekend
+function sessionDay(createdAt: Date): string {
+  const { day, hour } = newYorkTime(createdAt);
+  const session = new Date(`${day}T00:00:00Z`);
+  if (hour >= MARKET_CLOSE_HOUR) {
+    session.setUTCDate(session.getUTCDate() + 1);
+  }
+  while (session.getUTCDay() === 0 || session.getUTCDay() === 6) {
+    session.setUTCDate(session.getUTCDate() + 1);
+  }
+  return session.toISOString().split('T')[0];
+}
+
+// Day orders expire at the close of their session; GTC orders stay open until filled or cancelled
+export function isOrderExpired(order: Order, now: Date = new Date()): boolean {
+  if (order.timeInForce !== "day") return false;
+
+  const session = sessionDay(order.createdAt);
+  const { day, hour } = newYorkTime(now);
+  return day > session || (day === session && hour >= MARKET_CLOSE_HOUR);
+}
+
+export interface Fill {
+  price: number;
+  name: string;
+  filledAt: Date;
+}
+
+// Ledger entry recording a fill; cash and share checks happen when the storage
+// backend plans it against the account. Short selling is not supported.
+export function fillTransaction(order: Order, fill: Fill): InsertTransaction {
+  return {
+    userId: order.userId,
+    type: order.side,
+    symbol: order.symbol,
+    name: fill.name,
+    quantity: order.quantity,
+    price: String(fill.price),
+    orderId: order.id,
+    executedAt: fill.filledAt,
+  };
+}
@@ -0,0 +1,120 @@
+import type { Account, Order, InsertOrder } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { marketDataCache, type MarketDataCache } from "./marketDataCache";
+import type { Quote } from "./marketData";
+import { STARTING_CASH, evaluateOrder, isOrderExpired } from "./trading";
+
+// How often open orders are checked against fresh quotes; matches the quote cache TTL
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+
+// Simulated brokerage: accepts paper trading orders and fills them against market quotes
+export class TradingEngine {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private storage: IStorage, private marketData: MarketDataCache) {}
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Trading engine error:", error));
+    }, intervalMs);
+    // Don't keep the process alive just for the fill loop
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Every user gets a funded account the first time they trade or look at their balance
+  async getAccount(userId: number): Promise<Account> {
+    const account = await this.storage.getAccount(userId);
+    if (account) return account;
+
+    return this.storage.createAccount({
+      userId,
+      cash: String(STARTING_CASH),
+      createdAt: new Date(),
+    });
+  }
+
+  // Record a new order and evaluate it straight away so market orders fill immediately
+  async placeOrder(order: InsertOrder): Promise<Order> {
+    await this.getAccount(order.userId);
+    const created = await this.storage.createOrder(order);
+
+    const quote = (await this.marketData.quote(created.symbol)).value;
+    if (!quote) {
+      const rejected = await this.storage.updateOpenOrder(created.id, {
+        status: "rejected",
+        statusReason: "No quote available for symbol",
+      });
+      return rejected || created;
+    }
+
+    return (await this.processQuote(created, quote)) || created;
+  }
+
+  async cancelOrder(id: number): Promise<Order | undefined> {
+    return this.storage.updateOpenOrder(id, { status: "cancelled" });
+  }
+
+  // Expire stale day orders, then check the rest against the latest quotes
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const openOrders = await this.storage.getOpenOrders();
+      const active: Order[] = [];
+
+      for (const order of openOrders) {
+        if (isOrderExpired(order, now)) {
+          await this.storage.updateOpenOrder(order.id, {
+            status: "expired",
+            statusReason: "Day order not filled before the close",
+          });
+        } else {
+          active.push(order);
+        }
+      }
+
+      if (active.length === 0) return;
+
+      const symbols = Array.from(new Set(active.map(order => order.symbol)));
+      const quotes = await this.marketData.quotes(symbols);
+
+      for (const order of active) {
+        const quote = quotes.get(order.symbol);
+        if (quote) {
+          await this.processQuote(order, quote.value);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Apply a quote to one open order; returns the updated order if anything changed
+  private async processQuote(order: Order, quote: Quote): Promise<Order | undefined> {
+    const evaluation = evaluateOrder(order, quote.price);
+
+    switch (evaluation.action) {
+      case "fill":
+        return this.storage.fillOrder(order.id, {
+          price: evaluation.price,
+          name: quote.name,
+          filledAt: new Date(),
+        });
+      case "trigger":
+        return this.storage.updateOpenOrder(order.id, { stopTriggered: true });
+      case "none":
+        return undefined;
+    }
+  }
+}
+
+export const tradingEngine = new TradingEngine(storage, marketDataCache);
@@ -0,0 +1,45 @@
+import dns from "dns";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postWebhook, WebhookTargetError } from "./webhooks";
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => void;
+
+// Resolves every name to `address`, whatever DNS would say
+function resolveTo(address: string, family = 4) {
+  vi.spyOn(dns, "lookup").mockImplementation(((_hostname: string, _options: unknown, callback: LookupCallback) => {
+    callback(null, [{ address, family }]);
+  }) as unknown as typeof dns.lookup);
+}
+
+describe("postWebhook", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("refuses schemes other than http and https", async () => {
+    await expect(postWebhook("ftp://hooks.example.com/alert", {}, 1000)).rejects.toThrow(WebhookTargetError);
+    await expect(postWebhook("file:///etc/passwd", {}, 1000)).rejects.toThrow(WebhookTargetError);
+  });
+
+  it("refuses private hosts without connecting", async () => {
+    const lookup = vi.spyOn(dns, "lookup");
+
+    for (const url of ["http://127.0.0.1/hook", "http://localhost/hook", "http://[::ffff:10.0.0.1]/hook", "http://169.254.169.254/"]) {
+      await expect(postWebhook(url, {}, 1000)).rejects.toThrow(WebhookTargetError);
+    }
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("refuses a name that resolves to a private address", async () => {
+    resolveTo("10.0.0.5");
+
+    await expect(postWebhook("http://hooks.example.com/alert", {}, 1000))
+      .rejects.toThrow("hooks.example.com resolves to private address 10.0.0.5");
+  });
+
+  it("refuses a name that resolves to an IPv6 unique local address", async () => {
+    resolveTo("fd00::5", 6);
+
+    await expect(postWebhook("https://hooks.example.com/alert", {}, 1000)).rejects.toThrow(WebhookTargetError);
+  });
+});
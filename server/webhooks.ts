@@ -0,0 +1,55 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import type { LookupFunction } from "net";
+import { isPrivateAddress, isPrivateHostname } from "@shared/webhooks";
+
+// A webhook target turned out to be a host users mustn't reach through the server
+export class WebhookTargetError extends Error {}
+
+// Resolves the host like the default lookup, but refuses private addresses. It runs
+// when the connection is made, so a name can't pass a check and then be re-resolved
+// to somewhere else.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return callback(new WebhookTargetError(`${hostname} resolves to private address ${blocked.address}`), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POSTs `payload` as JSON to a public http(s) URL. Redirects aren't followed, since
+// they could lead anywhere; a response other than 2xx is an error.
+export function postWebhook(url: string, payload: unknown, timeoutMs: number): Promise<void> {
+  const target = new URL(url);
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    return Promise.reject(new WebhookTargetError(`Unsupported webhook protocol ${target.protocol}`));
+  }
+  if (isPrivateHostname(target.hostname)) {
+    return Promise.reject(new WebhookTargetError(`${target.hostname} is not a public host`));
+  }
+
+  const body = JSON.stringify(payload);
+  const client = target.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+      lookup: publicLookup,
+      timeout: timeoutMs,
+    }, (response) => {
+      // Only the status matters; drain the body so the socket is released
+      response.resume();
+      const status = response.statusCode ?? 0;
+      if (status >= 200 && status < 300) resolve();
+      else reject(new Error(`Webhook responded with ${status}`));
+    });
+    request.on("timeout", () => request.destroy(new Error(`Webhook timed out after ${timeoutMs}ms`)));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+// Backtest requests and results served by /api/backtests. Percentages are
+// percent values (2.5 means 2.5%) and timestamps are ISO 8601 strings.
+
+export const backtestIntervals = ["1d", "1wk"] as const;
+
+// Where historical bars come from: the configured market data provider, or
+// the recorded fixture files regardless of which provider is configured
+export const backtestDataSources = ["provider", "fixture"] as const;
+
+const period = (fallback: number) => z.coerce.number().int().min(1).max(500).default(fallback);
+
+export const strategyConfigSchema = z.discriminatedUnion("name", [
+  z.object({ name: z.literal("buy_and_hold") }),
+  z.object({ name: z.literal("sma_crossover"), fast: period(20), slow: period(50) }),
+  z.object({ name: z.literal("breakout"), entryLookback: period(20), exitLookback: period(10) }),
+]);
+export type StrategyConfig = z.infer<typeof strategyConfigSchema>;
+export type StrategyName = StrategyConfig["name"];
+
+export const commissionSchema = z.object({
+  perTrade: z.coerce.number().min(0).default(0),
+  perShare: z.coerce.number().min(0).default(0),
+  // Percent of the traded notional
+  percent: z.coerce.number().min(0).max(10).default(0),
+});
+export type Commission = z.infer<typeof commissionSchema>;
+
+export const backtestRequestSchema = z.object({
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  strategy: strategyConfigSchema,
+  interval: z.enum(backtestIntervals).default("1d"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  initialCash: z.coerce.number().positive().default(100_000),
+  commission: commissionSchema.default({}),
+  // Fills are moved against the order by this many basis points of the price
+  slippageBps: z.coerce.number().min(0).max(1000).default(5),
+  dataSource: z.enum(backtestDataSources).default("provider"),
+}).superRefine((request, ctx) => {
+  if (request.strategy.name === "sma_crossover" && request.strategy.fast >= request.strategy.slow) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["strategy", "fast"], message: "Fast period must be shorter than the slow period" });
+  }
+  if (request.from && request.to && request.from >= request.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["from"], message: "Start date must be before the end date" });
+  }
+});
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+  cash: number;
+  positionValue: number;
+  // Percent below the running peak, zero or negative
+  drawdown: number;
+}
+
+export interface BacktestFill {
+  time: string;
+  side: "buy" | "sell";
+  quantity: number;
+  price: number;
+  commission: number;
+}
+
+// One round trip from flat to flat
+export interface BacktestTrade {
+  entryTime: string;
+  exitTime: string;
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  pnl: number;
+  returnPercent: number;
+}
+
+export interface BacktestMetrics {
+  totalReturn: number;
+  cagr: number;
+  maxDrawdown: number;
+  // Annualized, with a zero risk-free rate
+  sharpe: number;
+  tradeCount: number;
+  winRate: number;
+  // Percent of bars with an open position
+  exposure: number;
+  totalCommission: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  strategy: StrategyConfig;
+  interval: typeof backtestIntervals[number];
+  dataSource: typeof backtestDataSources[number];
+  from: string;
+  to: string;
+  initialCash: number;
+  finalEquity: number;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  fills: BacktestFill[];
+  trades: BacktestTrade[];
+}
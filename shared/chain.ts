@@ -0,0 +1,61 @@
+// Simulated chain views served by /api/chain. Addresses are 0x-prefixed 20-byte hex
+// strings, hashes 0x-prefixed 32-byte hex strings and token amounts decimal strings.
+
+// Calls the ERC-20-like token module accepts. A deploy has no target and creates the
+// token contract; the rest are sent to it. Each token contract runs its own pool
+// account: transfers into it are sales or seeding, and buys release tokens from it.
+export type ContractCall =
+  | { method: "deploy"; args: { name: string; symbol: string } }
+  | { method: "mint"; args: { to: string; amount: string } }
+  | { method: "transfer"; args: { to: string; amount: string } }
+  | { method: "burn"; args: { amount: string } }
+  | { method: "buy"; args: { amount: string } };
+
+export interface ChainTransaction {
+  hash: string;
+  from: string;
+  // Null for contract deployments
+  to: string | null;
+  // The sender's transaction count before this one
+  nonce: number;
+  call: ContractCall;
+  blockNumber: number;
+  blockHash: string;
+}
+
+// A token moving between accounts; the zero address stands for minting and burning
+export interface TransferLog {
+  address: string;
+  event: "Transfer";
+  from: string;
+  to: string;
+  value: string;
+}
+
+export interface TransactionReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  from: string;
+  to: string | null;
+  // Set for deployments
+  contractAddress: string | null;
+  status: "success" | "reverted";
+  revertReason: string | null;
+  logs: TransferLog[];
+}
+
+export interface Block {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: string;
+  transactions: string[];
+}
+
+// GET /api/chain/tx/:hash
+export interface TransactionDetail {
+  transaction: ChainTransaction;
+  receipt: TransactionReceipt;
+  timestamp: string;
+}
@@ -0,0 +1,62 @@
+import type { RosterAssetType } from "./schema";
+
+// Fantasy league views served by /api/leagues. Salaries are dollars, returns are
+// percent values (2.5 means 2.5%) and days are YYYY-MM-DD.
+
+// Rosters can be drafted while a league is upcoming and are scored while it is active
+export type LeagueStatus = "upcoming" | "active" | "finished";
+
+export interface LeagueSummary {
+  id: number;
+  name: string;
+  creatorId: number;
+  // Creator's username
+  owner: string;
+  salaryCap: number;
+  rosterSize: number;
+  seasonStart: string;
+  seasonEnd: string;
+  status: LeagueStatus;
+  teamCount: number;
+  // The session user's team in the league, if they joined
+  teamId: number | null;
+  // When the standings were last computed
+  scoredAt: string | null;
+}
+
+export interface RosterPick {
+  assetType: RosterAssetType;
+  symbol: string;
+  salary: number;
+}
+
+export interface LeagueTeam {
+  id: number;
+  name: string;
+  username: string;
+  // Other teams' rosters stay hidden until the season starts
+  picks: RosterPick[] | null;
+  salary: number | null;
+}
+
+export interface LeagueDetail extends LeagueSummary {
+  teams: LeagueTeam[];
+}
+
+export interface LeagueStanding {
+  teamId: number;
+  teamName: string;
+  username: string;
+  // Null for teams that never drafted a roster
+  rank: number | null;
+  // Rank at the previous close, to show movement
+  previousRank: number | null;
+  returnPercent: number | null;
+}
+
+// Standings at the latest scored close, with every team's return at each close of the season
+export interface LeagueLeaderboard {
+  asOf: string | null;
+  standings: LeagueStanding[];
+  history: { day: string; returns: Record<number, number> }[];
+}
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { orderSides, type OrderSide, type TokenTransferType } from "./schema";
+
+// Fantasy token views served by /api/fantasy-tokens. Supply, balances and
+// transfer amounts are token units; prices and market caps are dollars.
+
+export interface FantasyTokenSummary {
+  id: number;
+  symbol: string;
+  name: string;
+  baseStock: string | null;
+  creatorId: number;
+  // Creator's username
+  owner: string;
+  // Pool price, or the issue price for tokens without a pool
+  price: number;
+  // Percent change in price over the last 24 hours; for pegged tokens, since the
+  // base stock's previous close
+  change24h: number;
+  // Tokens left to buy from the pool; null when the token has no pool
+  poolReserve: number | null;
+  totalSupply: number;
+  marketCap: number;
+  // Users holding a positive balance
+  holders: number;
+  // Set for tokens pegged to their base stock
+  peg: TokenPeg | null;
+  // Where the token's contract lives on the simulated chain and the transaction that
+  // deployed it; null until the deployment is mined
+  contractAddress: string | null;
+  deployTxHash: string | null;
+  createdAt: string;
+}
+
+export interface TokenPeg {
+  multiplier: number;
+  // Base stock price times the multiplier; null when the stock has no quote
+  referencePrice: number | null;
+  // Percent the pool price is away from the reference price
+  deviation: number | null;
+  // Root-mean-square of the pool's percent deviation from its peg at each
+  // rebalance over the past week; null before the first rebalance
+  trackingError: number | null;
+  lastRebalancedAt: string | null;
+}
+
+export interface TokenHolder {
+  userId: number;
+  username: string;
+  balance: number;
+  // Share of the total supply, in percent
+  share: number;
+}
+
+// A token ledger entry with usernames in place of user ids; null on the side of the mint, burn or pool
+export interface TokenTransferEntry {
+  id: number;
+  type: TokenTransferType;
+  from: string | null;
+  to: string | null;
+  amount: number;
+  // Simulated chain transaction mirroring the entry, once mined
+  txHash: string | null;
+  createdAt: string;
+}
+
+// Share of the cash side of every pool trade paid to the token's creator
+export const TOKEN_TRADE_FEE_RATE = 0.01;
+
+export const tokenQuoteQuerySchema = z.object({
+  side: z.enum(orderSides),
+  amount: z.coerce.number().positive("Amount must be positive"),
+});
+
+// A trade goes through only if its cash stays within `slippage` percent of the quote
+export const tokenTradeSchema = tokenQuoteQuerySchema.extend({
+  expectedCash: z.coerce.number().positive("Expected cash must be positive"),
+  slippage: z.coerce.number().min(0).max(50, "Slippage can be at most 50%").default(1),
+});
+
+export type TokenTradeRequest = z.infer<typeof tokenTradeSchema>;
+
+// What trading `amount` tokens with the pool would cost or pay right now
+export interface TokenTradeQuote {
+  side: OrderSide;
+  amount: number;
+  // Paid by a buyer or received by a seller, fee included
+  cash: number;
+  fee: number;
+  averagePrice: number;
+  priceBefore: number;
+  priceAfter: number;
+  // Percent move in the pool price caused by the trade
+  priceImpact: number;
+}
+
+export interface TokenTrade {
+  id: number;
+  side: OrderSide;
+  amount: number;
+  cash: number;
+  fee: number;
+  // Pool price once the trade went through
+  price: number;
+  // Simulated chain transaction moving the tokens, once mined
+  txHash: string | null;
+  createdAt: string;
+}
+
+// The session user's side of a token: their balance and the cash they can trade with
+export interface TokenPosition {
+  balance: number;
+  cash: number;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  atr, bollingerBands, computeIndicator, ema, indicatorDefinitions, indicatorNames, indicatorWarmup, macd, rsi, sma, stochastic, vwap,
+  type IndicatorBar, type IndicatorSeries,
+} from "./indicators";
+
+// Nulls must line up exactly; values agree to `digits` decimal places
+function expectSeries(actual: IndicatorSeries, expected: IndicatorSeries, digits = 6) {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) expect(actual[i], `index ${i}`).toBeNull();
+    else expect(actual[i], `index ${i}`).toBeCloseTo(value, digits);
+  });
+}
+
+describe("sma", () => {
+  it("averages the last `period` values once there are enough", () => {
+    expectSeries(sma([1, 2, 3, 4, 5, 6], 3), [null, null, 2, 3, 4, 5]);
+  });
+
+  it("starts its window at the first value of a series with leading nulls", () => {
+    expectSeries(sma([null, null, 1, 2, 3], 2), [null, null, null, 1.5, 2.5]);
+  });
+});
+
+describe("ema", () => {
+  it("seeds with the simple average of the first `period` values", () => {
+    // Seed (2 + 4 + 6) / 3 = 4, then k = 2 / (3 + 1) = 0.5: 8·0.5 + 4·0.5 = 6, 12·0.5 + 6·0.5 = 9, ...
+    // Seeding with the first value instead would give 2, 3, 4.5, ...
+    expectSeries(ema([2, 4, 6, 8, 12, 14], 3), [null, null, 4, 6, 9, 11.5]);
+  });
+
+  it("counts its warm-up from the first value of a series with leading nulls", () => {
+    expectSeries(ema([null, 2, 4, 6, 8], 3), [null, null, null, 4, 6]);
+  });
+});
+
+describe("rsi", () => {
+  it("smooths gains and losses with Wilder's average", () => {
+    // Changes +1, -0.5, +1.5, -1, +2. The first averages are simple (gain 2.5/3, loss 0.5/3,
+    // RS 5), then each takes 1/3 of the new change: gain 5/9, loss 4/9 (RS 1.25), then
+    // gain 28/27, loss 8/27 (RS 3.5). A plain 3-change average would read 50 at index 4.
+    expectSeries(rsi([10, 11, 10.5, 12, 11, 13], 3), [null, null, null, 250 / 3, 500 / 9, 700 / 9]);
+  });
+
+  it("matches Wilder's RSI(14) in the StockCharts worked example", () => {
+    const closes = [
+      44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+      46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+      43.42, 42.66, 43.13,
+    ];
+    // Published values, worked from unrounded closes, so they differ from these in the second decimal
+    const published = [
+      70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+      45.46, 37.30, 33.08, 37.77,
+    ];
+
+    const result = rsi(closes, 14);
+    expect(result.slice(0, 14).every(value => value === null)).toBe(true);
+    published.forEach((value, i) => expect(Math.abs(result[14 + i]! - value), `index ${14 + i}`).toBeLessThan(0.1));
+  });
+
+  it("reads 100 with only gains and 50 when flat", () => {
+    expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(rsi([5, 5, 5, 5], 3)[3]).toBe(50);
+  });
+});
+
+describe("macd", () => {
+  it("takes the fast minus slow EMA and smooths it into the signal line", () => {
+    // EMA(2): 1.5, 19/6, 115/18, ...; EMA(3): 7/3, 31/6, 127/12. The signal is EMA(2) of
+    // the MACD line, seeded from its first two values.
+    const { macd: line, signal, histogram } = macd([1, 2, 4, 8, 16], 2, 3, 2);
+
+    expectSeries(line, [null, null, 5 / 6, 11 / 9, 239 / 108]);
+    expectSeries(signal, [null, null, null, 37 / 36, 589 / 324]);
+    expectSeries(histogram, [null, null, null, 7 / 36, 32 / 81]);
+  });
+});
+
+describe("bollingerBands", () => {
+  it("places the bands population standard deviations from the SMA", () => {
+    // Mean 5 and population standard deviation 2; the sample deviation would be about 2.14
+    const { upper, middle, lower } = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+
+    expectSeries(middle, [...Array(7).fill(null), 5]);
+    expectSeries(upper, [...Array(7).fill(null), 9]);
+    expectSeries(lower, [...Array(7).fill(null), 1]);
+  });
+});
+
+describe("vwap", () => {
+  // Typical prices 10, 11 and 18
+  const highs = [12, 13, 20];
+  const lows = [8, 9, 16];
+  const closes = [10, 11, 18];
+  const volumes = [100, 300, 50];
+
+  it("weights typical prices by volume from the first bar", () => {
+    // (10·100 + 11·300) / 400 = 10.75, then (4300 + 18·50) / 450
+    expectSeries(vwap(highs, lows, closes, volumes), [10, 10.75, 5200 / 450]);
+  });
+
+  it("restarts at each new session", () => {
+    expectSeries(vwap(highs, lows, closes, volumes, ["2024-01-02", "2024-01-02", "2024-01-03"]), [10, 10.75, 18]);
+  });
+
+  it("falls back to the typical price without volume", () => {
+    expectSeries(vwap(highs, lows, closes, [0, 0, 0]), [10, 11, 18]);
+  });
+});
+
+describe("atr", () => {
+  it("smooths true ranges, which reach back to the previous close, with Wilder's average", () => {
+    // True ranges 2, 2, 1, 4 (gap up from 10 to a high of 14), 1. The first ATR is their
+    // simple average 5/3, then (prev·2 + tr) / 3; a plain 3-bar average would end at 2.
+    const highs = [10, 11, 10.5, 14, 13.5];
+    const lows = [8, 9, 9.5, 12, 12.5];
+    const closes = [9, 10, 10, 13, 13];
+
+    expectSeries(atr(highs, lows, closes, 3), [null, null, 5 / 3, 22 / 9, 53 / 27]);
+  });
+});
+
+describe("stochastic", () => {
+  it("places the close within the high-low range and averages it into %D", () => {
+    // Index 2: close 8 in 7-12 reads 20; index 3: close 12 in 7-13 reads 83.3
+    const { k, d } = stochastic([10, 12, 11, 13], [8, 9, 7, 10], [9, 11, 8, 12], 3, 2);
+
+    expectSeries(k, [null, null, 20, 250 / 3]);
+    expectSeries(d, [null, null, null, 155 / 3]);
+  });
+
+  it("reads 50 over a flat range", () => {
+    expect(stochastic([5, 5], [5, 5], [5, 5], 2, 1).k[1]).toBe(50);
+  });
+});
+
+describe("indicatorWarmup", () => {
+  const bars: IndicatorBar[] = Array.from({ length: 60 }, (_, i) => {
+    const close = 100 + 10 * Math.sin(i / 4) + i / 2;
+    return { time: `2024-01-${String(1 + (i % 28)).padStart(2, "0")}`, high: close + 1 + (i % 3), low: close - 1 - (i % 2), close, volume: 1000 + i };
+  });
+
+  it.each(indicatorNames)("counts the bars before %s's first value", (name) => {
+    const params = indicatorDefinitions[name].params.map(param => param.default);
+    const spec = { name, params };
+    const firstValues = Object.values(computeIndicator(spec, bars)).map(line => line.findIndex(value => value !== null));
+
+    // The last line to start, e.g. the MACD signal, starts right after the warm-up
+    expect(Math.max(...firstValues)).toBe(indicatorWarmup(spec));
+  });
+});
@@ -0,0 +1,347 @@
+// Technical indicators over a price series. Every function returns a series the
+// same length as its input, with null wherever there isn't enough history yet,
+// and each value only depends on inputs at or before its own index. Inputs may
+// themselves start with nulls, e.g. when smoothing another indicator.
+
+export type IndicatorSeries = (number | null)[];
+
+// Index of the first non-null value, or the length when there is none
+function firstValueIndex(values: IndicatorSeries): number {
+  const index = values.findIndex(value => value !== null);
+  return index === -1 ? values.length : index;
+}
+
+// Simple moving average
+export function sma(values: IndicatorSeries, period: number): IndicatorSeries {
+  const start = firstValueIndex(values);
+  const result: IndicatorSeries = [];
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < start) {
+      result.push(null);
+      continue;
+    }
+    sum += values[i]!;
+    if (i - start >= period) {
+      sum -= values[i - period]!;
+    }
+    result.push(i - start >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+// Exponential moving average, seeded with the simple average of the first `period` values
+export function ema(values: IndicatorSeries, period: number): IndicatorSeries {
+  const start = firstValueIndex(values);
+  const result: IndicatorSeries = [];
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  let seed = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < start) {
+      result.push(null);
+      continue;
+    }
+    if (previous === null) {
+      seed += values[i]!;
+      if (i - start === period - 1) {
+        previous = seed / period;
+      }
+    } else {
+      previous = values[i]! * k + previous * (1 - k);
+    }
+    result.push(previous);
+  }
+  return result;
+}
+
+// Wilder's smoothing: a running average where each new value has weight 1/period
+function wilder(values: number[], period: number, offset: number): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let previous: number | null = null;
+  let seed = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < offset) {
+      result.push(null);
+      continue;
+    }
+    if (previous === null) {
+      seed += values[i];
+      if (i - offset === period - 1) {
+        previous = seed / period;
+      }
+    } else {
+      previous = (previous * (period - 1) + values[i]) / period;
+    }
+    result.push(previous);
+  }
+  return result;
+}
+
+// Highest value over the last `period` values, including the current one
+export function highest(values: number[], period: number): IndicatorSeries {
+  return values.map((_, i) => i >= period - 1 ? Math.max(...values.slice(i - period + 1, i + 1)) : null);
+}
+
+// Lowest value over the last `period` values, including the current one
+export function lowest(values: number[], period: number): IndicatorSeries {
+  return values.map((_, i) => i >= period - 1 ? Math.min(...values.slice(i - period + 1, i + 1)) : null);
+}
+
+// Relative strength index (0-100) with Wilder's smoothing of gains and losses
+export function rsi(closes: number[], period: number): IndicatorSeries {
+  const gains = closes.map((close, i) => i > 0 ? Math.max(close - closes[i - 1], 0) : 0);
+  const losses = closes.map((close, i) => i > 0 ? Math.max(closes[i - 1] - close, 0) : 0);
+  // The first change is between the first two closes
+  const averageGain = wilder(gains, period, 1);
+  const averageLoss = wilder(losses, period, 1);
+
+  return closes.map((_, i) => {
+    const gain = averageGain[i];
+    const loss = averageLoss[i];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export interface MacdSeries {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+// Moving average convergence/divergence: fast EMA minus slow EMA, with an EMA signal line
+export function macd(closes: number[], fast: number, slow: number, signalPeriod: number): MacdSeries {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || s === null ? null : f - s;
+  });
+  const signal = ema(line, signalPeriod);
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => {
+      const s = signal[i];
+      return value === null || s === null ? null : value - s;
+    }),
+  };
+}
+
+export interface BandSeries {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+// Bollinger Bands: an SMA with bands `deviations` population standard deviations away
+export function bollingerBands(closes: number[], period: number, deviations: number): BandSeries {
+  const middle = sma(closes, period);
+  const width = closes.map((_, i) => {
+    const mean = middle[i];
+    if (mean === null) return null;
+    const window = closes.slice(i - period + 1, i + 1);
+    const variance = window.reduce((total, close) => total + (close - mean) ** 2, 0) / period;
+    return Math.sqrt(variance) * deviations;
+  });
+
+  return {
+    upper: middle.map((mean, i) => mean === null ? null : mean + width[i]!),
+    middle,
+    lower: middle.map((mean, i) => mean === null ? null : mean - width[i]!),
+  };
+}
+
+// Volume-weighted average of the typical price (high + low + close) / 3. The
+// running totals restart whenever the session key changes, e.g. the trading
+// day for intraday bars; without keys the average is anchored at the first bar.
+export function vwap(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[],
+  sessions?: string[],
+): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let priceVolume = 0;
+  let volume = 0;
+
+  for (let i = 0; i < closes.length; i++) {
+    if (sessions && i > 0 && sessions[i] !== sessions[i - 1]) {
+      priceVolume = 0;
+      volume = 0;
+    }
+    const typical = (highs[i] + lows[i] + closes[i]) / 3;
+    priceVolume += typical * volumes[i];
+    volume += volumes[i];
+    // Bars without volume (e.g. indices) fall back to the typical price
+    result.push(volume > 0 ? priceVolume / volume : typical);
+  }
+  return result;
+}
+
+// Average true range with Wilder's smoothing. The first bar's true range is its high-low range.
+export function atr(highs: number[], lows: number[], closes: number[], period: number): IndicatorSeries {
+  const trueRanges = closes.map((_, i) => {
+    const range = highs[i] - lows[i];
+    if (i === 0) return range;
+    return Math.max(range, Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]));
+  });
+  return wilder(trueRanges, period, 0);
+}
+
+export interface StochasticSeries {
+  k: IndicatorSeries;
+  d: IndicatorSeries;
+}
+
+// Stochastic oscillator (0-100): %K places the close within the `kPeriod`
+// high-low range, %D is its `dPeriod` simple average. A flat range reads 50.
+export function stochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number,
+  dPeriod: number,
+): StochasticSeries {
+  const high = highest(highs, kPeriod);
+  const low = lowest(lows, kPeriod);
+  const k = closes.map((close, i) => {
+    const h = high[i];
+    const l = low[i];
+    if (h === null || l === null) return null;
+    return h === l ? 50 : ((close - l) / (h - l)) * 100;
+  });
+  return { k, d: sma(k, dPeriod) };
+}
+
+// Indicators selectable by name from charts and the /api/v2/indicators endpoint.
+// Overlays share the price axis; the others are drawn in their own pane.
+export const indicatorNames = ["sma", "ema", "bbands", "vwap", "rsi", "macd", "atr", "stoch"] as const;
+export type IndicatorName = typeof indicatorNames[number];
+
+export interface IndicatorDefinition {
+  label: string;
+  placement: "overlay" | "pane";
+  // Parameter names and the defaults used when a request leaves them out
+  params: { name: string; default: number }[];
+  // Names of the series computed, in drawing order
+  lines: string[];
+}
+
+export const indicatorDefinitions: Record<IndicatorName, IndicatorDefinition> = {
+  sma: { label: "SMA", placement: "overlay", params: [{ name: "period", default: 20 }], lines: ["value"] },
+  ema: { label: "EMA", placement: "overlay", params: [{ name: "period", default: 20 }], lines: ["value"] },
+  bbands: {
+    label: "Bollinger Bands",
+    placement: "overlay",
+    params: [{ name: "period", default: 20 }, { name: "deviations", default: 2 }],
+    lines: ["upper", "middle", "lower"],
+  },
+  vwap: { label: "VWAP", placement: "overlay", params: [], lines: ["value"] },
+  rsi: { label: "RSI", placement: "pane", params: [{ name: "period", default: 14 }], lines: ["value"] },
+  macd: {
+    label: "MACD",
+    placement: "pane",
+    params: [{ name: "fast", default: 12 }, { name: "slow", default: 26 }, { name: "signal", default: 9 }],
+    lines: ["histogram", "macd", "signal"],
+  },
+  atr: { label: "ATR", placement: "pane", params: [{ name: "period", default: 14 }], lines: ["value"] },
+  stoch: {
+    label: "Stochastic",
+    placement: "pane",
+    params: [{ name: "k", default: 14 }, { name: "d", default: 3 }],
+    lines: ["k", "d"],
+  },
+};
+
+export interface IndicatorSpec {
+  name: IndicatorName;
+  params: number[];
+}
+
+// Canonical text form of a spec, e.g. "macd:12:26:9"
+export function indicatorId(spec: IndicatorSpec): string {
+  return [spec.name, ...spec.params].join(":");
+}
+
+// Human readable label, e.g. "MACD (12, 26, 9)"
+export function indicatorLabel(spec: IndicatorSpec): string {
+  const { label } = indicatorDefinitions[spec.name];
+  return spec.params.length > 0 ? `${label} (${spec.params.join(", ")})` : label;
+}
+
+// Bars needed before an indicator's first value
+export function indicatorWarmup(spec: IndicatorSpec): number {
+  const [a = 0, b = 0, c = 0] = spec.params;
+  switch (spec.name) {
+    case "sma":
+    case "ema":
+    case "bbands":
+    case "atr":
+      return a - 1;
+    case "rsi":
+      return a;
+    case "macd":
+      return Math.max(a, b) + c - 2;
+    case "stoch":
+      return a + b - 2;
+    case "vwap":
+      return 0;
+  }
+}
+
+export interface IndicatorBar {
+  time: string;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Compute an indicator's series over `bars`, keyed by the definition's line names.
+// `intraday` restarts VWAP at each trading day.
+export function computeIndicator(
+  spec: IndicatorSpec,
+  bars: IndicatorBar[],
+  intraday = false,
+): Record<string, IndicatorSeries> {
+  const closes = bars.map(bar => bar.close);
+  const highs = bars.map(bar => bar.high);
+  const lows = bars.map(bar => bar.low);
+  const [a, b, c] = spec.params;
+
+  switch (spec.name) {
+    case "sma":
+      return { value: sma(closes, a) };
+    case "ema":
+      return { value: ema(closes, a) };
+    case "bbands": {
+      const { upper, middle, lower } = bollingerBands(closes, a, b);
+      return { upper, middle, lower };
+    }
+    case "vwap": {
+      const sessions = intraday ? bars.map(bar => bar.time.slice(0, 10)) : undefined;
+      return { value: vwap(highs, lows, closes, bars.map(bar => bar.volume), sessions) };
+    }
+    case "rsi":
+      return { value: rsi(closes, a) };
+    case "macd": {
+      const { macd: line, signal, histogram } = macd(closes, a, b, c);
+      return { histogram, macd: line, signal };
+    }
+    case "atr":
+      return { value: atr(highs, lows, closes, a) };
+    case "stoch": {
+      const { k, d } = stochastic(highs, lows, closes, a, b);
+      return { k, d };
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import type { CostBasisMethod } from "./schema";
+
+// Holdings derived by replaying the transaction ledger. Amounts are numbers
+// and timestamps are ISO 8601 strings.
+
+// Open tax lot: what is left of one buy after sales and splits. `id` is the
+// buy transaction id, which sales reference under specific-lot accounting.
+export interface Lot {
+  id: number;
+  userId: number;
+  symbol: string;
+  name: string;
+  shares: number;
+  // Cost per share, adjusted for splits
+  purchasePrice: number;
+  purchaseDate: string;
+  // Set when the lot was opened by a paper trading order rather than recorded by hand
+  orderId: number | null;
+}
+
+// The part of one lot closed by one sale
+export interface RealizedLot {
+  saleId: number;
+  lotId: number;
+  symbol: string;
+  shares: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  purchaseDate: string;
+  saleDate: string;
+}
+
+export interface Position {
+  symbol: string;
+  name: string;
+  shares: number;
+  costBasis: number;
+  averageCost: number;
+  realizedGain: number;
+  dividends: number;
+  lots: Lot[];
+}
+
+export interface LedgerTotals {
+  costBasis: number;
+  realizedGain: number;
+  dividends: number;
+  fees: number;
+  deposits: number;
+  withdrawals: number;
+}
+
+export interface LedgerResponse {
+  method: CostBasisMethod;
+  positions: Position[];
+  realized: RealizedLot[];
+  totals: LedgerTotals;
+}
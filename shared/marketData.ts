@@ -0,0 +1,270 @@
+import { z } from "zod";
+import { indicatorDefinitions, indicatorNames, type IndicatorName, type IndicatorSpec } from "./indicators";
+
+// Normalized market data shapes served under /api/v2. Prices and volumes are
+// numbers, percentages are percent values (2.5 means 2.5%), and timestamps are
+// ISO 8601 strings.
+
+// Ticker symbols as Yahoo writes them, uppercased: indices start with ^, and share
+// classes, currencies and futures use ".", "-", "=" or "&"
+export const SYMBOL_PATTERN = /^\^?[A-Z0-9][A-Z0-9.\-=&]{0,19}$/;
+
+export const barIntervals = ["5m", "15m", "60m", "1d", "1wk", "1mo"] as const;
+export const barIntervalSchema = z.enum(barIntervals);
+export type BarInterval = z.infer<typeof barIntervalSchema>;
+
+// Lookback windows accepted by the bars endpoint when no explicit `from` is given
+export const barRanges = ["1d", "5d", "1mo", "3mo", "6mo", "1y", "5y", "max"] as const;
+export const barRangeSchema = z.enum(barRanges);
+export type BarRange = z.infer<typeof barRangeSchema>;
+
+// Start of a lookback window ending at `to`
+export function rangeStart(range: BarRange, to: Date): Date {
+  const from = new Date(to);
+  switch (range) {
+    case "1d": from.setDate(from.getDate() - 1); break;
+    case "5d": from.setDate(from.getDate() - 5); break;
+    case "1mo": from.setMonth(from.getMonth() - 1); break;
+    case "3mo": from.setMonth(from.getMonth() - 3); break;
+    case "6mo": from.setMonth(from.getMonth() - 6); break;
+    case "1y": from.setFullYear(from.getFullYear() - 1); break;
+    case "5y": from.setFullYear(from.getFullYear() - 5); break;
+    case "max": return new Date(0);
+  }
+  return from;
+}
+
+// Freshness of a response served through the server-side market data cache
+export const cacheInfoSchema = z.object({
+  cachedAt: z.string().datetime(),
+  stale: z.boolean(),
+});
+export type CacheInfo = z.infer<typeof cacheInfoSchema>;
+
+export const quoteSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  price: z.number(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  volume: z.number(),
+  previousClose: z.number(),
+  change: z.number(),
+  changePercent: z.number(),
+  marketTime: z.string().datetime(),
+});
+export type Quote = z.infer<typeof quoteSchema>;
+
+export const quoteResponseSchema = cacheInfoSchema.extend({
+  quote: quoteSchema,
+});
+export type QuoteResponse = z.infer<typeof quoteResponseSchema>;
+
+// Batch quotes keyed by symbol; symbols that could not be quoted are listed in `errors`
+export const quotesResponseSchema = cacheInfoSchema.partial().extend({
+  quotes: z.record(quoteSchema),
+  errors: z.record(z.string()),
+});
+export type QuotesResponse = z.infer<typeof quotesResponseSchema>;
+
+export const barSchema = z.object({
+  time: z.string().datetime(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+});
+export type Bar = z.infer<typeof barSchema>;
+
+export const barsQuerySchema = z.object({
+  interval: barIntervalSchema.default("1d"),
+  range: barRangeSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+export type BarsQuery = z.infer<typeof barsQuerySchema>;
+
+export const barsResponseSchema = cacheInfoSchema.extend({
+  symbol: z.string(),
+  interval: barIntervalSchema,
+  // Provider the bars came from; "fixture" when they are recorded rather than live
+  source: z.string(),
+  bars: z.array(barSchema),
+});
+export type BarsResponse = z.infer<typeof barsResponseSchema>;
+
+// Maximum number of indicators computed per request
+export const MAX_INDICATORS = 10;
+
+// One indicator in the form name[:param...], e.g. "sma:50" or "macd:12:26:9".
+// Missing parameters take the indicator's defaults.
+export const indicatorSpecSchema = z.string().trim().transform((value, ctx): IndicatorSpec => {
+  const [name, ...rawParams] = value.toLowerCase().split(":");
+  if (!(indicatorNames as readonly string[]).includes(name)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown indicator ${name}` });
+    return z.NEVER;
+  }
+
+  const definition = indicatorDefinitions[name as IndicatorName];
+  if (rawParams.length > definition.params.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${definition.label} takes at most ${definition.params.length} parameters` });
+    return z.NEVER;
+  }
+
+  const params = definition.params.map((param, i) => i < rawParams.length ? Number(rawParams[i]) : param.default);
+  if (params.some(param => !Number.isFinite(param) || param <= 0 || param > 500)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid ${definition.label} parameters` });
+    return z.NEVER;
+  }
+  // Every parameter except the band width counts bars
+  if (params.some((param, i) => definition.params[i].name !== "deviations" && !Number.isInteger(param))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${definition.label} periods must be whole numbers` });
+    return z.NEVER;
+  }
+  if (name === "macd" && params[0] >= params[1]) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "MACD fast period must be shorter than the slow period" });
+    return z.NEVER;
+  }
+  return { name: name as IndicatorName, params };
+});
+
+export const indicatorsQuerySchema = barsQuerySchema.extend({
+  indicators: z
+    .string({ required_error: "Query parameter indicators is required" })
+    .transform(value => value.split(",").filter(spec => spec.trim()))
+    .pipe(z.array(indicatorSpecSchema)
+      .min(1, "Query parameter indicators is required")
+      .max(MAX_INDICATORS, `At most ${MAX_INDICATORS} indicators can be requested at once`)),
+});
+export type IndicatorsQuery = z.infer<typeof indicatorsQuerySchema>;
+
+export const indicatorResultSchema = z.object({
+  // Canonical spec, e.g. "bbands:20:2"
+  id: z.string(),
+  name: z.enum(indicatorNames),
+  label: z.string(),
+  params: z.array(z.number()),
+  placement: z.enum(["overlay", "pane"]),
+  // Series aligned with `times`, keyed by line name; null during warm-up
+  series: z.record(z.array(z.number().nullable())),
+});
+export type IndicatorResult = z.infer<typeof indicatorResultSchema>;
+
+// Indicator values for each bar in the requested range. Extra history before the
+// range is loaded so values are available from the first bar where possible.
+export const indicatorsResponseSchema = cacheInfoSchema.extend({
+  symbol: z.string(),
+  interval: barIntervalSchema,
+  source: z.string(),
+  times: z.array(z.string().datetime()),
+  indicators: z.array(indicatorResultSchema),
+});
+export type IndicatorsResponse = z.infer<typeof indicatorsResponseSchema>;
+
+export const searchResultSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  type: z.string(),
+  exchange: z.string(),
+  currency: z.string(),
+});
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+export const searchResponseSchema = cacheInfoSchema.extend({
+  results: z.array(searchResultSchema),
+});
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+
+export const newsItemSchema = z.object({
+  title: z.string(),
+  summary: z.string(),
+  url: z.string(),
+  thumbnail: z.string().optional(),
+  publisher: z.string(),
+  publishedAt: z.string().datetime(),
+  symbols: z.array(z.string()),
+});
+export type NewsItem = z.infer<typeof newsItemSchema>;
+
+export const newsResponseSchema = z.object({
+  items: z.array(newsItemSchema),
+});
+export type NewsResponse = z.infer<typeof newsResponseSchema>;
+
+// Company profile and key statistics served by /api/stocks/profile/:symbol.
+// Fields the provider doesn't report are left out.
+export const companyProfileSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  sector: z.string().optional(),
+  industry: z.string().optional(),
+  description: z.string().optional(),
+  website: z.string().optional(),
+  marketCap: z.number().optional(),
+  peRatio: z.number().optional(),
+  eps: z.number().optional(),
+  dividendYield: z.number().optional(),
+  beta: z.number().optional(),
+  fiftyTwoWeekHigh: z.number().optional(),
+  fiftyTwoWeekLow: z.number().optional(),
+  sharesOutstanding: z.number().optional(),
+});
+export type CompanyProfile = z.infer<typeof companyProfileSchema>;
+
+export const profileResponseSchema = cacheInfoSchema.extend({
+  profile: companyProfileSchema,
+});
+export type ProfileResponse = z.infer<typeof profileResponseSchema>;
+
+// One fiscal quarter of income statement and balance sheet figures
+export const financialPeriodSchema = z.object({
+  periodEnd: z.string().datetime(),
+  revenue: z.number().optional(),
+  grossProfit: z.number().optional(),
+  operatingIncome: z.number().optional(),
+  netIncome: z.number().optional(),
+  eps: z.number().optional(),
+  totalAssets: z.number().optional(),
+  totalLiabilities: z.number().optional(),
+  shareholdersEquity: z.number().optional(),
+  cash: z.number().optional(),
+  totalDebt: z.number().optional(),
+});
+export type FinancialPeriod = z.infer<typeof financialPeriodSchema>;
+
+// Recent quarters served by /api/stocks/financials/:symbol, oldest first
+export const financialsResponseSchema = cacheInfoSchema.extend({
+  symbol: z.string(),
+  quarters: z.array(financialPeriodSchema),
+});
+export type FinancialsResponse = z.infer<typeof financialsResponseSchema>;
+
+// Quote streaming over the /ws WebSocket. Clients subscribe to symbols and get a
+// full quote for each right away, then only the fields that changed as the
+// server sees new prices.
+export const MAX_STREAM_SYMBOLS = 100;
+
+export const streamClientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  symbols: z.array(z.string().trim().min(1).transform(symbol => symbol.toUpperCase())).max(MAX_STREAM_SYMBOLS),
+});
+export type StreamClientMessage = z.infer<typeof streamClientMessageSchema>;
+
+export const streamServerMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("snapshot"), quote: quoteSchema }),
+  z.object({ type: z.literal("quote"), symbol: z.string(), changes: quoteSchema.partial() }),
+  z.object({ type: z.literal("error"), message: z.string() }),
+]);
+export type StreamServerMessage = z.infer<typeof streamServerMessageSchema>;
+
+// Ticker symbols behind the index names stored in /api/market/indices
+export const marketIndexSymbols: Record<string, string> = {
+  "S&P 500": "^GSPC",
+  "NASDAQ": "^IXIC",
+  "DOW": "^DJI",
+  "RUSSELL 2000": "^RUT",
+  "10-YR YIELD": "^TNX",
+  "VIX": "^VIX",
+};
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { marketIndexSymbols } from "./marketData";
+
+// Portfolio value history and returns served by /api/portfolio/history.
+// Amounts are numbers, returns are percent values (2.5 means 2.5%) and
+// snapshot dates are YYYY-MM-DD trading days.
+
+// Lookback windows for portfolio history; a subset of the bar ranges since snapshots are daily
+export const portfolioRanges = ["5d", "1mo", "3mo", "6mo", "1y", "5y", "max"] as const;
+export type PortfolioRange = typeof portfolioRanges[number];
+
+export const portfolioHistoryQuerySchema = z.object({
+  range: z.enum(portfolioRanges).default("1y"),
+});
+
+// Account value at one day's close
+export interface PortfolioSnapshot {
+  date: string;
+  // Cash plus holdings valued at the close
+  value: number;
+  cash: number;
+  holdingsValue: number;
+  // Deposits less withdrawals since the previous snapshot
+  netFlow: number;
+}
+
+// Returns over the whole range. Time-weighted return strips out the effect of
+// deposits and withdrawals; money-weighted return (IRR) reflects their timing.
+// Annualized figures are only given for ranges of a year or more.
+export interface PortfolioReturns {
+  timeWeighted: number | null;
+  moneyWeighted: number | null;
+  annualizedTimeWeighted: number | null;
+  annualizedMoneyWeighted: number | null;
+}
+
+export interface PortfolioHistoryResponse {
+  range: PortfolioRange;
+  snapshots: PortfolioSnapshot[];
+  returns: PortfolioReturns;
+}
+
+// Indices the portfolio can be compared against; the yield and volatility
+// indices aren't investable, so they're left out
+export const benchmarks = Object.entries(marketIndexSymbols)
+  .filter(([name]) => name !== "10-YR YIELD" && name !== "VIX")
+  .map(([name, symbol]) => ({ name, symbol }));
+
+export const benchmarkRanges = ["1mo", "3mo", "6mo", "1y", "5y"] as const;
+
+export const benchmarkQuerySchema = z.object({
+  symbol: z.string().refine(symbol => benchmarks.some(benchmark => benchmark.symbol === symbol), "Unknown benchmark").default("^GSPC"),
+  range: z.enum(benchmarkRanges).default("1y"),
+});
+
+// Cumulative return of the portfolio (time-weighted) and the benchmark since the first day
+export interface BenchmarkPoint {
+  date: string;
+  portfolio: number;
+  benchmark: number;
+}
+
+// Statistics of daily returns against the benchmark, annualized over 252 trading
+// days. Alpha is Jensen's alpha with a zero risk-free rate. Null when there are
+// too few days to estimate them.
+export interface BenchmarkStatistics {
+  alpha: number | null;
+  beta: number | null;
+  trackingError: number | null;
+  informationRatio: number | null;
+}
+
+export interface BenchmarkComparisonResponse extends BenchmarkStatistics {
+  range: typeof benchmarkRanges[number];
+  benchmark: { name: string; symbol: string };
+  series: BenchmarkPoint[];
+  portfolioReturn: number | null;
+  benchmarkReturn: number | null;
+}
@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+// Risk analytics for current holdings served by /api/portfolio/risk. Figures
+// come from daily close-to-close returns over the range, with holdings weighted
+// by their value today. Percentages are percent values (2.5 means 2.5%),
+// amounts are in dollars and dates are YYYY-MM-DD.
+
+export const riskRanges = ["3mo", "6mo", "1y", "5y"] as const;
+export type RiskRange = typeof riskRanges[number];
+
+// Confidence levels offered for value at risk
+export const riskConfidenceLevels = [0.9, 0.95, 0.99] as const;
+
+export const riskQuerySchema = z.object({
+  range: z.enum(riskRanges).default("1y"),
+  confidence: z.coerce.number()
+    .refine(value => (riskConfidenceLevels as readonly number[]).includes(value), "Confidence must be 0.9, 0.95 or 0.99")
+    .default(0.95),
+});
+
+export interface HoldingRisk {
+  symbol: string;
+  name: string;
+  value: number;
+  // Share of the holdings' total value
+  weight: number;
+  // Annualized standard deviation of daily returns
+  volatility: number | null;
+}
+
+// A one-day loss, as a positive number, not exceeded with the chosen confidence
+// (VaR) or expected when it is exceeded (CVaR)
+export interface LossEstimate {
+  percent: number;
+  amount: number;
+}
+
+export interface Drawdown {
+  percent: number;
+  peakDate: string;
+  troughDate: string;
+}
+
+export interface RiskResponse {
+  range: RiskRange;
+  confidence: number;
+  holdingsValue: number;
+  // Daily returns the figures are based on
+  observations: number;
+  holdings: HoldingRisk[];
+  // Held symbols without price history, left out of every figure
+  unavailable: string[];
+  volatility: number | null;
+  historicalVaR: LossEstimate | null;
+  historicalCVaR: LossEstimate | null;
+  // Assuming normally distributed daily returns
+  parametricVaR: LossEstimate | null;
+  parametricCVaR: LossEstimate | null;
+  maxDrawdown: Drawdown | null;
+  // Pairwise correlation of daily returns, in the order of `holdings`
+  correlations: (number | null)[][];
+}
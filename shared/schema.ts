@@ -1,6 +1,9 @@
-import { pgTable, text, serial, integer, numeric, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, numeric, timestamp, boolean, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { screenCriteriaSchema, type ScreenCriteria, type ScreenerResult } from "./screener";
+import { isPrivateHostname } from "./webhooks";
+import { SYMBOL_PATTERN } from "./marketData";
 
 // User table with basic authentication
 export const users = pgTable("users", {
@@ -14,26 +17,6 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
-// Portfolio stocks table
-export const portfolioStocks = pgTable("portfolio_stocks", {
-  id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
-  symbol: text("symbol").notNull(),
-  name: text("name").notNull(),
-  shares: numeric("shares").notNull(),
-  purchasePrice: numeric("purchase_price").notNull(),
-  purchaseDate: timestamp("purchase_date").notNull(),
-});
-
-export const insertPortfolioStockSchema = createInsertSchema(portfolioStocks).pick({
-  userId: true,
-  symbol: true,
-  name: true,
-  shares: true,
-  purchasePrice: true,
-  purchaseDate: true,
-});
-
 // Watchlist stocks table
 export const watchlistStocks = pgTable("watchlist_stocks", {
   id: serial("id").primaryKey(),
@@ -66,15 +49,685 @@ export const insertMarketIndexSchema = createInsertSchema(marketIndices).pick({
   lastUpdated: true,
 });
 
+// Intraday index levels behind the market summary sparklines
+export const marketIndexHistory = pgTable("market_index_history", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  value: numeric("value").notNull(),
+  recordedAt: timestamp("recorded_at").notNull(),
+}, (table) => [unique().on(table.name, table.recordedAt)]);
+
+export const insertMarketIndexPointSchema = createInsertSchema(marketIndexHistory).pick({
+  name: true,
+  value: true,
+  recordedAt: true,
+});
+
+// How sales are matched against open tax lots
+export const costBasisMethods = ["fifo", "lifo", "specific", "average"] as const;
+
+// Paper trading cash account, one per user
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  cash: numeric("cash").notNull(),
+  costBasisMethod: text("cost_basis_method", { enum: costBasisMethods }).notNull().default("fifo"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const insertAccountSchema = createInsertSchema(accounts).pick({
+  userId: true,
+  cash: true,
+  createdAt: true,
+});
+
+export const updateAccountSchema = z.object({
+  costBasisMethod: z.enum(costBasisMethods),
+});
+
+// Types users record by hand; the token types are only written by fantasy token trades
+export const manualTransactionTypes = ["buy", "sell", "dividend", "split", "fee", "deposit", "withdrawal"] as const;
+
+// Cash paid for and received from fantasy tokens, and trading fees paid to a token's creator
+export const tokenTransactionTypes = ["token_buy", "token_sell", "token_fee"] as const;
+
+export const transactionTypes = [...manualTransactionTypes, ...tokenTransactionTypes] as const;
+
+// Account ledger; positions, tax lots and realized gains are all derived by replaying it
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type", { enum: transactionTypes }).notNull(),
+  symbol: text("symbol"),
+  name: text("name"),
+  // Shares for buys and sells, new shares per old share for splits
+  quantity: numeric("quantity"),
+  // Per-share price for buys and sells
+  price: numeric("price"),
+  // Cash amount for dividends, fees, deposits, withdrawals and token trades
+  amount: numeric("amount"),
+  // Buy transaction a sale is matched against under specific-lot accounting
+  lotId: integer("lot_id"),
+  // Paper trading order that produced this transaction, if any
+  orderId: integer("order_id"),
+  executedAt: timestamp("executed_at").notNull(),
+});
+
+const optionalPositive = z.coerce.number().positive().transform(String).nullish();
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()).nullish(),
+  quantity: optionalPositive,
+  price: optionalPositive,
+  amount: optionalPositive,
+  executedAt: z.coerce.date(),
+}).pick({
+  userId: true,
+  type: true,
+  symbol: true,
+  name: true,
+  quantity: true,
+  price: true,
+  amount: true,
+  lotId: true,
+  orderId: true,
+  executedAt: true,
+});
+
+// Manually recorded ledger entry; the owner comes from the session and the fields are checked against the type
+export const recordTransactionSchema = insertTransactionSchema.omit({ userId: true, orderId: true }).superRefine((entry, ctx) => {
+  const require = (field: "symbol" | "quantity" | "price" | "amount", message: string) => {
+    if (!entry[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    }
+  };
+
+  switch (entry.type) {
+    case "buy":
+    case "sell":
+      require("symbol", "Symbol is required");
+      require("quantity", "Quantity is required");
+      require("price", "Price is required");
+      break;
+    case "split":
+      require("symbol", "Symbol is required");
+      require("quantity", "Split ratio is required");
+      break;
+    case "dividend":
+      require("symbol", "Symbol is required");
+      require("amount", "Amount is required");
+      break;
+    case "fee":
+    case "deposit":
+    case "withdrawal":
+      require("amount", "Amount is required");
+      break;
+    case "token_buy":
+    case "token_sell":
+    case "token_fee":
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["type"], message: "Fantasy token trades are recorded by the token's pool" });
+      break;
+  }
+
+  if (entry.lotId != null && entry.type !== "sell") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lotId"], message: "Only sales can be matched to a lot" });
+  }
+});
+
+// Legacy holding payload from the add stock dialog, recorded as a buy
+export const addHoldingSchema = z.object({
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  name: z.string().min(1),
+  shares: z.coerce.number().positive().transform(String),
+  purchasePrice: z.coerce.number().positive().transform(String),
+  purchaseDate: z.coerce.date(),
+});
+
+export const orderSides = ["buy", "sell"] as const;
+export const orderTypes = ["market", "limit", "stop", "stop_limit"] as const;
+export const timesInForce = ["day", "gtc"] as const;
+export const orderStatuses = ["open", "filled", "cancelled", "expired", "rejected"] as const;
+
+// Paper trading orders; open orders are evaluated against incoming quotes by the fill engine
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  side: text("side", { enum: orderSides }).notNull(),
+  type: text("type", { enum: orderTypes }).notNull(),
+  quantity: numeric("quantity").notNull(),
+  limitPrice: numeric("limit_price"),
+  stopPrice: numeric("stop_price"),
+  timeInForce: text("time_in_force", { enum: timesInForce }).notNull(),
+  status: text("status", { enum: orderStatuses }).notNull().default("open"),
+  // Set once the stop price of a stop or stop-limit order has been reached
+  stopTriggered: boolean("stop_triggered").notNull().default(false),
+  filledPrice: numeric("filled_price"),
+  filledAt: timestamp("filled_at"),
+  // Why an order was rejected or expired
+  statusReason: text("status_reason"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+const optionalPrice = z.coerce.number().positive().transform(String).nullish();
+
+export const insertOrderSchema = createInsertSchema(orders, {
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  quantity: z.coerce.number().positive().transform(String),
+  limitPrice: optionalPrice,
+  stopPrice: optionalPrice,
+}).pick({
+  userId: true,
+  symbol: true,
+  side: true,
+  type: true,
+  quantity: true,
+  limitPrice: true,
+  stopPrice: true,
+  timeInForce: true,
+});
+
+// Order ticket payload; the owner comes from the session and prices are checked against the order type
+export const placeOrderSchema = insertOrderSchema.omit({ userId: true }).superRefine((order, ctx) => {
+  const needsLimit = order.type === "limit" || order.type === "stop_limit";
+  const needsStop = order.type === "stop" || order.type === "stop_limit";
+
+  if (needsLimit && !order.limitPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: "Limit price is required" });
+  }
+  if (!needsLimit && order.limitPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limitPrice"], message: `Limit price is not allowed for ${order.type} orders` });
+  }
+  if (needsStop && !order.stopPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stopPrice"], message: "Stop price is required" });
+  }
+  if (!needsStop && order.stopPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stopPrice"], message: `Stop price is not allowed for ${order.type} orders` });
+  }
+});
+
+export const alertConditions = [
+  "price_above",
+  "price_below",
+  "percent_change",
+  "cross_above_sma",
+  "cross_below_sma",
+  "volume_spike",
+] as const;
+
+// Conditions that compare against a moving average or average volume over `period` days
+const periodConditions: readonly string[] = ["cross_above_sma", "cross_below_sma", "volume_spike"];
+
+// Price alerts; active alerts are checked on every quote refresh and switch off
+// once they fire, until the user re-arms them
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  symbol: text("symbol").notNull(),
+  condition: text("condition", { enum: alertConditions }).notNull(),
+  // Price for price_above/price_below, percent move for percent_change and a
+  // multiple of average daily volume for volume_spike; unused for crossings
+  threshold: numeric("threshold"),
+  // Moving average period for crossings, days averaged for volume spikes
+  period: integer("period"),
+  // Triggered alerts are also POSTed here when set
+  webhookUrl: text("webhook_url"),
+  active: boolean("active").notNull().default(true),
+  triggeredAt: timestamp("triggered_at"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Hosts are checked again when the webhook is delivered, once their name resolves
+const webhookUrlSchema = z.string().trim().url()
+  .refine(url => /^https?:\/\//.test(url), "Webhook URL must use http or https")
+  .refine(url => !URL.canParse(url) || !isPrivateHostname(new URL(url).hostname), "Webhook URL must point to a public host")
+  .nullish()
+  .or(z.literal("").transform(() => null));
+
+export const insertAlertSchema = createInsertSchema(alerts, {
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  threshold: z.coerce.number().positive().transform(String).nullish(),
+  period: z.coerce.number().int().min(2).max(200).nullish(),
+  webhookUrl: webhookUrlSchema,
+}).pick({
+  userId: true,
+  symbol: true,
+  condition: true,
+  threshold: true,
+  period: true,
+  webhookUrl: true,
+});
+
+// Alert form payload; the owner comes from the session and parameters are checked against the condition
+export const createAlertSchema = insertAlertSchema.omit({ userId: true }).superRefine((alert, ctx) => {
+  const needsPeriod = periodConditions.includes(alert.condition);
+  const needsThreshold = alert.condition !== "cross_above_sma" && alert.condition !== "cross_below_sma";
+
+  if (needsThreshold && !alert.threshold) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Threshold is required" });
+  }
+  if (!needsThreshold && alert.threshold) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: `Threshold is not used for ${alert.condition} alerts` });
+  }
+  if (needsPeriod && !alert.period) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["period"], message: "Period is required" });
+  }
+  if (!needsPeriod && alert.period) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["period"], message: `Period is not used for ${alert.condition} alerts` });
+  }
+});
+
+// Pausing, re-arming or pointing an alert at a different webhook
+export const updateAlertSchema = z.object({
+  active: z.boolean(),
+  webhookUrl: webhookUrlSchema,
+}).partial();
+
+// In-app notifications shown behind the header bell
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  alertId: integer("alert_id"),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  read: boolean("read").notNull().default(false),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  alertId: true,
+  title: true,
+  message: true,
+  createdAt: true,
+});
+
+// Marks the given notifications read, or all of them when no ids are sent
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
+});
+
+// How often a saved screen is re-run in the background; manual screens only run on request
+export const screenSchedules = ["manual", "hourly", "daily"] as const;
+
+// Saved stock screens. Scheduled screens notify their owner when new symbols start matching.
+export const screens = pgTable("screens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  criteria: jsonb("criteria").$type<ScreenCriteria>().notNull(),
+  schedule: text("schedule", { enum: screenSchedules }).notNull().default("manual"),
+  lastRunAt: timestamp("last_run_at"),
+  lastResult: jsonb("last_result").$type<ScreenerResult>(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const insertScreenSchema = z.object({
+  userId: z.number().int(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  criteria: screenCriteriaSchema,
+  schedule: z.enum(screenSchedules).default("manual"),
+});
+
+// Screen form payload; the owner comes from the session
+export const createScreenSchema = insertScreenSchema.omit({ userId: true });
+
+export const updateScreenSchema = createScreenSchema.partial();
+
+// Fantasy tokens issued by users. Balances and total supply only change through
+// the token ledger below.
+export const fantasyTokens = pgTable("fantasy_tokens", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull().unique(),
+  name: text("name").notNull(),
+  // Stock the token is themed on, if any
+  baseStock: text("base_stock"),
+  creatorId: integer("creator_id").notNull(),
+  // Price per token the initial supply was issued at
+  issuePrice: numeric("issue_price").notNull(),
+  totalSupply: numeric("total_supply").notNull(),
+  // Pegged tokens have their pool pulled to the base stock's price times this
+  // multiplier on a schedule; unpegged tokens float with trading
+  pegMultiplier: numeric("peg_multiplier"),
+  // Where the token's contract was deployed on the simulated chain; null until it's mined
+  contractAddress: text("contract_address"),
+  deployTxHash: text("deploy_tx_hash"),
+  deployBlockNumber: integer("deploy_block_number"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const fantasyTokenBalances = pgTable("fantasy_token_balances", {
+  id: serial("id").primaryKey(),
+  tokenId: integer("token_id").notNull(),
+  userId: integer("user_id").notNull(),
+  balance: numeric("balance").notNull(),
+}, (table) => [unique().on(table.tokenId, table.userId)]);
+
+// Seeds move the creator's tokens into the token's pool; buys and sells trade with it
+export const tokenTransferTypes = ["mint", "transfer", "burn", "seed", "buy", "sell"] as const;
+
+// Token ledger. A missing sender is the mint or the pool, a missing recipient the burn or the pool.
+export const fantasyTokenTransfers = pgTable("fantasy_token_transfers", {
+  id: serial("id").primaryKey(),
+  tokenId: integer("token_id").notNull(),
+  type: text("type", { enum: tokenTransferTypes }).notNull(),
+  fromUserId: integer("from_user_id"),
+  toUserId: integer("to_user_id"),
+  amount: numeric("amount").notNull(),
+  // The contract call mirroring this entry on the simulated chain; null until it's mined
+  txHash: text("tx_hash"),
+  blockNumber: integer("block_number"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Constant-product pool each token trades against. Part of the cash reserve is
+// virtual: pools open at the issue price without anyone paying cash in, and only
+// ever pay out cash that buyers put in.
+export const fantasyTokenPools = pgTable("fantasy_token_pools", {
+  id: serial("id").primaryKey(),
+  tokenId: integer("token_id").notNull().unique(),
+  tokenReserve: numeric("token_reserve").notNull(),
+  cashReserve: numeric("cash_reserve").notNull(),
+  virtualCash: numeric("virtual_cash").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Trades against a token's pool, priced by the pool and settled in paper trading cash
+export const fantasyTokenTrades = pgTable("fantasy_token_trades", {
+  id: serial("id").primaryKey(),
+  tokenId: integer("token_id").notNull(),
+  userId: integer("user_id").notNull(),
+  side: text("side", { enum: orderSides }).notNull(),
+  amount: numeric("amount").notNull(),
+  // Paid by the buyer or received by the seller, fee included
+  cash: numeric("cash").notNull(),
+  // Paid to the token's creator
+  fee: numeric("fee").notNull(),
+  // Pool price once the trade went through
+  price: numeric("price").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Pool prices of pegged tokens against their reference price, taken each time the pool is rebalanced
+export const fantasyTokenPegSamples = pgTable("fantasy_token_peg_samples", {
+  id: serial("id").primaryKey(),
+  tokenId: integer("token_id").notNull(),
+  // Base stock price times the peg multiplier; the pool price after rebalancing
+  referencePrice: numeric("reference_price").notNull(),
+  // Where trading had left the pool price; null for the sample taken when the token
+  // was pegged, since the gap from its price before says nothing about tracking
+  poolPrice: numeric("pool_price"),
+  sampledAt: timestamp("sampled_at").notNull(),
+});
+
+const tokenAmountSchema = z.coerce.number().positive("Amount must be positive").transform(String);
+
+const pegMultiplierSchema = z.coerce.number().positive("Multiplier must be positive").max(100).transform(String);
+
+export const insertFantasyTokenSchema = createInsertSchema(fantasyTokens, {
+  symbol: z.string().trim()
+    .regex(/^[A-Za-z0-9]{2,10}$/, "Symbol must be 2-10 letters or digits")
+    .transform(symbol => symbol.toUpperCase()),
+  name: z.string().trim().min(1, "Name is required").max(60),
+  baseStock: z.string().trim().transform(symbol => symbol.toUpperCase() || null).nullish(),
+  issuePrice: z.coerce.number().positive("Price must be positive").transform(String),
+  totalSupply: z.coerce.number().positive("Supply must be positive").transform(String),
+  pegMultiplier: pegMultiplierSchema.nullish(),
+}).pick({
+  symbol: true,
+  name: true,
+  baseStock: true,
+  creatorId: true,
+  issuePrice: true,
+  totalSupply: true,
+  pegMultiplier: true,
+});
+
+// Token creation payload; the creator comes from the session and receives the
+// supply, less the share placed in the token's pool
+export const createFantasyTokenSchema = insertFantasyTokenSchema.omit({ creatorId: true }).extend({
+  poolShare: z.coerce.number().min(1, "Pool share must be at least 1%").max(100).default(50),
+}).refine(token => !token.pegMultiplier || token.baseStock, {
+  message: "Pegged tokens need a base stock",
+  path: ["baseStock"],
+});
+
+// Pegging (with a multiplier) or unpegging (null) a token; only its creator may
+export const updateFantasyTokenSchema = z.object({
+  pegMultiplier: pegMultiplierSchema.nullable(),
+});
+
+export const insertFantasyTokenTransferSchema = createInsertSchema(fantasyTokenTransfers, {
+  amount: tokenAmountSchema,
+}).pick({
+  tokenId: true,
+  type: true,
+  fromUserId: true,
+  toUserId: true,
+  amount: true,
+});
+
+// Sending tokens from the session user's balance to another user
+export const tokenTransferSchema = z.object({
+  toUsername: z.string().trim().min(1, "Recipient is required"),
+  amount: tokenAmountSchema,
+});
+
+// Minting (creator only) or burning tokens on the session user's balance
+export const tokenSupplyChangeSchema = z.object({
+  amount: tokenAmountSchema,
+});
+
+// Most picks a league may allow on a roster
+export const MAX_ROSTER_SIZE = 15;
+
+// Fantasy leagues. Teams draft a roster under the salary cap before the season starts
+// and are ranked on the roster's return from the close before the season to each close in it.
+export const fantasyLeagues = pgTable("fantasy_leagues", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  creatorId: integer("creator_id").notNull(),
+  // Most a roster's picks may cost together, at their prices when drafted
+  salaryCap: numeric("salary_cap").notNull(),
+  // Most picks a roster may hold
+  rosterSize: integer("roster_size").notNull(),
+  // Midnight UTC of the season's first and last day
+  seasonStart: timestamp("season_start").notNull(),
+  seasonEnd: timestamp("season_end").notNull(),
+  // When the standings were last computed; null until the season's first scoring run
+  scoredAt: timestamp("scored_at"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// A user's team in a league; its roster is its picks below
+export const fantasyLeagueTeams = pgTable("fantasy_league_teams", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  joinedAt: timestamp("joined_at").notNull(),
+}, (table) => [unique().on(table.leagueId, table.userId)]);
+
+// Rosters draft listed stocks or fantasy tokens, by symbol
+export const rosterAssetTypes = ["stock", "token"] as const;
+
+export const fantasyRosterPicks = pgTable("fantasy_roster_picks", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  assetType: text("asset_type", { enum: rosterAssetTypes }).notNull(),
+  symbol: text("symbol").notNull(),
+  // Price when drafted, counted against the salary cap
+  salary: numeric("salary").notNull(),
+}, (table) => [unique().on(table.teamId, table.assetType, table.symbol)]);
+
+// Standings: each team's season-to-date return and rank at every trading day's close
+export const fantasyLeagueScores = pgTable("fantasy_league_scores", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  teamId: integer("team_id").notNull(),
+  // YYYY-MM-DD
+  day: text("day").notNull(),
+  returnPercent: numeric("return_percent").notNull(),
+  rank: integer("rank").notNull(),
+}, (table) => [unique().on(table.teamId, table.day)]);
+
+// Seasons run on whole UTC days
+const seasonDaySchema = z.coerce.date().transform(date => new Date(date.toISOString().slice(0, 10)));
+
+export const insertFantasyLeagueSchema = createInsertSchema(fantasyLeagues, {
+  name: z.string().trim().min(1, "Name is required").max(60),
+  salaryCap: z.coerce.number().positive("Salary cap must be positive").max(1_000_000).default(1000).transform(String),
+  rosterSize: z.coerce.number().int().min(1, "Rosters need at least one pick").max(MAX_ROSTER_SIZE).default(5),
+  seasonStart: seasonDaySchema,
+  seasonEnd: seasonDaySchema,
+}).pick({
+  name: true,
+  creatorId: true,
+  salaryCap: true,
+  rosterSize: true,
+  seasonStart: true,
+  seasonEnd: true,
+});
+
+// League creation payload; the creator comes from the session
+export const createFantasyLeagueSchema = insertFantasyLeagueSchema.omit({ creatorId: true })
+  .refine(league => league.seasonEnd > league.seasonStart, {
+    message: "Season must end after it starts",
+    path: ["seasonEnd"],
+  });
+
+export const insertFantasyLeagueTeamSchema = createInsertSchema(fantasyLeagueTeams, {
+  name: z.string().trim().min(1, "Team name is required").max(40),
+}).pick({
+  leagueId: true,
+  userId: true,
+  name: true,
+});
+
+// Joining a league as the session user
+export const joinFantasyLeagueSchema = insertFantasyLeagueTeamSchema.pick({ name: true });
+
+export const insertFantasyRosterPickSchema = createInsertSchema(fantasyRosterPicks).pick({
+  assetType: true,
+  symbol: true,
+  salary: true,
+});
+
+// Drafting the session user's whole roster; salaries come from current prices
+export const draftRosterSchema = z.object({
+  picks: z.array(z.object({
+    assetType: z.enum(rosterAssetTypes).default("stock"),
+    symbol: z.string().trim().min(1, "Symbol is required")
+      .transform(symbol => symbol.toUpperCase())
+      .refine(symbol => SYMBOL_PATTERN.test(symbol), "Not a valid symbol"),
+  })).min(1, "Pick at least one stock or token").max(MAX_ROSTER_SIZE, `Rosters can hold at most ${MAX_ROSTER_SIZE} picks`),
+}).refine(roster => new Set(roster.picks.map(pick => `${pick.assetType}:${pick.symbol}`)).size === roster.picks.length, {
+  message: "Each stock or token can only be picked once",
+  path: ["picks"],
+});
+
+export const insertFantasyLeagueScoreSchema = createInsertSchema(fantasyLeagueScores).pick({
+  teamId: true,
+  day: true,
+  returnPercent: true,
+  rank: true,
+});
+
+export const chartTypes = ["area", "line", "candlestick", "ohlc"] as const;
+export const chartScales = ["linear", "log", "percent"] as const;
+
+// Display settings used until a user saves their own
+export const defaultUserPreferences = {
+  chartType: "area",
+  chartScale: "linear",
+  showVolume: true,
+} as const;
+
+// Per-user display settings; one row per user once they change anything
+export const userPreferences = pgTable("user_preferences", {
+  userId: integer("user_id").primaryKey(),
+  chartType: text("chart_type", { enum: chartTypes }).notNull().default(defaultUserPreferences.chartType),
+  chartScale: text("chart_scale", { enum: chartScales }).notNull().default(defaultUserPreferences.chartScale),
+  showVolume: boolean("show_volume").notNull().default(defaultUserPreferences.showVolume),
+});
+
+export const updateUserPreferencesSchema = z.object({
+  chartType: z.enum(chartTypes),
+  chartScale: z.enum(chartScales),
+  showVolume: z.boolean(),
+}).partial();
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
-export type PortfolioStock = typeof portfolioStocks.$inferSelect;
-export type InsertPortfolioStock = z.infer<typeof insertPortfolioStockSchema>;
-
 export type WatchlistStock = typeof watchlistStocks.$inferSelect;
 export type InsertWatchlistStock = z.infer<typeof insertWatchlistStockSchema>;
 
 export type MarketIndex = typeof marketIndices.$inferSelect;
 export type InsertMarketIndex = z.infer<typeof insertMarketIndexSchema>;
+export type MarketIndexPoint = typeof marketIndexHistory.$inferSelect;
+export type InsertMarketIndexPoint = z.infer<typeof insertMarketIndexPointSchema>;
+// Latest session's intraday levels keyed by index name, served by /api/market/indices/intraday
+export type IndexSparklines = Record<string, { time: string; value: number }[]>;
+
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type UpdateAccount = z.infer<typeof updateAccountSchema>;
+export type CostBasisMethod = typeof costBasisMethods[number];
+
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type RecordTransaction = z.infer<typeof recordTransactionSchema>;
+export type AddHolding = z.infer<typeof addHoldingSchema>;
+export type TransactionType = typeof transactionTypes[number];
+
+export type Order = typeof orders.$inferSelect;
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type PlaceOrder = z.infer<typeof placeOrderSchema>;
+export type OrderSide = typeof orderSides[number];
+export type OrderType = typeof orderTypes[number];
+export type OrderStatus = typeof orderStatuses[number];
+
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+export type ChartType = typeof chartTypes[number];
+export type ChartScale = typeof chartScales[number];
+
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type CreateAlert = z.infer<typeof createAlertSchema>;
+export type UpdateAlert = z.infer<typeof updateAlertSchema>;
+export type AlertCondition = typeof alertConditions[number];
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+// GET /api/notifications: the latest notifications plus the badge count
+export type NotificationFeed = { notifications: Notification[]; unreadCount: number };
+
+export type Screen = typeof screens.$inferSelect;
+export type InsertScreen = z.infer<typeof insertScreenSchema>;
+export type UpdateScreen = z.infer<typeof updateScreenSchema>;
+export type ScreenSchedule = typeof screenSchedules[number];
+
+export type FantasyToken = typeof fantasyTokens.$inferSelect;
+export type InsertFantasyToken = z.infer<typeof insertFantasyTokenSchema>;
+export type FantasyTokenBalance = typeof fantasyTokenBalances.$inferSelect;
+export type FantasyTokenTransfer = typeof fantasyTokenTransfers.$inferSelect;
+export type InsertFantasyTokenTransfer = z.infer<typeof insertFantasyTokenTransferSchema>;
+export type TokenTransferType = typeof tokenTransferTypes[number];
+export type FantasyTokenPool = typeof fantasyTokenPools.$inferSelect;
+export type FantasyTokenTrade = typeof fantasyTokenTrades.$inferSelect;
+export type UpdateFantasyToken = z.infer<typeof updateFantasyTokenSchema>;
+export type FantasyTokenPegSample = typeof fantasyTokenPegSamples.$inferSelect;
+
+export type FantasyLeague = typeof fantasyLeagues.$inferSelect;
+export type InsertFantasyLeague = z.infer<typeof insertFantasyLeagueSchema>;
+export type FantasyLeagueTeam = typeof fantasyLeagueTeams.$inferSelect;
+export type InsertFantasyLeagueTeam = z.infer<typeof insertFantasyLeagueTeamSchema>;
+export type FantasyRosterPick = typeof fantasyRosterPicks.$inferSelect;
+export type InsertFantasyRosterPick = z.infer<typeof insertFantasyRosterPickSchema>;
+export type RosterAssetType = typeof rosterAssetTypes[number];
+export type DraftRoster = z.infer<typeof draftRosterSchema>;
+export type FantasyLeagueScore = typeof fantasyLeagueScores.$inferSelect;
+export type InsertFantasyLeagueScore = z.infer<typeof insertFantasyLeagueScoreSchema>;
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { indicatorDefinitions, indicatorId } from "./indicators";
+import { indicatorSpecSchema } from "./marketData";
+
+// Screener requests and results served by /api/screener and saved screens.
+// Percentages are percent values (2.5 means 2.5%).
+
+// Symbols the screener and the top movers list look at by default
+export const popularSymbols = [
+  "AAPL", "MSFT", "AMZN", "GOOGL", "META",
+  "TSLA", "NVDA", "AMD", "NFLX", "JPM",
+  "BAC", "DIS", "PLTR", "SNAP", "UBER",
+];
+
+// Where the symbols to screen come from: the popular list, the user's
+// watchlist or holdings, or a list given with the request
+export const screenerUniverses = ["popular", "watchlist", "portfolio", "custom"] as const;
+
+export const MAX_UNIVERSE_SYMBOLS = 100;
+export const MAX_SCREENER_FILTERS = 10;
+
+// Numeric fields that can be filtered and sorted on. rangePosition places the
+// price within its 52-week range: 0 at the low, 100 at the high.
+export const screenerFields = ["price", "changePercent", "volume", "marketCap", "peRatio", "rangePosition"] as const;
+
+// Sector names as reported by Yahoo Finance
+export const screenerSectors = [
+  "Basic Materials",
+  "Communication Services",
+  "Consumer Cyclical",
+  "Consumer Defensive",
+  "Energy",
+  "Financial Services",
+  "Healthcare",
+  "Industrials",
+  "Real Estate",
+  "Technology",
+  "Utilities",
+] as const;
+
+const optionalNumber = z.preprocess(value => value === "" || value === null ? undefined : value, z.coerce.number().optional());
+
+export const screenerFilterSchema = z.discriminatedUnion("type", [
+  // Keep symbols whose field lies within [min, max]; either bound may be left out
+  z.object({
+    type: z.literal("range"),
+    field: z.enum(screenerFields),
+    min: optionalNumber,
+    max: optionalNumber,
+  }),
+  z.object({
+    type: z.literal("sector"),
+    sectors: z.array(z.enum(screenerSectors)).min(1, "Pick at least one sector"),
+  }),
+  // Compare the latest daily value of an indicator line with a number or the
+  // price, e.g. RSI below 30 or price above SMA 200
+  z.object({
+    type: z.literal("indicator"),
+    // Stored in canonical form, e.g. "rsi:14"
+    indicator: indicatorSpecSchema.transform(indicatorId),
+    // Line of a multi-line indicator such as MACD; defaults to the first
+    line: z.string().optional(),
+    operator: z.enum(["above", "below"]),
+    value: z.union([z.literal("price"), z.coerce.number()]),
+  }),
+]);
+export type ScreenerFilter = z.infer<typeof screenerFilterSchema>;
+export type ScreenerField = typeof screenerFields[number];
+export type ScreenerUniverse = typeof screenerUniverses[number];
+export type ScreenerSector = typeof screenerSectors[number];
+
+const symbolSchema = z.string().trim().min(1).transform(symbol => symbol.toUpperCase());
+
+export const screenCriteriaSchema = z.object({
+  universe: z.enum(screenerUniverses).default("popular"),
+  // Symbols to screen when the universe is "custom"
+  symbols: z.array(symbolSchema).max(MAX_UNIVERSE_SYMBOLS).optional(),
+  filters: z.array(screenerFilterSchema).max(MAX_SCREENER_FILTERS).default([]),
+  sortBy: z.enum(screenerFields).default("changePercent"),
+  sortDirection: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(MAX_UNIVERSE_SYMBOLS).default(50),
+}).superRefine((criteria, ctx) => {
+  if (criteria.universe === "custom" && !criteria.symbols?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["symbols"], message: "List the symbols to screen" });
+  }
+
+  criteria.filters.forEach((filter, i) => {
+    if (filter.type === "range") {
+      if (filter.min === undefined && filter.max === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["filters", i, "min"], message: "Set a minimum or a maximum" });
+      } else if (filter.min !== undefined && filter.max !== undefined && filter.min > filter.max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["filters", i, "max"], message: "Maximum must not be below the minimum" });
+      }
+    }
+    if (filter.type === "indicator" && filter.line) {
+      const { lines, label } = indicatorDefinitions[indicatorName(filter.indicator)];
+      if (!lines.includes(filter.line)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["filters", i, "line"], message: `${label} has no ${filter.line} line` });
+      }
+    }
+  });
+});
+export type ScreenCriteria = z.infer<typeof screenCriteriaSchema>;
+
+// Name part of a canonical indicator id, e.g. "macd" for "macd:12:26:9"
+export function indicatorName(id: string): keyof typeof indicatorDefinitions {
+  return id.split(":")[0] as keyof typeof indicatorDefinitions;
+}
+
+export interface ScreenerRow {
+  symbol: string;
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  marketCap: number | null;
+  peRatio: number | null;
+  sector: string | null;
+  industry: string | null;
+  fiftyTwoWeekHigh: number | null;
+  fiftyTwoWeekLow: number | null;
+  rangePosition: number | null;
+  // Latest value of each indicator line the filters use, keyed "rsi:14" or "macd:12:26:9.signal"
+  indicators: Record<string, number | null>;
+}
+
+export interface ScreenerResult {
+  ranAt: string;
+  // Symbols in the universe, and how many passed every filter before the limit was applied
+  universeSize: number;
+  matched: number;
+  rows: ScreenerRow[];
+  // Universe symbols that couldn't be quoted
+  unavailable: string[];
+}
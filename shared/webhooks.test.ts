@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { isPrivateAddress, isPrivateHostname } from "./webhooks";
+import { insertAlertSchema } from "./schema";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    ["loopback", "127.0.0.1"],
+    ["loopback, anywhere in 127/8", "127.255.0.9"],
+    ["this network", "0.0.0.0"],
+    ["RFC 1918 10/8", "10.1.2.3"],
+    ["RFC 1918 172.16/12", "172.16.0.1"],
+    ["RFC 1918 172.16/12, top", "172.31.255.255"],
+    ["RFC 1918 192.168/16", "192.168.1.1"],
+    ["carrier-grade NAT", "100.64.0.1"],
+    ["link-local cloud metadata", "169.254.169.254"],
+    ["multicast", "224.0.0.1"],
+    ["IPv6 loopback", "::1"],
+    ["IPv6 unspecified", "::"],
+    ["IPv6 unique local fc00::/7", "fd12:3456:789a::1"],
+    ["IPv6 unique local, fc half", "fc00::1"],
+    ["IPv6 link-local", "fe80::1"],
+    ["IPv6 multicast", "ff02::1"],
+    ["IPv4-mapped loopback", "::ffff:127.0.0.1"],
+    ["IPv4-mapped loopback in hex", "::ffff:7f00:1"],
+    ["IPv4-mapped metadata", "::ffff:169.254.169.254"],
+    ["IPv4-compatible private", "::10.0.0.1"],
+  ])("flags %s (%s)", (_label, address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "8.8.8.8",
+    "172.15.255.255",
+    "172.32.0.1",
+    "100.128.0.1",
+    "169.255.0.1",
+    "2606:4700:4700::1111",
+    "::ffff:8.8.8.8",
+  ])("lets public %s through", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it("isn't fooled by names or malformed addresses", () => {
+    expect(isPrivateAddress("example.com")).toBe(false);
+    expect(isPrivateAddress("256.0.0.1")).toBe(false);
+    expect(isPrivateAddress("1::2::3")).toBe(false);
+  });
+});
+
+describe("isPrivateHostname", () => {
+  // Hostnames as `new URL` leaves them, which normalizes shorthand IPv4 forms
+  it.each([
+    "http://localhost/hook",
+    "http://LOCALHOST./hook",
+    "http://api.localhost/hook",
+    "http://127.0.0.1:8080/hook",
+    "http://2130706433/hook",
+    "http://0x7f.1/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://[fd00::1]/hook",
+    "http://10.0.0.1./hook",
+  ])("flags %s", (url) => {
+    expect(isPrivateHostname(new URL(url).hostname)).toBe(true);
+  });
+
+  it("leaves domain names to be checked once they resolve", () => {
+    expect(isPrivateHostname(new URL("https://hooks.example.com/alert").hostname)).toBe(false);
+  });
+});
+
+describe("alert webhook URLs", () => {
+  const alert = { userId: 1, symbol: "AAPL", condition: "price_above", threshold: "100" };
+  const webhookError = (webhookUrl: string) => {
+    const result = insertAlertSchema.safeParse({ ...alert, webhookUrl });
+    return result.success ? undefined : result.error.issues[0].message;
+  };
+
+  it("accepts public http and https URLs", () => {
+    expect(webhookError("https://hooks.example.com/alert")).toBeUndefined();
+    expect(webhookError("http://203.0.113.7/alert")).toBeUndefined();
+  });
+
+  it("refuses other schemes", () => {
+    expect(webhookError("ftp://hooks.example.com/alert")).toBe("Webhook URL must use http or https");
+    expect(webhookError("file:///etc/passwd")).toBe("Webhook URL must use http or https");
+  });
+
+  it("refuses private and loopback hosts", () => {
+    for (const url of ["http://127.0.0.1/hook", "http://169.254.169.254/latest/meta-data", "http://[::1]/hook", "http://192.168.0.10/hook"]) {
+      expect(webhookError(url)).toBe("Webhook URL must point to a public host");
+    }
+  });
+});
@@ -0,0 +1,72 @@
+// Webhook targets must be on the public internet: the server makes the request, so
+// a URL pointing at loopback, a private network or link-local space (where cloud
+// metadata services live) would let users reach hosts only the server can see.
+
+function parseIPv4(address: string): number[] | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+// The eight 16-bit groups of an IPv6 address, with any embedded IPv4 tail folded in
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  const tail = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const octets = parseIPv4(tail[2]);
+    if (!octets) return null;
+    text = `${tail[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string) => (part === "" ? [] : part.split(":"));
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 // "this network"
+    || a === 10
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || a === 127
+    || (a === 169 && b === 254) // link-local, including cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224; // multicast and reserved
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  // IPv4-mapped (::ffff:0:0/96) and IPv4-compatible (::/96, which covers :: and ::1)
+  // addresses reach the embedded IPv4 address
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  return (groups[0] & 0xfe00) === 0xfc00 // unique local
+    || (groups[0] & 0xffc0) === 0xfe80 // link-local
+    || (groups[0] & 0xff00) === 0xff00; // multicast
+}
+
+// Whether an IP address is loopback, private, link-local or otherwise not publicly
+// routable; false for anything that isn't an IP address
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 !== null && isPrivateIPv6(ipv6);
+}
+
+// Whether a URL hostname, as parsed by `new URL`, names a host users mustn't reach
+// through webhooks. Domain names other than localhost pass here and have to be
+// checked again once they resolve.
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+  return host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host);
+}